@@ -0,0 +1,89 @@
+// Password hashing and session tokens for local user accounts, built on Node's crypto module.
+// Passwords are stored as "salt:hash" using scrypt. Sessions are random tokens kept in a
+// cookie; the database only stores their SHA-256 hash, so a copy of it can't be used to sign in.
+
+const crypto = require('crypto');
+
+const SESSION_COOKIE = 'levelten_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Sessions last 30 days
+const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+function scrypt(password, salt) {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Hash a password with a new random salt
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const key = await scrypt(password, salt);
+  return `${salt}:${key.toString('hex')}`;
+}
+
+// Whether the password matches a hash from hashPassword
+async function verifyPassword(password, stored) {
+  const [salt, hash] = String(stored || '').split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const key = await scrypt(password, salt);
+  return expected.length === key.length && crypto.timingSafeEqual(expected, key);
+}
+
+// Why a password can't be used, or null if it's acceptable
+function passwordProblem(password) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+function createSessionToken() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function hashSessionToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Name/value pairs of a Cookie header
+function parseCookies(header) {
+  const cookies = {};
+  for (const part of String(header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) {
+      const name = part.slice(0, index).trim();
+      try {
+        cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+      } catch (err) {
+        // Ignore cookies that aren't valid URI components
+      }
+    }
+  }
+  return cookies;
+}
+
+// The session token sent with a request, if any
+function sessionTokenFrom(cookieHeader) {
+  return parseCookies(cookieHeader)[SESSION_COOKIE] || null;
+}
+
+// Set-Cookie value for a new session, or one that clears the cookie when token is null
+function sessionCookie(token, secure = false) {
+  const maxAge = token ? Math.floor(SESSION_TTL_MS / 1000) : 0;
+  return `${SESSION_COOKIE}=${token || ''}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure ? '; Secure' : ''}`;
+}
+
+module.exports = {
+  SESSION_TTL_MS,
+  hashPassword,
+  verifyPassword,
+  passwordProblem,
+  createSessionToken,
+  hashSessionToken,
+  sessionTokenFrom,
+  sessionCookie
+};
@@ -0,0 +1,140 @@
+// CSV reading and writing, and value formatting for exports. Fields are quoted as in src/models/csv.ts,
+// and goals read as they do on the scorecard (mirrors formatGoal in src/models/utils.ts) except
+// that none starts with "=", which spreadsheets would take for a formula.
+
+// Text that spreadsheets would run as a formula when it starts a cell
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A field quoted when it holds a comma, quote or line break, with quotes doubled (RFC 4180).
+// Text that would start a formula is written after an apostrophe, as spreadsheets show it.
+function csvField(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV text for rows of cells, with CRLF line endings as spreadsheets expect
+function toCsv(rows) {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Rows of fields from CSV text, the reverse of toCsv (mirrors parseCsv in src/models/csv.ts).
+// Quoted fields may hold commas, doubled quotes and line breaks; a byte order mark and blank
+// lines are skipped.
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function formatNumber(num, forceDecimals = false) {
+  if (Number.isInteger(num) && !forceDecimals) {
+    return new Intl.NumberFormat().format(num);
+  }
+  return new Intl.NumberFormat(undefined, {
+    minimumFractionDigits: forceDecimals ? 2 : 0,
+    maximumFractionDigits: 2
+  }).format(num);
+}
+
+function formatTimeValue(value, unit) {
+  const formattedNumber = formatNumber(value);
+  switch (unit) {
+    case 'sec':
+      return `${formattedNumber} sec`;
+    case 'min':
+      return `${formattedNumber} min`;
+    case 'hour':
+      return `${formattedNumber} hr${value !== 1 ? 's' : ''}`;
+    case 'day':
+      return `${formattedNumber} day${value !== 1 ? 's' : ''}`;
+    default:
+      return formattedNumber;
+  }
+}
+
+function formatValue(value, unit, valueType) {
+  switch (valueType) {
+    case 'dollars':
+      return `$${formatNumber(value, !Number.isInteger(value))}`;
+    case 'percent':
+      return `${formatNumber(value)}%`;
+    case 'time':
+      return formatTimeValue(value, unit);
+    default:
+      return `${formatNumber(value)}${unit}`;
+  }
+}
+
+// A goal ({ value, unit, operator, upperValue }) as shown on the scorecard, e.g. "≥45%", or
+// "exactly 100" for one the scorecard shows as "=100"
+function formatGoal(target, valueType) {
+  const value = formatValue(target.value, target.unit, valueType);
+  switch (target.operator) {
+    case 'gt':
+      return `>${value}`;
+    case 'lt':
+      return `<${value}`;
+    case 'gte':
+      return `≥${value}`;
+    case 'lte':
+      return `≤${value}`;
+    case 'eq':
+      return `exactly ${value}`;
+    case 'between':
+      return `${value}–${formatValue(target.upperValue ?? target.value, target.unit, valueType)}`;
+    default:
+      return value;
+  }
+}
+
+module.exports = {
+  csvField,
+  toCsv,
+  parseCsv,
+  formatGoal
+};
@@ -0,0 +1,23 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { csvField, toCsv, parseCsv, formatGoal } = require('./csv');
+
+test('csvField keeps text that starts like a formula from running in a spreadsheet', () => {
+  assert.equal(csvField('=HYPERLINK("http://example.com")'), `"'=HYPERLINK(""http://example.com"")"`);
+  assert.equal(csvField('+1 555 0100'), "'+1 555 0100");
+  assert.equal(csvField('-Churn'), "'-Churn");
+  assert.equal(csvField('@SUM(A1:A2)'), "'@SUM(A1:A2)");
+  assert.equal(csvField('\tIndented'), "'\tIndented");
+
+  // Numbers are left as they are, negative ones included
+  assert.equal(csvField(-300), '-300');
+  assert.equal(csvField('Revenue'), 'Revenue');
+});
+
+test('formatGoal writes exact goals without an equals sign', () => {
+  assert.equal(formatGoal({ value: 100, unit: '', operator: 'eq' }, 'number'), 'exactly 100');
+  assert.equal(formatGoal({ value: 45, unit: '%', operator: 'gte' }, 'percent'), '≥45%');
+
+  const [[goal]] = parseCsv(toCsv([[formatGoal({ value: 100, unit: '', operator: 'eq' }, 'number')]]));
+  assert.equal(goal, 'exactly 100');
+});
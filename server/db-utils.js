@@ -4,6 +4,7 @@ require('dotenv').config();
 const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
+const { AsyncLocalStorage } = require('async_hooks');
 
 // Determine database path from environment variable or use default
 const DB_PATH = process.env.DB_PATH || path.join(__dirname, '..', 'data');
@@ -115,6 +116,96 @@ async function executeTransaction(db, queries) {
   });
 }
 
+// Set while a withTransaction callback runs. Every query shares one connection, so whatever
+// runs on it between BEGIN and COMMIT is part of the transaction: only the callback's own
+// statements may, and everything else waits on the queue below until the transaction ends.
+const transactionScope = new AsyncLocalStorage();
+
+// Transactions and statements from outside them waiting for the connection, in the order they came
+const waiting = [];
+let transactionOpen = false;
+let statementsRunning = 0; // Statements from outside a transaction that haven't called back yet
+
+// Start what is waiting, in order, until it reaches a transaction that has to wait for the
+// statements before it to finish
+function admitWaiting() {
+  while (waiting.length > 0 && !transactionOpen) {
+    if (waiting[0].transaction && statementsRunning > 0) {
+      return;
+    }
+    waiting.shift().start();
+  }
+}
+
+// Make the connection's run, get and all wait while a transaction started with withTransaction
+// is open, unless they are part of it. Statements made from sqlite3 callbacks lose track of the
+// transaction they belong to, so transactions must use the promise helpers above.
+function guardConnection(db) {
+  ['run', 'get', 'all'].forEach(method => {
+    const original = db[method];
+    db[method] = function(...args) {
+      if (transactionScope.getStore()) {
+        return original.apply(db, args);
+      }
+
+      const callback = typeof args[args.length - 1] === 'function' ? args.pop() : null;
+      const start = () => {
+        statementsRunning++;
+        original.call(db, ...args, function(err, ...results) {
+          statementsRunning--;
+          admitWaiting();
+          if (callback) {
+            callback.call(this, err, ...results);
+          } else if (err) {
+            console.error('Error running query', args[0], err);
+          }
+        });
+      };
+
+      if (transactionOpen || waiting.length > 0) {
+        waiting.push({ transaction: false, start });
+      } else {
+        start();
+      }
+      return db;
+    };
+  });
+  return db;
+}
+
+// Run work() between BEGIN and COMMIT, rolling back and rethrowing if it fails. The transaction
+// waits for the statements already running and holds back everything else on a guarded
+// connection until it ends; work must not start another transaction.
+function withTransaction(db, work) {
+  return new Promise((resolve, reject) => {
+    waiting.push({
+      transaction: true,
+      start: () => {
+        transactionOpen = true;
+        transactionScope.run(true, async () => {
+          try {
+            await run(db, 'BEGIN TRANSACTION');
+            try {
+              const value = await work();
+              await run(db, 'COMMIT');
+              resolve(value);
+            } catch (err) {
+              await run(db, 'ROLLBACK');
+              throw err;
+            }
+          } catch (err) {
+            reject(err);
+          } finally {
+            transactionOpen = false;
+            admitWaiting();
+          }
+        });
+      }
+    });
+    admitWaiting();
+  });
+}
+
 // Backup the database
 function backupDatabase() {
   return new Promise((resolve, reject) => {
@@ -144,5 +235,7 @@ module.exports = {
   all,
   get,
   executeTransaction,
+  guardConnection,
+  withTransaction,
   backupDatabase
 };
\ No newline at end of file
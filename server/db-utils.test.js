@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const os = require('node:os');
+const sqlite3 = require('sqlite3');
+
+// db-utils makes sure its data directory exists when it loads
+process.env.DB_PATH = os.tmpdir();
+const dbUtils = require('./db-utils');
+
+function openMemoryDatabase() {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(':memory:', err => (err ? reject(err) : resolve(dbUtils.guardConnection(db))));
+  });
+}
+
+test('statements made while a transaction is open are not rolled back with it', async () => {
+  const db = await openMemoryDatabase();
+  await dbUtils.run(db, 'CREATE TABLE notes (text TEXT)');
+
+  let releaseTransaction;
+  const transaction = dbUtils.withTransaction(db, async () => {
+    await dbUtils.run(db, "INSERT INTO notes (text) VALUES ('in the transaction')");
+    await new Promise(resolve => { releaseTransaction = resolve; });
+    throw new Error('rolled back');
+  });
+
+  // Wait until the transaction has inserted its row
+  while (!releaseTransaction) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  const outside = dbUtils.run(db, "INSERT INTO notes (text) VALUES ('outside')");
+  const callbackStyle = new Promise((resolve, reject) => {
+    db.run("INSERT INTO notes (text) VALUES ('callback')", err => (err ? reject(err) : resolve()));
+  });
+
+  releaseTransaction();
+  await assert.rejects(transaction, /rolled back/);
+  await Promise.all([outside, callbackStyle]);
+
+  const rows = await dbUtils.all(db, 'SELECT text FROM notes ORDER BY rowid');
+  assert.deepEqual(rows.map(row => row.text), ['outside', 'callback']);
+  await new Promise(resolve => db.close(resolve));
+});
+
+test('a transaction waits for the statements already running', async () => {
+  const db = await openMemoryDatabase();
+  await dbUtils.run(db, 'CREATE TABLE notes (text TEXT)');
+
+  const before = dbUtils.run(db, "INSERT INTO notes (text) VALUES ('before')");
+  const transaction = dbUtils.withTransaction(db, async () => {
+    await dbUtils.run(db, "INSERT INTO notes (text) VALUES ('in the transaction')");
+    throw new Error('rolled back');
+  });
+
+  await before;
+  await assert.rejects(transaction, /rolled back/);
+
+  const rows = await dbUtils.all(db, 'SELECT text FROM notes');
+  assert.deepEqual(rows.map(row => row.text), ['before']);
+  await new Promise(resolve => db.close(resolve));
+});
@@ -0,0 +1,243 @@
+// Formula helpers for calculated metrics. Values are evaluated on the client
+// (src/models/formula.ts); the server validates formulas, keeps their references
+// up to date when a metric is renamed, and evaluates them only for exports.
+
+const OPERATOR_CHARS = '+-*/()';
+
+// Normalize a metric name for matching formula references
+function nameKey(name) {
+  return String(name).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Split a formula into tokens, keeping their positions so references can be rewritten
+function tokenize(formula) {
+  const tokens = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (OPERATOR_CHARS.includes(char)) {
+      tokens.push({ type: char === '(' || char === ')' ? 'paren' : 'operator', value: char, start: i, end: i + 1 });
+      i++;
+    } else if (char === '[') {
+      const close = formula.indexOf(']', i);
+      if (close === -1) {
+        throw new Error('Missing closing ] for metric name');
+      }
+      tokens.push({ type: 'name', value: formula.slice(i + 1, close).trim(), start: i, end: close + 1 });
+      i = close + 1;
+    } else {
+      let end = i;
+      while (end < formula.length && !OPERATOR_CHARS.includes(formula[end]) && formula[end] !== '[') {
+        end++;
+      }
+      const text = formula.slice(i, end).trim();
+      const type = /^\d*\.?\d+$/.test(text) ? 'number' : 'name';
+      tokens.push({ type, value: text, start: i, end: i + formula.slice(i, end).trimEnd().length });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+// Check the token sequence is a well-formed expression: operands and binary
+// operators alternate, unary minus is allowed before an operand, parens balance
+function checkSyntax(tokens) {
+  if (tokens.length === 0) {
+    throw new Error('Formula is empty');
+  }
+
+  let expectOperand = true;
+  let depth = 0;
+
+  tokens.forEach(token => {
+    if (expectOperand) {
+      if (token.type === 'number' || token.type === 'name') {
+        expectOperand = false;
+      } else if (token.value === '(') {
+        depth++;
+      } else if (token.value !== '-') {
+        throw new Error(`Unexpected "${token.value}"`);
+      }
+    } else if (token.type === 'operator') {
+      expectOperand = true;
+    } else if (token.value === ')') {
+      depth--;
+      if (depth < 0) {
+        throw new Error('Unexpected ")"');
+      }
+    } else {
+      throw new Error(`Unexpected "${token.value}"`);
+    }
+  });
+
+  if (expectOperand) {
+    throw new Error('Formula ends unexpectedly');
+  }
+  if (depth > 0) {
+    throw new Error('Missing closing parenthesis');
+  }
+}
+
+// Names of the metrics a formula refers to; throws on syntax errors
+function getReferences(formula) {
+  const tokens = tokenize(formula);
+  checkSyntax(tokens);
+  return tokens.filter(token => token.type === 'name').map(token => token.value);
+}
+
+// Whether a formula refers to the named metric
+function referencesMetric(formula, metricName) {
+  try {
+    return getReferences(formula).some(name => nameKey(name) === nameKey(metricName));
+  } catch (err) {
+    return false;
+  }
+}
+
+// Validate a formula for the named metric against all metrics ({ name, formula }).
+// Returns an error message, or null if the formula is valid.
+function validateFormula(formula, metricName, metrics) {
+  const byName = new Map(metrics.map(metric => [nameKey(metric.name), metric]));
+
+  let references;
+  try {
+    references = getReferences(formula);
+  } catch (err) {
+    return err.message;
+  }
+
+  const missing = references.filter(name => !byName.has(nameKey(name)));
+  if (missing.length > 0) {
+    return `Unknown metric${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+  }
+
+  const formulaFor = name =>
+    nameKey(name) === nameKey(metricName) ? formula : (byName.get(nameKey(name)) || {}).formula;
+
+  const visit = (name, path) => {
+    if (path.includes(nameKey(name))) {
+      return `Circular reference: ${[...path, nameKey(name)].map(key => (byName.get(key) || { name: metricName }).name).join(' → ')}`;
+    }
+    const dependencyFormula = formulaFor(name);
+    if (!dependencyFormula) {
+      return null;
+    }
+    let dependencies;
+    try {
+      dependencies = getReferences(dependencyFormula);
+    } catch (err) {
+      return null;
+    }
+    for (const dependency of dependencies) {
+      const cycle = visit(dependency, [...path, nameKey(name)]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  return visit(metricName, []);
+}
+
+// Evaluate a formula, looking up each referenced metric's value by name. Returns null
+// when an input is missing, on division by zero, or if the formula can't be parsed.
+function evaluate(formula, lookup) {
+  let tokens;
+  try {
+    tokens = tokenize(formula);
+    checkSyntax(tokens);
+  } catch (err) {
+    return null;
+  }
+
+  let pos = 0;
+  const peek = () => (pos < tokens.length ? tokens[pos].value : null);
+  const combine = (left, operator, right) => {
+    if (left === null || right === null) {
+      return null;
+    }
+    switch (operator) {
+      case '+':
+        return left + right;
+      case '-':
+        return left - right;
+      case '*':
+        return left * right;
+      default:
+        return right === 0 ? null : left / right;
+    }
+  };
+
+  // Recursive descent over the tokens checkSyntax accepted: sums of products of factors
+  const factor = () => {
+    const token = tokens[pos++];
+    if (token.value === '-') {
+      const operand = factor();
+      return operand === null ? null : -operand;
+    }
+    if (token.value === '(') {
+      const value = expression();
+      pos++; // The closing paren
+      return value;
+    }
+    return token.type === 'number' ? parseFloat(token.value) : lookup(token.value);
+  };
+  const term = () => {
+    let value = factor();
+    while (peek() === '*' || peek() === '/') {
+      const operator = tokens[pos++].value;
+      value = combine(value, operator, factor());
+    }
+    return value;
+  };
+  const expression = () => {
+    let value = term();
+    while (peek() === '+' || peek() === '-') {
+      const operator = tokens[pos++].value;
+      value = combine(value, operator, term());
+    }
+    return value;
+  };
+
+  const result = expression();
+  return result === null || !isFinite(result) ? null : result;
+}
+
+// Rewrite references to a renamed metric; returns the formula unchanged if it doesn't refer to it
+function renameReference(formula, oldName, newName) {
+  let tokens;
+  try {
+    tokens = tokenize(formula);
+  } catch (err) {
+    return formula;
+  }
+
+  // Bracket the new name if it wouldn't survive tokenizing on its own
+  const replacement = /[+\-*/()[\]]/.test(newName) || /^\d*\.?\d+$/.test(newName.trim())
+    ? `[${newName}]`
+    : newName;
+
+  let result = formula;
+  tokens
+    .filter(token => token.type === 'name' && nameKey(token.value) === nameKey(oldName))
+    .reverse()
+    .forEach(token => {
+      result = result.slice(0, token.start) + replacement + result.slice(token.end);
+    });
+  return result;
+}
+
+module.exports = {
+  nameKey,
+  evaluate,
+  getReferences,
+  referencesMetric,
+  validateFormula,
+  renameReference
+};
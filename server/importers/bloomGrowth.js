@@ -0,0 +1,28 @@
+// Bloom Growth scorecards exported to CSV: a row per measurable with its owner (the accountable
+// user), goal, goal direction and units, then a column per week. Range goals keep their upper
+// bound in the alternate goal.
+const { csvImporter } = require('./scorecardCsv');
+
+module.exports = csvImporter({
+  id: 'bloom-growth',
+  name: 'Bloom Growth',
+  instructions: 'Export the scorecard from Bloom Growth to CSV (or to Excel, saved as CSV), then paste or choose the file.',
+  columns: {
+    id: ['Measurable Id', 'Measurable ID', 'Id'],
+    title: ['Measurable', 'Measurable Name', 'Title'],
+    owner: ['Owner', 'Accountable', 'Accountable User'],
+    email: ['Owner Email', 'Accountable Email', 'Email'],
+    goal: ['Goal', 'Target'],
+    operator: ['Goal Direction', 'Direction', 'Goal Type'],
+    upperGoal: ['Alt Goal', 'Alternate Goal'],
+    unit: ['Units', 'Unit']
+  },
+  operators: {
+    'greater than or equal to goal': 'gte',
+    'greater than goal': 'gt',
+    'less than or equal to goal': 'lte',
+    'less than goal': 'lt',
+    'equal to goal': 'eq',
+    'between goals': 'between'
+  }
+});
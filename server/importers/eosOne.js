@@ -0,0 +1,151 @@
+// Reading EOS One scorecard exports ({ measurables, dates }), the "eos.json" file, into the shape
+// the importer works with (see index.js). Nothing here touches the database.
+
+const weekCalendar = require('../weeks');
+
+const operatorMap = {
+  Greater: 'gt',
+  GreaterOrEqual: 'gte',
+  Less: 'lt',
+  LessOrEqual: 'lte',
+  Equal: 'eq',
+  Between: 'between'
+};
+
+const unitMap = {
+  Number: '',
+  Percent: '%',
+  Dollar: '$',
+  Hours: 'hour'
+};
+
+// Scales only apply to plain numbers
+const valueScaleMap = {
+  One: '',
+  Thousand: 'k',
+  Million: 'm',
+  Billion: 'b'
+};
+
+const valueTypeMap = {
+  Number: 'number',
+  Percent: 'percent',
+  Dollar: 'dollars',
+  Hours: 'time'
+};
+
+// Why the export can't be read at all, or null if it can
+function dataProblem(data) {
+  if (!data || !Array.isArray(data.measurables) || !Array.isArray(data.dates)) {
+    return 'Invalid EOS data format: missing measurables or dates arrays';
+  }
+  return null;
+}
+
+// The calendar day (YYYY-MM-DD) an EOS date falls on. Dates without a time are taken as
+// written; others are read in the organization's time zone.
+function eosDay(text, timeZone) {
+  if (typeof text !== 'string') {
+    return null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return text;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : weekCalendar.calendarDate(date, timeZone);
+}
+
+// Why a measurable can't be imported, or null if it can
+function measurableProblem(measurable) {
+  if (!measurable || !measurable.title) {
+    return 'No title';
+  }
+  if (!measurable.ownerName) {
+    return 'No owner';
+  }
+  if (typeof measurable.goalValue !== 'number' || !isFinite(measurable.goalValue)) {
+    return 'No goal value';
+  }
+  return null;
+}
+
+// A measurable's name, goal, value type and the unit its values are recorded in
+function metricFields(measurable) {
+  const operator = operatorMap[measurable.comparison] || 'gte';
+  const unit = measurable.unitOfMeasure === 'Number' && measurable.valueScale
+    ? valueScaleMap[measurable.valueScale] || ''
+    : unitMap[measurable.unitOfMeasure] || '';
+
+  return {
+    name: String(measurable.title).trim(),
+    valueType: valueTypeMap[measurable.unitOfMeasure] || 'number',
+    unit,
+    target: {
+      value: measurable.goalValue,
+      unit,
+      operator,
+      // Range goals carry their upper bound separately from goalValue
+      ...(operator === 'between' && measurable.goalValueMax !== undefined && measurable.goalValueMax !== null && {
+        upperValue: measurable.goalValueMax
+      })
+    }
+  };
+}
+
+// Weeks are the export's dates, kept as EOS One has them; values refer to them by interval
+function read(data, settings) {
+  const weeks = [];
+  data.dates.forEach(date => {
+    const day = date && eosDay(date.fromDate, settings.timeZone);
+    if (day) {
+      weeks.push({ key: date.intervalId, day, name: `Week ${date.intervalNo}`, start_date: date.fromDate, end_date: date.toDate });
+    }
+  });
+  const intervals = new Set(weeks.map(week => week.key));
+
+  const measurables = data.measurables.map((measurable, index) => {
+    const problem = measurableProblem(measurable);
+    const entry = {
+      id: measurable && measurable.id !== undefined && measurable.id !== null ? String(measurable.id) : null,
+      name: measurable && measurable.title ? String(measurable.title).trim() : `Measurable ${index + 1}`,
+      notes: [],
+      values: []
+    };
+    if (problem) {
+      return { ...entry, problem };
+    }
+
+    const values = (measurable.values || [])
+      .filter(eosValue => eosValue && eosValue.value !== null && eosValue.value !== undefined && eosValue.value !== '')
+      .map(eosValue => {
+        const value = typeof eosValue.value === 'string' ? Number(eosValue.value) : eosValue.value;
+        if (!intervals.has(eosValue.intervalId)) {
+          return { problem: `No date for interval ${eosValue.intervalId}` };
+        }
+        if (typeof value !== 'number' || !isFinite(value)) {
+          return { problem: `"${eosValue.value}" isn't a number` };
+        }
+        return { weekKey: eosValue.intervalId, value };
+      });
+
+    return {
+      ...entry,
+      ownerName: measurable.ownerName,
+      ownerEmail: measurable.ownerEmail || null,
+      sequence: measurable.sequence,
+      fields: metricFields(measurable),
+      values
+    };
+  });
+
+  return { weeks, measurables };
+}
+
+module.exports = {
+  id: 'eos-one',
+  name: 'EOS One',
+  fileType: 'json',
+  instructions: 'Paste or choose the "eos.json" file EOS One exports.',
+  dataProblem,
+  read
+};
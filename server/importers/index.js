@@ -0,0 +1,36 @@
+// Importers for the scorecard exports of EOS tools. Each reads its tool's export into one shape,
+// so people, weeks and metrics are matched and saved the same way whichever tool it came from
+// (see planEosImport in server.js):
+//
+//   weeks: [{ key, day, name, start_date, end_date }] - day is the YYYY-MM-DD the week starts,
+//     which matches it to a stored week; the rest describe it if it's new
+//   measurables: [{
+//     id, name - the tool's id for it (prefixed with the importer's, except for EOS One) if it
+//       has one, so importing a newer export updates the same metric
+//     problem - why it can't be imported; nothing else is needed if it's set
+//     ownerName, ownerEmail - the email is null if the export only has names
+//     sequence - its position on the scorecard, if the export has one
+//     fields - { name, valueType, unit, target } for the metric
+//     values - [{ weekKey, value }], or [{ problem }] for those that can't be read
+//     notes - anything else the import report should mention
+//   }]
+//
+// An importer has an id, a name, the fileType of its export ('json', or 'csv' sent as text) and
+// instructions for finding it, with dataProblem(data) saying why an export can't be read (or null)
+// and read(data, settings) reading one that can.
+
+const eosOne = require('./eosOne');
+const ninety = require('./ninety');
+const bloomGrowth = require('./bloomGrowth');
+const tractionTools = require('./tractionTools');
+
+const importers = [eosOne, ninety, bloomGrowth, tractionTools];
+
+function findImporter(id) {
+  return importers.find(importer => importer.id === id) || null;
+}
+
+module.exports = {
+  importers,
+  findImporter
+};
@@ -0,0 +1,26 @@
+// Ninety scorecards, exported to Excel and saved as CSV: a row per KPI with its title, owner,
+// goal, goal orientation and unit, then a column per week headed by its dates
+const { csvImporter } = require('./scorecardCsv');
+
+module.exports = csvImporter({
+  id: 'ninety',
+  name: 'Ninety',
+  instructions: 'Export the scorecard from Ninety to Excel, save it as CSV, then paste or choose the file.',
+  columns: {
+    id: ['KPI ID', 'ID'],
+    title: ['Title', 'KPI', 'KPI Title'],
+    owner: ['Owner', 'Owner Name'],
+    email: ['Owner Email', 'Email'],
+    goal: ['Goal'],
+    operator: ['Goal Orientation', 'Orientation', 'Operator'],
+    upperGoal: ['Max Goal', 'Goal Max'],
+    unit: ['Unit', 'Units', 'Unit Type']
+  },
+  operators: {
+    'inside min and max': 'between',
+    'inside range': 'between'
+  },
+  units: {
+    'time': { valueType: 'time', unit: 'hour' }
+  }
+});
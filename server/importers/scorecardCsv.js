@@ -0,0 +1,340 @@
+// Reading scorecards exported to CSV (or to Excel and saved as CSV) in the layout most EOS tools
+// share: a row per measurable with its title, owner and goal, then a column per week headed by its
+// date. Each tool's module names its columns and adds the words it uses for comparisons and units;
+// this reads them into the shape the importer works with (see index.js).
+
+const weekCalendar = require('../weeks');
+const { parseCsv } = require('../csv');
+
+// Comparisons as the tools write them, either in a column of their own or ahead of the goal
+const operatorWords = {
+  '>=': 'gte',
+  '=>': 'gte',
+  '≥': 'gte',
+  'at least': 'gte',
+  'greater than or equal to': 'gte',
+  'greater than or equal': 'gte',
+  '>': 'gt',
+  'greater than': 'gt',
+  'more than': 'gt',
+  'above': 'gt',
+  '<=': 'lte',
+  '=<': 'lte',
+  '≤': 'lte',
+  'at most': 'lte',
+  'less than or equal to': 'lte',
+  'less than or equal': 'lte',
+  '<': 'lt',
+  'less than': 'lt',
+  'fewer than': 'lt',
+  'below': 'lt',
+  '=': 'eq',
+  '==': 'eq',
+  'equal to': 'eq',
+  'equals': 'eq',
+  'exactly': 'eq',
+  'between': 'between',
+  'range': 'between'
+};
+
+const numberType = { valueType: 'number', unit: '' };
+const moneyType = { valueType: 'dollars', unit: '$' };
+const percentType = { valueType: 'percent', unit: '%' };
+
+// Units as the tools name them. Scorecards have one kind of money, so any currency is read as it.
+const unitWords = {
+  '': numberType,
+  'number': numberType,
+  'numeric': numberType,
+  '#': numberType,
+  'count': numberType,
+  'none': numberType,
+  'yes/no': numberType,
+  'currency': moneyType,
+  'money': moneyType,
+  'dollar': moneyType,
+  'dollars': moneyType,
+  '$': moneyType,
+  'usd': moneyType,
+  '€': moneyType,
+  '£': moneyType,
+  'percent': percentType,
+  'percentage': percentType,
+  '%': percentType,
+  'seconds': { valueType: 'time', unit: 'sec' },
+  'second': { valueType: 'time', unit: 'sec' },
+  'minutes': { valueType: 'time', unit: 'min' },
+  'minute': { valueType: 'time', unit: 'min' },
+  'hours': { valueType: 'time', unit: 'hour' },
+  'hour': { valueType: 'time', unit: 'hour' },
+  'days': { valueType: 'time', unit: 'day' },
+  'day': { valueType: 'time', unit: 'day' }
+};
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Cells that mean there's no value for the week
+const emptyCell = /^(|-|–|—|n\/?a)$/i;
+
+// A date as YYYY-MM-DD, or null if the parts don't make one
+function isoDate(year, month, day) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// A single date as YYYY-MM-DD: 2024-01-07, 1/7/2024, 1/7/24, Jan 7, 2024 or 7 Jan 2024; null if it isn't one
+function singleDate(text) {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text);
+  if (iso) {
+    return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/.exec(text);
+  if (us) {
+    const year = Number(us[3]);
+    return isoDate(year < 100 ? 2000 + year : year, Number(us[1]), Number(us[2]));
+  }
+  const monthFirst = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(text);
+  const dayFirst = /^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/i.exec(text);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst ? [dayFirst[2], dayFirst[1], dayFirst[3]] : [];
+  const month = monthName ? monthNames.indexOf(monthName.toLowerCase()) + 1 : 0;
+  return month > 0 ? isoDate(Number(year), month, Number(day)) : null;
+}
+
+// The date a week column's header gives, as YYYY-MM-DD. A range ("1/1/2024 - 1/7/2024") gives its
+// first date, taking the year from its end if only that has one ("Dec 30 - Jan 5, 2025").
+// Null if it isn't a date.
+function headerDate(text) {
+  const parts = text.trim().split(/\s+(?:-|–|to)\s+|\s*–\s*/i);
+  const start = singleDate(parts[0]);
+  const end = parts.length > 1 ? singleDate(parts[parts.length - 1]) : null;
+  if (start || !end) {
+    return start;
+  }
+
+  const withYear = year => singleDate(`${parts[0]}, ${year}`) || singleDate(`${parts[0]}/${year}`);
+  const sameYear = withYear(end.slice(0, 4));
+  return sameYear && sameYear > end ? withYear(Number(end.slice(0, 4)) - 1) : sameYear;
+}
+
+// A number as the tools format them: "1,234", "$1.2k", "45%" or "(300)" for -300, with Yes and No
+// as 1 and 0. Null if it isn't one.
+function parseAmount(text) {
+  let cleaned = String(text).trim().toLowerCase();
+  if (/^(yes|true)$/.test(cleaned)) {
+    return 1;
+  }
+  if (/^(no|false)$/.test(cleaned)) {
+    return 0;
+  }
+
+  const negative = /^\(.+\)$/.test(cleaned);
+  cleaned = cleaned.replace(/^\((.+)\)$/, '$1').replace(/[$€£,%\s]/g, '');
+  const scale = { k: 1e3, m: 1e6, b: 1e9 }[cleaned.slice(-1)];
+  if (scale) {
+    cleaned = cleaned.slice(0, -1);
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return null;
+  }
+
+  // Rounded so scaling doesn't leave binary noise, e.g. 1.1k as 1100.0000000000002
+  const value = Number((Number(cleaned) * (scale || 1)).toPrecision(12));
+  return negative ? -value : value;
+}
+
+// The comparison a goal starts with ("≥ 50", "at least 50") and the rest of it, or null
+function leadingOperator(text, operators) {
+  const lower = text.toLowerCase();
+  const word = Object.keys(operators)
+    .filter(key => lower.startsWith(key) && !/[a-z]/.test(lower.charAt(key.length)))
+    .sort((a, b) => b.length - a.length)[0];
+  return word ? { operator: operators[word], rest: text.slice(word.length).trim() } : null;
+}
+
+// A goal from its cell and, where the tool keeps them apart, its comparison and upper bound.
+// The apostrophe spreadsheets keep ahead of text that would otherwise be a formula is dropped.
+// Returns { target } without the unit, or { problem }.
+function parseGoal(goalText, operatorText, upperText, operators) {
+  let operator = null;
+  if (operatorText) {
+    operator = operators[operatorText.toLowerCase()] || null;
+    if (!operator) {
+      return { problem: `Unknown goal comparison "${operatorText}"` };
+    }
+  }
+
+  let text = goalText.replace(/^'/, '');
+  const leading = leadingOperator(text, operators);
+  if (leading) {
+    operator = operator || leading.operator;
+    text = leading.rest;
+  }
+  if (/\+$/.test(text)) {
+    operator = operator || 'gte';
+    text = text.slice(0, -1);
+  }
+
+  // "10 - 20", "10 to 20" or "between 10 and 20"
+  const range = /^(.+?)(?:\s+(?:-|to|and)\s+|\s*–\s*)(.+)$/i.exec(text);
+  if (range && parseAmount(range[1]) !== null && parseAmount(range[2]) !== null) {
+    const [low, high] = [parseAmount(range[1]), parseAmount(range[2])].sort((a, b) => a - b);
+    return { target: { value: low, operator: 'between', upperValue: high } };
+  }
+
+  const value = parseAmount(text);
+  if (value === null) {
+    return { problem: text ? `"${goalText}" isn't a goal` : 'No goal value' };
+  }
+  operator = operator || 'gte';
+  if (operator !== 'between') {
+    return { target: { value, operator } };
+  }
+
+  const upperValue = upperText ? parseAmount(upperText) : null;
+  if (upperValue === null) {
+    return { problem: 'No upper goal for a range' };
+  }
+  return { target: { value: Math.min(value, upperValue), operator, upperValue: Math.max(value, upperValue) } };
+}
+
+// Make an importer for a tool's CSV export from its conventions:
+//   columns: the header names each part may have, ignoring case; title and goal are required,
+//            and id, owner, email, operator, upperGoal and unit are read when present
+//   operators, units: the tool's own words for comparisons and units (in lower case), added to
+//            the shared ones
+function csvImporter({ id, name, instructions, columns, operators = {}, units = {} }) {
+  const operatorTable = { ...operatorWords, ...operators };
+  const unitTable = { ...unitWords, ...units };
+  const matches = (cell, part) => (columns[part] || []).some(header => header.toLowerCase() === cell.trim().toLowerCase());
+
+  // The header row, which may follow a few rows of titles, and where each part is in it
+  const layout = rows => {
+    const headerIndex = rows.findIndex(row => row.some(cell => matches(cell, 'title')));
+    if (headerIndex < 0) {
+      return null;
+    }
+    const header = rows[headerIndex];
+    const column = part => header.findIndex(cell => matches(cell, part));
+    const weekColumns = header
+      .map((cell, index) => ({ index, header: cell.trim(), date: headerDate(cell) }))
+      .filter(weekColumn => weekColumn.date);
+    return {
+      headerIndex,
+      header,
+      columns: Object.fromEntries(Object.keys(columns).map(part => [part, column(part)])),
+      weekColumns
+    };
+  };
+
+  function dataProblem(data) {
+    if (typeof data !== 'string' || !data.trim()) {
+      return `Invalid ${name} data: expected the text of a CSV export`;
+    }
+    const found = layout(parseCsv(data));
+    if (!found) {
+      return `No "${columns.title[0]}" column; is this a ${name} scorecard export?`;
+    }
+    if (found.columns.goal < 0) {
+      return `No "${columns.goal[0]}" column; is this a ${name} scorecard export?`;
+    }
+    if (found.weekColumns.length === 0) {
+      return 'No columns headed by a week\'s date';
+    }
+    return null;
+  }
+
+  // Weeks are the organization's weeks holding the dates in the headers, so columns headed by
+  // the day a week ends land in the same week as those headed by the day it starts
+  function read(data, settings) {
+    const rows = parseCsv(data);
+    const found = layout(rows);
+    const weeks = new Map();
+    const weekKeys = new Map(); // Week column index -> the start day of its week
+    found.weekColumns.forEach(weekColumn => {
+      const week = weekCalendar.weekContaining(weekColumn.date, settings);
+      if (!weeks.has(week.day)) {
+        weeks.set(week.day, { key: week.day, day: week.day, name: `Week of ${week.day}`, start_date: week.start_date, end_date: week.end_date });
+        weekKeys.set(weekColumn.index, week.day);
+      }
+    });
+
+    const cellOf = cells => part => found.columns[part] >= 0 ? (cells[found.columns[part]] || '').trim() : '';
+    const measurables = [];
+    rows.slice(found.headerIndex + 1).forEach(cells => {
+      const cell = cellOf(cells);
+      // Rows with nothing but a title head a group of measurables
+      if (!cell('title') || cells.every((text, index) => index === found.columns.title || !text.trim())) {
+        return;
+      }
+
+      const entry = {
+        id: cell('id') ? `${id}:${cell('id')}` : null,
+        name: cell('title'),
+        notes: [],
+        values: []
+      };
+      measurables.push(entry);
+      if (!cell('owner')) {
+        entry.problem = 'No owner';
+        return;
+      }
+
+      const goal = parseGoal(cell('goal'), cell('operator'), cell('upperGoal'), operatorTable);
+      if (goal.problem) {
+        entry.problem = goal.problem;
+        return;
+      }
+
+      // Without a unit, a "$" or "%" on the goal says what it's measured in
+      let type = unitTable[cell('unit').toLowerCase()];
+      if (!type) {
+        entry.notes.push(`Unit "${cell('unit')}" read as a plain number`);
+        type = numberType;
+      } else if (!cell('unit')) {
+        type = /[$€£]/.test(cell('goal')) ? moneyType : /%/.test(cell('goal')) ? percentType : numberType;
+      }
+
+      Object.assign(entry, {
+        ownerName: cell('owner'),
+        ownerEmail: cell('email') || null,
+        fields: {
+          name: entry.name,
+          valueType: type.valueType,
+          unit: type.unit,
+          target: { ...goal.target, unit: type.unit }
+        }
+      });
+
+      found.weekColumns.forEach(weekColumn => {
+        const text = (cells[weekColumn.index] || '').trim();
+        if (emptyCell.test(text)) {
+          return;
+        }
+        if (!weekKeys.has(weekColumn.index)) {
+          entry.values.push({ problem: `"${weekColumn.header}" is in the same week as an earlier column` });
+          return;
+        }
+        const value = parseAmount(text);
+        entry.values.push(value === null
+          ? { problem: `"${text}" isn't a number` }
+          : { weekKey: weekKeys.get(weekColumn.index), value });
+      });
+    });
+
+    return { weeks: [...weeks.values()], measurables };
+  }
+
+  return { id, name, fileType: 'csv', instructions, dataProblem, read };
+}
+
+module.exports = {
+  csvImporter,
+  headerDate,
+  parseAmount,
+  parseGoal
+};
@@ -0,0 +1,26 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseGoal } = require('./scorecardCsv');
+const { csvField, formatGoal, parseCsv } = require('../csv');
+
+const operators = { '=': 'eq', 'exactly': 'eq', '≥': 'gte', 'between': 'between' };
+
+// A goal as this app exports it, read back from the CSV cell
+function exported(target) {
+  const [[cell]] = parseCsv(csvField(formatGoal(target, 'number')));
+  return parseGoal(cell, '', '', operators);
+}
+
+test('parseGoal reads the goals the scorecard export writes', () => {
+  assert.deepEqual(exported({ value: 100, unit: '', operator: 'eq' }), { target: { value: 100, operator: 'eq' } });
+  assert.deepEqual(exported({ value: 50, unit: '', operator: 'gte' }), { target: { value: 50, operator: 'gte' } });
+  assert.deepEqual(
+    exported({ value: -5, unit: '', operator: 'between', upperValue: 5 }),
+    { target: { value: -5, operator: 'between', upperValue: 5 } }
+  );
+});
+
+test('parseGoal ignores the apostrophe ahead of a goal that starts like a formula', () => {
+  assert.deepEqual(parseGoal("'=100", '', '', operators), { target: { value: 100, operator: 'eq' } });
+  assert.deepEqual(parseGoal("'-5", '', '', operators), { target: { value: -5, operator: 'gte' } });
+});
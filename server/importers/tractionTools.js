@@ -0,0 +1,18 @@
+// Traction Tools weekly scorecards exported to CSV: a row per measurable with who owns it and its
+// goal, which carries the comparison ("≥ 50", "< 3%"), then a column per week
+const { csvImporter } = require('./scorecardCsv');
+
+module.exports = csvImporter({
+  id: 'traction-tools',
+  name: 'Traction Tools',
+  instructions: 'Export the weekly scorecard from Traction Tools to CSV (or to Excel, saved as CSV), then paste or choose the file.',
+  columns: {
+    title: ['Measurable', 'Measurables', 'Title'],
+    owner: ['Who', 'Owner'],
+    email: ['Email', 'Owner Email'],
+    goal: ['Goal'],
+    operator: ['Goal Type', 'Comparison'],
+    upperGoal: ['Goal Max'],
+    unit: ['Units', 'Unit', 'Type']
+  }
+});
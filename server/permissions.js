@@ -0,0 +1,27 @@
+// Who may change what, by user role. Admins run the organization: scorecards, metrics, people,
+// logins, settings, imports and backups. Facilitators run the meeting and may edit any metric's values,
+// details, goals and order. Members may only enter the values of the metrics they own.
+// The client mirrors these rules in src/models/permissions.ts to show read-only controls.
+
+const ROLES = ['admin', 'facilitator', 'member'];
+
+function isAdmin(user) {
+  return user.role === 'admin';
+}
+
+// Admins and facilitators
+function canFacilitate(user) {
+  return user.role === 'admin' || user.role === 'facilitator';
+}
+
+// Whether the user may enter a metric's values. Its details and goals are for facilitators (canFacilitate).
+function canEditMetric(user, ownerId) {
+  return canFacilitate(user) || user.person.id === ownerId;
+}
+
+module.exports = {
+  ROLES,
+  isAdmin,
+  canFacilitate,
+  canEditMetric
+};
@@ -10,24 +10,42 @@ const socketIo = require('socket.io');
 const path = require('path');
 const fs = require('fs');
 const { v4: uuidv4 } = require('uuid');
+const dbUtils = require('./db-utils');
+const formulas = require('./formula');
+const weekCalendar = require('./weeks');
+const auth = require('./auth');
+const permissions = require('./permissions');
+const csvExport = require('./csv');
+const backup = require('./snapshot');
+const importers = require('./importers');
 
 // Determine if we're in production mode
 const isProduction = process.env.NODE_ENV === 'production';
 
+// Origins allowed to call the API with the session cookie: the development client, which runs on
+// another port (CLIENT_URL, comma-separated for several). The built client is served from this
+// server, so production only allows its own origin.
+const allowedOrigins = isProduction
+  ? false
+  : (process.env.CLIENT_URL || 'http://localhost:3000').split(',').map(origin => origin.trim()).filter(Boolean);
+
 // Initialize express app
 const app = express();
 const server = http.createServer(app);
 const io = socketIo(server, {
   cors: {
-    origin: '*',
-    methods: ['GET', 'POST', 'PUT', 'DELETE']
+    origin: allowedOrigins,
+    methods: ['GET', 'POST', 'PUT', 'DELETE'],
+    credentials: true
   }
 });
 
 // Middleware
 app.use(morgan('dev'));
-app.use(cors());
-app.use(express.json());
+// Let the allowed origins send the session cookie and read the file names of exports
+app.use(cors({ origin: allowedOrigins, credentials: true, exposedHeaders: ['Content-Disposition'] }));
+// Backups and imports carry a whole database, well past the default 100kb
+app.use(express.json({ limit: '50mb' }));
 
 // Determine database path from environment variable or use default
 const DB_PATH = process.env.DB_PATH || path.join(__dirname, '..', 'data');
@@ -38,6 +56,11 @@ const statusFilePath = path.join(DB_PATH, 'status.json');
 // Define database connection variable (will be initialized later)
 let db;
 
+// Open the database. Its statements wait while a transaction is open (see dbUtils.withTransaction).
+function openDatabase(callback) {
+  return dbUtils.guardConnection(new sqlite3.Database(dbPath, callback));
+}
+
 // Ensure data directory exists
 if (!fs.existsSync(DB_PATH)) {
   console.log(`Creating database directory: ${DB_PATH}`);
@@ -129,7 +152,7 @@ function backupDatabase(force = false) {
       updateDbStatus({ lastBackupDate: now.toISOString() });
 
       // Reconnect to the database
-      db = new sqlite3.Database(dbPath, (err) => {
+      db = openDatabase((err) => {
         if (err) {
           console.error('Error reconnecting to database:', err.message);
         } else {
@@ -140,7 +163,7 @@ function backupDatabase(force = false) {
       console.error('Error creating database backup:', error);
 
       // Reconnect to the database even if backup failed
-      db = new sqlite3.Database(dbPath, (err) => {
+      db = openDatabase((err) => {
         if (err) {
           console.error('Error reconnecting to database:', err.message);
         } else {
@@ -154,7 +177,7 @@ function backupDatabase(force = false) {
 }
 
 // Connect to SQLite database
-db = new sqlite3.Database(dbPath, (err) => {
+db = openDatabase((err) => {
   if (err) {
     console.error('Error connecting to database:', err.message);
   } else {
@@ -186,7 +209,7 @@ function initializeDatabase() {
       CREATE TABLE IF NOT EXISTS people (
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
-        email TEXT NOT NULL UNIQUE
+        email TEXT UNIQUE
       )
     `);
 
@@ -201,10 +224,79 @@ function initializeDatabase() {
         owner_id TEXT NOT NULL,
         display_order INTEGER DEFAULT 0,
         value_type TEXT DEFAULT 'number',
+        target_upper_value REAL,
+        tolerance_value REAL,
+        tolerance_type TEXT,
         FOREIGN KEY (owner_id) REFERENCES people (id)
       )
     `);
 
+    // Create metric target history table
+    // Each row is a target that applies to weeks starting on or after effective_from
+    db.run(`
+      CREATE TABLE IF NOT EXISTS metric_targets (
+        id TEXT PRIMARY KEY,
+        metric_id TEXT NOT NULL,
+        target_value REAL NOT NULL,
+        target_unit TEXT NOT NULL,
+        target_operator TEXT NOT NULL,
+        target_upper_value REAL,
+        effective_from TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (metric_id) REFERENCES metrics (id),
+        UNIQUE (metric_id, effective_from)
+      )
+    `);
+
+    // Create scorecards. Each team's scorecard owns its metrics; people can be on several.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS scorecards (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        display_order INTEGER DEFAULT 0,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS scorecard_members (
+        scorecard_id TEXT NOT NULL,
+        person_id TEXT NOT NULL,
+        PRIMARY KEY (scorecard_id, person_id),
+        FOREIGN KEY (scorecard_id) REFERENCES scorecards (id),
+        FOREIGN KEY (person_id) REFERENCES people (id)
+      )
+    `);
+
+    // There is always at least one scorecard; new and imported metrics go on the first by default
+    db.run(
+      'INSERT INTO scorecards (id, name, display_order, created_at) SELECT ?, ?, 0, ? WHERE NOT EXISTS (SELECT 1 FROM scorecards)',
+      [uuidv4(), DEFAULT_SCORECARD_NAME, new Date().toISOString()]
+    );
+
+    // Add columns introduced after the original schema to existing databases
+    addColumnIfMissing('metrics', 'target_upper_value', 'REAL');
+    addColumnIfMissing('metrics', 'tolerance_value', 'REAL');
+    addColumnIfMissing('metrics', 'tolerance_type', 'TEXT');
+    addColumnIfMissing('metrics', 'formula', 'TEXT');
+    addColumnIfMissing('metrics', 'aggregation', 'TEXT');
+    addColumnIfMissing('metrics', 'cadence', "TEXT DEFAULT 'weekly'");
+
+    // Archived metrics are hidden from the scorecard but keep their values and history
+    addColumnIfMissing('metrics', 'archived_at', 'TEXT');
+    // Deactivated people have left: they keep their name on history but can't own metrics or sign in
+    addColumnIfMissing('people', 'deactivated_at', 'TEXT');
+    // People imported from exports that only have names have no email
+    makePeopleEmailOptional();
+    // The measurable a metric was imported from in EOS One, so re-imports update it
+    addColumnIfMissing('metrics', 'eos_id', 'TEXT');
+
+    // Databases from before scorecards existed: everything goes on the default scorecard
+    addColumnIfMissing('metrics', 'scorecard_id', 'TEXT REFERENCES scorecards (id)', () => {
+      db.run(`UPDATE metrics SET scorecard_id = (${DEFAULT_SCORECARD_QUERY})`);
+      db.run(`INSERT OR IGNORE INTO scorecard_members (scorecard_id, person_id) SELECT (${DEFAULT_SCORECARD_QUERY}), id FROM people`);
+    });
+
     // Create weeks table
     db.run(`
       CREATE TABLE IF NOT EXISTS weeks (
@@ -223,12 +315,86 @@ function initializeDatabase() {
         week_id TEXT NOT NULL,
         value REAL NOT NULL,
         unit TEXT NOT NULL,
+        not_applicable INTEGER NOT NULL DEFAULT 0,
         FOREIGN KEY (metric_id) REFERENCES metrics (id),
         FOREIGN KEY (week_id) REFERENCES weeks (id),
         UNIQUE (metric_id, week_id)
       )
     `);
 
+    // Weeks marked N/A (e.g. office closed) keep a row with no meaningful value
+    addColumnIfMissing('weekly_values', 'not_applicable', 'INTEGER NOT NULL DEFAULT 0');
+
+    // Create value comments table; the comments on a (metric, week) cell form its thread
+    db.run(`
+      CREATE TABLE IF NOT EXISTS value_comments (
+        id TEXT PRIMARY KEY,
+        metric_id TEXT NOT NULL,
+        week_id TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (metric_id) REFERENCES metrics (id),
+        FOREIGN KEY (week_id) REFERENCES weeks (id),
+        FOREIGN KEY (author_id) REFERENCES people (id)
+      )
+    `);
+
+    // Create organization settings table (key/value pairs, see DEFAULT_SETTINGS)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
+    // Create the audit log. Entries are only ever appended; before/after hold rows as stored.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        metric_id TEXT,
+        week_id TEXT,
+        action TEXT NOT NULL,
+        before_json TEXT,
+        after_json TEXT,
+        actor TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Create user accounts. Each signs in as one person; the person's name and email are the profile.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        person_id TEXT NOT NULL UNIQUE,
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'member',
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (person_id) REFERENCES people (id)
+      )
+    `);
+
+    // Accounts created before roles existed: the first one, the setup admin, stays an admin
+    addColumnIfMissing('users', 'role', "TEXT NOT NULL DEFAULT 'member'", () => {
+      db.run("UPDATE users SET role = 'admin' WHERE id = (SELECT id FROM users ORDER BY created_at LIMIT 1)");
+    });
+
+    // Create sessions table, keyed by the hash of the token in the session cookie
+    db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )
+    `);
+
+    loadSettings();
+
     // Set up periodic check for new completed weeks (every hour)
     setInterval(() => {
       console.log('Running scheduled check for new completed weeks...');
@@ -237,1401 +403,3678 @@ function initializeDatabase() {
   });
 }
 
-// Check if tables are empty
-function isDatabaseInitialized() {
-  return new Promise((resolve, reject) => {
-    db.get('SELECT COUNT(*) as count FROM people', (err, row) => {
+// Add a column to an existing table if it isn't already there, then call onAdded to fill it in
+function addColumnIfMissing(table, column, definition, onAdded) {
+  db.all(`PRAGMA table_info(${table})`, (err, columns) => {
+    if (err) {
+      console.error(`Error reading columns for ${table}:`, err.message);
+      return;
+    }
+
+    if (columns.some(col => col.name === column)) {
+      return;
+    }
+
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, (err) => {
       if (err) {
-        console.error('Error checking people count:', err.message);
-        reject(err);
-        return;
+        console.error(`Error adding column ${column} to ${table}:`, err.message);
+      } else {
+        console.log(`Added column ${column} to ${table}`);
+        if (onAdded) {
+          onAdded();
+        }
       }
-
-      resolve(row.count > 0);
     });
   });
 }
 
-// Initialize with sample data
-function checkForDataAndInitializeSampleData() {
-  return new Promise((resolve, reject) => {
-    isDatabaseInitialized()
-      .then(isInitialized => {
-        if (!isInitialized) {
-          console.log('Initializing database with sample data...');
-          createSampleData();
-          resolve(true);
-        } else {
-          console.log('Database already contains data, skipping sample data creation');
-          resolve(false);
-        }
-      })
-      .catch(err => {
-        console.error('Error checking database initialization:', err.message);
-        reject(err);
-      });
+// Databases from before emails were optional. SQLite can't drop NOT NULL from a column, so the
+// people table is copied to one without it.
+function makePeopleEmailOptional() {
+  db.all('PRAGMA table_info(people)', (err, columns) => {
+    if (err) {
+      console.error('Error reading columns for people:', err.message);
+      return;
+    }
+
+    const email = columns.find(col => col.name === 'email');
+    if (!email || !email.notnull) {
+      return;
+    }
+
+    dbUtils.withTransaction(db, async () => {
+      const { sql } = await dbUtils.get(db, "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'people'");
+      await dbUtils.run(db, sql
+        .replace(/^CREATE TABLE (IF NOT EXISTS )?"?people"?/i, 'CREATE TABLE people_rebuilt')
+        .replace(/email TEXT NOT NULL/i, 'email TEXT'));
+      await dbUtils.run(db, 'INSERT INTO people_rebuilt SELECT * FROM people');
+      await dbUtils.run(db, 'DROP TABLE people');
+      await dbUtils.run(db, 'ALTER TABLE people_rebuilt RENAME TO people');
+    })
+      .then(() => console.log('Made email optional for people'))
+      .catch(err => console.error('Error making email optional for people:', err.message));
   });
 }
 
-// Create sample data similar to the frontend's sample data
-function createSampleData() {
-  // Sample people - We'll check if they exist first
-  const samplePeople = [
-    { name: 'Alice Smith', email: 'alice@example.com' },
-    { name: 'Bob Johnson', email: 'bob@example.com' },
-    { name: 'Carol Williams', email: 'carol@example.com' }
-  ];
-
-  // For storing the inserted people with their IDs
-  const people = [];
+// Who made a change: the signed-in user, or the client's address for the first-run setup
+function auditActor(req) {
+  return req.user ? req.user.username : (req.ip || null);
+}
 
-  // Use sequential execution to avoid statement finalization issues
-  db.serialize(() => {
-    db.run('BEGIN TRANSACTION', (err) => {
-      if (err) {
-        console.error('Error starting transaction:', err.message);
-        return;
-      }
+// A row as currently stored, for the before/after snapshots of audit entries
+async function auditSnapshot(table, id) {
+  return (await dbUtils.get(db, `SELECT * FROM ${table} WHERE id = ?`, [id])) || null;
+}
 
-      // Process people sequentially to avoid SQLite statement issues
-      function processPerson(index) {
-        if (index >= samplePeople.length) {
-          // All people processed, commit transaction
-          db.run('COMMIT', (err) => {
-            if (err) {
-              console.error('Error committing transaction:', err.message);
-              return;
-            }
-            console.log('All sample people processed successfully');
+// Append an entry to the audit log. A failure here is logged rather than failing the change it records.
+async function recordAudit(req, { entityType, entityId = null, metricId = null, weekId = null, action, before = null, after = null }) {
+  try {
+    await dbUtils.run(
+      db,
+      'INSERT INTO audit_log (id, entity_type, entity_id, metric_id, week_id, action, before_json, after_json, actor, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        uuidv4(), entityType, entityId, metricId, weekId, action,
+        before === null ? null : JSON.stringify(before),
+        after === null ? null : JSON.stringify(after),
+        auditActor(req), new Date().toISOString()
+      ]
+    );
+  } catch (err) {
+    console.error('Error recording audit entry:', err.message);
+  }
+}
 
-            // Continue with metrics after a short delay
-            setTimeout(() => createMetricsAndWeeks(people), 500);
-          });
-          return;
-        }
+// Build an audit entry object from an audit_log row
+function auditEntryFromRow(row) {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    metricId: row.metric_id,
+    weekId: row.week_id,
+    action: row.action,
+    before: row.before_json !== null ? JSON.parse(row.before_json) : null,
+    after: row.after_json !== null ? JSON.parse(row.after_json) : null,
+    actor: row.actor,
+    createdAt: row.created_at
+  };
+}
 
-        const personData = samplePeople[index];
+// Upper bound for 'between' targets, stored as NULL for single-value operators
+function targetUpperValue(target) {
+  return target.operator === 'between' && target.upperValue !== undefined ? target.upperValue : null;
+}
 
-        // Check if person exists
-        db.get('SELECT id FROM people WHERE email = ?', [personData.email], (err, row) => {
-          if (err) {
-            console.error(`Error checking if ${personData.email} exists:`, err.message);
-            processPerson(index + 1); // Continue with next person
-            return;
-          }
+// Effective date for a metric's original target, so it covers every historical week
+const TARGET_BASELINE_DATE = new Date(0).toISOString();
 
-          if (row) {
-            // Person exists, use their ID
-            console.log(`Person with email ${personData.email} already exists, skipping insert`);
-            people.push({ id: row.id, ...personData });
-            processPerson(index + 1); // Continue with next person
-          } else {
-            // Insert new person
-            const id = uuidv4();
-            db.run(
-              'INSERT INTO people (id, name, email) VALUES (?, ?, ?)',
-              [id, personData.name, personData.email],
-              (err) => {
-                if (err) {
-                  console.error(`Error inserting ${personData.name}:`, err.message);
-                } else {
-                  people.push({ id, ...personData });
-                  console.log(`Inserted person: ${personData.name}`);
-                }
-                processPerson(index + 1); // Continue with next person
-              }
-            );
-          }
-        });
-      }
+// Build a target object from a row with target_* columns
+function targetFromRow(row) {
+  return {
+    value: row.target_value,
+    unit: row.target_unit,
+    operator: row.target_operator,
+    ...(row.target_upper_value !== null && { upperValue: row.target_upper_value })
+  };
+}
 
-      // Start processing with the first person
-      processPerson(0);
-    });
-  });
+// Build a target history entry from a metric_targets row
+function targetChangeFromRow(row) {
+  return {
+    id: row.id,
+    metricId: row.metric_id,
+    target: targetFromRow(row),
+    effectiveFrom: row.effective_from
+  };
+}
 
-  // This is now handled by the sequential processPerson approach above
-  // No need for a duplicate createMetricsAndWeeks call
+function targetsEqual(a, b) {
+  return a.value === b.value &&
+    a.unit === b.unit &&
+    a.operator === b.operator &&
+    targetUpperValue(a) === targetUpperValue(b);
+}
 
-  function createMetricsAndWeeks(peopleList) {
-    // If no people were provided, try to fetch them from the database
-    if (!peopleList || peopleList.length === 0) {
-      console.log('No people provided, fetching from database...');
-      db.all('SELECT * FROM people LIMIT 3', (err, rows) => {
-        if (err) {
-          console.error('Error fetching people for metrics:', err.message);
-          return;
-        }
+// Find the target in force on a date from history sorted by effective date.
+// Dates before the first entry fall back to the earliest known target.
+function resolveTarget(history, date) {
+  const inForce = history.filter(entry => entry.effectiveFrom <= date);
+  if (inForce.length > 0) {
+    return inForce[inForce.length - 1].target;
+  }
+  return history.length > 0 ? history[0].target : null;
+}
 
-        if (rows.length === 0) {
-          console.error('No people available to assign metrics to!');
-          return;
-        }
+// Organization settings used until the settings table says otherwise.
+// The time zone defaults to the server's so existing weeks keep their boundaries.
+const DEFAULT_SETTINGS = {
+  weekStartDay: 1, // Monday
+  timeZone: process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+};
 
-        const existingPeople = rows.map(row => ({
-          id: row.id,
-          name: row.name,
-          email: row.email
-        }));
+// Current organization settings, loaded from the database at startup
+let orgSettings = { ...DEFAULT_SETTINGS };
 
-        console.log(`Found ${existingPeople.length} people in database`);
-        createMetricsInternal(existingPeople);
-      });
+function loadSettings() {
+  db.all('SELECT key, value FROM settings', (err, rows) => {
+    if (err) {
+      console.error('Error loading settings:', err.message);
       return;
     }
 
-    createMetricsInternal(peopleList);
-
-    // Internal function to handle metric creation
-    function createMetricsInternal(people) {
-      console.log(`Creating metrics for ${people.length} people`);
+    const stored = Object.fromEntries(rows.map(row => [row.key, row.value]));
+    orgSettings = {
+      weekStartDay: stored.weekStartDay !== undefined ? Number(stored.weekStartDay) : DEFAULT_SETTINGS.weekStartDay,
+      timeZone: weekCalendar.isValidTimeZone(stored.timeZone) ? stored.timeZone : DEFAULT_SETTINGS.timeZone
+    };
+    console.log('Organization settings:', orgSettings);
+  });
+}
 
-      // First check if metrics already exist
-      db.get('SELECT COUNT(*) as count FROM metrics', (err, row) => {
-        if (err) {
-          console.error('Error checking metrics count:', err.message);
-          return;
-        }
+// Start of the week currently in progress in the organization's calendar
+function startOfCurrentWeek() {
+  return weekCalendar.startOfCurrentWeek(orgSettings);
+}
 
-        if (row.count > 0) {
-          console.log('Metrics already exist, skipping metrics creation');
-          createWeeksIfNeeded();
-          return;
-        }
+// Name of the scorecard created with the database
+const DEFAULT_SCORECARD_NAME = 'Leadership Team';
 
-        // Sample metrics with different value types
-        const metrics = [
-          {
-            id: uuidv4(),
-            name: 'New Customers',
-            target_value: 100,
-            target_unit: '',
-            target_operator: 'gte',
-            owner_id: people[0].id,
-            value_type: 'number'
-          },
-          {
-            id: uuidv4(),
-            name: 'Revenue',
-            target_value: 1,
-            target_unit: 'm',
-            target_operator: 'gte',
-            owner_id: people.length > 1 ? people[1].id : people[0].id,
-            value_type: 'dollars'
-          },
-          {
-            id: uuidv4(),
-            name: 'Support Tickets',
-            target_value: 50,
-            target_unit: '',
-            target_operator: 'lte',
-            owner_id: people.length > 2 ? people[2].id : people[0].id,
-            value_type: 'number'
-          },
-          {
-            id: uuidv4(),
-            name: 'Customer Satisfaction',
-            target_value: 95,
-            target_unit: '%',
-            target_operator: 'gte',
-            owner_id: people.length > 1 ? people[1].id : people[0].id,
-            value_type: 'percent'
-          },
-          {
-            id: uuidv4(),
-            name: 'Response Time',
-            target_value: 8,
-            target_unit: 'hour',
-            target_operator: 'lte',
-            owner_id: people.length > 2 ? people[2].id : people[0].id,
-            value_type: 'time'
-          }
-        ];
+// The first scorecard, which gets metrics and people added without choosing one
+const DEFAULT_SCORECARD_QUERY = 'SELECT id FROM scorecards ORDER BY display_order, created_at LIMIT 1';
 
-        // Insert metrics one by one to avoid statement issues
-        db.run('BEGIN TRANSACTION', (err) => {
-          if (err) {
-            console.error('Error starting metrics transaction:', err.message);
-            return;
-          }
+async function defaultScorecardId() {
+  const row = await dbUtils.get(db, DEFAULT_SCORECARD_QUERY);
+  return row ? row.id : null;
+}
 
-          function insertMetric(index) {
-            if (index >= metrics.length) {
-              // All metrics inserted, commit and continue
-              db.run('COMMIT', (err) => {
-                if (err) {
-                  console.error('Error committing metrics transaction:', err.message);
-                  return;
-                }
-                console.log('Sample metrics created successfully');
-                createWeeksIfNeeded(metrics);
-              });
-              return;
-            }
+// Scorecards in display order, each with the IDs of its members
+async function loadScorecards() {
+  const rows = await dbUtils.all(db, 'SELECT * FROM scorecards ORDER BY display_order, created_at');
+  const members = await dbUtils.all(db, 'SELECT scorecard_id, person_id FROM scorecard_members');
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    displayOrder: row.display_order,
+    memberIds: members.filter(member => member.scorecard_id === row.id).map(member => member.person_id)
+  }));
+}
 
-            const metric = metrics[index];
-
-            db.run(
-              'INSERT INTO metrics (id, name, target_value, target_unit, target_operator, owner_id, display_order, value_type) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-              [
-                metric.id,
-                metric.name,
-                metric.target_value,
-                metric.target_unit,
-                metric.target_operator,
-                metric.owner_id,
-                index,
-                metric.value_type || 'number'
-              ],
-              (err) => {
-                if (err) {
-                  console.error(`Error inserting metric ${metric.name}:`, err.message);
-                } else {
-                  console.log(`Inserted metric: ${metric.name}`);
-                }
-                insertMetric(index + 1);
-              }
-            );
-          }
+// Replace a scorecard's members, ignoring IDs that aren't people
+async function setScorecardMembers(scorecardId, personIds) {
+  await dbUtils.run(db, 'DELETE FROM scorecard_members WHERE scorecard_id = ?', [scorecardId]);
+  for (const personId of new Set(personIds)) {
+    await dbUtils.run(
+      db,
+      'INSERT INTO scorecard_members (scorecard_id, person_id) SELECT ?, id FROM people WHERE id = ?',
+      [scorecardId, personId]
+    );
+  }
+}
 
-          // Start inserting metrics
-          insertMetric(0);
-        });
-      });
-    }
+// A scorecard as stored, with its members' IDs, for the audit log
+async function scorecardAuditSnapshot(id) {
+  const row = await auditSnapshot('scorecards', id);
+  if (!row) {
+    return null;
   }
+  const members = await dbUtils.all(db, 'SELECT person_id FROM scorecard_members WHERE scorecard_id = ?', [id]);
+  return { ...row, member_ids: members.map(member => member.person_id) };
+}
 
-  function createWeeksIfNeeded(createdMetrics) {
-    // Check if weeks already exist
-    db.get('SELECT COUNT(*) as count FROM weeks', (err, row) => {
-      if (err) {
-        console.error('Error checking weeks count:', err.message);
-        return;
-      }
+// Load a metric's target history, oldest first
+async function loadTargetHistory(metricId) {
+  const rows = await dbUtils.all(
+    db,
+    'SELECT * FROM metric_targets WHERE metric_id = ? ORDER BY effective_from ASC',
+    [metricId]
+  );
+  return rows.map(targetChangeFromRow);
+}
 
-      if (row.count > 0) {
-        console.log('Weeks already exist, skipping weeks creation');
-        // If metrics were just created but weeks already exist,
-        // we should make sure the weekly_values are also created
-        if (createdMetrics) {
-          createWeeklyValues(createdMetrics);
-        }
-        return;
-      }
+// Metrics created before target history existed have no rows yet; record
+// their current target as the baseline before the first change is made
+async function ensureTargetBaseline(metricId) {
+  const existing = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM metric_targets WHERE metric_id = ?', [metricId]);
+  if (existing.count > 0) {
+    return;
+  }
 
-      // No weeks exist, create them
-      const now = new Date();
-      const weeks = [];
-
-      // Find the most recent completed Monday (previous week's Monday)
-      const mostRecentCompletedMonday = new Date(now);
-      // Go back to previous week's Monday
-      mostRecentCompletedMonday.setDate(now.getDate() - 7 - (now.getDay() === 0 ? 6 : now.getDay() - 1));
-      mostRecentCompletedMonday.setHours(0, 0, 0, 0);
-
-      // Generate 12 weeks of data (all previous completed weeks)
-      for (let i = 0; i < 12; i++) {
-        const startDate = new Date(mostRecentCompletedMonday);
-        startDate.setDate(startDate.getDate() - (i * 7)); // Previous weeks
-
-        const endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 6); // Sunday
-
-        // Only add completed weeks
-        if (endDate < now) {
-          weeks.push({
-            id: uuidv4(),
-            name: `Week ${i + 1}`,
-            start_date: startDate.toISOString(),
-            end_date: endDate.toISOString()
-          });
-        }
-      }
+  const metric = await dbUtils.get(db, 'SELECT * FROM metrics WHERE id = ?', [metricId]);
+  if (!metric) {
+    return;
+  }
 
-      // Insert weeks sequentially
-      db.run('BEGIN TRANSACTION', (err) => {
-        if (err) {
-          console.error('Error starting weeks transaction:', err.message);
-          return;
-        }
+  await dbUtils.run(
+    db,
+    'INSERT INTO metric_targets (id, metric_id, target_value, target_unit, target_operator, target_upper_value, effective_from, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [uuidv4(), metricId, metric.target_value, metric.target_unit, metric.target_operator, metric.target_upper_value, TARGET_BASELINE_DATE, new Date().toISOString()]
+  );
+}
 
-        function insertWeek(index) {
-          if (index >= weeks.length) {
-            // All weeks inserted, commit transaction and continue
-            db.run('COMMIT', (err) => {
-              if (err) {
-                console.error('Error committing weeks transaction:', err.message);
-                return;
-              }
-
-              console.log('Sample weeks created successfully');
-
-              // If we just created metrics, create weekly values too
-              if (createdMetrics) {
-                createWeeklyValues(createdMetrics, weeks);
-              } else {
-                // Otherwise, look up metrics and then create weekly values
-                db.all('SELECT * FROM metrics', (err, metrics) => {
-                  if (err) {
-                    console.error('Error fetching metrics for weekly values:', err.message);
-                    return;
-                  }
-
-                  createWeeklyValues(metrics, weeks);
-                });
-              }
-            });
-            return;
-          }
+// Record a target taking effect on a date, replacing any change already scheduled for that date
+async function recordTargetChange(metricId, target, effectiveFrom) {
+  await dbUtils.run(db, 'DELETE FROM metric_targets WHERE metric_id = ? AND effective_from = ?', [metricId, effectiveFrom]);
 
-          const week = weeks[index];
-
-          db.run(
-            'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)',
-            [week.id, week.name, week.start_date, week.end_date],
-            (err) => {
-              if (err) {
-                console.error(`Error inserting week ${week.name}:`, err.message);
-              } else {
-                console.log(`Inserted week: ${week.name}`);
-              }
-              insertWeek(index + 1);
-            }
-          );
-        }
+  const id = uuidv4();
+  await dbUtils.run(
+    db,
+    'INSERT INTO metric_targets (id, metric_id, target_value, target_unit, target_operator, target_upper_value, effective_from, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [id, metricId, target.value, target.unit, target.operator, targetUpperValue(target), effectiveFrom, new Date().toISOString()]
+  );
 
-        // Start inserting weeks
-        insertWeek(0);
-      });
-    });
+  return { id, metricId, target, effectiveFrom };
+}
+
+// Keep the target columns on the metric in sync with the target in force today
+async function syncCurrentTarget(metricId) {
+  const history = await loadTargetHistory(metricId);
+  const current = resolveTarget(history, new Date().toISOString());
+  if (!current) {
+    return null;
   }
 
-  function createWeeklyValues(metrics, passedWeeks) {
-    // Check if values already exist
-    db.get('SELECT COUNT(*) as count FROM weekly_values', (err, row) => {
-      if (err) {
-        console.error('Error checking weekly_values count:', err.message);
-        return;
-      }
+  await dbUtils.run(
+    db,
+    'UPDATE metrics SET target_value = ?, target_unit = ?, target_operator = ?, target_upper_value = ? WHERE id = ?',
+    [current.value, current.unit, current.operator, targetUpperValue(current), metricId]
+  );
+  return current;
+}
 
-      if (row.count > 0) {
-        console.log('Weekly values already exist, skipping creation');
-        return;
-      }
+// Split an optional at-risk tolerance into its column values
+function toleranceColumns(tolerance) {
+  if (!tolerance || !(tolerance.value > 0)) {
+    return [null, null];
+  }
+  return [tolerance.value, tolerance.type === 'absolute' ? 'absolute' : 'percent'];
+}
 
-      // Function to continue with the passed or fetched weeks
-      const continueWithWeeks = (weeks) => {
-        console.log(`Creating weekly values for ${metrics.length} metrics and ${weeks.length} weeks`);
+const AGGREGATION_METHODS = ['sum', 'avg', 'last', 'min', 'max'];
 
-        // Start transaction
-        db.run('BEGIN TRANSACTION', (err) => {
-          if (err) {
-            console.error('Error starting weekly values transaction:', err.message);
-            return;
-          }
+// Percentages don't add up across weeks, so they average by default
+function defaultAggregation(valueType) {
+  return valueType === 'percent' ? 'avg' : 'sum';
+}
 
-          // Process metrics one by one
-          function processMetric(metricIndex) {
-            if (metricIndex >= metrics.length) {
-              // All metrics processed, commit transaction
-              db.run('COMMIT', (err) => {
-                if (err) {
-                  console.error('Error committing weekly values transaction:', err.message);
-                  return;
-                }
-                console.log('Sample weekly values created successfully');
-              });
-              return;
-            }
+// Multipliers from each unit to its normalized form (mirrors normalizeValue on the client)
+const UNIT_FACTORS = { k: 1e3, m: 1e6, b: 1e9, '%': 0.01, min: 60, hour: 3600, day: 86400 };
 
-            const metric = metrics[metricIndex];
-
-            // Process weeks for this metric one by one
-            function processWeek(weekIndex) {
-              if (weekIndex >= weeks.length) {
-                // All weeks for this metric processed, move to next metric
-                processMetric(metricIndex + 1);
-                return;
-              }
-
-              const week = weeks[weekIndex];
-
-              // Calculate the relative index for consistent data patterns
-              const relativeIndex = weeks.length - 1 - weekIndex; // Newest week has highest index
-
-              // Generate realistic looking data with some trends and variations
-              let value;
-              let unit = '';
-
-              // Use metric.name for created metrics, or metric_name for fetched metrics
-              const metricName = metric.name || metric.metric_name;
-              const valueType = metric.value_type || 'number';
-
-              if (metricName === 'New Customers') {
-                // New Customers - generally around 100-130, trending up
-                const base = 100 + relativeIndex * 2;  // Trend up for newer weeks
-                const variation = Math.floor(Math.random() * 30) - 15; // +/- 15
-                value = base + variation;
-                unit = '';
-              }
-              else if (metricName === 'Revenue') {
-                // Revenue - around 1m, seasonal variations
-                const base = 1.0;
-                const seasonal = Math.sin((relativeIndex / 12) * Math.PI * 2) * 0.3; // Seasonal cycle
-                const random = (Math.random() * 0.2) - 0.1; // +/- 0.1m
-                value = base + seasonal + random;
-                value = Math.max(0.8, Math.min(1.5, value)); // Keep between 0.8m and 1.5m
-                value = parseFloat(value.toFixed(2)); // Two decimal places
-                unit = 'm';
-              }
-              else if (metricName === 'Customer Satisfaction') {
-                // Customer Satisfaction - percentage between 85-100%
-                const base = 92; // Base satisfaction level
-                const variation = Math.floor(Math.random() * 10) - 3; // +/- 3
-                value = Math.min(100, Math.max(85, base + variation));
-                unit = '%';
-              }
-              else if (metricName === 'Response Time') {
-                // Response Time - hours between 3-12
-                const base = 6; // Base response time
-                const variation = Math.random() * 6 - 3; // +/- 3
-                value = Math.max(3, Math.min(12, base + variation));
-                value = parseFloat(value.toFixed(1)); // One decimal place
-                unit = 'hour';
-              }
-              else {
-                // Support Tickets - target is below 50, fluctuates
-                const base = 35 + (Math.sin((relativeIndex / 6) * Math.PI) * 20); // Cycle with peak around 55
-                const variation = Math.floor(Math.random() * 16) - 8; // +/- 8
-                value = Math.max(20, Math.round(base + variation));
-                unit = '';
-              }
-
-              const valueId = uuidv4();
-              const weekId = week.id || week.week_id;
-
-              db.run(
-                'INSERT INTO weekly_values (id, metric_id, week_id, value, unit) VALUES (?, ?, ?, ?, ?)',
-                [valueId, metric.id, weekId, value, unit],
-                (err) => {
-                  if (err) {
-                    console.error(`Error inserting weekly value for metric ${metricName}, week ${weekId}:`, err.message);
-                  }
-                  processWeek(weekIndex + 1);
-                }
-              );
-            }
+function unitFactor(unit) {
+  return UNIT_FACTORS[unit] || 1;
+}
 
-            // Start processing weeks for this metric
-            processWeek(0);
-          }
+// Combine normalized weekly values (oldest first) with an aggregation method
+function aggregateValues(values, method) {
+  switch (method) {
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'last':
+      return values[values.length - 1];
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return values.reduce((total, value) => total + value, 0);
+  }
+}
 
-          // Start processing metrics
-          processMetric(0);
-        });
-      };
+const CADENCES = ['weekly', 'biweekly', 'monthly', 'quarterly'];
 
-      // If weeks were passed, use them, otherwise fetch weeks from db
-      if (passedWeeks && passedWeeks.length > 0) {
-        console.log(`Using ${passedWeeks.length} provided weeks`);
-        continueWithWeeks(passedWeeks);
-      } else {
-        console.log('Fetching weeks from database...');
-        db.all('SELECT * FROM weeks ORDER BY start_date ASC', (err, weeks) => {
-          if (err) {
-            console.error('Error fetching weeks for weekly values:', err.message);
-            return;
-          }
+// IDs of the weeks in the period of a non-weekly metric's cadence that contains the given week, in order
+async function periodWeekIdsFor(weekId, cadence) {
+  const weeks = await dbUtils.all(db, 'SELECT id, start_date FROM weeks ORDER BY start_date ASC');
+  const week = weeks.find(candidate => candidate.id === weekId);
+  const period = week && weekCalendar.periodFor(week.start_date, cadence, orgSettings.timeZone);
+  return period
+    ? weeks.filter(candidate => weekCalendar.periodFor(candidate.start_date, cadence, orgSettings.timeZone).id === period.id).map(candidate => candidate.id)
+    : [weekId];
+}
 
-          if (weeks.length === 0) {
-            console.error('No weeks found in database, cannot create weekly values');
-            return;
-          }
+// Save the single value of a non-weekly metric's period. It is stored against the first week
+// of the period, and values left on other weeks of the period (e.g. from before a cadence change) are removed.
+async function savePeriodValue(metricId, weekId, value, unit, notApplicable, cadence) {
+  const periodWeekIds = await periodWeekIdsFor(weekId, cadence);
+  const anchorWeekId = periodWeekIds[0];
+
+  const otherWeekIds = periodWeekIds.slice(1);
+  if (otherWeekIds.length > 0) {
+    await dbUtils.run(
+      db,
+      `DELETE FROM weekly_values WHERE metric_id = ? AND week_id IN (${otherWeekIds.map(() => '?').join(', ')})`,
+      [metricId, ...otherWeekIds]
+    );
+  }
 
-          console.log(`Found ${weeks.length} weeks in database`);
-          continueWithWeeks(weeks);
-        });
-      }
-    });
+  const existing = await dbUtils.get(db, 'SELECT * FROM weekly_values WHERE metric_id = ? AND week_id = ?', [metricId, anchorWeekId]);
+  if (existing) {
+    await dbUtils.run(
+      db,
+      'UPDATE weekly_values SET value = ?, unit = ?, not_applicable = ? WHERE id = ?',
+      [value, unit, notApplicable ? 1 : 0, existing.id]
+    );
+    return { created: false, saved: { metricId, weekId: anchorWeekId, value, unit, notApplicable }, before: existing };
   }
+
+  const id = uuidv4();
+  await dbUtils.run(
+    db,
+    'INSERT INTO weekly_values (id, metric_id, week_id, value, unit, not_applicable) VALUES (?, ?, ?, ?, ?, ?)',
+    [id, metricId, anchorWeekId, value, unit, notApplicable ? 1 : 0]
+  );
+  return { created: true, saved: { id, metricId, weekId: anchorWeekId, value, unit, notApplicable }, before: null };
 }
 
-// Socket.io connection handler
+// A blank formula means the metric's values are entered by hand
+function normalizeFormula(formula) {
+  return typeof formula === 'string' && formula.trim() ? formula.trim() : null;
+}
+
+// Validate a metric's formula against the other metrics on its scorecard; returns an error message or null
+async function checkFormula(formula, metricName, metricId, scorecardId) {
+  if (!formula) {
+    return null;
+  }
+  const metrics = await dbUtils.all(db, 'SELECT id, name, formula FROM metrics WHERE scorecard_id = ?', [scorecardId]);
+  return formulas.validateFormula(formula, metricName, metrics.filter(metric => metric.id !== metricId));
+}
+
+// Metrics on the same scorecard whose formula refers to the given metric
+async function findFormulaDependents(metricId) {
+  const metric = await dbUtils.get(db, 'SELECT name, scorecard_id FROM metrics WHERE id = ?', [metricId]);
+  if (!metric) {
+    return [];
+  }
+  const calculated = await dbUtils.all(
+    db,
+    'SELECT id, name, formula FROM metrics WHERE formula IS NOT NULL AND id != ? AND scorecard_id = ?',
+    [metricId, metric.scorecard_id]
+  );
+  return calculated.filter(other => formulas.referencesMetric(other.formula, metric.name));
+}
+
+// Rewrite formulas on the same scorecard that refer to a metric by its old name
+async function renameFormulaReferences(metricId, oldName, newName) {
+  const calculated = await dbUtils.all(
+    db,
+    'SELECT id, formula FROM metrics WHERE formula IS NOT NULL AND id != ? AND scorecard_id = (SELECT scorecard_id FROM metrics WHERE id = ?)',
+    [metricId, metricId]
+  );
+  for (const other of calculated) {
+    const renamed = formulas.renameReference(other.formula, oldName, newName);
+    if (renamed !== other.formula) {
+      await dbUtils.run(db, 'UPDATE metrics SET formula = ? WHERE id = ?', [renamed, other.id]);
+    }
+  }
+}
+
+// Check if scorecard data has been loaded. Weeks are counted rather than people
+// because the first-run admin account creates a person before any data exists.
+function isDatabaseInitialized() {
+  return new Promise((resolve, reject) => {
+    db.get('SELECT COUNT(*) as count FROM weeks', (err, row) => {
+      if (err) {
+        console.error('Error checking weeks count:', err.message);
+        reject(err);
+        return;
+      }
+
+      resolve(row.count > 0);
+    });
+  });
+}
+
+// Initialize with sample data
+function checkForDataAndInitializeSampleData() {
+  return new Promise((resolve, reject) => {
+    isDatabaseInitialized()
+      .then(isInitialized => {
+        if (!isInitialized) {
+          console.log('Initializing database with sample data...');
+          createSampleData().catch(err => console.error('Error creating sample data:', err.message));
+          resolve(true);
+        } else {
+          console.log('Database already contains data, skipping sample data creation');
+          resolve(false);
+        }
+      })
+      .catch(err => {
+        console.error('Error checking database initialization:', err.message);
+        reject(err);
+      });
+  });
+}
+
+// Create sample data similar to the frontend's sample data. Each step is one transaction.
+async function createSampleData() {
+  const people = await createSamplePeople();
+  const metrics = await createSampleMetrics(people);
+  const weeks = await createSampleWeeks();
+  await createSampleWeeklyValues(metrics, weeks);
+}
+
+// The sample people, reusing anyone already stored with the same email
+async function createSamplePeople() {
+  const samplePeople = [
+    { name: 'Alice Smith', email: 'alice@example.com' },
+    { name: 'Bob Johnson', email: 'bob@example.com' },
+    { name: 'Carol Williams', email: 'carol@example.com' }
+  ];
+
+  const people = await dbUtils.withTransaction(db, async () => {
+    const inserted = [];
+    for (const personData of samplePeople) {
+      const row = await dbUtils.get(db, 'SELECT id FROM people WHERE email = ?', [personData.email]);
+      if (row) {
+        console.log(`Person with email ${personData.email} already exists, skipping insert`);
+        inserted.push({ id: row.id, ...personData });
+      } else {
+        const id = uuidv4();
+        await dbUtils.run(db, 'INSERT INTO people (id, name, email) VALUES (?, ?, ?)', [id, personData.name, personData.email]);
+        console.log(`Inserted person: ${personData.name}`);
+        inserted.push({ id, ...personData });
+      }
+    }
+    return inserted;
+  });
+  console.log('All sample people processed successfully');
+  return people;
+}
+
+// The sample metrics, or the stored metrics if there are any already
+async function createSampleMetrics(people) {
+  const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM metrics');
+  if (row.count > 0) {
+    console.log('Metrics already exist, skipping metrics creation');
+    return dbUtils.all(db, 'SELECT * FROM metrics');
+  }
+
+  console.log(`Creating metrics for ${people.length} people`);
+
+  // Sample metrics with different value types
+  const metrics = [
+    {
+      id: uuidv4(),
+      name: 'New Customers',
+      target_value: 100,
+      target_unit: '',
+      target_operator: 'gte',
+      owner_id: people[0].id,
+      value_type: 'number'
+    },
+    {
+      id: uuidv4(),
+      name: 'Revenue',
+      target_value: 1,
+      target_unit: 'm',
+      target_operator: 'gte',
+      owner_id: people.length > 1 ? people[1].id : people[0].id,
+      value_type: 'dollars'
+    },
+    {
+      id: uuidv4(),
+      name: 'Support Tickets',
+      target_value: 50,
+      target_unit: '',
+      target_operator: 'lte',
+      owner_id: people.length > 2 ? people[2].id : people[0].id,
+      value_type: 'number'
+    },
+    {
+      id: uuidv4(),
+      name: 'Customer Satisfaction',
+      target_value: 95,
+      target_unit: '%',
+      target_operator: 'gte',
+      owner_id: people.length > 1 ? people[1].id : people[0].id,
+      value_type: 'percent'
+    },
+    {
+      id: uuidv4(),
+      name: 'Response Time',
+      target_value: 8,
+      target_unit: 'hour',
+      target_operator: 'lte',
+      owner_id: people.length > 2 ? people[2].id : people[0].id,
+      value_type: 'time'
+    }
+  ];
+
+  await dbUtils.withTransaction(db, async () => {
+    // Everyone goes on the default scorecard with the sample metrics
+    await dbUtils.run(db, `INSERT OR IGNORE INTO scorecard_members (scorecard_id, person_id) SELECT (${DEFAULT_SCORECARD_QUERY}), id FROM people`);
+
+    for (const [index, metric] of metrics.entries()) {
+      await dbUtils.run(
+        db,
+        `INSERT INTO metrics (id, name, target_value, target_unit, target_operator, owner_id, display_order, value_type, scorecard_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, (${DEFAULT_SCORECARD_QUERY}))`,
+        [
+          metric.id,
+          metric.name,
+          metric.target_value,
+          metric.target_unit,
+          metric.target_operator,
+          metric.owner_id,
+          index,
+          metric.value_type || 'number'
+        ]
+      );
+      console.log(`Inserted metric: ${metric.name}`);
+    }
+  });
+  console.log('Sample metrics created successfully');
+  return metrics;
+}
+
+// 12 weeks of data (all previous completed weeks), or the stored weeks if there are any already
+async function createSampleWeeks() {
+  const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM weeks');
+  if (row.count > 0) {
+    console.log('Weeks already exist, skipping weeks creation');
+    return dbUtils.all(db, 'SELECT * FROM weeks ORDER BY start_date ASC');
+  }
+
+  const weeks = weekCalendar.recentCompletedWeeks(12, orgSettings).map((bounds, i) => ({
+    id: uuidv4(),
+    name: `Week ${i + 1}`,
+    ...bounds
+  }));
+
+  await dbUtils.withTransaction(db, async () => {
+    for (const week of weeks) {
+      await dbUtils.run(db, 'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)', [week.id, week.name, week.start_date, week.end_date]);
+      console.log(`Inserted week: ${week.name}`);
+    }
+  });
+  console.log('Sample weeks created successfully');
+  return weeks;
+}
+
+async function createSampleWeeklyValues(metrics, weeks) {
+  const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM weekly_values');
+  if (row.count > 0) {
+    console.log('Weekly values already exist, skipping creation');
+    return;
+  }
+
+  console.log(`Creating weekly values for ${metrics.length} metrics and ${weeks.length} weeks`);
+
+  await dbUtils.withTransaction(db, async () => {
+    for (const metric of metrics) {
+      for (const [weekIndex, week] of weeks.entries()) {
+        // Calculate the relative index for consistent data patterns
+        const relativeIndex = weeks.length - 1 - weekIndex; // Newest week has highest index
+        const { value, unit } = sampleValue(metric.name, relativeIndex);
+
+        await dbUtils.run(
+          db,
+          'INSERT INTO weekly_values (id, metric_id, week_id, value, unit) VALUES (?, ?, ?, ?, ?)',
+          [uuidv4(), metric.id, week.id, value, unit]
+        );
+      }
+    }
+  });
+  console.log('Sample weekly values created successfully');
+}
+
+// Generate realistic looking data with some trends and variations
+function sampleValue(metricName, relativeIndex) {
+  if (metricName === 'New Customers') {
+    // New Customers - generally around 100-130, trending up
+    const base = 100 + relativeIndex * 2;  // Trend up for newer weeks
+    const variation = Math.floor(Math.random() * 30) - 15; // +/- 15
+    return { value: base + variation, unit: '' };
+  }
+  if (metricName === 'Revenue') {
+    // Revenue - around 1m, seasonal variations
+    const base = 1.0;
+    const seasonal = Math.sin((relativeIndex / 12) * Math.PI * 2) * 0.3; // Seasonal cycle
+    const random = (Math.random() * 0.2) - 0.1; // +/- 0.1m
+    const value = Math.max(0.8, Math.min(1.5, base + seasonal + random)); // Keep between 0.8m and 1.5m
+    return { value: parseFloat(value.toFixed(2)), unit: 'm' }; // Two decimal places
+  }
+  if (metricName === 'Customer Satisfaction') {
+    // Customer Satisfaction - percentage between 85-100%
+    const base = 92; // Base satisfaction level
+    const variation = Math.floor(Math.random() * 10) - 3; // +/- 3
+    return { value: Math.min(100, Math.max(85, base + variation)), unit: '%' };
+  }
+  if (metricName === 'Response Time') {
+    // Response Time - hours between 3-12
+    const base = 6; // Base response time
+    const variation = Math.random() * 6 - 3; // +/- 3
+    const value = Math.max(3, Math.min(12, base + variation));
+    return { value: parseFloat(value.toFixed(1)), unit: 'hour' }; // One decimal place
+  }
+  // Support Tickets - target is below 50, fluctuates
+  const base = 35 + (Math.sin((relativeIndex / 6) * Math.PI) * 20); // Cycle with peak around 55
+  const variation = Math.floor(Math.random() * 16) - 8; // +/- 8
+  return { value: Math.max(20, Math.round(base + variation)), unit: '' };
+}
+
+// Columns of a user joined with their person, as read by userFromRow
+const USER_SELECT = `
+  SELECT u.id, u.username, u.role, u.created_at, p.id AS person_id, p.name AS person_name, p.email AS person_email
+  FROM users u
+  JOIN people p ON u.person_id = p.id
+`;
+
+// Build a user object from a USER_SELECT row. The password hash is never sent to clients.
+function userFromRow(row) {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    person: { id: row.person_id, name: row.person_name, email: row.person_email },
+    createdAt: row.created_at
+  };
+}
+
+// What the audit log keeps of an account
+function userAuditSnapshot(user) {
+  return { id: user.id, username: user.username, role: user.role, person_id: user.person.id };
+}
+
+// Usernames are matched without regard to case or surrounding spaces
+function normalizeUsername(username) {
+  return typeof username === 'string' ? username.trim().toLowerCase() : '';
+}
+
+// The user signed in with the session cookie in a Cookie header, or null
+async function sessionUser(cookieHeader) {
+  const token = auth.sessionTokenFrom(cookieHeader);
+  if (!token) {
+    return null;
+  }
+
+  const row = await dbUtils.get(
+    db,
+    `${USER_SELECT} JOIN sessions s ON s.user_id = u.id WHERE s.token_hash = ? AND s.expires_at > ? AND p.deactivated_at IS NULL`,
+    [auth.hashSessionToken(token), new Date().toISOString()]
+  );
+  return row ? userFromRow(row) : null;
+}
+
+// Start a session for the user and set its cookie on the response
+async function startSession(req, res, userId) {
+  const token = auth.createSessionToken();
+  const now = new Date();
+
+  // Expired sessions are removed whenever someone signs in
+  await dbUtils.run(db, 'DELETE FROM sessions WHERE expires_at <= ?', [now.toISOString()]);
+  await dbUtils.run(
+    db,
+    'INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)',
+    [auth.hashSessionToken(token), userId, now.toISOString(), new Date(now.getTime() + auth.SESSION_TTL_MS).toISOString()]
+  );
+  res.setHeader('Set-Cookie', auth.sessionCookie(token, req.secure));
+}
+
+// Disconnect the real-time connections opened with sessions that have ended
+function disconnectSockets(predicate) {
+  for (const socket of io.sockets.sockets.values()) {
+    if (predicate(socket.data)) {
+      socket.disconnect(true);
+    }
+  }
+}
+
+// Refuse a request the signed-in user's role doesn't allow
+function forbidden(res, action) {
+  res.status(403).json({ error: `You don't have permission to ${action}` });
+}
+
+// Route middleware allowing only users that pass check (see permissions.js)
+function requirePermission(check, action) {
+  return (req, res, next) => (check(req.user) ? next() : forbidden(res, action));
+}
+
+// Route middleware allowing only users who may edit the metric getMetricId names.
+// A missing metric is left to the route's own 404.
+function requireMetricEditor(getMetricId, action) {
+  return async (req, res, next) => {
+    try {
+      const metric = await dbUtils.get(db, 'SELECT owner_id FROM metrics WHERE id = ?', [getMetricId(req)]);
+      if (metric && !permissions.canEditMetric(req.user, metric.owner_id)) {
+        return forbidden(res, action);
+      }
+      next();
+    } catch (err) {
+      res.status(500).json({ error: err.message });
+    }
+  };
+}
+
+// Only signed-in clients receive real-time updates
+io.use(async (socket, next) => {
+  try {
+    const user = await sessionUser(socket.handshake.headers.cookie);
+    if (!user) {
+      return next(new Error('Sign in required'));
+    }
+    socket.data.user = user;
+    socket.data.tokenHash = auth.hashSessionToken(auth.sessionTokenFrom(socket.handshake.headers.cookie));
+    next();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Name of the socket.io room for clients viewing a scorecard
+function scorecardRoom(scorecardId) {
+  return `scorecard:${scorecardId}`;
+}
+
+// Socket.io connection handler
 io.on('connection', (socket) => {
   console.log('New client connected:', socket.id);
 
+  // Clients join the room of the scorecard they're viewing to hear about its metrics and values
+  socket.on('join_scorecard', (scorecardId) => {
+    if (typeof scorecardId !== 'string') {
+      return;
+    }
+    for (const room of socket.rooms) {
+      if (room.startsWith('scorecard:')) {
+        socket.leave(room);
+      }
+    }
+    socket.join(scorecardRoom(scorecardId));
+  });
+
   socket.on('disconnect', () => {
     console.log('Client disconnected:', socket.id);
   });
 });
 
-// Helper function to broadcast changes to all connected clients
-function broadcastChange(event, data) {
-  io.emit(event, data);
+// Helper function to broadcast changes to connected clients: those viewing the scorecard
+// when one is given, otherwise everyone
+function broadcastChange(event, data, scorecardId) {
+  if (scorecardId) {
+    io.to(scorecardRoom(scorecardId)).emit(event, data);
+  } else {
+    io.emit(event, data);
+  }
+}
+
+// Broadcast a change to a metric, its values or comments to the clients viewing its scorecard
+async function broadcastMetricChange(event, data, metricId) {
+  try {
+    const metric = await dbUtils.get(db, 'SELECT scorecard_id FROM metrics WHERE id = ?', [metricId]);
+    if (metric) {
+      broadcastChange(event, data, metric.scorecard_id);
+    }
+  } catch (err) {
+    console.error(`Error broadcasting ${event}:`, err.message);
+  }
 }
 
-// ===================== API ROUTES =====================
+// ===================== API ROUTES =====================
+
+// Routes that work without signing in: the first-run setup, signing in, and the check the client uses to choose between them
+const PUBLIC_ROUTES = ['/auth/status', '/auth/setup', '/auth/login'];
+
+// Require a signed-in user for every other API route. The user is available as req.user.
+app.use('/api', async (req, res, next) => {
+  try {
+    req.user = await sessionUser(req.headers.cookie);
+  } catch (err) {
+    return res.status(500).json({ error: err.message });
+  }
+
+  if (!req.user && !PUBLIC_ROUTES.includes(req.path)) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  next();
+});
+
+// Whether an admin account still has to be created, and who is signed in
+app.get('/api/auth/status', async (req, res) => {
+  try {
+    const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM users');
+    res.json({ needsSetup: row.count === 0, user: req.user });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Create the first account and sign in as it. Only allowed while there are no accounts.
+// An existing person with the same email (from a database that predates accounts) is used as its person.
+app.post('/api/auth/setup', async (req, res) => {
+  try {
+    const { name, email, password } = req.body;
+    const username = normalizeUsername(req.body.username);
+
+    if (!name || !email || !username) {
+      return res.status(400).json({ error: 'Name, email and username are required' });
+    }
+    const problem = auth.passwordProblem(password);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM users');
+    if (row.count > 0) {
+      return res.status(409).json({ error: 'An admin account already exists' });
+    }
+
+    let person = await dbUtils.get(db, 'SELECT * FROM people WHERE email = ?', [email]);
+    if (!person) {
+      person = { id: uuidv4(), name, email };
+      await dbUtils.run(db, 'INSERT INTO people (id, name, email) VALUES (?, ?, ?)', [person.id, name, email]);
+      await recordAudit(req, { entityType: 'person', entityId: person.id, action: 'create', after: person });
+      broadcastChange('person_created', { id: person.id, name, email });
+    }
+    await dbUtils.run(
+      db,
+      'INSERT OR IGNORE INTO scorecard_members (scorecard_id, person_id) VALUES (?, ?)',
+      [await defaultScorecardId(), person.id]
+    );
+
+    const userId = uuidv4();
+    await dbUtils.run(
+      db,
+      'INSERT INTO users (id, person_id, username, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [userId, person.id, username, await auth.hashPassword(password), 'admin', new Date().toISOString()]
+    );
+
+    const user = userFromRow(await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [userId]));
+    await recordAudit(req, { entityType: 'user', entityId: userId, action: 'create', after: userAuditSnapshot(user) });
+    await startSession(req, res, userId);
+    res.status(201).json(user);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Sign in with a username and password
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const username = normalizeUsername(req.body.username);
+    const row = await dbUtils.get(
+      db,
+      'SELECT u.id, u.password_hash, p.deactivated_at FROM users u JOIN people p ON u.person_id = p.id WHERE u.username = ?',
+      [username]
+    );
+
+    if (!row || !(await auth.verifyPassword(String(req.body.password || ''), row.password_hash))) {
+      return res.status(401).json({ error: 'Incorrect username or password' });
+    }
+    if (row.deactivated_at) {
+      return res.status(403).json({ error: 'This account has been deactivated' });
+    }
+
+    await startSession(req, res, row.id);
+    res.json(userFromRow(await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [row.id])));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Sign out, ending this session
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const tokenHash = auth.hashSessionToken(auth.sessionTokenFrom(req.headers.cookie));
+    await dbUtils.run(db, 'DELETE FROM sessions WHERE token_hash = ?', [tokenHash]);
+    disconnectSockets(data => data.tokenHash === tokenHash);
+    res.setHeader('Set-Cookie', auth.sessionCookie(null, req.secure));
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// GET all user accounts
+app.get('/api/users', async (req, res) => {
+  try {
+    const rows = await dbUtils.all(db, `${USER_SELECT} ORDER BY u.username`);
+    res.json(rows.map(userFromRow));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST a new user account for a person, as a member unless another role is given
+app.post('/api/users', requirePermission(permissions.isAdmin, 'add logins'), async (req, res) => {
+  try {
+    const { personId, password, role = 'member' } = req.body;
+    const username = normalizeUsername(req.body.username);
+
+    if (!personId || !username) {
+      return res.status(400).json({ error: 'Person and username are required' });
+    }
+    if (!permissions.ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${permissions.ROLES.join(', ')}` });
+    }
+    const problem = auth.passwordProblem(password);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const person = await dbUtils.get(db, 'SELECT id FROM people WHERE id = ?', [personId]);
+    if (!person) {
+      return res.status(404).json({ error: 'Person not found' });
+    }
+    const existing = await dbUtils.get(
+      db,
+      'SELECT person_id, username FROM users WHERE person_id = ? OR username = ?',
+      [personId, username]
+    );
+    if (existing) {
+      return res.status(409).json({
+        error: existing.username === username ? 'That username is taken' : 'This person already has a login'
+      });
+    }
+
+    const id = uuidv4();
+    await dbUtils.run(
+      db,
+      'INSERT INTO users (id, person_id, username, password_hash, role, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, personId, username, await auth.hashPassword(password), role, new Date().toISOString()]
+    );
+
+    const user = userFromRow(await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [id]));
+    await recordAudit(req, { entityType: 'user', entityId: id, action: 'create', after: userAuditSnapshot(user) });
+    res.status(201).json(user);
+
+    broadcastChange('user_created', { id });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT a new password for a user. Changing your own requires your current password;
+// admins may reset anyone else's, which signs them out everywhere.
+app.put('/api/users/:id/password', async (req, res) => {
+  try {
+    const { password, currentPassword } = req.body;
+    const isSelf = req.params.id === req.user.id;
+    if (!isSelf && !permissions.isAdmin(req.user)) {
+      return forbidden(res, "reset other people's passwords");
+    }
+
+    const row = await dbUtils.get(db, 'SELECT id, password_hash FROM users WHERE id = ?', [req.params.id]);
+    if (!row) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (isSelf && !(await auth.verifyPassword(String(currentPassword || ''), row.password_hash))) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+    const problem = auth.passwordProblem(password);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    await dbUtils.run(db, 'UPDATE users SET password_hash = ? WHERE id = ?', [await auth.hashPassword(password), row.id]);
+    if (!isSelf) {
+      await dbUtils.run(db, 'DELETE FROM sessions WHERE user_id = ?', [row.id]);
+      disconnectSockets(data => data.user.id === row.id);
+    }
+    await recordAudit(req, { entityType: 'user', entityId: row.id, action: 'update', after: { password_changed: true } });
+    res.json({ id: row.id, updated: true });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT a user's role. Admins can't change their own, so there is always at least one admin.
+app.put('/api/users/:id/role', requirePermission(permissions.isAdmin, 'change roles'), async (req, res) => {
+  try {
+    const { role } = req.body;
+    if (!permissions.ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${permissions.ROLES.join(', ')}` });
+    }
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ error: "You can't change your own role" });
+    }
+
+    const row = await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [req.params.id]);
+    if (!row) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await dbUtils.run(db, 'UPDATE users SET role = ? WHERE id = ?', [role, req.params.id]);
+    const user = userFromRow(await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [req.params.id]));
+
+    // Signed-in sockets hold a copy of the user, so theirs is updated too
+    for (const socket of io.sockets.sockets.values()) {
+      if (socket.data.user.id === user.id) {
+        socket.data.user = user;
+      }
+    }
+
+    await recordAudit(req, {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'update',
+      before: userAuditSnapshot(userFromRow(row)),
+      after: userAuditSnapshot(user)
+    });
+    res.json(user);
+
+    broadcastChange('user_updated', { id: user.id });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE a user account, signing it out. The person stays. You can't delete your own account.
+app.delete('/api/users/:id', requirePermission(permissions.isAdmin, 'remove logins'), async (req, res) => {
+  try {
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ error: "You can't delete your own login" });
+    }
+
+    const row = await dbUtils.get(db, `${USER_SELECT} WHERE u.id = ?`, [req.params.id]);
+    if (!row) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await dbUtils.run(db, 'DELETE FROM sessions WHERE user_id = ?', [req.params.id]);
+    await dbUtils.run(db, 'DELETE FROM users WHERE id = ?', [req.params.id]);
+    disconnectSockets(data => data.user.id === req.params.id);
+    await recordAudit(req, { entityType: 'user', entityId: req.params.id, action: 'delete', before: userAuditSnapshot(userFromRow(row)) });
+    res.json({ id: req.params.id, deleted: true });
+
+    broadcastChange('user_deleted', { id: req.params.id });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Check database initialization status
+app.get('/api/status', async (req, res) => {
+  try {
+    const isInitialized = await isDatabaseInitialized();
+    const dbStatus = getDbStatus();
+
+    res.json({
+      initialized: isInitialized,
+      initDate: dbStatus.initDate,
+      lastBackupDate: dbStatus.lastBackupDate
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Trigger a database backup
+app.post('/api/backup', requirePermission(permissions.isAdmin, 'back up the database'), async (req, res) => {
+  try {
+    const force = req.query.force === 'true';
+
+    // This is async due to the db.close callback, so we need to handle the response differently
+    db.get('SELECT 1', (err) => {
+      if (err) {
+        return res.status(500).json({ error: 'Database not available', success: false });
+      }
+
+      const status = getDbStatus();
+      const now = new Date();
+      const initDate = new Date(status.initDate);
+
+      // Skip time checks if force is true
+      if (!force) {
+        // Check if DB is too new
+        if (now - initDate < MIN_BACKUP_AGE_MS) {
+          return res.json({
+            success: false,
+            message: 'Database is too new for backup (less than 7 days since initialization)',
+            initDate: status.initDate,
+            lastBackupDate: status.lastBackupDate,
+            minBackupAge: MIN_BACKUP_AGE_MS / (24 * 60 * 60 * 1000) + ' days'
+          });
+        }
+
+        // Check if last backup is too recent
+        if (status.lastBackupDate) {
+          const lastBackupDate = new Date(status.lastBackupDate);
+          if (now - lastBackupDate < MIN_BACKUP_AGE_MS) {
+            return res.json({
+              success: false,
+              message: 'Last backup is too recent (less than 7 days ago)',
+              initDate: status.initDate,
+              lastBackupDate: status.lastBackupDate,
+              minBackupAge: MIN_BACKUP_AGE_MS / (24 * 60 * 60 * 1000) + ' days'
+            });
+          }
+        }
+      }
+
+      // Format the date for the backup filename (YYYY-MM-DD)
+      const dateStr = now.toISOString().split('T')[0];
+      const backupPath = path.join(DB_PATH, `scorecard.${dateStr}.db`);
+
+      // Close the current database connection
+      db.close(() => {
+        try {
+          // Copy the database file
+          fs.copyFileSync(dbPath, backupPath);
+          console.log(`Database backup created: ${backupPath}`);
+
+          // Update the last backup date
+          updateDbStatus({ lastBackupDate: now.toISOString() });
+
+          // Reconnect to the database
+          db = openDatabase((err) => {
+            if (err) {
+              console.error('Error reconnecting to database:', err.message);
+              return res.status(500).json({
+                error: 'Error reconnecting to database after backup',
+                success: false
+              });
+            } else {
+              console.log('Reconnected to the SQLite database after backup');
+              return res.json({
+                success: true,
+                message: 'Backup created successfully',
+                backupPath: backupPath,
+                backupDate: now.toISOString()
+              });
+            }
+          });
+        } catch (error) {
+          console.error('Error creating database backup:', error);
+
+          // Reconnect to the database even if backup failed
+          db = openDatabase((err) => {
+            if (err) {
+              console.error('Error reconnecting to database:', err.message);
+              return res.status(500).json({
+                error: 'Error reconnecting to database after failed backup attempt',
+                success: false
+              });
+            } else {
+              console.log('Reconnected to the SQLite database after failed backup attempt');
+              return res.status(500).json({
+                error: 'Failed to create backup: ' + error.message,
+                success: false
+              });
+            }
+          });
+        }
+      });
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message, success: false });
+  }
+});
+
+// Initialize database with sample data
+app.post('/api/initialize/sample', requirePermission(permissions.isAdmin, 'initialize the database'), async (req, res) => {
+  try {
+    const isInitialized = await isDatabaseInitialized();
+    if (isInitialized) {
+      return res.status(400).json({ error: 'Database is already initialized' });
+    }
+
+    await checkForDataAndInitializeSampleData();
+    await recordAudit(req, { entityType: 'database', action: 'import', after: { source: 'sample' } });
+    res.json({ success: true, message: 'Database initialized with sample data' });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// The importer a request names ({ format }, EOS One if none) and the export it sends ({ data })
+// read into the importers' shared shape, or why it can't be read
+function readEosExport(body) {
+  const importer = importers.findImporter(body.format || 'eos-one');
+  if (!importer) {
+    return { problem: `Unknown import format "${body.format}"` };
+  }
+  const problem = importer.dataProblem(body.data);
+  if (problem) {
+    return { problem };
+  }
+  return { importer, source: importer.read(body.data, orgSettings) };
+}
+
+// Initialize database from an EOS tool's export, onto the first scorecard
+app.post('/api/initialize/eos', requirePermission(permissions.isAdmin, 'initialize the database'), async (req, res) => {
+  try {
+    const isInitialized = await isDatabaseInitialized();
+    if (isInitialized) {
+      return res.status(400).json({ error: 'Database is already initialized' });
+    }
+
+    const { importer, source, problem } = readEosExport(req.body);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const plan = await planEosImport(source, await defaultScorecardId());
+    await applyEosImport(req, plan);
+    const report = eosImportReport(plan);
+    await recordAudit(req, {
+      entityType: 'database',
+      action: 'import',
+      after: { source: 'eos', format: importer.id, measurables: source.measurables.length, weeks: source.weeks.length, counts: report.counts }
+    });
+    res.json({ success: true, message: `Database initialized with ${importer.name} data`, report });
+  } catch (err) {
+    console.error('Error importing EOS data:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// The EOS tools whose exports can be imported, for choosing one
+app.get('/api/import/eos/formats', (req, res) => {
+  res.json(importers.importers.map(importer => ({
+    id: importer.id,
+    name: importer.name,
+    fileType: importer.fileType,
+    instructions: importer.instructions
+  })));
+});
+
+// POST an EOS tool's export to import onto a scorecard, new or not: { format, data, scorecardId, dryRun }.
+// format is one of the importers (EOS One if omitted); CSV exports are sent as text. Running it again
+// updates what it imported before. The report lists each measurable as new, updated, unchanged or
+// skipped (with the reason), with counts of its values; with dryRun nothing is saved.
+app.post('/api/import/eos', requirePermission(permissions.isAdmin, 'import from EOS tools'), async (req, res) => {
+  try {
+    const { importer, source, problem } = readEosExport(req.body);
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+
+    const scorecardId = req.body.scorecardId || await defaultScorecardId();
+    if (!await dbUtils.get(db, 'SELECT id FROM scorecards WHERE id = ?', [scorecardId])) {
+      res.status(400).json({ error: 'Scorecard not found' });
+      return;
+    }
+
+    const plan = await planEosImport(source, scorecardId);
+    const report = eosImportReport(plan);
+    if (req.body.dryRun) {
+      res.json(report);
+      return;
+    }
+
+    await applyEosImport(req, plan);
+    await recordAudit(req, {
+      entityType: 'database',
+      action: 'import',
+      after: { source: 'eos', format: importer.id, scorecardId, measurables: source.measurables.length, weeks: source.weeks.length, counts: report.counts }
+    });
+    res.json(report);
+
+    // People, weeks, metrics and values may all have changed
+    broadcastChange('eos_imported', { scorecardId, counts: report.counts });
+  } catch (err) {
+    console.error('Error importing EOS data:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Build a person object from a people row
+function personFromRow(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    ...(row.deactivated_at && { deactivatedAt: row.deactivated_at })
+  };
+}
+
+// Why the person can't own a metric, or null if they can
+async function ownerProblem(personId) {
+  const row = await dbUtils.get(db, 'SELECT name, deactivated_at FROM people WHERE id = ?', [personId]);
+  if (!row) {
+    return 'Owner not found';
+  }
+  return row.deactivated_at ? `${row.name} has been deactivated and can't own metrics` : null;
+}
+
+// GET all people, including deactivated ones
+app.get('/api/people', (req, res) => {
+  db.all('SELECT * FROM people', (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    res.json(rows.map(personFromRow));
+  });
+});
+
+// GET a single person
+app.get('/api/people/:id', (req, res) => {
+  db.get('SELECT * FROM people WHERE id = ?', [req.params.id], (err, row) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+    if (!row) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+    res.json(personFromRow(row));
+  });
+});
+
+// POST a new person
+app.post('/api/people', requirePermission(permissions.isAdmin, 'add people'), (req, res) => {
+  const { name } = req.body;
+  const email = req.body.email || null;
+
+  if (!name) {
+    res.status(400).json({ error: 'Name is required' });
+    return;
+  }
+
+  const id = uuidv4();
+
+  db.run(
+    'INSERT INTO people (id, name, email) VALUES (?, ?, ?)',
+    [id, name, email],
+    function(err) {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // New people join the default scorecard; admins can add them to others
+      db.run(`INSERT OR IGNORE INTO scorecard_members (scorecard_id, person_id) VALUES ((${DEFAULT_SCORECARD_QUERY}), ?)`, [id], (err) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+
+        const newPerson = { id, name, email };
+        recordAudit(req, { entityType: 'person', entityId: id, action: 'create', after: newPerson });
+        res.status(201).json(newPerson);
+
+        // Broadcast the new person to all connected clients
+        broadcastChange('person_created', newPerson);
+      });
+    }
+  );
+});
+
+// PUT (update) a person
+app.put('/api/people/:id', async (req, res) => {
+  const { name } = req.body;
+  const email = req.body.email || null;
+
+  // Anyone may correct their own name and email
+  if (!permissions.isAdmin(req.user) && req.params.id !== req.user.person.id) {
+    forbidden(res, 'edit other people');
+    return;
+  }
+
+  if (!name) {
+    res.status(400).json({ error: 'Name is required' });
+    return;
+  }
+
+  try {
+    const before = await auditSnapshot('people', req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+
+    await dbUtils.run(db, 'UPDATE people SET name = ?, email = ? WHERE id = ?', [name, email, req.params.id]);
+
+    const updatedPerson = personFromRow({ ...before, name, email });
+    await recordAudit(req, { entityType: 'person', entityId: req.params.id, action: 'update', before, after: updatedPerson });
+    res.json(updatedPerson);
+
+    // Broadcast the updated person to all connected clients
+    broadcastChange('person_updated', updatedPerson);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST to deactivate someone who has left. Their metrics all move to new owners in one
+// transaction, given as reassignments: [{ metricId, ownerId }], and their login stops working.
+app.post('/api/people/:id/deactivate', requirePermission(permissions.isAdmin, 'deactivate people'), async (req, res) => {
+  const reassignments = Array.isArray(req.body.reassignments) ? req.body.reassignments : [];
+
+  if (req.params.id === req.user.person.id) {
+    res.status(400).json({ error: "You can't deactivate yourself" });
+    return;
+  }
+
+  let before;
+  let metricsBefore;
+  try {
+    before = await auditSnapshot('people', req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+    if (before.deactivated_at) {
+      res.status(400).json({ error: `${before.name} is already deactivated` });
+      return;
+    }
+
+    const owned = await dbUtils.all(db, 'SELECT id, name FROM metrics WHERE owner_id = ?', [req.params.id]);
+    const unassigned = owned.filter(metric => !reassignments.some(r => r && r.metricId === metric.id));
+    if (unassigned.length > 0) {
+      res.status(400).json({
+        error: `Choose a new owner for ${unassigned.map(metric => metric.name).join(', ')}`,
+        metricIds: unassigned.map(metric => metric.id)
+      });
+      return;
+    }
+    if (reassignments.some(r => !owned.some(metric => metric.id === r.metricId))) {
+      res.status(400).json({ error: `Only metrics owned by ${before.name} can be reassigned` });
+      return;
+    }
+
+    for (const ownerId of new Set(reassignments.map(r => r.ownerId))) {
+      const problem = ownerId === req.params.id ? `Metrics must move to someone other than ${before.name}` : await ownerProblem(ownerId);
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+    }
+
+    metricsBefore = await Promise.all(owned.map(metric => auditSnapshot('metrics', metric.id)));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
+
+  try {
+    await dbUtils.withTransaction(db, async () => {
+      for (const { metricId, ownerId } of reassignments) {
+        await dbUtils.run(db, 'UPDATE metrics SET owner_id = ? WHERE id = ?', [ownerId, metricId]);
+      }
+      await dbUtils.run(db, 'UPDATE people SET deactivated_at = ? WHERE id = ?', [new Date().toISOString(), req.params.id]);
+    });
+
+    for (const metricBefore of metricsBefore) {
+      await recordAudit(req, {
+        entityType: 'metric',
+        entityId: metricBefore.id,
+        metricId: metricBefore.id,
+        action: 'update',
+        before: metricBefore,
+        after: await auditSnapshot('metrics', metricBefore.id)
+      });
+    }
+    const after = await auditSnapshot('people', req.params.id);
+    await recordAudit(req, { entityType: 'person', entityId: req.params.id, action: 'deactivate', before, after });
+
+    // Sign them out everywhere
+    const user = await dbUtils.get(db, 'SELECT id FROM users WHERE person_id = ?', [req.params.id]);
+    if (user) {
+      await dbUtils.run(db, 'DELETE FROM sessions WHERE user_id = ?', [user.id]);
+      disconnectSockets(data => data.user.id === user.id);
+    }
+
+    const person = personFromRow(after);
+    res.json({ person, reassigned: reassignments.length });
+
+    broadcastChange('person_updated', person);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST to reactivate someone, so they can own metrics and sign in again
+app.post('/api/people/:id/reactivate', requirePermission(permissions.isAdmin, 'reactivate people'), async (req, res) => {
+  try {
+    const before = await auditSnapshot('people', req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+
+    await dbUtils.run(db, 'UPDATE people SET deactivated_at = NULL WHERE id = ?', [req.params.id]);
+    const after = await auditSnapshot('people', req.params.id);
+    await recordAudit(req, { entityType: 'person', entityId: req.params.id, action: 'reactivate', before, after });
+
+    const person = personFromRow(after);
+    res.json(person);
+
+    broadcastChange('person_updated', person);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE a person
+app.delete('/api/people/:id', requirePermission(permissions.isAdmin, 'delete people'), async (req, res) => {
+  try {
+    // First check if the person owns any metrics
+    const row = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM metrics WHERE owner_id = ?', [req.params.id]);
+    if (row.count > 0) {
+      res.status(400).json({
+        error: 'Cannot delete person because they own metrics',
+        metricCount: row.count
+      });
+      return;
+    }
+
+    const user = await dbUtils.get(db, 'SELECT id FROM users WHERE person_id = ?', [req.params.id]);
+    if (user) {
+      res.status(400).json({ error: 'Cannot delete person because they have a login; remove it first' });
+      return;
+    }
+
+    // If no metrics are owned, proceed with deletion
+    const before = await auditSnapshot('people', req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Person not found' });
+      return;
+    }
+
+    await dbUtils.run(db, 'DELETE FROM scorecard_members WHERE person_id = ?', [req.params.id]);
+    await dbUtils.run(db, 'DELETE FROM people WHERE id = ?', [req.params.id]);
+    await recordAudit(req, { entityType: 'person', entityId: req.params.id, action: 'delete', before });
+    res.json({ id: req.params.id, deleted: true });
+
+    // Broadcast the deletion to all connected clients
+    broadcastChange('person_deleted', { id: req.params.id });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// GET all scorecards with their members
+app.get('/api/scorecards', async (req, res) => {
+  try {
+    res.json(await loadScorecards());
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST a new scorecard
+app.post('/api/scorecards', requirePermission(permissions.isAdmin, 'add scorecards'), async (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  const memberIds = Array.isArray(req.body.memberIds) ? req.body.memberIds : [];
+
+  if (!name) {
+    res.status(400).json({ error: 'Name is required' });
+    return;
+  }
+
+  try {
+    const id = uuidv4();
+    const row = await dbUtils.get(db, 'SELECT MAX(display_order) as maxOrder FROM scorecards');
+    const displayOrder = (row && row.maxOrder !== null) ? row.maxOrder + 1 : 0;
+
+    await dbUtils.run(
+      db,
+      'INSERT INTO scorecards (id, name, display_order, created_at) VALUES (?, ?, ?, ?)',
+      [id, name, displayOrder, new Date().toISOString()]
+    );
+    await setScorecardMembers(id, memberIds);
+
+    await recordAudit(req, { entityType: 'scorecard', entityId: id, action: 'create', after: await scorecardAuditSnapshot(id) });
+    const scorecard = (await loadScorecards()).find(other => other.id === id);
+    res.status(201).json(scorecard);
+
+    broadcastChange('scorecard_created', scorecard);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT (update) a scorecard's name and, when memberIds is given, its members
+app.put('/api/scorecards/:id', requirePermission(permissions.isAdmin, 'edit scorecards'), async (req, res) => {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+  if (!name) {
+    res.status(400).json({ error: 'Name is required' });
+    return;
+  }
+
+  try {
+    const before = await scorecardAuditSnapshot(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Scorecard not found' });
+      return;
+    }
+
+    await dbUtils.run(db, 'UPDATE scorecards SET name = ? WHERE id = ?', [name, req.params.id]);
+    if (Array.isArray(req.body.memberIds)) {
+      await setScorecardMembers(req.params.id, req.body.memberIds);
+    }
+
+    await recordAudit(req, {
+      entityType: 'scorecard',
+      entityId: req.params.id,
+      action: 'update',
+      before,
+      after: await scorecardAuditSnapshot(req.params.id)
+    });
+    const scorecard = (await loadScorecards()).find(other => other.id === req.params.id);
+    res.json(scorecard);
+
+    broadcastChange('scorecard_updated', scorecard);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE a scorecard. Only empty scorecards can be deleted, and there is always at least one.
+app.delete('/api/scorecards/:id', requirePermission(permissions.isAdmin, 'delete scorecards'), async (req, res) => {
+  try {
+    const before = await scorecardAuditSnapshot(req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Scorecard not found' });
+      return;
+    }
+
+    const { count: scorecardCount } = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM scorecards');
+    if (scorecardCount <= 1) {
+      res.status(400).json({ error: 'Cannot delete the only scorecard' });
+      return;
+    }
+
+    const { count: metricCount } = await dbUtils.get(db, 'SELECT COUNT(*) as count FROM metrics WHERE scorecard_id = ?', [req.params.id]);
+    if (metricCount > 0) {
+      res.status(400).json({ error: 'Cannot delete scorecard because it has metrics', metricCount });
+      return;
+    }
+
+    await dbUtils.run(db, 'DELETE FROM scorecard_members WHERE scorecard_id = ?', [req.params.id]);
+    await dbUtils.run(db, 'DELETE FROM scorecards WHERE id = ?', [req.params.id]);
+    await recordAudit(req, { entityType: 'scorecard', entityId: req.params.id, action: 'delete', before });
+    res.json({ id: req.params.id, deleted: true });
+
+    broadcastChange('scorecard_deleted', { id: req.params.id });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// GET all metrics, or those on one scorecard with ?scorecardId=
+app.get('/api/metrics', (req, res) => {
+  const { scorecardId } = req.query;
+
+  // Join with people to get the owner details
+  db.all(`
+    SELECT
+      m.id, m.name, m.target_value, m.target_unit, m.target_operator, m.target_upper_value, m.display_order, m.value_type,
+      m.tolerance_value, m.tolerance_type, m.formula, m.aggregation, m.cadence, m.scorecard_id, m.archived_at,
+      p.id as owner_id, p.name as owner_name, p.email as owner_email
+    FROM metrics m
+    JOIN people p ON m.owner_id = p.id
+    ${scorecardId ? 'WHERE m.scorecard_id = ?' : ''}
+    ORDER BY m.display_order ASC
+  `, scorecardId ? [scorecardId] : [], (err, rows) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    db.all('SELECT * FROM metric_targets ORDER BY effective_from ASC', (err, targetRows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // Group target history by metric
+      const historyByMetric = new Map();
+      targetRows.forEach(targetRow => {
+        const history = historyByMetric.get(targetRow.metric_id) || [];
+        history.push(targetChangeFromRow(targetRow));
+        historyByMetric.set(targetRow.metric_id, history);
+      });
+
+      const now = new Date().toISOString();
+
+      // Transform the rows to match the frontend data structure
+      const metrics = rows.map(row => {
+        const targetHistory = historyByMetric.get(row.id) || [];
+
+        return {
+          id: row.id,
+          name: row.name,
+          // Scheduled changes take effect without a write, so resolve today's target from history
+          target: resolveTarget(targetHistory, now) || targetFromRow(row),
+          targetHistory,
+          owner: {
+            id: row.owner_id,
+            name: row.owner_name,
+            email: row.owner_email
+          },
+          scorecardId: row.scorecard_id,
+          displayOrder: row.display_order,
+          valueType: row.value_type || 'number',
+          aggregation: row.aggregation || defaultAggregation(row.value_type),
+          cadence: row.cadence || 'weekly',
+          ...(row.tolerance_value !== null && {
+            tolerance: { value: row.tolerance_value, type: row.tolerance_type || 'percent' }
+          }),
+          ...(row.formula && { formula: row.formula }),
+          ...(row.archived_at && { archivedAt: row.archived_at })
+        };
+      });
+
+      res.json(metrics);
+    });
+  });
+});
+
+// POST a new metric
+app.post('/api/metrics', requirePermission(permissions.isAdmin, 'add metrics'), async (req, res) => {
+  const { name, target, owner, valueType, tolerance, aggregation, cadence } = req.body;
+  const formula = normalizeFormula(req.body.formula);
+
+  if (!name || !target || !owner) {
+    res.status(400).json({ error: 'Name, target, and owner are required' });
+    return;
+  }
+
+  if (target.operator === 'between' && !(target.upperValue >= target.value)) {
+    res.status(400).json({ error: 'A between target needs an upper value at least equal to its lower value' });
+    return;
+  }
+
+  if (aggregation && !AGGREGATION_METHODS.includes(aggregation)) {
+    res.status(400).json({ error: `aggregation must be one of ${AGGREGATION_METHODS.join(', ')}` });
+    return;
+  }
+
+  if (cadence && !CADENCES.includes(cadence)) {
+    res.status(400).json({ error: `cadence must be one of ${CADENCES.join(', ')}` });
+    return;
+  }
+
+  // Metrics added without choosing a scorecard go on the default one
+  let scorecardId;
+  try {
+    scorecardId = req.body.scorecardId || await defaultScorecardId();
+    if (!await dbUtils.get(db, 'SELECT id FROM scorecards WHERE id = ?', [scorecardId])) {
+      res.status(400).json({ error: 'Scorecard not found' });
+      return;
+    }
+
+    const formulaError = await checkFormula(formula, name, null, scorecardId);
+    if (formulaError) {
+      res.status(400).json({ error: formulaError });
+      return;
+    }
+
+    const ownerError = await ownerProblem(owner.id);
+    if (ownerError) {
+      res.status(400).json({ error: ownerError });
+      return;
+    }
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
+
+  // Default to 'number' if valueType is not provided
+  const metricValueType = valueType || 'number';
+  const metricAggregation = aggregation || defaultAggregation(metricValueType);
+  const metricCadence = cadence || 'weekly';
+
+  // Undo recreates a deleted metric under its original ID
+  const id = req.body.id || uuidv4();
+
+  try {
+    if (req.body.id && await dbUtils.get(db, 'SELECT id FROM metrics WHERE id = ?', [req.body.id])) {
+      res.status(409).json({ error: 'A metric with this ID already exists' });
+      return;
+    }
+
+    // Get the highest display_order to append new metric at the end of its scorecard
+    const row = await dbUtils.get(db, 'SELECT MAX(display_order) as maxOrder FROM metrics WHERE scorecard_id = ?', [scorecardId]);
+    const displayOrder = (row && row.maxOrder !== null) ? row.maxOrder + 1 : 0;
+
+    const [toleranceValue, toleranceType] = toleranceColumns(tolerance);
+
+    await dbUtils.run(
+      db,
+      'INSERT INTO metrics (id, name, target_value, target_unit, target_operator, target_upper_value, owner_id, display_order, value_type, tolerance_value, tolerance_type, formula, aggregation, cadence, scorecard_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, name, target.value, target.unit, target.operator, targetUpperValue(target), owner.id, displayOrder, metricValueType, toleranceValue, toleranceType, formula, metricAggregation, metricCadence, scorecardId]
+    );
+
+    const newMetric = {
+      id,
+      name,
+      target,
+      owner,
+      scorecardId,
+      displayOrder,
+      valueType: metricValueType,
+      aggregation: metricAggregation,
+      cadence: metricCadence,
+      ...(toleranceValue !== null && { tolerance: { value: toleranceValue, type: toleranceType } }),
+      ...(formula && { formula })
+    };
+
+    await recordAudit(req, { entityType: 'metric', entityId: id, metricId: id, action: 'create', after: await auditSnapshot('metrics', id) });
+    res.status(201).json(newMetric);
+
+    // Broadcast the new metric to the clients viewing its scorecard
+    broadcastChange('metric_created', newMetric, scorecardId);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// PUT (update) a metric
+app.put('/api/metrics/:id', requirePermission(permissions.canFacilitate, 'edit metrics'), async (req, res) => {
+  const { name, target, owner, displayOrder, valueType, tolerance, aggregation, cadence } = req.body;
+  const formula = normalizeFormula(req.body.formula);
+
+  if (!name || !target || !owner) {
+    res.status(400).json({ error: 'Name, target, and owner are required' });
+    return;
+  }
+
+  if (target.operator === 'between' && !(target.upperValue >= target.value)) {
+    res.status(400).json({ error: 'A between target needs an upper value at least equal to its lower value' });
+    return;
+  }
+
+  if (aggregation && !AGGREGATION_METHODS.includes(aggregation)) {
+    res.status(400).json({ error: `aggregation must be one of ${AGGREGATION_METHODS.join(', ')}` });
+    return;
+  }
+
+  if (cadence && !CADENCES.includes(cadence)) {
+    res.status(400).json({ error: `cadence must be one of ${CADENCES.join(', ')}` });
+    return;
+  }
+
+  // Default to 'number' if valueType is not provided
+  const metricValueType = valueType || 'number';
+  const metricAggregation = aggregation || defaultAggregation(metricValueType);
+  const metricCadence = cadence || 'weekly';
+
+  const [toleranceValue, toleranceType] = toleranceColumns(tolerance);
+
+  // Build the update query based on which optional fields are provided
+  let updateQuery = 'UPDATE metrics SET name = ?, target_value = ?, target_unit = ?, target_operator = ?, target_upper_value = ?, owner_id = ?, value_type = ?, tolerance_value = ?, tolerance_type = ?, formula = ?, aggregation = ?, cadence = ?';
+  let params = [name, target.value, target.unit, target.operator, targetUpperValue(target), owner.id, metricValueType, toleranceValue, toleranceType, formula, metricAggregation, metricCadence];
+
+  // Add display_order if provided
+  if (displayOrder !== undefined) {
+    updateQuery += ', display_order = ?';
+    params.push(displayOrder);
+  }
+
+  // Add WHERE clause and ID
+  updateQuery += ' WHERE id = ?';
+  params.push(req.params.id);
+
+  try {
+    const existing = await auditSnapshot('metrics', req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Metric not found' });
+      return;
+    }
+
+    const formulaError = await checkFormula(formula, name, req.params.id, existing.scorecard_id);
+    if (formulaError) {
+      res.status(400).json({ error: formulaError });
+      return;
+    }
+
+    const ownerError = owner.id !== existing.owner_id && await ownerProblem(owner.id);
+    if (ownerError) {
+      res.status(400).json({ error: ownerError });
+      return;
+    }
+
+    // Capture the target in force before this edit so completed weeks keep being judged against it
+    await ensureTargetBaseline(req.params.id);
+    const history = await loadTargetHistory(req.params.id);
+    const currentTarget = resolveTarget(history, new Date().toISOString());
+
+    const result = await dbUtils.run(db, updateQuery, params);
+    if (result.changes === 0) {
+      res.status(404).json({ error: 'Metric not found' });
+      return;
+    }
+
+    // A changed goal applies from the week in progress onwards
+    if (currentTarget && !targetsEqual(currentTarget, target)) {
+      await recordTargetChange(req.params.id, target, startOfCurrentWeek().toISOString());
+    }
+
+    // Keep other metrics' formulas pointing at this metric after a rename
+    if (existing.name !== name) {
+      await renameFormulaReferences(req.params.id, existing.name, name);
+    }
+
+    const updatedMetric = {
+      id: req.params.id,
+      name,
+      target,
+      targetHistory: await loadTargetHistory(req.params.id),
+      owner,
+      scorecardId: existing.scorecard_id,
+      displayOrder,
+      valueType: metricValueType,
+      aggregation: metricAggregation,
+      cadence: metricCadence,
+      ...(toleranceValue !== null && { tolerance: { value: toleranceValue, type: toleranceType } }),
+      ...(formula && { formula })
+    };
+
+    await recordAudit(req, {
+      entityType: 'metric',
+      entityId: req.params.id,
+      metricId: req.params.id,
+      action: 'update',
+      before: existing,
+      after: await auditSnapshot('metrics', req.params.id)
+    });
+    res.json(updatedMetric);
+
+    // Broadcast the updated metric to the clients viewing its scorecard
+    broadcastChange('metric_updated', updatedMetric, existing.scorecard_id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// GET a metric's target history, including scheduled future changes
+app.get('/api/metrics/:id/targets', async (req, res) => {
+  try {
+    res.json(await loadTargetHistory(req.params.id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST a target change effective from a given date (past or future)
+app.post('/api/metrics/:id/targets', requirePermission(permissions.canFacilitate, "change metrics' goals"), async (req, res) => {
+  const { target, effectiveFrom } = req.body;
+
+  if (!target || !effectiveFrom || isNaN(new Date(effectiveFrom).getTime())) {
+    res.status(400).json({ error: 'target and a valid effectiveFrom date are required' });
+    return;
+  }
+
+  if (target.operator === 'between' && !(target.upperValue >= target.value)) {
+    res.status(400).json({ error: 'A between target needs an upper value at least equal to its lower value' });
+    return;
+  }
+
+  try {
+    const metric = await dbUtils.get(db, 'SELECT id FROM metrics WHERE id = ?', [req.params.id]);
+    if (!metric) {
+      res.status(404).json({ error: 'Metric not found' });
+      return;
+    }
+
+    await ensureTargetBaseline(req.params.id);
+    const change = await recordTargetChange(req.params.id, target, new Date(effectiveFrom).toISOString());
+    await syncCurrentTarget(req.params.id);
+
+    await recordAudit(req, {
+      entityType: 'metric_target',
+      entityId: change.id,
+      metricId: req.params.id,
+      action: 'create',
+      after: await auditSnapshot('metric_targets', change.id)
+    });
+    res.status(201).json(change);
+
+    broadcastMetricChange('metric_updated', { id: req.params.id }, req.params.id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// DELETE a target change from a metric's history
+app.delete('/api/metrics/:id/targets/:targetId', requirePermission(permissions.canFacilitate, "change metrics' goals"), async (req, res) => {
+  try {
+    const history = await loadTargetHistory(req.params.id);
+
+    if (!history.some(entry => entry.id === req.params.targetId)) {
+      res.status(404).json({ error: 'Target change not found' });
+      return;
+    }
+
+    if (history.length === 1) {
+      res.status(400).json({ error: 'Cannot delete the only target for a metric' });
+      return;
+    }
+
+    const before = await auditSnapshot('metric_targets', req.params.targetId);
+    await dbUtils.run(db, 'DELETE FROM metric_targets WHERE id = ? AND metric_id = ?', [req.params.targetId, req.params.id]);
+    await syncCurrentTarget(req.params.id);
+
+    await recordAudit(req, { entityType: 'metric_target', entityId: req.params.targetId, metricId: req.params.id, action: 'delete', before });
+
+    res.json({ id: req.params.targetId, deleted: true });
+
+    broadcastMetricChange('metric_updated', { id: req.params.id }, req.params.id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Archive a metric, or restore it from the archive, keeping its values and history either way
+function setMetricArchived(archived) {
+  return async (req, res) => {
+    try {
+      const before = await auditSnapshot('metrics', req.params.id);
+      if (!before) {
+        res.status(404).json({ error: 'Metric not found' });
+        return;
+      }
+
+      const archivedAt = archived ? (before.archived_at || new Date().toISOString()) : null;
+      await dbUtils.run(db, 'UPDATE metrics SET archived_at = ? WHERE id = ?', [archivedAt, req.params.id]);
+
+      await recordAudit(req, {
+        entityType: 'metric',
+        entityId: req.params.id,
+        metricId: req.params.id,
+        action: archived ? 'archive' : 'unarchive',
+        before,
+        after: await auditSnapshot('metrics', req.params.id)
+      });
+      res.json({ id: req.params.id, archivedAt });
+
+      broadcastChange('metric_updated', { id: req.params.id, archivedAt }, before.scorecard_id);
+    } catch (err) {
+      res.status(500).json({ error: err.message });
+    }
+  };
+}
+
+app.post('/api/metrics/:id/archive', requirePermission(permissions.canFacilitate, 'archive metrics'), setMetricArchived(true));
+
+app.post('/api/metrics/:id/unarchive', requirePermission(permissions.canFacilitate, 'unarchive metrics'), setMetricArchived(false));
+
+// DELETE a metric and all of its history. Archiving keeps the history instead.
+app.delete('/api/metrics/:id', requirePermission(permissions.isAdmin, 'delete metrics'), async (req, res) => {
+  // The audit entry keeps the metric's values, which are deleted with it
+  let before;
+
+  // Calculated metrics would lose an input, so refuse while any formula refers to this metric
+  try {
+    const dependents = await findFormulaDependents(req.params.id);
+    if (dependents.length > 0) {
+      res.status(400).json({
+        error: `Cannot delete metric because it is used in the formula for ${dependents.map(metric => metric.name).join(', ')}`
+      });
+      return;
+    }
+
+    const metric = await auditSnapshot('metrics', req.params.id);
+    const values = await dbUtils.all(db, 'SELECT * FROM weekly_values WHERE metric_id = ?', [req.params.id]);
+    before = metric && { ...metric, weekly_values: values };
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
+
+  // First delete any weekly values associated with this metric
+  db.run('DELETE FROM weekly_values WHERE metric_id = ?', [req.params.id], (err) => {
+    if (err) {
+      res.status(500).json({ error: err.message });
+      return;
+    }
+
+    // Then its target history
+    db.run('DELETE FROM metric_targets WHERE metric_id = ?', [req.params.id], (err) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // Then the comments on its cells
+      db.run('DELETE FROM value_comments WHERE metric_id = ?', [req.params.id], (err) => {
+        if (err) {
+          res.status(500).json({ error: err.message });
+          return;
+        }
+
+        // Then delete the metric
+        db.run('DELETE FROM metrics WHERE id = ?', [req.params.id], function(err) {
+          if (err) {
+            res.status(500).json({ error: err.message });
+            return;
+          }
+
+          if (this.changes === 0) {
+            res.status(404).json({ error: 'Metric not found' });
+            return;
+          }
+
+          recordAudit(req, { entityType: 'metric', entityId: req.params.id, metricId: req.params.id, action: 'delete', before });
+          res.json({ id: req.params.id, deleted: true });
+
+          // Broadcast the deletion to the clients viewing its scorecard
+          broadcastChange('metric_deleted', { id: req.params.id }, before.scorecard_id);
+        });
+      });
+    });
+  });
+});
+
+// GET all weeks
+app.get('/api/weeks', (req, res) => {
+  // Get the start of today in the organization's time zone for filtering incomplete weeks
+  const today = weekCalendar.startOfToday(orgSettings);
+
+  // Use SQL to filter and sort weeks directly in the database query
+  db.all(
+    `SELECT *
+     FROM weeks
+     WHERE end_date < ?
+     ORDER BY start_date ASC`,
+    [today.toISOString()],
+    (err, rows) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // Transform the data to match the frontend structure
+      const completedWeeks = rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        startDate: row.start_date,
+        endDate: row.end_date
+      }));
+
+      res.json(completedWeeks);
+    }
+  );
+});
+
+// Add the weeks that have completed since the latest stored week, in the organization's calendar.
+// Calls back with the new weeks, or null if there are no weeks yet (database not initialized).
+function addCompletedWeeks(callback) {
+  db.get(
+    'SELECT end_date, (SELECT COUNT(*) FROM weeks) as count FROM weeks ORDER BY end_date DESC LIMIT 1',
+    (err, latestWeek) => {
+      if (err) {
+        callback(err);
+        return;
+      }
+
+      // If no weeks exist, just return (don't auto-initialize)
+      if (!latestWeek) {
+        callback(null, null);
+        return;
+      }
+
+      const newWeeks = weekCalendar.completedWeeksAfter(latestWeek.end_date, orgSettings).map((bounds, i) => ({
+        id: uuidv4(),
+        name: `Week ${latestWeek.count + i + 1}`,
+        startDate: bounds.start_date,
+        endDate: bounds.end_date
+      }));
+
+      if (newWeeks.length === 0) {
+        callback(null, []);
+        return;
+      }
+
+      dbUtils.withTransaction(db, async () => {
+        for (const week of newWeeks) {
+          await dbUtils.run(db, 'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)', [week.id, week.name, week.startDate, week.endDate]);
+          console.log(`Added new week: ${week.name} (${week.startDate} - ${week.endDate})`);
+        }
+      })
+        .then(() => {
+          // Broadcast the new weeks to all connected clients
+          broadcastChange('weeks_updated', newWeeks);
+          callback(null, newWeeks);
+        })
+        .catch(callback);
+    }
+  );
+}
+
+// Function to check for and create new completed weeks
+function checkAndCreateNewWeeks() {
+  addCompletedWeeks((err, newWeeks) => {
+    if (err) {
+      console.error('Error checking for new weeks:', err.message);
+      return;
+    }
+
+    if (!newWeeks) {
+      console.log('No weeks found - database not initialized yet');
+    } else if (newWeeks.length > 0) {
+      console.log(`Created ${newWeeks.length} new completed weeks`);
+    }
+  });
+}
+
+// Endpoint to check for new weeks and add them
+app.post('/api/weeks/update', async (req, res) => {
+  try {
+    // Check if database is initialized first
+    const isInitialized = await isDatabaseInitialized();
+    if (!isInitialized) {
+      return res.json({ message: 'Database not initialized yet', newWeeks: [] });
+    }
+
+    addCompletedWeeks((err, newWeeks) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      // If no weeks exist (but database is initialized), something is wrong
+      if (!newWeeks) {
+        return res.status(500).json({ error: 'Database is initialized but no weeks found' });
+      }
 
-// Check database initialization status
-app.get('/api/status', async (req, res) => {
-  try {
-    const isInitialized = await isDatabaseInitialized();
-    const dbStatus = getDbStatus();
+      if (newWeeks.length === 0) {
+        return res.json({ message: 'No new weeks needed', newWeeks: [] });
+      }
 
-    res.json({
-      initialized: isInitialized,
-      initDate: dbStatus.initDate,
-      lastBackupDate: dbStatus.lastBackupDate
+      res.json({ message: 'Weeks updated', newWeeks });
     });
   } catch (err) {
     res.status(500).json({ error: err.message });
   }
 });
 
-// Trigger a database backup
-app.post('/api/backup', async (req, res) => {
-  try {
-    const force = req.query.force === 'true';
+// Comments joined with their author, who may since have been deleted
+const COMMENT_SELECT = `
+  SELECT c.id, c.metric_id, c.week_id, c.author_id, c.body, c.created_at,
+    p.name as author_name, p.email as author_email
+  FROM value_comments c
+  LEFT JOIN people p ON c.author_id = p.id
+`;
+
+// Build a comment object from a COMMENT_SELECT row
+function commentFromRow(row) {
+  return {
+    id: row.id,
+    metricId: row.metric_id,
+    weekId: row.week_id,
+    author: row.author_name !== null ? { id: row.author_id, name: row.author_name, email: row.author_email } : null,
+    body: row.body,
+    createdAt: row.created_at
+  };
+}
 
-    // This is async due to the db.close callback, so we need to handle the response differently
-    db.get('SELECT 1', (err) => {
-      if (err) {
-        return res.status(500).json({ error: 'Database not available', success: false });
-      }
+// GET comments on value cells, oldest first, optionally for one metric and/or week
+app.get('/api/comments', async (req, res) => {
+  const conditions = [];
+  const params = [];
+  if (req.query.metricId) {
+    conditions.push('c.metric_id = ?');
+    params.push(req.query.metricId);
+  }
+  if (req.query.weekId) {
+    conditions.push('c.week_id = ?');
+    params.push(req.query.weekId);
+  }
 
-      const status = getDbStatus();
-      const now = new Date();
-      const initDate = new Date(status.initDate);
+  try {
+    const rows = await dbUtils.all(
+      db,
+      `${COMMENT_SELECT} ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY c.created_at ASC`,
+      params
+    );
+    res.json(rows.map(commentFromRow));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-      // Skip time checks if force is true
-      if (!force) {
-        // Check if DB is too new
-        if (now - initDate < MIN_BACKUP_AGE_MS) {
-          return res.json({
-            success: false,
-            message: 'Database is too new for backup (less than 7 days since initialization)',
-            initDate: status.initDate,
-            lastBackupDate: status.lastBackupDate,
-            minBackupAge: MIN_BACKUP_AGE_MS / (24 * 60 * 60 * 1000) + ' days'
-          });
-        }
+// POST a comment on a metric's value cell for a week. The signed-in user's person is its author.
+app.post('/api/comments', async (req, res) => {
+  const { metricId, weekId } = req.body;
+  const authorId = req.user.person.id;
+  const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
 
-        // Check if last backup is too recent
-        if (status.lastBackupDate) {
-          const lastBackupDate = new Date(status.lastBackupDate);
-          if (now - lastBackupDate < MIN_BACKUP_AGE_MS) {
-            return res.json({
-              success: false,
-              message: 'Last backup is too recent (less than 7 days ago)',
-              initDate: status.initDate,
-              lastBackupDate: status.lastBackupDate,
-              minBackupAge: MIN_BACKUP_AGE_MS / (24 * 60 * 60 * 1000) + ' days'
-            });
-          }
-        }
-      }
+  if (!metricId || !weekId || !body) {
+    res.status(400).json({ error: 'metricId, weekId and a non-empty body are required' });
+    return;
+  }
 
-      // Format the date for the backup filename (YYYY-MM-DD)
-      const dateStr = now.toISOString().split('T')[0];
-      const backupPath = path.join(DB_PATH, `scorecard.${dateStr}.db`);
+  try {
+    const metric = await dbUtils.get(db, 'SELECT id FROM metrics WHERE id = ?', [metricId]);
+    const week = await dbUtils.get(db, 'SELECT id FROM weeks WHERE id = ?', [weekId]);
+    if (!metric || !week) {
+      res.status(404).json({ error: `${!metric ? 'Metric' : 'Week'} not found` });
+      return;
+    }
 
-      // Close the current database connection
-      db.close(() => {
-        try {
-          // Copy the database file
-          fs.copyFileSync(dbPath, backupPath);
-          console.log(`Database backup created: ${backupPath}`);
+    const id = uuidv4();
+    await dbUtils.run(
+      db,
+      'INSERT INTO value_comments (id, metric_id, week_id, author_id, body, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, metricId, weekId, authorId, body, new Date().toISOString()]
+    );
 
-          // Update the last backup date
-          updateDbStatus({ lastBackupDate: now.toISOString() });
+    await recordAudit(req, {
+      entityType: 'comment',
+      entityId: id,
+      metricId,
+      weekId,
+      action: 'create',
+      after: await auditSnapshot('value_comments', id)
+    });
 
-          // Reconnect to the database
-          db = new sqlite3.Database(dbPath, (err) => {
-            if (err) {
-              console.error('Error reconnecting to database:', err.message);
-              return res.status(500).json({
-                error: 'Error reconnecting to database after backup',
-                success: false
-              });
-            } else {
-              console.log('Reconnected to the SQLite database after backup');
-              return res.json({
-                success: true,
-                message: 'Backup created successfully',
-                backupPath: backupPath,
-                backupDate: now.toISOString()
-              });
-            }
-          });
-        } catch (error) {
-          console.error('Error creating database backup:', error);
+    const comment = commentFromRow(await dbUtils.get(db, `${COMMENT_SELECT} WHERE c.id = ?`, [id]));
+    res.status(201).json(comment);
 
-          // Reconnect to the database even if backup failed
-          db = new sqlite3.Database(dbPath, (err) => {
-            if (err) {
-              console.error('Error reconnecting to database:', err.message);
-              return res.status(500).json({
-                error: 'Error reconnecting to database after failed backup attempt',
-                success: false
-              });
-            } else {
-              console.log('Reconnected to the SQLite database after failed backup attempt');
-              return res.status(500).json({
-                error: 'Failed to create backup: ' + error.message,
-                success: false
-              });
-            }
-          });
-        }
-      });
-    });
+    // Broadcast the new comment to the clients viewing its metric's scorecard
+    broadcastMetricChange('comment_created', comment, metricId);
   } catch (err) {
-    res.status(500).json({ error: err.message, success: false });
+    res.status(500).json({ error: err.message });
   }
 });
 
-// Initialize database with sample data
-app.post('/api/initialize/sample', async (req, res) => {
+// DELETE a comment
+app.delete('/api/comments/:id', async (req, res) => {
   try {
-    const isInitialized = await isDatabaseInitialized();
-    if (isInitialized) {
-      return res.status(400).json({ error: 'Database is already initialized' });
+    const before = await auditSnapshot('value_comments', req.params.id);
+    if (!before) {
+      res.status(404).json({ error: 'Comment not found' });
+      return;
     }
 
-    await checkForDataAndInitializeSampleData();
-    res.json({ success: true, message: 'Database initialized with sample data' });
+    // Authors may delete their own comments; facilitators and admins may delete any
+    if (!permissions.canFacilitate(req.user) && before.author_id !== req.user.person.id) {
+      forbidden(res, "delete other people's comments");
+      return;
+    }
+
+    await dbUtils.run(db, 'DELETE FROM value_comments WHERE id = ?', [req.params.id]);
+    await recordAudit(req, {
+      entityType: 'comment',
+      entityId: req.params.id,
+      metricId: before.metric_id,
+      weekId: before.week_id,
+      action: 'delete',
+      before
+    });
+
+    res.json({ id: req.params.id, deleted: true });
+
+    // Broadcast the deletion to the clients viewing its metric's scorecard
+    broadcastMetricChange('comment_deleted', { id: req.params.id }, before.metric_id);
   } catch (err) {
     res.status(500).json({ error: err.message });
   }
 });
 
-// Initialize database from EOS data
-app.post('/api/initialize/eos', async (req, res) => {
+// GET organization settings
+app.get('/api/settings', (req, res) => {
+  res.json(orgSettings);
+});
+
+// PUT organization settings. Changes apply to weeks created from now on;
+// existing weeks keep the boundaries they were created with.
+app.put('/api/settings', requirePermission(permissions.isAdmin, 'change settings'), async (req, res) => {
+  const weekStartDay = req.body.weekStartDay !== undefined ? req.body.weekStartDay : orgSettings.weekStartDay;
+  const timeZone = req.body.timeZone !== undefined ? req.body.timeZone : orgSettings.timeZone;
+
+  if (!Number.isInteger(weekStartDay) || weekStartDay < 0 || weekStartDay > 6) {
+    res.status(400).json({ error: 'weekStartDay must be a whole number from 0 (Sunday) to 6 (Saturday)' });
+    return;
+  }
+
+  if (!weekCalendar.isValidTimeZone(timeZone)) {
+    res.status(400).json({ error: `Unknown time zone: ${timeZone}` });
+    return;
+  }
+
   try {
-    const isInitialized = await isDatabaseInitialized();
-    if (isInitialized) {
-      return res.status(400).json({ error: 'Database is already initialized' });
-    }
+    const upsert = 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)';
+    await dbUtils.run(db, upsert, ['weekStartDay', String(weekStartDay)]);
+    await dbUtils.run(db, upsert, ['timeZone', timeZone]);
 
-    const { data } = req.body;
+    await recordAudit(req, { entityType: 'settings', action: 'update', before: orgSettings, after: { weekStartDay, timeZone } });
 
-    if (!data || !data.measurables || !data.dates) {
-      return res.status(400).json({ error: 'Invalid EOS data format' });
-    }
+    orgSettings = { weekStartDay, timeZone };
+    res.json(orgSettings);
 
-    await importEosData(data);
-    res.json({ success: true, message: 'Database initialized with EOS data' });
+    // Broadcast the change to all connected clients
+    broadcastChange('settings_updated', orgSettings);
   } catch (err) {
-    console.error('Error importing EOS data:', err);
     res.status(500).json({ error: err.message });
   }
 });
 
-// GET all people
-app.get('/api/people', (req, res) => {
-  db.all('SELECT * FROM people', (err, rows) => {
+// GET all weekly values, or those of one scorecard's metrics with ?scorecardId=
+app.get('/api/weekly-values', (req, res) => {
+  const { scorecardId } = req.query;
+  const query = scorecardId
+    ? 'SELECT wv.* FROM weekly_values wv JOIN metrics m ON wv.metric_id = m.id WHERE m.scorecard_id = ?'
+    : 'SELECT * FROM weekly_values';
+
+  db.all(query, scorecardId ? [scorecardId] : [], (err, rows) => {
     if (err) {
       res.status(500).json({ error: err.message });
       return;
     }
-    res.json(rows);
+
+    // Transform to match frontend structure
+    const values = rows.map(row => ({
+      metricId: row.metric_id,
+      weekId: row.week_id,
+      value: row.value,
+      unit: row.unit,
+      notApplicable: row.not_applicable === 1
+    }));
+
+    res.json(values);
   });
 });
 
-// GET a single person
-app.get('/api/people/:id', (req, res) => {
-  db.get('SELECT * FROM people WHERE id = ?', [req.params.id], (err, row) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-      return;
-    }
-    if (!row) {
-      res.status(404).json({ error: 'Person not found' });
-      return;
-    }
-    res.json(row);
-  });
+// Add endpoint to reorder the metrics on a scorecard; the body lists them in their new order
+app.post('/api/metrics/reorder', requirePermission(permissions.canFacilitate, 'reorder metrics'), async (req, res) => {
+  const { metrics, scorecardId } = req.body;
+
+  if (!metrics || !Array.isArray(metrics)) {
+    res.status(400).json({ error: 'Invalid metrics array' });
+    return;
+  }
+
+  if (!scorecardId) {
+    res.status(400).json({ error: 'scorecardId is required' });
+    return;
+  }
+
+  // Metric IDs on the scorecard in their current order, for the audit log
+  let previousOrder;
+  try {
+    previousOrder = (await dbUtils.all(
+      db,
+      'SELECT id FROM metrics WHERE scorecard_id = ? ORDER BY display_order ASC',
+      [scorecardId]
+    )).map(row => row.id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
+
+  if (metrics.some(metric => !previousOrder.includes(metric.id))) {
+    res.status(400).json({ error: 'Only metrics on the scorecard can be reordered' });
+    return;
+  }
+
+  try {
+    // Update the display order of each metric, all or none
+    await dbUtils.withTransaction(db, async () => {
+      for (const [index, metric] of metrics.entries()) {
+        await dbUtils.run(db, 'UPDATE metrics SET display_order = ? WHERE id = ?', [index, metric.id]);
+      }
+    });
+  } catch (err) {
+    console.error('Error updating metric order:', err);
+    res.status(500).json({ error: 'Failed to update metrics order' });
+    return;
+  }
+
+  recordAudit(req, { entityType: 'metric', action: 'reorder', before: previousOrder, after: metrics.map(metric => metric.id) });
+  res.json({ message: 'Metrics reordered successfully' });
+
+  // Broadcast the reorder event to the clients viewing the scorecard
+  broadcastChange('metrics_reordered', { scorecardId, metrics }, scorecardId);
 });
 
-// POST a new person
-app.post('/api/people', (req, res) => {
-  const { name, email } = req.body;
+// Archived metrics' values are kept as they were when the metric was retired
+const ARCHIVED_VALUES_ERROR = "An archived metric's values can't be changed; unarchive it first";
+
+// POST (update) a weekly value. Set notApplicable to mark the week N/A instead of entering a value.
+app.post('/api/weekly-values', requireMetricEditor(req => req.body.metricId, "enter this metric's values"), (req, res) => {
+  const { metricId, weekId, unit } = req.body;
+  const notApplicable = req.body.notApplicable === true;
+
+  if (!metricId || !weekId || (req.body.value === undefined && !notApplicable)) {
+    res.status(400).json({ error: 'metricId, weekId, and value are required' });
+    return;
+  }
+
+  // N/A weeks keep no value
+  const value = notApplicable ? 0 : req.body.value;
+
+  // Look up the metric along with any existing value for this week
+  db.get(
+    `SELECT m.formula, m.cadence, m.scorecard_id, m.archived_at, wv.id as value_id,
+       wv.value as previous_value, wv.unit as previous_unit, wv.not_applicable as previous_not_applicable
+     FROM metrics m
+     LEFT JOIN weekly_values wv ON wv.metric_id = m.id AND wv.week_id = ?
+     WHERE m.id = ?`,
+    [weekId, metricId],
+    (err, row) => {
+      if (err) {
+        res.status(500).json({ error: err.message });
+        return;
+      }
+
+      if (!row) {
+        res.status(404).json({ error: 'Metric not found' });
+        return;
+      }
+
+      if (row.formula) {
+        res.status(400).json({ error: 'Values for calculated metrics are derived from their formula' });
+        return;
+      }
+
+      if (row.archived_at) {
+        res.status(400).json({ error: ARCHIVED_VALUES_ERROR });
+        return;
+      }
+
+      const unitValue = unit || '';
+
+      // Monthly, quarterly and bi-weekly metrics hold one value per period
+      if (row.cadence && row.cadence !== 'weekly') {
+        savePeriodValue(metricId, weekId, value, unitValue, notApplicable, row.cadence)
+          .then(async ({ created, saved, before }) => {
+            await recordAudit(req, {
+              entityType: 'weekly_value',
+              entityId: before ? before.id : saved.id,
+              metricId,
+              weekId: saved.weekId,
+              action: created ? 'create' : 'update',
+              before,
+              after: await dbUtils.get(db, 'SELECT * FROM weekly_values WHERE metric_id = ? AND week_id = ?', [metricId, saved.weekId])
+            });
+            res.status(created ? 201 : 200).json(saved);
+            broadcastChange(created ? 'weekly_value_created' : 'weekly_value_updated', saved, row.scorecard_id);
+          })
+          .catch(err => res.status(500).json({ error: err.message }));
+        return;
+      }
+
+      if (row.value_id) {
+        // Update existing value
+        db.run(
+          'UPDATE weekly_values SET value = ?, unit = ?, not_applicable = ? WHERE metric_id = ? AND week_id = ?',
+          [value, unitValue, notApplicable ? 1 : 0, metricId, weekId],
+          function(err) {
+            if (err) {
+              res.status(500).json({ error: err.message });
+              return;
+            }
+
+            const before = {
+              id: row.value_id,
+              metric_id: metricId,
+              week_id: weekId,
+              value: row.previous_value,
+              unit: row.previous_unit,
+              not_applicable: row.previous_not_applicable
+            };
+            recordAudit(req, {
+              entityType: 'weekly_value',
+              entityId: row.value_id,
+              metricId,
+              weekId,
+              action: 'update',
+              before,
+              after: { ...before, value, unit: unitValue, not_applicable: notApplicable ? 1 : 0 }
+            });
+
+            const updatedValue = { metricId, weekId, value, unit: unitValue, notApplicable };
+            res.json(updatedValue);
+
+            // Broadcast the updated value to the clients viewing its scorecard
+            broadcastChange('weekly_value_updated', updatedValue, row.scorecard_id);
+          }
+        );
+      } else {
+        // Insert new value with UUID
+        const id = uuidv4();
+        db.run(
+          'INSERT INTO weekly_values (id, metric_id, week_id, value, unit, not_applicable) VALUES (?, ?, ?, ?, ?, ?)',
+          [id, metricId, weekId, value, unitValue, notApplicable ? 1 : 0],
+          function(err) {
+            if (err) {
+              res.status(500).json({ error: err.message });
+              return;
+            }
 
-  if (!name || !email) {
-    res.status(400).json({ error: 'Name and email are required' });
-    return;
-  }
+            recordAudit(req, {
+              entityType: 'weekly_value',
+              entityId: id,
+              metricId,
+              weekId,
+              action: 'create',
+              after: { id, metric_id: metricId, week_id: weekId, value, unit: unitValue, not_applicable: notApplicable ? 1 : 0 }
+            });
 
-  const id = uuidv4();
+            const newValue = { id, metricId, weekId, value, unit: unitValue, notApplicable };
+            res.status(201).json(newValue);
 
-  db.run(
-    'INSERT INTO people (id, name, email) VALUES (?, ?, ?)',
-    [id, name, email],
-    function(err) {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
+            // Broadcast the new value to the clients viewing its scorecard
+            broadcastChange('weekly_value_created', newValue, row.scorecard_id);
+          }
+        );
       }
-
-      const newPerson = { id, name, email };
-      res.status(201).json(newPerson);
-
-      // Broadcast the new person to all connected clients
-      broadcastChange('person_created', newPerson);
     }
   );
 });
 
-// PUT (update) a person
-app.put('/api/people/:id', (req, res) => {
-  const { name, email } = req.body;
-
-  if (!name || !email) {
-    res.status(400).json({ error: 'Name and email are required' });
-    return;
-  }
-
-  db.run(
-    'UPDATE people SET name = ?, email = ? WHERE id = ?',
-    [name, email, req.params.id],
-    function(err) {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
-      }
-
-      if (this.changes === 0) {
-        res.status(404).json({ error: 'Person not found' });
-        return;
-      }
+// DELETE a weekly value, clearing the cell. For non-weekly metrics this clears the whole period.
+app.delete('/api/weekly-values/:metricId/:weekId', requireMetricEditor(req => req.params.metricId, "clear this metric's values"), async (req, res) => {
+  const { metricId, weekId } = req.params;
 
-      const updatedPerson = { id: req.params.id, name, email };
-      res.json(updatedPerson);
+  try {
+    const metric = await dbUtils.get(db, 'SELECT cadence, scorecard_id, archived_at FROM metrics WHERE id = ?', [metricId]);
+    if (!metric) {
+      res.status(404).json({ error: 'Metric not found' });
+      return;
+    }
 
-      // Broadcast the updated person to all connected clients
-      broadcastChange('person_updated', updatedPerson);
+    if (metric.archived_at) {
+      res.status(400).json({ error: ARCHIVED_VALUES_ERROR });
+      return;
     }
-  );
-});
 
-// DELETE a person
-app.delete('/api/people/:id', (req, res) => {
-  // First check if the person owns any metrics
-  db.get('SELECT COUNT(*) as count FROM metrics WHERE owner_id = ?', [req.params.id], (err, row) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
+    const weekIds = metric.cadence && metric.cadence !== 'weekly'
+      ? await periodWeekIdsFor(weekId, metric.cadence)
+      : [weekId];
+    const inWeeks = `metric_id = ? AND week_id IN (${weekIds.map(() => '?').join(', ')})`;
+    const deleted = await dbUtils.all(db, `SELECT * FROM weekly_values WHERE ${inWeeks}`, [metricId, ...weekIds]);
+    if (deleted.length === 0) {
+      res.status(404).json({ error: 'Weekly value not found' });
       return;
     }
 
-    if (row.count > 0) {
-      res.status(400).json({
-        error: 'Cannot delete person because they own metrics',
-        metricCount: row.count
+    await dbUtils.run(db, `DELETE FROM weekly_values WHERE ${inWeeks}`, [metricId, ...weekIds]);
+    for (const before of deleted) {
+      await recordAudit(req, {
+        entityType: 'weekly_value',
+        entityId: before.id,
+        metricId,
+        weekId: before.week_id,
+        action: 'delete',
+        before
       });
-      return;
     }
 
-    // If no metrics are owned, proceed with deletion
-    db.run('DELETE FROM people WHERE id = ?', [req.params.id], function(err) {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
-      }
+    res.json({ metricId, weekId, deleted: true });
 
-      if (this.changes === 0) {
-        res.status(404).json({ error: 'Person not found' });
-        return;
-      }
+    // Broadcast the deletion to the clients viewing its scorecard
+    broadcastChange('weekly_value_deleted', { metricId, weekId }, metric.scorecard_id);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-      res.json({ id: req.params.id, deleted: true });
+// Sort imported values ({ metricId, weekId, value, unit, notApplicable }) into what importing them
+// would do: create a value, overwrite one, leave one unchanged, or conflict with the metric, the
+// week or an earlier row. Non-weekly metrics hold one value per period, stored on its first week.
+// Values can give a date (YYYY-MM-DD) instead of a week; one with no week yet gets a new week
+// (result.newWeek), to be created along with the values.
+async function classifyImport(values) {
+  const { timeZone } = orgSettings;
+  const metrics = await dbUtils.all(db, 'SELECT id, formula, archived_at, cadence, scorecard_id FROM metrics');
+  const weeks = await dbUtils.all(db, 'SELECT id, name, start_date, end_date FROM weeks ORDER BY start_date ASC');
+  const stored = await dbUtils.all(db, 'SELECT * FROM weekly_values');
+
+  const metricsById = new Map(metrics.map(metric => [metric.id, metric]));
+  const storedByCell = new Map(stored.map(value => [`${value.metric_id}:${value.week_id}`, value]));
+  const seen = new Set();
+
+  // The week each date falls in, or why it can't have one. Weeks start on the configured day
+  // and are only created once they're over, as the scorecard's own weeks are.
+  const today = weekCalendar.startOfToday(orgSettings);
+  const dayRange = week => ({
+    week,
+    start: weekCalendar.calendarDate(new Date(week.start_date), timeZone),
+    end: weekCalendar.calendarDate(new Date(week.end_date), timeZone)
+  });
+  const ranges = weeks.map(dayRange);
+  const weeksByDate = new Map();
+  values.forEach(entry => {
+    const date = entry && !entry.weekId && entry.date;
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || weeksByDate.has(date)) {
+      return;
+    }
+    const containing = ranges.find(range => range.start <= date && date <= range.end);
+    if (containing) {
+      weeksByDate.set(date, { week: containing.week });
+      return;
+    }
 
-      // Broadcast the deletion to all connected clients
-      broadcastChange('person_deleted', { id: req.params.id });
-    });
+    const bounds = weekCalendar.weekContaining(date, orgSettings);
+    const range = dayRange({ id: uuidv4(), name: `Week of ${bounds.day}`, start_date: bounds.start_date, end_date: bounds.end_date, isNew: true });
+    const overlapped = ranges.find(other => other.start <= range.end && range.start <= other.end);
+    if (new Date(bounds.end_date) >= today) {
+      weeksByDate.set(date, { error: `The week of ${bounds.day} isn't over yet` });
+    } else if (overlapped) {
+      weeksByDate.set(date, { error: `The week of ${bounds.day} would overlap ${overlapped.week.name}` });
+    } else {
+      ranges.push(range);
+      weeks.push(range.week);
+      weeksByDate.set(date, { week: range.week });
+    }
   });
-});
+  weeks.sort((a, b) => (a.start_date < b.start_date ? -1 : a.start_date > b.start_date ? 1 : 0));
 
-// GET all metrics
-app.get('/api/metrics', (req, res) => {
-  // Join with people to get the owner details
-  db.all(`
-    SELECT
-      m.id, m.name, m.target_value, m.target_unit, m.target_operator, m.display_order, m.value_type,
-      p.id as owner_id, p.name as owner_name, p.email as owner_email
-    FROM metrics m
-    JOIN people p ON m.owner_id = p.id
-    ORDER BY m.display_order ASC
-  `, (err, rows) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-      return;
+  return values.map((entry, index) => {
+    const metric = metricsById.get(entry && entry.metricId);
+    const byDate = entry && !entry.weekId && weeksByDate.get(entry.date);
+    const week = byDate ? byDate.week : entry && weeks.find(candidate => candidate.id === entry.weekId);
+    const notApplicable = Boolean(entry && entry.notApplicable === true);
+    const conflict = error => ({ index, status: 'conflict', metricId: entry && entry.metricId, weekId: entry && entry.weekId, error });
+
+    if (!metric) {
+      return conflict('Metric not found');
+    }
+    if (metric.formula) {
+      return conflict('Values for calculated metrics are derived from their formula');
+    }
+    if (metric.archived_at) {
+      return conflict(ARCHIVED_VALUES_ERROR);
+    }
+    if (byDate && byDate.error) {
+      return conflict(byDate.error);
+    }
+    if (!week) {
+      return conflict(entry.weekId ? 'Week not found' : 'No week or date');
+    }
+    if (!notApplicable && !(typeof entry.value === 'number' && isFinite(entry.value))) {
+      return conflict('Value must be a number');
     }
 
-    // Transform the rows to match the frontend data structure
-    const metrics = rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      target: {
-        value: row.target_value,
-        unit: row.target_unit,
-        operator: row.target_operator
-      },
-      owner: {
-        id: row.owner_id,
-        name: row.owner_name,
-        email: row.owner_email
-      },
-      displayOrder: row.display_order,
-      valueType: row.value_type || 'number'
-    }));
+    const cadence = metric.cadence || 'weekly';
+    const periodWeekIds = cadence === 'weekly'
+      ? [week.id]
+      : weeks.filter(candidate => weekCalendar.periodFor(candidate.start_date, cadence, timeZone).id === weekCalendar.periodFor(week.start_date, cadence, timeZone).id).map(candidate => candidate.id);
+    const weekId = periodWeekIds[0];
+
+    const cell = `${metric.id}:${weekId}`;
+    if (seen.has(cell)) {
+      return conflict(cadence === 'weekly' ? 'An earlier row sets this value' : 'An earlier row sets the value for this period');
+    }
+    seen.add(cell);
+
+    const value = notApplicable ? 0 : entry.value;
+    const unit = entry.unit || '';
+    const previous = periodWeekIds.map(id => storedByCell.get(`${metric.id}:${id}`)).find(Boolean);
+    const result = {
+      index, metricId: metric.id, weekId, value, unit, notApplicable, cadence, scorecardId: metric.scorecard_id,
+      ...(week.isNew && { newWeek: week })
+    };
 
-    res.json(metrics);
+    if (!previous) {
+      return { ...result, status: 'create' };
+    }
+    const unchanged = previous.week_id === weekId &&
+      Boolean(previous.not_applicable) === notApplicable &&
+      (notApplicable || (previous.value === value && previous.unit === unit));
+    return {
+      ...result,
+      status: unchanged ? 'unchanged' : 'overwrite',
+      previous: { metricId: metric.id, weekId: previous.week_id, value: previous.value, unit: previous.unit, notApplicable: Boolean(previous.not_applicable) }
+    };
   });
-});
+}
 
-// POST a new metric
-app.post('/api/metrics', (req, res) => {
-  const { name, target, owner, valueType } = req.body;
+// Write classified import values that create or overwrite one, inside the caller's transaction.
+// Returns what was saved, to be audited once the transaction has committed.
+async function saveImportedValues(changes) {
+  const saved = [];
+  for (const change of changes) {
+    const { metricId, weekId, value, unit, notApplicable, cadence } = change;
+    if (cadence !== 'weekly') {
+      const { created, before } = await savePeriodValue(metricId, weekId, value, unit, notApplicable, cadence);
+      saved.push({ metricId, weekId, created, before });
+    } else if (change.status === 'overwrite') {
+      const before = await dbUtils.get(db, 'SELECT * FROM weekly_values WHERE metric_id = ? AND week_id = ?', [metricId, weekId]);
+      await dbUtils.run(
+        db,
+        'UPDATE weekly_values SET value = ?, unit = ?, not_applicable = ? WHERE id = ?',
+        [value, unit, notApplicable ? 1 : 0, before.id]
+      );
+      saved.push({ metricId, weekId, created: false, before });
+    } else {
+      await dbUtils.run(
+        db,
+        'INSERT INTO weekly_values (id, metric_id, week_id, value, unit, not_applicable) VALUES (?, ?, ?, ?, ?, ?)',
+        [uuidv4(), metricId, weekId, value, unit, notApplicable ? 1 : 0]
+      );
+      saved.push({ metricId, weekId, created: true, before: null });
+    }
+  }
+  return saved;
+}
 
-  if (!name || !target || !owner) {
-    res.status(400).json({ error: 'Name, target, and owner are required' });
-    return;
+async function auditImportedValues(req, saved) {
+  for (const { metricId, weekId, created, before } of saved) {
+    const after = await dbUtils.get(db, 'SELECT * FROM weekly_values WHERE metric_id = ? AND week_id = ?', [metricId, weekId]);
+    await recordAudit(req, {
+      entityType: 'weekly_value',
+      entityId: after.id,
+      metricId,
+      weekId,
+      action: created ? 'create' : 'update',
+      before,
+      after
+    });
   }
+}
 
-  // Default to 'number' if valueType is not provided
-  const metricValueType = valueType || 'number';
+// The new weeks that saving classified import values would create
+function importNewWeeks(results) {
+  const changes = results.filter(result => result.newWeek && (result.status === 'create' || result.status === 'overwrite'));
+  return [...new Set(changes.map(change => change.newWeek))];
+}
 
-  const id = uuidv4();
+// The part of an import classification sent to clients
+function importReport(results) {
+  const counts = { create: 0, overwrite: 0, unchanged: 0, conflict: 0 };
+  results.forEach(result => { counts[result.status]++; });
+  return {
+    results: results.map(({ index, status, metricId, weekId, previous, error }) => ({
+      index, status, metricId, weekId, ...(previous && { previous }), ...(error && { error })
+    })),
+    newWeeks: importNewWeeks(results).map(week => ({ id: week.id, name: week.name, startDate: week.start_date, endDate: week.end_date })),
+    counts
+  };
+}
 
-  // Get the highest display_order to append new metric at the end
-  db.get('SELECT MAX(display_order) as maxOrder FROM metrics', (err, row) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
+// Match an export read by one of the importers (see importers/index.js) against the database and
+// work out what importing it onto a scorecard would do, without changing anything. People are
+// matched by email, or by name when the export has none, and weeks by the day they start.
+// Measurables are matched by the id the tool gave them among the scorecard's metrics, then by name
+// among its metrics without one (those added by hand, by imports from before ids were kept or from
+// exports without ids), so the same tool's export can be imported again as its scorecard moves on.
+async function planEosImport(source, scorecardId) {
+  const { timeZone } = orgSettings;
+  const now = new Date().toISOString();
+  const people = await dbUtils.all(db, 'SELECT * FROM people');
+  const weeks = await dbUtils.all(db, 'SELECT * FROM weeks');
+  const metrics = await dbUtils.all(db, 'SELECT * FROM metrics');
+  const targetRows = await dbUtils.all(db, 'SELECT * FROM metric_targets ORDER BY effective_from ASC');
+
+  const peopleByEmail = new Map(people.filter(person => person.email).map(person => [person.email.toLowerCase(), person]));
+  // Where two people share a name, the active one is matched
+  const peopleByName = new Map();
+  people.forEach(person => {
+    const key = person.name.trim().toLowerCase();
+    const other = peopleByName.get(key);
+    if (!other || (other.deactivated_at && !person.deactivated_at)) {
+      peopleByName.set(key, person);
+    }
+  });
+  const weeksByDay = new Map(weeks.map(week => [weekCalendar.calendarDate(new Date(week.start_date), timeZone), week]));
+
+  const plan = { scorecardId, people: new Map(), weeks: [], metrics: [] };
+
+  // Weeks, keyed as the export's values refer to them
+  const weeksByKey = new Map();
+  for (const sourceWeek of source.weeks) {
+    let week = weeksByDay.get(sourceWeek.day);
+    if (!week) {
+      week = { id: uuidv4(), name: sourceWeek.name, start_date: sourceWeek.start_date, end_date: sourceWeek.end_date, isNew: true };
+      weeksByDay.set(sourceWeek.day, week);
+      plan.weeks.push(week);
+    }
+    weeksByKey.set(sourceWeek.key, week);
+  }
+  plan.weekCount = weeksByKey.size;
+
+  // Values of existing metrics in existing weeks are checked together, as a CSV import would be
+  const checked = [];
+
+  source.measurables.forEach(measurable => {
+    const entry = {
+      eosId: measurable.id,
+      name: measurable.name,
+      values: [],
+      valueCounts: { new: 0, updated: 0, unchanged: 0, skipped: 0 },
+      notes: new Set(measurable.notes)
+    };
+    plan.metrics.push(entry);
+
+    if (measurable.problem) {
+      Object.assign(entry, { status: 'skipped', reason: measurable.problem });
       return;
     }
 
-    const displayOrder = (row && row.maxOrder !== null) ? row.maxOrder + 1 : 0;
+    // Owners without an email in the export are matched by name, and those nobody matches are
+    // created without one. Planned people are keyed by id, or by the export's email or name if new.
+    const { fields } = measurable;
+    const person = measurable.ownerEmail
+      ? peopleByEmail.get(measurable.ownerEmail.toLowerCase())
+      : peopleByName.get(measurable.ownerName.trim().toLowerCase());
+    const ownerKey = person ? person.id : (measurable.ownerEmail || measurable.ownerName.trim()).toLowerCase();
+    let owner = plan.people.get(ownerKey);
+    if (!owner) {
+      owner = person
+        ? { id: person.id, name: person.name, email: person.email, deactivated: Boolean(person.deactivated_at), isNew: false }
+        : { id: uuidv4(), name: measurable.ownerName, email: measurable.ownerEmail || null, deactivated: false, isNew: true };
+      plan.people.set(ownerKey, owner);
+    }
 
-    db.run(
-      'INSERT INTO metrics (id, name, target_value, target_unit, target_operator, owner_id, display_order, value_type) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-      [id, name, target.value, target.unit, target.operator, owner.id, displayOrder, metricValueType],
-      function(err) {
-        if (err) {
-          res.status(500).json({ error: err.message });
-          return;
-        }
+    const existing = (entry.eosId && metrics.find(metric => metric.eos_id === entry.eosId && metric.scorecard_id === scorecardId)) ||
+      metrics.find(metric => !metric.eos_id && metric.scorecard_id === scorecardId && metric.name.toLowerCase() === fields.name.toLowerCase());
 
-        const newMetric = {
-          id,
-          name,
-          target,
-          owner,
-          displayOrder,
-          valueType: metricValueType
-        };
+    if (owner.deactivated) {
+      Object.assign(entry, { status: 'skipped', reason: `${owner.name} has been deactivated and can't own metrics` });
+      return;
+    }
+    if (existing && existing.archived_at) {
+      Object.assign(entry, { status: 'skipped', reason: `${existing.name} is archived; unarchive it to import into it` });
+      return;
+    }
+    if (existing && existing.formula) {
+      Object.assign(entry, { status: 'skipped', reason: `${existing.name} is calculated from a formula` });
+      return;
+    }
+
+    owner.used = true;
+    Object.assign(entry, { fields, owner, sequence: measurable.sequence, existing });
+
+    if (existing) {
+      const history = targetRows.filter(row => row.metric_id === existing.id).map(targetChangeFromRow);
+      const currentTarget = resolveTarget(history, now) || targetFromRow(existing);
+      const changed = existing.name !== fields.name ||
+        existing.owner_id !== owner.id ||
+        (existing.value_type || 'number') !== fields.valueType ||
+        existing.eos_id !== entry.eosId ||
+        !targetsEqual(currentTarget, fields.target);
+      entry.status = changed ? 'updated' : 'unchanged';
+    } else {
+      entry.status = 'new';
+    }
 
-        res.status(201).json(newMetric);
+    measurable.values.forEach(sourceValue => {
+      const week = weeksByKey.get(sourceValue.weekKey);
+      const { value } = sourceValue;
 
-        // Broadcast the new metric to all connected clients
-        broadcastChange('metric_created', newMetric);
+      if (sourceValue.problem || !week) {
+        entry.valueCounts.skipped++;
+        entry.notes.add(sourceValue.problem || `No week for ${sourceValue.weekKey}`);
+      } else if (!existing || week.isNew) {
+        entry.values.push({ weekId: week.id, value, unit: fields.unit });
+        entry.valueCounts.new++;
+      } else {
+        const valueEntry = { weekId: week.id, value, unit: fields.unit };
+        entry.values.push(valueEntry);
+        checked.push({ entry, valueEntry, value: { metricId: existing.id, weekId: week.id, value, unit: fields.unit } });
       }
-    );
+    });
   });
-});
-
-// PUT (update) a metric
-app.put('/api/metrics/:id', (req, res) => {
-  const { name, target, owner, displayOrder, valueType } = req.body;
 
-  if (!name || !target || !owner) {
-    res.status(400).json({ error: 'Name, target, and owner are required' });
-    return;
+  if (checked.length > 0) {
+    const results = await classifyImport(checked.map(item => item.value));
+    results.forEach((result, index) => {
+      const { entry, valueEntry } = checked[index];
+      if (result.status === 'conflict') {
+        entry.values.splice(entry.values.indexOf(valueEntry), 1);
+        entry.valueCounts.skipped++;
+        entry.notes.add(result.error);
+      } else {
+        entry.valueCounts[{ create: 'new', overwrite: 'updated', unchanged: 'unchanged' }[result.status]]++;
+      }
+    });
   }
 
-  // Default to 'number' if valueType is not provided
-  const metricValueType = valueType || 'number';
-
-  // Build the update query based on which optional fields are provided
-  let updateQuery = 'UPDATE metrics SET name = ?, target_value = ?, target_unit = ?, target_operator = ?, owner_id = ?, value_type = ?';
-  let params = [name, target.value, target.unit, target.operator, owner.id, metricValueType];
+  return plan;
+}
 
-  // Add display_order if provided
-  if (displayOrder !== undefined) {
-    updateQuery += ', display_order = ?';
-    params.push(displayOrder);
-  }
+// What an EOS tool import plan does, as sent to clients
+function eosImportReport(plan) {
+  const counts = { new: 0, updated: 0, unchanged: 0, skipped: 0 };
+  plan.metrics.forEach(entry => { counts[entry.status]++; });
+  const people = [...plan.people.values()].filter(person => person.used);
+
+  return {
+    scorecardId: plan.scorecardId,
+    people: people.map(person => ({
+      name: person.name,
+      email: person.email,
+      status: person.isNew ? 'new' : 'matched'
+    })),
+    weeks: { new: plan.weeks.length, matched: plan.weekCount - plan.weeks.length },
+    metrics: plan.metrics.map(entry => ({
+      eosId: entry.eosId,
+      name: entry.name,
+      status: entry.status,
+      ...(entry.reason && { reason: entry.reason }),
+      values: entry.valueCounts,
+      notes: [...entry.notes]
+    })),
+    counts
+  };
+}
 
-  // Add WHERE clause and ID
-  updateQuery += ' WHERE id = ?';
-  params.push(req.params.id);
+// Carry out an EOS tool import plan in one transaction, then audit what changed
+async function applyEosImport(req, plan) {
+  const createdMetricIds = [];
+  const updatedMetrics = []; // Rows as they were before the import
+  let savedValues;
 
-  db.run(updateQuery, params, function(err) {
-    if (err) {
-      res.status(500).json({ error: err.message });
-      return;
+  await dbUtils.withTransaction(db, async () => {
+    for (const person of plan.people.values()) {
+      if (!person.used) {
+        continue;
+      }
+      if (person.isNew) {
+        await dbUtils.run(db, 'INSERT INTO people (id, name, email) VALUES (?, ?, ?)', [person.id, person.name, person.email]);
+      }
+      // Owners join the scorecard with their metrics
+      await dbUtils.run(db, 'INSERT OR IGNORE INTO scorecard_members (scorecard_id, person_id) VALUES (?, ?)', [plan.scorecardId, person.id]);
     }
 
-    if (this.changes === 0) {
-      res.status(404).json({ error: 'Metric not found' });
-      return;
+    for (const week of plan.weeks) {
+      await dbUtils.run(db, 'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)', [week.id, week.name, week.start_date, week.end_date]);
     }
 
-    const updatedMetric = {
-      id: req.params.id,
-      name,
-      target,
-      owner,
-      displayOrder,
-      valueType: metricValueType
-    };
-
-    res.json(updatedMetric);
+    // The export's order is kept on an empty scorecard; otherwise new metrics go after the ones there
+    const row = await dbUtils.get(db, 'SELECT MAX(display_order) as maxOrder FROM metrics WHERE scorecard_id = ?', [plan.scorecardId]);
+    const keepSequence = !row || row.maxOrder === null;
+    const sequences = plan.metrics.map(entry => entry.sequence).filter(sequence => typeof sequence === 'number');
+    let nextOrder = keepSequence ? Math.max(-1, ...sequences) + 1 : row.maxOrder + 1;
 
-    // Broadcast the updated metric to all connected clients
-    broadcastChange('metric_updated', updatedMetric);
-  });
-});
+    const values = [];
+    for (const entry of plan.metrics) {
+      if (entry.status === 'skipped') {
+        continue;
+      }
+      const { fields, owner, existing } = entry;
+      let metricId;
+
+      if (!existing) {
+        metricId = uuidv4();
+        await dbUtils.run(
+          db,
+          'INSERT INTO metrics (id, name, target_value, target_unit, target_operator, target_upper_value, owner_id, display_order, value_type, aggregation, cadence, scorecard_id, eos_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [
+            metricId, fields.name, fields.target.value, fields.target.unit, fields.target.operator, targetUpperValue(fields.target),
+            owner.id, keepSequence && typeof entry.sequence === 'number' ? entry.sequence : nextOrder++, fields.valueType,
+            defaultAggregation(fields.valueType), 'weekly', plan.scorecardId, entry.eosId
+          ]
+        );
+        createdMetricIds.push(metricId);
+      } else {
+        metricId = existing.id;
+        if (entry.status === 'updated') {
+          // A changed goal applies from the week in progress, as when it's edited on the scorecard
+          await ensureTargetBaseline(metricId);
+          const currentTarget = resolveTarget(await loadTargetHistory(metricId), new Date().toISOString());
+          await dbUtils.run(
+            db,
+            'UPDATE metrics SET name = ?, owner_id = ?, value_type = ?, eos_id = ?, target_value = ?, target_unit = ?, target_operator = ?, target_upper_value = ? WHERE id = ?',
+            [fields.name, owner.id, fields.valueType, entry.eosId, fields.target.value, fields.target.unit, fields.target.operator, targetUpperValue(fields.target), metricId]
+          );
+          if (currentTarget && !targetsEqual(currentTarget, fields.target)) {
+            await recordTargetChange(metricId, fields.target, startOfCurrentWeek().toISOString());
+          }
+          if (existing.name !== fields.name) {
+            await renameFormulaReferences(metricId, existing.name, fields.name);
+          }
+          updatedMetrics.push(existing);
+        }
+      }
 
-// DELETE a metric
-app.delete('/api/metrics/:id', (req, res) => {
-  // First delete any weekly values associated with this metric
-  db.run('DELETE FROM weekly_values WHERE metric_id = ?', [req.params.id], (err) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-      return;
+      entry.values.forEach(value => values.push({ metricId, ...value }));
     }
 
-    // Then delete the metric
-    db.run('DELETE FROM metrics WHERE id = ?', [req.params.id], function(err) {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
-      }
+    const results = values.length > 0 ? await classifyImport(values) : [];
+    savedValues = await saveImportedValues(results.filter(result => result.status === 'create' || result.status === 'overwrite'));
+  });
 
-      if (this.changes === 0) {
-        res.status(404).json({ error: 'Metric not found' });
-        return;
-      }
+  for (const metricId of createdMetricIds) {
+    await recordAudit(req, { entityType: 'metric', entityId: metricId, metricId, action: 'create', after: await auditSnapshot('metrics', metricId) });
+  }
+  for (const before of updatedMetrics) {
+    await recordAudit(req, {
+      entityType: 'metric',
+      entityId: before.id,
+      metricId: before.id,
+      action: 'update',
+      before,
+      after: await auditSnapshot('metrics', before.id)
+    });
+  }
+  await auditImportedValues(req, savedValues);
+}
 
-      res.json({ id: req.params.id, deleted: true });
+// POST weekly values in bulk, e.g. mapped from a spreadsheet: { values: [{ metricId, weekId or date, value,
+// unit, notApplicable }], dryRun }. A dry run reports what each value would do. Otherwise the values, and
+// any weeks their dates need, are saved in one transaction, and nothing is saved if any of them conflicts.
+app.post('/api/weekly-values/import', requirePermission(permissions.canFacilitate, 'import values'), async (req, res) => {
+  const values = req.body.values;
 
-      // Broadcast the deletion to all connected clients
-      broadcastChange('metric_deleted', { id: req.params.id });
-    });
-  });
-});
+  if (!Array.isArray(values) || values.length === 0) {
+    res.status(400).json({ error: 'values must be a non-empty array' });
+    return;
+  }
 
-// GET all weeks
-app.get('/api/weeks', (req, res) => {
-  // Get today's date for filtering incomplete weeks
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  let results;
+  try {
+    results = await classifyImport(values);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+    return;
+  }
 
-  // Use SQL to filter and sort weeks directly in the database query
-  db.all(
-    `SELECT *
-     FROM weeks
-     WHERE end_date < ?
-     ORDER BY start_date ASC`,
-    [today.toISOString()],
-    (err, rows) => {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
+  const report = importReport(results);
+  if (req.body.dryRun) {
+    res.json(report);
+    return;
+  }
+  if (report.counts.conflict > 0) {
+    res.status(400).json({ error: `${report.counts.conflict} of the values conflict; nothing was imported`, ...report });
+    return;
+  }
+
+  const changes = results.filter(result => result.status === 'create' || result.status === 'overwrite');
+  const newWeeks = importNewWeeks(results);
+  try {
+    const saved = await dbUtils.withTransaction(db, async () => {
+      for (const week of newWeeks) {
+        await dbUtils.run(db, 'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)', [week.id, week.name, week.start_date, week.end_date]);
       }
+      return saveImportedValues(changes);
+    });
+    await auditImportedValues(req, saved);
 
-      // Transform the data to match the frontend structure
-      const completedWeeks = rows.map(row => ({
-        id: row.id,
-        name: row.name,
-        startDate: row.start_date,
-        endDate: row.end_date
-      }));
+    res.json(report);
 
-      res.json(completedWeeks);
+    if (newWeeks.length > 0) {
+      broadcastChange('weeks_updated', report.newWeeks);
     }
-  );
+    // One event per scorecard rather than one per value
+    for (const scorecardId of new Set(changes.map(change => change.scorecardId))) {
+      broadcastChange('weekly_values_imported', { scorecardId, count: changes.filter(change => change.scorecardId === scorecardId).length }, scorecardId);
+    }
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
 });
 
-// Function to check for and create new completed weeks
-function checkAndCreateNewWeeks() {
-  // Get the latest week from the database
-  db.get('SELECT * FROM weeks ORDER BY end_date DESC LIMIT 1', (err, latestWeek) => {
-    if (err) {
-      console.error('Error checking for new weeks:', err.message);
-      return;
-    }
+// Largest page of audit entries returned at once
+const AUDIT_MAX_PAGE_SIZE = 200;
+
+// Audit log filters and the columns they match
+const AUDIT_FILTERS = {
+  entityType: 'entity_type',
+  entityId: 'entity_id',
+  metricId: 'metric_id',
+  weekId: 'week_id',
+  actor: 'actor'
+};
+
+// GET audit log entries, newest first. Filter by any of AUDIT_FILTERS and a since/until date range;
+// page with limit and offset.
+app.get('/api/audit', async (req, res) => {
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+  const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > AUDIT_MAX_PAGE_SIZE) {
+    res.status(400).json({ error: `limit must be a whole number from 1 to ${AUDIT_MAX_PAGE_SIZE}` });
+    return;
+  }
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    res.status(400).json({ error: 'offset must be a whole number of at least 0' });
+    return;
+  }
 
-    // If no weeks exist, just return (don't auto-initialize)
-    if (!latestWeek) {
-      console.log('No weeks found - database not initialized yet');
-      return;
+  const conditions = [];
+  const params = [];
+  Object.entries(AUDIT_FILTERS).forEach(([filter, column]) => {
+    if (req.query[filter]) {
+      conditions.push(`${column} = ?`);
+      params.push(req.query[filter]);
     }
+  });
 
-    const latestEndDate = new Date(latestWeek.end_date);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    let newWeeksAdded = [];
-
-    // Check if the latest week has ended and we need to add more completed weeks
-    if (latestEndDate < today) {
-      // Find the most recent completed Sunday
-      const mostRecentSunday = new Date(today);
-      const daysToSubtract = today.getDay() === 0 ? 7 : today.getDay();
-      mostRecentSunday.setDate(today.getDate() - daysToSubtract);
-      mostRecentSunday.setHours(23, 59, 59, 999);
-
-      // If there's a gap between the latest week end date and the most recent Sunday,
-      // we need to add weeks to fill the gap
-      if (latestEndDate < mostRecentSunday) {
-        // Start from the day after the last recorded week
-        let startDate = new Date(latestEndDate);
-        startDate.setDate(startDate.getDate() + 1);
-        startDate.setHours(0, 0, 0, 0);
-
-        // Make sure we start on a Monday
-        if (startDate.getDay() !== 1) {
-          const daysToAdd = startDate.getDay() === 0 ? 1 : 8 - startDate.getDay();
-          startDate.setDate(startDate.getDate() + daysToAdd);
-        }
-
-        // Add weeks until we reach the most recent completed Sunday
-        db.serialize(() => {
-          // Begin transaction for batch inserts
-          db.run('BEGIN TRANSACTION');
+  for (const [filter, comparison] of [['since', '>='], ['until', '<']]) {
+    if (req.query[filter]) {
+      const date = new Date(req.query[filter]);
+      if (isNaN(date.getTime())) {
+        res.status(400).json({ error: `${filter} must be a valid date` });
+        return;
+      }
+      conditions.push(`created_at ${comparison} ?`);
+      params.push(date.toISOString());
+    }
+  }
 
-          const insertWeekStmt = db.prepare(
-            'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)'
-          );
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-          let index = 0;
-          while (startDate <= mostRecentSunday) {
-            const endDate = new Date(startDate);
-            endDate.setDate(startDate.getDate() + 6); // Sunday
-
-            // Only add the week if it's fully in the past (ended before today)
-            if (endDate < today) {
-              const startDateCopy = new Date(startDate);
-              const endDateCopy = new Date(endDate);
-
-              db.get('SELECT COUNT(*) as count FROM weeks', (err, row) => {
-                if (err) {
-                  console.error('Error getting week count:', err.message);
-                  return;
-                }
-
-                const weekCount = row.count + 1;
-                const weekId = uuidv4();
-                const weekName = `Week ${weekCount}`;
-
-                insertWeekStmt.run(
-                  weekId,
-                  weekName,
-                  startDateCopy.toISOString(),
-                  endDateCopy.toISOString(),
-                  function(err) {
-                    if (err) {
-                      console.error('Error inserting new week:', err.message);
-                      return;
-                    }
-
-                    console.log(`Added new week: ${weekName} (${startDateCopy.toDateString()} - ${endDateCopy.toDateString()})`);
-
-                    newWeeksAdded.push({
-                      id: weekId,
-                      name: weekName,
-                      startDate: startDateCopy.toISOString(),
-                      endDate: endDateCopy.toISOString()
-                    });
-                  }
-                );
-
-                index++;
-              });
-            }
+  try {
+    const { count } = await dbUtils.get(db, `SELECT COUNT(*) as count FROM audit_log ${where}`, params);
+    const rows = await dbUtils.all(
+      db,
+      `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
 
-            // Move to the next week
-            startDate.setDate(startDate.getDate() + 7);
-          }
+    res.json({ entries: rows.map(auditEntryFromRow), total: count, limit, offset });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-          insertWeekStmt.finalize();
+// GET weekly values rolled up by month or quarter, using each metric's aggregation method.
+// Calculated metrics have no stored values; the client applies their formula to the rolled-up inputs.
+app.get('/api/rollups', async (req, res) => {
+  const period = req.query.period || 'month';
 
-          // Commit transaction
-          db.run('COMMIT', (err) => {
-            if (err) {
-              console.error('Error committing new weeks transaction:', err.message);
-              return;
-            }
+  if (period !== 'month' && period !== 'quarter') {
+    res.status(400).json({ error: 'period must be month or quarter' });
+    return;
+  }
 
-            if (newWeeksAdded.length > 0) {
-              console.log(`Created ${newWeeksAdded.length} new completed weeks`);
-              // Broadcast the new weeks to all connected clients
-              broadcastChange('weeks_updated', newWeeksAdded);
-            }
-          });
-        });
-      }
-    }
-  });
-}
+  const today = weekCalendar.startOfToday(orgSettings);
 
-// Endpoint to check for new weeks and add them
-app.post('/api/weeks/update', async (req, res) => {
   try {
-    // Check if database is initialized first
-    const isInitialized = await isDatabaseInitialized();
-    if (!isInitialized) {
-      return res.json({ message: 'Database not initialized yet', newWeeks: [] });
-    }
-
-    // Get the latest week from the database
-    db.get('SELECT * FROM weeks ORDER BY end_date DESC LIMIT 1', (err, latestWeek) => {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
+    const weeks = await dbUtils.all(
+      db,
+      'SELECT id, start_date FROM weeks WHERE end_date < ? ORDER BY start_date ASC',
+      [today.toISOString()]
+    );
+    const metrics = await dbUtils.all(db, 'SELECT id, target_unit, value_type, aggregation FROM metrics');
+    const values = await dbUtils.all(db, 'SELECT metric_id, week_id, value, unit FROM weekly_values WHERE not_applicable = 0');
+
+    // Group the completed weeks into periods
+    const periods = [];
+    const periodByWeek = new Map();
+    weeks.forEach(week => {
+      const info = weekCalendar.periodFor(week.start_date, period === 'quarter' ? 'quarterly' : 'monthly', orgSettings.timeZone);
+      let entry = periods.find(existing => existing.id === info.id);
+      if (!entry) {
+        entry = { ...info, weekIds: [] };
+        periods.push(entry);
       }
+      entry.weekIds.push(week.id);
+      periodByWeek.set(week.id, entry);
+    });
 
-      // If no weeks exist (but database is initialized), something is wrong
-      if (!latestWeek) {
-        return res.status(500).json({ error: 'Database is initialized but no weeks found' });
-      }
+    // Collect normalized values per metric and period, oldest week first
+    const weekOrder = new Map(weeks.map((week, index) => [week.id, index]));
+    const grouped = new Map();
+    values
+      .filter(value => periodByWeek.has(value.week_id))
+      .sort((a, b) => weekOrder.get(a.week_id) - weekOrder.get(b.week_id))
+      .forEach(value => {
+        const key = `${value.metric_id}:${periodByWeek.get(value.week_id).id}`;
+        const bucket = grouped.get(key) || [];
+        bucket.push(value.value * unitFactor(value.unit));
+        grouped.set(key, bucket);
+      });
 
-      const latestEndDate = new Date(latestWeek.end_date);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      let newWeeksAdded = [];
-
-      // Check if the latest week has ended and we need to add more completed weeks
-      if (latestEndDate < today) {
-        // Find the most recent completed Sunday
-        const mostRecentSunday = new Date(today);
-        const daysToSubtract = today.getDay() === 0 ? 7 : today.getDay();
-        mostRecentSunday.setDate(today.getDate() - daysToSubtract);
-        mostRecentSunday.setHours(23, 59, 59, 999);
-
-      // If there's a gap between the latest week end date and the most recent Sunday,
-      // we need to add weeks to fill the gap
-      if (latestEndDate < mostRecentSunday) {
-        // Start from the day after the last recorded week
-        let startDate = new Date(latestEndDate);
-        startDate.setDate(startDate.getDate() + 1);
-        startDate.setHours(0, 0, 0, 0);
-
-        // Make sure we start on a Monday
-        if (startDate.getDay() !== 1) {
-          const daysToAdd = startDate.getDay() === 0 ? 1 : 8 - startDate.getDay();
-          startDate.setDate(startDate.getDate() + daysToAdd);
+    // Aggregate and express each rollup in the unit of the metric's goal
+    const rollupValues = [];
+    metrics.forEach(metric => {
+      const method = metric.aggregation || defaultAggregation(metric.value_type);
+      periods.forEach(entry => {
+        const bucket = grouped.get(`${metric.id}:${entry.id}`);
+        if (!bucket) {
+          return;
         }
+        const unit = metric.target_unit || '';
+        rollupValues.push({
+          metricId: metric.id,
+          periodId: entry.id,
+          value: parseFloat((aggregateValues(bucket, method) / unitFactor(unit)).toFixed(4)),
+          unit,
+          weekCount: bucket.length
+        });
+      });
+    });
 
-        // Add weeks until we reach the most recent completed Sunday
-        db.serialize(() => {
-          // Begin transaction for batch inserts
-          db.run('BEGIN TRANSACTION');
-
-          const insertWeekStmt = db.prepare(
-            'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)'
-          );
-
-          let index = 0;
-          while (startDate <= mostRecentSunday) {
-            const endDate = new Date(startDate);
-            endDate.setDate(startDate.getDate() + 6); // Sunday
-
-            // Only add the week if it's fully in the past (ended before today)
-            if (endDate < today) {
-              const startDateCopy = new Date(startDate);
-              const endDateCopy = new Date(endDate);
-
-              db.get('SELECT COUNT(*) as count FROM weeks', (err, row) => {
-                if (err) throw err;
-
-                const weekCount = row.count + 1;
-                const weekId = uuidv4();
-                const weekName = `Week ${weekCount}`;
-
-                insertWeekStmt.run(
-                  weekId,
-                  weekName,
-                  startDateCopy.toISOString(),
-                  endDateCopy.toISOString()
-                );
-
-                newWeeksAdded.push({
-                  id: weekId,
-                  name: weekName,
-                  startDate: startDateCopy.toISOString(),
-                  endDate: endDateCopy.toISOString()
-                });
-
-                index++;
-              });
-            }
+    res.json({ period, periods, values: rollupValues });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
 
-            // Move to the next week
-            startDate.setDate(startDate.getDate() + 7);
-          }
+// Normalize a target's bounds so values in any unit can be compared against it
+function normalizedTarget(target) {
+  return {
+    operator: target.operator,
+    value: target.value * unitFactor(target.unit),
+    ...(target.upperValue !== undefined && { upperValue: target.upperValue * unitFactor(target.unit) })
+  };
+}
 
-          insertWeekStmt.finalize();
+// Whether a normalized value meets a normalized target (mirrors isOnTarget on the client)
+function isOnTarget(value, target) {
+  switch (target.operator) {
+    case 'gt':
+      return value > target.value;
+    case 'lt':
+      return value < target.value;
+    case 'gte':
+      return value >= target.value;
+    case 'lte':
+      return value <= target.value;
+    case 'eq':
+      return value === target.value;
+    case 'between':
+      return value >= target.value && value <= (target.upperValue ?? target.value);
+    default:
+      return false;
+  }
+}
 
-          // Commit transaction
-          db.run('COMMIT', (err) => {
-            if (err) {
-              res.status(500).json({ error: err.message });
-              return;
-            }
+// Formulas work in base units (mirrors baseUnitForValueType on the client)
+const BASE_UNITS = { percent: '%', dollars: '$', time: 'sec' };
 
-            if (newWeeksAdded.length > 0) {
-              // Broadcast the new weeks to all connected clients
-              broadcastChange('weeks_updated', newWeeksAdded);
-            }
+function baseUnit(valueType) {
+  return BASE_UNITS[valueType] || '';
+}
 
-            res.json({ message: 'Weeks updated', newWeeks: newWeeksAdded });
+// A scorecard's values by "metricId:weekId" for export: entered values as stored, plus
+// calculated metrics' values in their base unit, evaluated the way the client does
+function exportValues(metrics, weeks, values) {
+  const cells = new Map(values.map(value => [`${value.metric_id}:${value.week_id}`, {
+    value: value.value,
+    unit: value.unit,
+    notApplicable: Boolean(value.not_applicable)
+  }]));
+  const byName = new Map(metrics.map(metric => [formulas.nameKey(metric.name), metric]));
+
+  weeks.forEach(week => {
+    const cache = new Map();
+    const inProgress = new Set();
+
+    const valueOf = metric => {
+      if (cache.has(metric.id)) {
+        return cache.get(metric.id);
+      }
+      let result = null;
+      if (metric.formula) {
+        if (!inProgress.has(metric.id)) {
+          inProgress.add(metric.id);
+          result = formulas.evaluate(metric.formula, name => {
+            const dependency = byName.get(formulas.nameKey(name));
+            return dependency ? valueOf(dependency) : null;
           });
-        });
+          inProgress.delete(metric.id);
+        }
       } else {
-        res.json({ message: 'No new weeks needed', newWeeks: [] });
+        const cell = cells.get(`${metric.id}:${week.id}`);
+        result = cell && !cell.notApplicable ? cell.value * unitFactor(cell.unit) / unitFactor(baseUnit(metric.value_type)) : null;
       }
-    } else {
-      res.json({ message: 'No new weeks needed', newWeeks: [] });
-    }
+      cache.set(metric.id, result);
+      return result;
+    };
+
+    metrics.filter(metric => metric.formula).forEach(metric => {
+      const value = valueOf(metric);
+      if (value !== null) {
+        cells.set(`${metric.id}:${week.id}`, { value: parseFloat(value.toFixed(4)), unit: baseUnit(metric.value_type), notApplicable: false });
+      }
+    });
   });
-} catch (err) {
-  res.status(500).json({ error: err.message });
+
+  return cells;
 }
-});
 
-// GET all weekly values
-app.get('/api/weekly-values', (req, res) => {
-  db.all('SELECT * FROM weekly_values', (err, rows) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
+// GET a scorecard as CSV, either the grid (format=grid: a row per metric with its owner and goal,
+// and each week's value in the goal's unit next to whether it was on target) or one row per value
+// (format=long). from and to (YYYY-MM-DD) limit the completed weeks by the date they start.
+app.get('/api/export/csv', async (req, res) => {
+  const format = req.query.format || 'grid';
+  const { from, to } = req.query;
+
+  if (format !== 'grid' && format !== 'long') {
+    res.status(400).json({ error: 'format must be grid or long' });
+    return;
+  }
+  if ([from, to].some(date => date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+    res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD)' });
+    return;
+  }
+
+  const { timeZone } = orgSettings;
+  const today = weekCalendar.startOfToday(orgSettings);
+
+  try {
+    const scorecardId = req.query.scorecardId || await defaultScorecardId();
+    const scorecard = await dbUtils.get(db, 'SELECT id, name FROM scorecards WHERE id = ?', [scorecardId]);
+    if (!scorecard) {
+      res.status(404).json({ error: 'Scorecard not found' });
       return;
     }
 
-    // Transform to match frontend structure
-    const values = rows.map(row => ({
-      metricId: row.metric_id,
-      weekId: row.week_id,
-      value: row.value,
-      unit: row.unit
-    }));
+    const weeks = (await dbUtils.all(
+      db,
+      'SELECT id, name, start_date, end_date FROM weeks WHERE end_date < ? ORDER BY start_date ASC',
+      [today.toISOString()]
+    ))
+      .map(week => ({
+        ...week,
+        startDay: weekCalendar.calendarDate(new Date(week.start_date), timeZone),
+        endDay: weekCalendar.calendarDate(new Date(week.end_date), timeZone)
+      }))
+      .filter(week => (!from || week.startDay >= from) && (!to || week.startDay <= to));
+
+    // Archived metrics aren't exported but can still be the inputs of calculated ones
+    const metrics = await dbUtils.all(
+      db,
+      'SELECT m.*, p.name AS owner_name FROM metrics m JOIN people p ON m.owner_id = p.id WHERE m.scorecard_id = ? ORDER BY m.display_order ASC',
+      [scorecardId]
+    );
+    const targetRows = await dbUtils.all(
+      db,
+      'SELECT t.* FROM metric_targets t JOIN metrics m ON t.metric_id = m.id WHERE m.scorecard_id = ? ORDER BY t.effective_from ASC',
+      [scorecardId]
+    );
+    const values = await dbUtils.all(
+      db,
+      'SELECT wv.* FROM weekly_values wv JOIN metrics m ON wv.metric_id = m.id WHERE m.scorecard_id = ?',
+      [scorecardId]
+    );
 
-    res.json(values);
-  });
+    const cells = exportValues(metrics, weeks, values);
+    const exported = metrics.filter(metric => !metric.archived_at);
+    const now = new Date().toISOString();
+    let rows;
+
+    if (format === 'grid') {
+      rows = [['Metric', 'Owner', 'Goal', ...weeks.flatMap(week => [week.startDay, `${week.startDay} status`])]];
+      exported.forEach(metric => {
+        const history = targetRows.filter(row => row.metric_id === metric.id).map(targetChangeFromRow);
+        const goal = resolveTarget(history, now) || targetFromRow(metric);
+        const goalUnit = goal.unit || '';
+
+        rows.push([
+          metric.name,
+          metric.owner_name,
+          csvExport.formatGoal(goal, metric.value_type),
+          ...weeks.flatMap(week => {
+            const cell = cells.get(`${metric.id}:${week.id}`);
+            if (!cell) {
+              return [null, null];
+            }
+            if (cell.notApplicable) {
+              return ['N/A', null];
+            }
+            const normalized = cell.value * unitFactor(cell.unit);
+            const target = resolveTarget(history, week.start_date) || targetFromRow(metric);
+            return [
+              parseFloat((normalized / unitFactor(goalUnit)).toFixed(4)),
+              isOnTarget(normalized, normalizedTarget(target)) ? 'on target' : 'off target'
+            ];
+          })
+        ]);
+      });
+    } else {
+      rows = [['Metric', 'Week', 'Start date', 'End date', 'Value', 'Unit', 'Normalized value', 'N/A']];
+      exported.forEach(metric => {
+        weeks.forEach(week => {
+          const cell = cells.get(`${metric.id}:${week.id}`);
+          if (!cell) {
+            return;
+          }
+          rows.push([
+            metric.name,
+            week.name,
+            week.startDay,
+            week.endDay,
+            cell.notApplicable ? null : cell.value,
+            cell.notApplicable ? null : cell.unit,
+            cell.notApplicable ? null : parseFloat((cell.value * unitFactor(cell.unit)).toFixed(4)),
+            cell.notApplicable ? 'yes' : null
+          ]);
+        });
+      });
+    }
+
+    const range = weeks.length > 0 ? `-${weeks[0].startDay}-to-${weeks[weeks.length - 1].startDay}` : '';
+    const filename = `${scorecard.name.replace(/[^\w-]+/g, '_')}-${format === 'grid' ? 'scorecard' : 'values'}${range}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csvExport.toCsv(rows));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
 });
 
-// Add endpoint to reorder metrics
-app.post('/api/metrics/reorder', (req, res) => {
-  const { metrics } = req.body;
+// The whole organization as a backup (see snapshot.js)
+async function exportSnapshot() {
+  const tables = {};
+  for (const table of backup.SNAPSHOT_TABLES) {
+    tables[table.name] = await dbUtils.all(db, `SELECT ${table.columns.join(', ')} FROM ${table.name}`);
+  }
+  return {
+    format: backup.SNAPSHOT_FORMAT,
+    version: backup.SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    tables
+  };
+}
 
-  if (!metrics || !Array.isArray(metrics)) {
-    res.status(400).json({ error: 'Invalid metrics array' });
-    return;
+// Write a backup row over the row it matches by one of the table's keys, or add it.
+// Returns the id of the row in this database, which differs from the backup's when
+// the row was matched by another key (e.g. a person by email, a week by start date).
+async function restoreRow(table, row) {
+  const columns = table.columns.filter(column => row[column] !== undefined);
+  for (const key of table.keys) {
+    const where = key.map(column => `${column} = ?`).join(' AND ');
+    const existing = await dbUtils.get(db, `SELECT * FROM ${table.name} WHERE ${where}`, key.map(column => row[column]));
+    if (existing) {
+      const changed = columns.filter(column => column !== 'id' && !key.includes(column));
+      if (changed.length > 0) {
+        await dbUtils.run(
+          db,
+          `UPDATE ${table.name} SET ${changed.map(column => `${column} = ?`).join(', ')} WHERE ${where}`,
+          [...changed.map(column => row[column]), ...key.map(column => row[column])]
+        );
+      }
+      return { created: false, id: existing.id };
+    }
   }
 
-  // Start a transaction to update all metrics
-  db.serialize(() => {
-    db.run('BEGIN TRANSACTION');
+  await dbUtils.run(
+    db,
+    `INSERT INTO ${table.name} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map(column => row[column])
+  );
+  return { created: true, id: row.id };
+}
 
-    const updateStmt = db.prepare('UPDATE metrics SET display_order = ? WHERE id = ?');
+// Restore a validated backup in one transaction. 'replace' first clears everything but logins
+// (and the people they sign in as) and the audit log; 'merge' keeps rows the backup doesn't have
+// and leaves the settings alone. Returns how many rows of each table were added and updated.
+async function restoreSnapshot(snapshot, mode, currentPersonId) {
+  const counts = {};
+  const localIds = {}; // Per table, backup id -> id in this database
+
+  await dbUtils.withTransaction(db, async () => {
+    if (mode === 'replace') {
+      for (const table of [...backup.SNAPSHOT_TABLES].reverse()) {
+        await dbUtils.run(
+          db,
+          table.name === 'people'
+            ? 'DELETE FROM people WHERE id NOT IN (SELECT person_id FROM users)'
+            : `DELETE FROM ${table.name}`
+        );
+      }
+    }
 
-    let hasError = false;
+    for (const table of backup.SNAPSHOT_TABLES) {
+      if (table.name === 'settings' && mode !== 'replace') {
+        continue;
+      }
 
-    // Update the display order of each metric
-    metrics.forEach((metric, index) => {
-      updateStmt.run(index, metric.id, (err) => {
-        if (err) {
-          console.error('Error updating metric order:', err);
-          hasError = true;
-        }
-      });
-    });
+      counts[table.name] = { created: 0, updated: 0 };
+      localIds[table.name] = new Map();
+      const references = backup.REFERENCES[table.name] || {};
 
-    updateStmt.finalize();
+      for (const row of snapshot.tables[table.name]) {
+        const local = { ...row };
+        Object.entries(references).forEach(([column, target]) => {
+          local[column] = localIds[target].get(row[column]) || row[column];
+        });
 
-    if (hasError) {
-      db.run('ROLLBACK');
-      res.status(500).json({ error: 'Failed to update metrics order' });
-      return;
-    }
+        const { created, id } = await restoreRow(table, local);
+        counts[table.name][created ? 'created' : 'updated']++;
+        localIds[table.name].set(row.id, id);
 
-    db.run('COMMIT', (err) => {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
+        // Restoring mustn't sign out the admin doing it
+        if (table.name === 'people' && id === currentPersonId && row.deactivated_at) {
+          await dbUtils.run(db, 'UPDATE people SET deactivated_at = NULL WHERE id = ?', [id]);
+        }
       }
+    }
+  });
 
-      res.json({ message: 'Metrics reordered successfully' });
+  return counts;
+}
 
-      // Broadcast the reorder event to all connected clients
-      broadcastChange('metrics_reordered', { metrics });
-    });
-  });
+// GET the whole database as a JSON backup, for moving to another server or restoring later
+app.get('/api/export/json', requirePermission(permissions.isAdmin, 'back up the database'), async (req, res) => {
+  try {
+    const snapshot = await exportSnapshot();
+    res.setHeader('Content-Disposition', `attachment; filename="levelten-backup-${snapshot.exportedAt.split('T')[0]}.json"`);
+    res.json(snapshot);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
 });
 
-// POST (update) a weekly value
-app.post('/api/weekly-values', (req, res) => {
-  const { metricId, weekId, value, unit } = req.body;
+// POST a JSON backup to restore: { snapshot, mode }. mode 'replace' (the default, and the only
+// choice before the database is initialized) makes the database match the backup; 'merge' adds
+// and updates rows from it, matching people by email and weeks by start date as well as by id.
+app.post('/api/import/json', requirePermission(permissions.isAdmin, 'restore the database'), async (req, res) => {
+  const { snapshot } = req.body;
+  const mode = req.body.mode || 'replace';
 
-  if (!metricId || !weekId || value === undefined) {
-    res.status(400).json({ error: 'metricId, weekId, and value are required' });
+  if (mode !== 'replace' && mode !== 'merge') {
+    res.status(400).json({ error: 'mode must be replace or merge' });
+    return;
+  }
+  const problem = backup.snapshotProblem(snapshot);
+  if (problem) {
+    res.status(400).json({ error: problem });
     return;
   }
 
-  // First check if the value already exists
-  db.get(
-    'SELECT * FROM weekly_values WHERE metric_id = ? AND week_id = ?',
-    [metricId, weekId],
-    (err, row) => {
-      if (err) {
-        res.status(500).json({ error: err.message });
-        return;
-      }
-
-      const unitValue = unit || '';
-
-      if (row) {
-        // Update existing value
-        db.run(
-          'UPDATE weekly_values SET value = ?, unit = ? WHERE metric_id = ? AND week_id = ?',
-          [value, unitValue, metricId, weekId],
-          function(err) {
-            if (err) {
-              res.status(500).json({ error: err.message });
-              return;
-            }
-
-            const updatedValue = { metricId, weekId, value, unit: unitValue };
-            res.json(updatedValue);
+  try {
+    const effectiveMode = await isDatabaseInitialized() ? mode : 'replace';
+    const counts = await restoreSnapshot(snapshot, effectiveMode, req.user.person.id);
+    if (effectiveMode === 'replace') {
+      loadSettings();
+    }
 
-            // Broadcast the updated value to all connected clients
-            broadcastChange('weekly_value_updated', updatedValue);
-          }
-        );
-      } else {
-        // Insert new value with UUID
-        const id = uuidv4();
-        db.run(
-          'INSERT INTO weekly_values (id, metric_id, week_id, value, unit) VALUES (?, ?, ?, ?, ?)',
-          [id, metricId, weekId, value, unitValue],
-          function(err) {
-            if (err) {
-              res.status(500).json({ error: err.message });
-              return;
-            }
+    await recordAudit(req, {
+      entityType: 'database',
+      action: 'import',
+      after: { source: 'backup', mode: effectiveMode, version: snapshot.version, exportedAt: snapshot.exportedAt || null, counts }
+    });
 
-            const newValue = { id, metricId, weekId, value, unit: unitValue };
-            res.status(201).json(newValue);
+    res.json({
+      success: true,
+      message: effectiveMode === 'replace' ? 'Database restored from backup' : 'Backup merged into the database',
+      counts
+    });
 
-            // Broadcast the new value to all connected clients
-            broadcastChange('weekly_value_created', newValue);
-          }
-        );
-      }
-    }
-  );
+    // Everything may have changed, so every client reloads
+    broadcastChange('database_restored', { mode: effectiveMode });
+  } catch (err) {
+    console.error('Error restoring backup:', err);
+    res.status(500).json({ error: err.message });
+  }
 });
 
 // If we're in production, serve the static files from the React build directory
@@ -1659,242 +4102,6 @@ server.listen(PORT, () => {
   console.log(`Environment: ${isProduction ? 'production' : 'development'}`);
 });
 
-// Import data from EOS One format
-async function importEosData(eosData) {
-  return new Promise((resolve, reject) => {
-    // Start a transaction to ensure data consistency
-    db.serialize(() => {
-      db.run('BEGIN TRANSACTION');
-
-      try {
-        // Step 1: Process owners (people)
-        const ownerMap = new Map();
-        const owners = [...new Set(eosData.measurables.map(m => m.ownerId))];
-
-        function processOwners(index) {
-          if (index >= owners.length) {
-            processWeeks(0);
-            return;
-          }
-
-          const ownerId = owners[index];
-          const measurable = eosData.measurables.find(m => m.ownerId === ownerId);
-          const ownerName = measurable.ownerName;
-          const email = `${ownerName.toLowerCase().replace(/\s+/g, '.')}@example.com`;
-          const id = uuidv4();
-
-          db.run(
-            'INSERT INTO people (id, name, email) VALUES (?, ?, ?)',
-            [id, ownerName, email],
-            (err) => {
-              if (err) {
-                console.error(`Error inserting person ${ownerName}:`, err.message);
-                processOwners(index + 1);
-                return;
-              }
-
-              ownerMap.set(ownerId, { id, name: ownerName, email });
-              console.log(`Imported person: ${ownerName}`);
-              processOwners(index + 1);
-            }
-          );
-        }
-
-        // Step 2: Process weeks from EOS dates
-        function processWeeks(index) {
-          if (index >= eosData.dates.length) {
-            processMetrics(0);
-            return;
-          }
-
-          const week = eosData.dates[index];
-          const id = uuidv4();
-          const name = `Week ${week.intervalNo}`;
-
-          db.run(
-            'INSERT INTO weeks (id, name, start_date, end_date) VALUES (?, ?, ?, ?)',
-            [id, name, week.fromDate, week.toDate],
-            (err) => {
-              if (err) {
-                console.error(`Error inserting week ${name}:`, err.message);
-                processWeeks(index + 1);
-                return;
-              }
-
-              // Map EOS intervalId to our week id for later use
-              week.mappedId = id;
-              console.log(`Imported week: ${name}`);
-              processWeeks(index + 1);
-            }
-          );
-        }
-
-        // Step 3: Process metrics and their values
-        function processMetrics(index) {
-          if (index >= eosData.measurables.length) {
-            // All done, commit transaction
-            db.run('COMMIT', (err) => {
-              if (err) {
-                console.error('Error committing transaction:', err.message);
-                reject(err);
-                return;
-              }
-              console.log('EOS data import completed successfully');
-              resolve();
-            });
-            return;
-          }
-
-          const measurable = eosData.measurables[index];
-          const ownerId = ownerMap.get(measurable.ownerId)?.id;
-
-          if (!ownerId) {
-            console.error(`No owner found for measurable ${measurable.title}`);
-            processMetrics(index + 1);
-            return;
-          }
-
-          // Map EOS comparison types to our format
-          const operatorMap = {
-            'Greater': 'gt',
-            'GreaterOrEqual': 'gte',
-            'Less': 'lt',
-            'LessOrEqual': 'lte',
-            'Equal': 'eq'
-          };
-
-          // Map EOS unit types to our format
-          const unitMap = {
-            'Number': '',
-            'Percent': '%',
-            'Dollar': '$',
-            'Hours': 'hour'
-          };
-
-          // Map EOS valueScale to our unit format
-          const valueScaleMap = {
-            'One': '',
-            'Thousand': 'k',
-            'Million': 'm',
-            'Billion': 'b'
-          };
-
-          // Map EOS unit types to our valueType
-          const valueTypeMap = {
-            'Number': 'number',
-            'Percent': 'percent',
-            'Dollar': 'dollars',
-            'Hours': 'time'
-          };
-
-          const metricId = uuidv4();
-          const operator = operatorMap[measurable.comparison] || 'gte';
-
-          // Combine unit from unitOfMeasure and scale from valueScale
-          let unit = unitMap[measurable.unitOfMeasure] || '';
-          // Only apply scale for Number type measurements
-          if (measurable.unitOfMeasure === 'Number' && measurable.valueScale) {
-            unit = valueScaleMap[measurable.valueScale] || '';
-          }
-
-          const valueType = valueTypeMap[measurable.unitOfMeasure] || 'number';
-
-          db.run(
-            'INSERT INTO metrics (id, name, target_value, target_unit, target_operator, owner_id, display_order, value_type) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-            [
-              metricId,
-              measurable.title,
-              measurable.goalValue,
-              unit,
-              operator,
-              ownerId,
-              measurable.sequence,
-              valueType
-            ],
-            (err) => {
-              if (err) {
-                console.error(`Error inserting metric ${measurable.title}:`, err.message);
-                processMetrics(index + 1);
-                return;
-              }
-
-              console.log(`Imported metric: ${measurable.title}`);
-
-              // Now process all values for this metric
-              processValues(0, measurable.values, metricId, measurable, () => {
-                processMetrics(index + 1);
-              });
-            }
-          );
-        }
-
-        // Step 4: Process values for a metric
-        function processValues(valIndex, values, metricId, measurable, callback) {
-          if (valIndex >= values.length) {
-            callback();
-            return;
-          }
-
-          const value = values[valIndex];
-          const week = eosData.dates.find(d => d.intervalId === value.intervalId);
-
-          if (!week || !week.mappedId) {
-            console.error(`No week found for interval ${value.intervalId}`);
-            processValues(valIndex + 1, values, metricId, measurable, callback);
-            return;
-          }
-
-          // Map EOS unit types to our format
-          const unitMap = {
-            'Number': '',
-            'Percent': '%',
-            'Dollar': '$',
-            'Hours': 'hour'
-          };
-
-          // Map EOS valueScale to our unit format
-          const valueScaleMap = {
-            'One': '',
-            'Thousand': 'k',
-            'Million': 'm',
-            'Billion': 'b'
-          };
-
-          const metric = eosData.measurables.find(m => m.values.some(v => v.id === value.id));
-
-          // Combine unit from unitOfMeasure and scale from valueScale
-          let unit = unitMap[metric.unitOfMeasure] || '';
-          // Only apply scale for Number type measurements
-          if (metric.unitOfMeasure === 'Number' && metric.valueScale) {
-            unit = valueScaleMap[metric.valueScale] || '';
-          }
-
-          db.run(
-            'INSERT INTO weekly_values (id, metric_id, week_id, value, unit) VALUES (?, ?, ?, ?, ?)',
-            [uuidv4(), metricId, week.mappedId, value.value, unit],
-            (err) => {
-              if (err) {
-                console.error(`Error inserting value for metric ${metricId}, week ${week.mappedId}:`, err.message);
-              } else {
-                console.log(`Imported value for metric ${metricId}, week ${week.mappedId}`);
-              }
-              processValues(valIndex + 1, values, metricId, measurable, callback);
-            }
-          );
-        }
-
-        // Start the import process
-        processOwners(0);
-
-      } catch (error) {
-        db.run('ROLLBACK');
-        console.error('Error in EOS data import:', error);
-        reject(error);
-      }
-    });
-  });
-}
-
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('Closing database connection...');
@@ -0,0 +1,134 @@
+// Runs the server on a fresh database in a temporary directory and checks its routes over HTTP
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { spawn } = require('node:child_process');
+const fs = require('node:fs');
+const net = require('node:net');
+const os = require('node:os');
+const path = require('node:path');
+
+let server;
+let baseUrl;
+let dataDir;
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// A signed-in client: requests carry the session cookie it was given
+function client(cookie = '') {
+  return async (method, url, body) => {
+    const res = await fetch(`${baseUrl}/api${url}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(cookie && { Cookie: cookie }) },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const setCookie = res.headers.get('set-cookie');
+    if (setCookie) {
+      cookie = setCookie.split(';')[0];
+    }
+    return { status: res.status, body: await res.json().catch(() => null) };
+  };
+}
+
+test.before(async () => {
+  const port = await freePort();
+  baseUrl = `http://localhost:${port}`;
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scorecard-test-'));
+  server = spawn(process.execPath, [path.join(__dirname, 'server.js')], {
+    env: { ...process.env, PORT: String(port), DB_PATH: dataDir },
+    stdio: 'ignore'
+  });
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      await fetch(`${baseUrl}/api/auth/status`);
+      return;
+    } catch (err) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error('The server did not start');
+});
+
+test.after(async () => {
+  server.kill();
+  await new Promise(resolve => server.once('exit', resolve));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('members who own a metric may enter its values but not change its owner or goal', async () => {
+  const admin = client();
+  await admin('POST', '/auth/setup', { name: 'Ada', email: 'ada@example.org', username: 'ada', password: 'longenough' });
+  assert.equal((await admin('POST', '/initialize/sample')).status, 200);
+
+  // The sample data is still being written when initializing returns
+  let metrics = [];
+  for (let attempt = 0; attempt < 50 && metrics.length === 0; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    metrics = (await admin('GET', '/metrics')).body;
+  }
+  const metric = metrics.find(candidate => !candidate.formula);
+  const week = (await admin('GET', '/weeks')).body[0];
+  const other = (await admin('GET', '/people')).body.find(person => person.id !== metric.owner.id);
+  assert.equal((await admin('POST', '/users', { personId: metric.owner.id, username: 'owner', password: 'longenough' })).status, 201);
+
+  const owner = client();
+  assert.equal((await owner('POST', '/auth/login', { username: 'owner', password: 'longenough' })).status, 200);
+
+  const ownerChange = await owner('PUT', `/metrics/${metric.id}`, { ...metric, owner: other });
+  assert.equal(ownerChange.status, 403);
+
+  const goalChange = await owner('PUT', `/metrics/${metric.id}`, { ...metric, target: { ...metric.target, value: metric.target.value + 1 } });
+  assert.equal(goalChange.status, 403);
+
+  const scheduledGoal = await owner('POST', `/metrics/${metric.id}/targets`, {
+    target: { ...metric.target, value: metric.target.value + 1 },
+    effectiveFrom: new Date().toISOString()
+  });
+  assert.equal(scheduledGoal.status, 403);
+
+  const unchanged = (await admin('GET', '/metrics')).body.find(candidate => candidate.id === metric.id);
+  assert.equal(unchanged.owner.id, metric.owner.id);
+  assert.deepEqual(unchanged.target, metric.target);
+
+  const value = await owner('POST', '/weekly-values', { metricId: metric.id, weekId: week.id, value: 1, unit: metric.target.unit });
+  assert.ok(value.status === 200 || value.status === 201, `entering a value returned ${value.status}`);
+});
+
+test('EOS export owners without an email are matched by name, or added without one', async () => {
+  const admin = client();
+  assert.equal((await admin('POST', '/auth/login', { username: 'ada', password: 'longenough' })).status, 200);
+
+  // A Ninety export with a value in the latest stored week, which starts at midnight UTC
+  const weeks = (await admin('GET', '/weeks')).body;
+  const day = weeks.map(week => week.startDate).sort().pop().slice(0, 10);
+  const data = [
+    ['KPI ID', 'Title', 'Owner', 'Goal', 'Unit', day].join(','),
+    ['k1', 'Calls', 'Pat Lee', '50', 'Number', '55'].join(','),
+    ['k2', 'Visits', 'Alice Smith', '10', 'Number', '12'].join(',')
+  ].join('\r\n');
+
+  const preview = await admin('POST', '/import/eos', { format: 'ninety', data, dryRun: true });
+  assert.equal(preview.status, 200);
+  assert.deepEqual(
+    preview.body.people.sort((a, b) => a.name.localeCompare(b.name)),
+    [
+      { name: 'Alice Smith', email: 'alice@example.com', status: 'matched' },
+      { name: 'Pat Lee', email: null, status: 'new' }
+    ]
+  );
+
+  assert.equal((await admin('POST', '/import/eos', { format: 'ninety', data })).status, 200);
+  const people = (await admin('GET', '/people')).body;
+  assert.deepEqual(people.filter(person => person.name === 'Pat Lee').map(person => person.email), [null]);
+  assert.equal(people.filter(person => person.name === 'Alice Smith').length, 1);
+});
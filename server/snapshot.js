@@ -0,0 +1,138 @@
+// The JSON backup format: every table that makes up the organization's scorecards, as stored.
+// Logins, sessions and the audit log stay with the server they belong to.
+// Bump SNAPSHOT_VERSION when a table or column is added, and keep restoring older versions.
+
+const SNAPSHOT_FORMAT = 'levelten-backup';
+const SNAPSHOT_VERSION = 2;
+
+// Tables in the order they're restored, so rows come after the rows they refer to.
+// keys are tried in turn to find the row a snapshot row replaces; required columns can't be null.
+const SNAPSHOT_TABLES = [
+  {
+    name: 'people',
+    columns: ['id', 'name', 'email', 'deactivated_at'],
+    required: ['id', 'name'],
+    keys: [['id'], ['email']]
+  },
+  {
+    name: 'scorecards',
+    columns: ['id', 'name', 'display_order', 'created_at'],
+    required: ['id', 'name', 'created_at'],
+    keys: [['id']]
+  },
+  {
+    name: 'scorecard_members',
+    columns: ['scorecard_id', 'person_id'],
+    required: ['scorecard_id', 'person_id'],
+    keys: [['scorecard_id', 'person_id']]
+  },
+  {
+    name: 'weeks',
+    columns: ['id', 'name', 'start_date', 'end_date'],
+    required: ['id', 'name', 'start_date', 'end_date'],
+    keys: [['id'], ['start_date']]
+  },
+  {
+    name: 'metrics',
+    columns: [
+      'id', 'scorecard_id', 'name', 'owner_id', 'display_order', 'value_type',
+      'target_value', 'target_unit', 'target_operator', 'target_upper_value',
+      'tolerance_value', 'tolerance_type', 'formula', 'aggregation', 'cadence', 'archived_at', 'eos_id'
+    ],
+    required: ['id', 'scorecard_id', 'name', 'owner_id', 'target_value', 'target_unit', 'target_operator'],
+    keys: [['id']]
+  },
+  {
+    name: 'metric_targets',
+    columns: ['id', 'metric_id', 'target_value', 'target_unit', 'target_operator', 'target_upper_value', 'effective_from', 'created_at'],
+    required: ['id', 'metric_id', 'target_value', 'target_unit', 'target_operator', 'effective_from', 'created_at'],
+    keys: [['metric_id', 'effective_from'], ['id']]
+  },
+  {
+    name: 'weekly_values',
+    columns: ['id', 'metric_id', 'week_id', 'value', 'unit', 'not_applicable'],
+    required: ['id', 'metric_id', 'week_id', 'value', 'unit'],
+    keys: [['metric_id', 'week_id'], ['id']]
+  },
+  {
+    name: 'value_comments',
+    columns: ['id', 'metric_id', 'week_id', 'author_id', 'body', 'created_at'],
+    required: ['id', 'metric_id', 'week_id', 'author_id', 'body', 'created_at'],
+    keys: [['id']]
+  },
+  {
+    name: 'settings',
+    columns: ['key', 'value'],
+    required: ['key', 'value'],
+    keys: [['key']]
+  }
+];
+
+// Columns that refer to a row of another table: checked when validating a snapshot, and pointed
+// at the matching row in this database when restoring one
+const REFERENCES = {
+  scorecard_members: { scorecard_id: 'scorecards', person_id: 'people' },
+  metrics: { scorecard_id: 'scorecards', owner_id: 'people' },
+  metric_targets: { metric_id: 'metrics' },
+  weekly_values: { metric_id: 'metrics', week_id: 'weeks' },
+  value_comments: { metric_id: 'metrics', week_id: 'weeks', author_id: 'people' }
+};
+
+// Why a parsed backup can't be restored, or null if it can
+function snapshotProblem(snapshot) {
+  if (!snapshot || typeof snapshot !== 'object' || snapshot.format !== SNAPSHOT_FORMAT) {
+    return 'Not a backup file';
+  }
+  if (!Number.isInteger(snapshot.version) || snapshot.version < 1) {
+    return 'The backup has no valid version';
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    return `The backup is version ${snapshot.version}, from a newer release; this server reads up to version ${SNAPSHOT_VERSION}`;
+  }
+  if (!snapshot.tables || typeof snapshot.tables !== 'object') {
+    return 'The backup has no tables';
+  }
+
+  for (const table of SNAPSHOT_TABLES) {
+    const rows = snapshot.tables[table.name];
+    if (!Array.isArray(rows)) {
+      return `The backup is missing ${table.name}`;
+    }
+    for (const [index, row] of rows.entries()) {
+      if (!row || typeof row !== 'object') {
+        return `${table.name} row ${index + 1} isn't an object`;
+      }
+      const missing = table.required.find(column => row[column] === null || row[column] === undefined);
+      if (missing) {
+        return `${table.name} row ${index + 1} has no ${missing}`;
+      }
+    }
+  }
+
+  if (snapshot.tables.scorecards.length === 0) {
+    return 'The backup has no scorecards';
+  }
+
+  const ids = Object.fromEntries(['people', 'scorecards', 'metrics', 'weeks'].map(name =>
+    [name, new Set(snapshot.tables[name].map(row => row.id))]
+  ));
+  for (const [tableName, columns] of Object.entries(REFERENCES)) {
+    for (const [index, row] of snapshot.tables[tableName].entries()) {
+      for (const [column, target] of Object.entries(columns)) {
+        if (!ids[target].has(row[column])) {
+          return `${tableName} row ${index + 1} refers to a missing ${target} row (${column} ${row[column]})`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+module.exports = {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  SNAPSHOT_TABLES,
+  REFERENCES,
+  snapshotProblem
+};
@@ -0,0 +1,205 @@
+// Week helpers for the organization's calendar. Weeks start on the configured
+// day (0 = Sunday ... 6 = Saturday) at midnight in the configured IANA time zone.
+// Calendar days are passed around as { year, month, day } with month 1-12.
+// The client mirrors the parts it needs in src/models/calendar.ts.
+
+const formatters = new Map();
+
+// Whether the name is an IANA time zone this runtime knows
+function isValidTimeZone(timeZone) {
+  if (typeof timeZone !== 'string' || timeZone.trim() === '') {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+function partsFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }));
+  }
+  return formatters.get(timeZone);
+}
+
+// Wall-clock fields of a moment in the time zone
+function zonedParts(date, timeZone) {
+  const parts = {};
+  partsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  return parts;
+}
+
+// Calendar day a moment falls on in the time zone
+function calendarDay(date, timeZone) {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+function formatDay(day) {
+  return `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+}
+
+// The calendar date of an instant in a time zone as YYYY-MM-DD (mirrors calendarDate on the client)
+function calendarDate(date, timeZone) {
+  return formatDay(calendarDay(date, timeZone));
+}
+
+function addDays(day, days) {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function dayOfWeek(day) {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+}
+
+// Offset of the time zone from UTC at a moment, in milliseconds
+function timeZoneOffset(date, timeZone) {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Moment a calendar day starts in the time zone
+function startOfDay(day, timeZone) {
+  const utcMidnight = Date.UTC(day.year, day.month - 1, day.day);
+  const guess = utcMidnight - timeZoneOffset(new Date(utcMidnight), timeZone);
+  // Re-check the offset at the guess in case a DST change falls in between
+  return new Date(utcMidnight - timeZoneOffset(new Date(guess), timeZone));
+}
+
+// First day of the week containing a calendar day
+function startOfWeek(day, weekStartDay) {
+  return addDays(day, -((dayOfWeek(day) - weekStartDay + 7) % 7));
+}
+
+// Stored bounds of the week starting on a calendar day. The end date is the start of the
+// week's last day, so a week is complete once its end date is before the start of today.
+function weekBounds(startDay, timeZone) {
+  return {
+    start_date: startOfDay(startDay, timeZone).toISOString(),
+    end_date: startOfDay(addDays(startDay, 6), timeZone).toISOString()
+  };
+}
+
+// The week a date (YYYY-MM-DD) falls in: the day it starts and its stored bounds
+function weekContaining(date, settings) {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = startOfWeek({ year, month, day }, settings.weekStartDay);
+  return {
+    day: formatDay(start),
+    ...weekBounds(start, settings.timeZone)
+  };
+}
+
+// Bi-weekly periods are counted in pairs of weeks from this Monday
+const BIWEEKLY_EPOCH = { year: 1970, month: 1, day: 5 };
+
+// Bounds of a period from the start of its first day to the end of its last
+function periodBounds(first, last, timeZone) {
+  return {
+    startDate: startOfDay(first, timeZone).toISOString(),
+    endDate: new Date(startOfDay(addDays(last, 1), timeZone).getTime() - 1).toISOString()
+  };
+}
+
+// The period of a cadence that a week belongs to, by the calendar day the week starts on in the
+// time zone (mirrors getPeriodForWeek on the client). Weeks belong wholly to the month or quarter
+// they start in. Returns null for weekly cadence.
+function periodFor(startDate, cadence, timeZone) {
+  const day = calendarDay(new Date(startDate), timeZone);
+
+  if (cadence === 'biweekly') {
+    const epoch = Date.UTC(BIWEEKLY_EPOCH.year, BIWEEKLY_EPOCH.month - 1, BIWEEKLY_EPOCH.day);
+    const weeksSinceEpoch = Math.round((Date.UTC(day.year, day.month - 1, day.day) - epoch) / (7 * 24 * 60 * 60 * 1000));
+    const start = addDays(BIWEEKLY_EPOCH, Math.floor(weeksSinceEpoch / 2) * 14);
+    const end = addDays(start, 13);
+    return {
+      id: formatDay(start),
+      name: `${start.month}/${start.day}-${end.month}/${end.day}`,
+      ...periodBounds(start, end, timeZone)
+    };
+  }
+
+  if (cadence === 'quarterly') {
+    const quarter = Math.floor((day.month - 1) / 3);
+    return {
+      id: `${day.year}-Q${quarter + 1}`,
+      name: `Q${quarter + 1} ${day.year}`,
+      ...periodBounds({ year: day.year, month: quarter * 3 + 1, day: 1 }, addDays({ year: day.year, month: quarter * 3 + 4, day: 1 }, -1), timeZone)
+    };
+  }
+
+  if (cadence === 'monthly') {
+    return {
+      id: `${day.year}-${String(day.month).padStart(2, '0')}`,
+      name: new Date(Date.UTC(day.year, day.month - 1, 1)).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+      ...periodBounds({ year: day.year, month: day.month, day: 1 }, addDays({ year: day.year, month: day.month + 1, day: 1 }, -1), timeZone)
+    };
+  }
+
+  return null;
+}
+
+// Start of today in the organization's time zone
+function startOfToday(settings, now = new Date()) {
+  return startOfDay(calendarDay(now, settings.timeZone), settings.timeZone);
+}
+
+// Start of the week currently in progress
+function startOfCurrentWeek(settings, now = new Date()) {
+  return startOfDay(startOfWeek(calendarDay(now, settings.timeZone), settings.weekStartDay), settings.timeZone);
+}
+
+// Bounds of the completed weeks after a stored week's end date, oldest first.
+// The first one starts on the next configured start day, so weeks created under
+// an earlier setting are never overlapped.
+function completedWeeksAfter(lastEndDate, settings, now = new Date()) {
+  const { timeZone, weekStartDay } = settings;
+  const currentWeekStart = startOfCurrentWeek(settings, now);
+
+  let start = addDays(calendarDay(new Date(lastEndDate), timeZone), 1);
+  start = addDays(start, (weekStartDay - dayOfWeek(start) + 7) % 7);
+
+  const weeks = [];
+  while (startOfDay(start, timeZone) < currentWeekStart) {
+    weeks.push(weekBounds(start, timeZone));
+    start = addDays(start, 7);
+  }
+  return weeks;
+}
+
+// Bounds of the most recent completed weeks, newest first
+function recentCompletedWeeks(count, settings, now = new Date()) {
+  const currentWeek = startOfWeek(calendarDay(now, settings.timeZone), settings.weekStartDay);
+  return Array.from({ length: count }, (_, i) =>
+    weekBounds(addDays(currentWeek, -7 * (i + 1)), settings.timeZone)
+  );
+}
+
+module.exports = {
+  isValidTimeZone,
+  calendarDate,
+  weekContaining,
+  periodFor,
+  startOfToday,
+  startOfCurrentWeek,
+  completedWeeksAfter,
+  recentCompletedWeeks
+};
@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const weekCalendar = require('./weeks');
+
+// A Sydney week starting Monday 1 July 2024, which is still Sunday 30 June in UTC
+const SYDNEY_WEEK_START = '2024-06-30T14:00:00.000Z';
+
+test('periodFor groups weeks by the day they start in the time zone', () => {
+  const month = weekCalendar.periodFor(SYDNEY_WEEK_START, 'monthly', 'Australia/Sydney');
+  assert.equal(month.id, '2024-07');
+  assert.equal(month.name, 'Jul 2024');
+  assert.equal(month.startDate, SYDNEY_WEEK_START);
+  assert.equal(month.endDate, '2024-07-31T13:59:59.999Z');
+
+  const quarter = weekCalendar.periodFor(SYDNEY_WEEK_START, 'quarterly', 'Australia/Sydney');
+  assert.equal(quarter.id, '2024-Q3');
+
+  // The same moment is in June for an organization on UTC
+  assert.equal(weekCalendar.periodFor(SYDNEY_WEEK_START, 'monthly', 'UTC').id, '2024-06');
+  assert.equal(weekCalendar.periodFor(SYDNEY_WEEK_START, 'quarterly', 'UTC').id, '2024-Q2');
+});
+
+test('periodFor pairs weeks into bi-weekly periods by their day in the time zone', () => {
+  const period = weekCalendar.periodFor(SYDNEY_WEEK_START, 'biweekly', 'Australia/Sydney');
+  const weekBefore = weekCalendar.periodFor('2024-06-23T14:00:00.000Z', 'biweekly', 'Australia/Sydney');
+  const weekAfter = weekCalendar.periodFor('2024-07-07T14:00:00.000Z', 'biweekly', 'Australia/Sydney');
+  assert.equal(period.id, '2024-06-24');
+  assert.equal(period.name, '6/24-7/7');
+  assert.equal(period.startDate, '2024-06-23T14:00:00.000Z');
+  assert.equal(weekBefore.id, period.id);
+  assert.equal(weekAfter.id, '2024-07-08');
+});
+
+test('periodFor returns null for weekly cadence', () => {
+  assert.equal(weekCalendar.periodFor(SYDNEY_WEEK_START, 'weekly', 'Australia/Sydney'), null);
+});
@@ -1,26 +1,113 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import styled from 'styled-components';
-import { useNavigate, useLocation, Routes, Route, Navigate } from 'react-router-dom';
-import { Metric, Person, Week, WeeklyValue } from './models/types';
+import { useNavigate, useLocation, matchPath, Routes, Route, Navigate } from 'react-router-dom';
+import { CsvExportOptions, EosImportFormat, ImportValue, Metric, OrgSettings, OwnerReassignment, Person, RestoreMode, Role, ScorecardInfo, User, ValueComment, Week, WeeklyValue } from './models/types';
+import { DEFAULT_ORG_SETTINGS } from './models/calendar';
 import Scorecard from './components/Scorecard';
 import PeopleManager from './components/PeopleManager';
 import Segue from './components/Segue';
 import DatabaseSetup from './components/DatabaseSetup';
+import SettingsManager from './components/SettingsManager';
+import MetricDetail from './components/MetricDetail';
+import ArchivedMetrics from './components/ArchivedMetrics';
+import ImportValues from './components/ImportValues';
+import BackupManager from './components/BackupManager';
+import EosImporter from './components/EosImporter';
+import Login from './components/Login';
+import LoginManager from './components/LoginManager';
+import ScorecardManager from './components/ScorecardManager';
+import { isAdmin } from './models/permissions';
+import { downloadCsv, downloadFile } from './models/csv';
 import {
   getPeopleApi,
   getMetricsApi,
   getWeeksApi,
   getWeeklyValuesApi,
   saveMetricApi,
+  restoreMetricApi,
+  reorderMetricsApi,
+  scheduleMetricTargetApi,
   savePersonApi,
   deleteMetricApi,
+  archiveMetricApi,
+  unarchiveMetricApi,
   deletePersonApi,
+  deactivatePersonApi,
+  reactivatePersonApi,
   saveWeeklyValueApi,
+  deleteWeeklyValueApi,
   updateWeeksApi,
+  getSettingsApi,
+  saveSettingsApi,
+  getCommentsApi,
+  createCommentApi,
+  deleteCommentApi,
+  getUsersApi,
+  createUserApi,
+  changePasswordApi,
+  updateUserRoleApi,
+  deleteUserApi,
+  getScorecardsApi,
+  exportCsvApi,
+  importWeeklyValuesApi,
+  exportBackupApi,
+  restoreBackupApi,
+  importEosDataApi,
+  saveScorecardApi,
+  deleteScorecardApi,
+  joinScorecardRoom,
+  getAuthStatusApi,
+  logoutApi,
+  setUnauthorizedHandler,
   connectSocket,
-  getDatabaseStatusApi
+  getDatabaseStatusApi,
+  ApiError
 } from './services/apiClient';
 
+// A change made from this client that can be reverted and reapplied
+interface UndoableChange {
+  label: string; // Describes the change in toasts, e.g. "Undid changes to Revenue"
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// Most changes kept for undo
+const MAX_UNDO_HISTORY = 50;
+
+// The server's reason when the signed-in user isn't allowed to make a change, otherwise the fallback
+const failureMessage = (err: unknown, fallback: string) =>
+  err instanceof ApiError && err.status === 403 ? err.message : fallback;
+
+// Put a value cell back to an earlier value, or clear it if it had none
+const restoreWeeklyValue = async (metricId: string, weekId: string, previous?: WeeklyValue) => {
+  if (previous) {
+    await saveWeeklyValueApi(previous);
+  } else {
+    await deleteWeeklyValueApi(metricId, weekId);
+  }
+};
+
+// Recreate a deleted metric under its original ID with its goal history, values and position
+const restoreMetric = async (metric: Metric, values: WeeklyValue[], order: (string | undefined)[]) => {
+  await restoreMetricApi(metric);
+  for (const change of metric.targetHistory || []) {
+    await scheduleMetricTargetApi(metric.id as string, change.target, change.effectiveFrom);
+  }
+  for (const value of values) {
+    await saveWeeklyValueApi(value);
+  }
+  // Values can't be written to an archived metric, so it's archived again last
+  if (metric.archivedAt) {
+    await archiveMetricApi(metric.id as string);
+  }
+
+  // Metrics added since the deletion go last
+  const position = (id?: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  const scorecardId = metric.scorecardId as string;
+  const restored = await getMetricsApi(scorecardId);
+  await reorderMetricsApi([...restored].sort((a, b) => position(a.id) - position(b.id)), scorecardId);
+};
+
 const AppContainer = styled.div`
   width: 90%;
   margin: 0 auto;
@@ -29,6 +116,26 @@ const AppContainer = styled.div`
 
 const Header = styled.header`
   margin-bottom: 20px;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const UserMenu = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  color: #666;
+  font-size: 0.9rem;
+`;
+
+const SignOutLink = styled.span`
+  color: #0066cc;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
 `;
 
 const Title = styled.h1`
@@ -38,10 +145,19 @@ const Title = styled.h1`
 
 const TabBar = styled.div`
   display: flex;
+  align-items: center;
   border-bottom: 1px solid #ddd;
   margin-bottom: 20px;
 `;
 
+const ScorecardSwitcher = styled.select`
+  margin-left: auto;
+  padding: 6px 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
 const Tab = styled.div<{ $active: boolean }>`
   padding: 12px 24px;
   cursor: pointer;
@@ -114,14 +230,29 @@ const StatusMessage = styled.div<{ isError?: boolean }>`
 const App: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const [scorecards, setScorecards] = useState<ScorecardInfo[]>([]);
+  const [scorecardId, setScorecardId] = useState<string | null>(null); // The scorecard whose metrics are loaded
   const [metrics, setMetrics] = useState<Metric[]>([]);
+  const [allMetrics, setAllMetrics] = useState<Metric[]>([]); // Every scorecard's, for managing people and scorecards
   const [people, setPeople] = useState<Person[]>([]);
   const [weeks, setWeeks] = useState<Week[]>([]);
   const [weeklyValues, setWeeklyValues] = useState<WeeklyValue[]>([]);
+  const [settings, setSettings] = useState<OrgSettings>(DEFAULT_ORG_SETTINGS);
+  const [comments, setComments] = useState<ValueComment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null | undefined>(undefined); // undefined until checked
+  const [needsSetup, setNeedsSetup] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<{text: string, isError: boolean} | null>(null);
   const [databaseInitialized, setDatabaseInitialized] = useState<boolean | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoableChange[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoableChange[]>([]);
+  const isApplyingUndo = useRef(false);
+
+  // The scorecard to load, kept in a ref so socket updates refetch whichever is being viewed
+  const scorecardIdRef = useRef<string | null>(null);
+  const routeScorecardId = matchPath({ path: '/scorecards/:scorecardId', end: false }, location.pathname)?.params.scorecardId;
 
   // Function to show a status message that automatically disappears
   const showStatusMessage = (text: string, isError = false) => {
@@ -163,18 +294,40 @@ const App: React.FC = () => {
       
       // Update weeks first to ensure we have the latest completed weeks
       await updateWeeksApi();
+
+      // Stay on the scorecard being viewed unless it has been deleted
+      const scorecardsData = await getScorecardsApi();
+      if (!scorecardsData.some(scorecard => scorecard.id === scorecardIdRef.current)) {
+        scorecardIdRef.current = scorecardsData.length > 0 ? scorecardsData[0].id : null;
+      }
+      const loadingScorecardId = scorecardIdRef.current;
       
-      const [peopleData, metricsData, weeksData, valuesData] = await Promise.all([
+      const [peopleData, metricsData, allMetricsData, weeksData, valuesData, settingsData, commentsData, usersData] = await Promise.all([
         getPeopleApi(),
+        getMetricsApi(loadingScorecardId || undefined),
         getMetricsApi(),
         getWeeksApi(),
-        getWeeklyValuesApi()
+        getWeeklyValuesApi(loadingScorecardId || undefined),
+        getSettingsApi(),
+        getCommentsApi(),
+        getUsersApi()
       ]);
+
+      // Another scorecard was chosen while loading; its own fetch will fill in the data
+      if (scorecardIdRef.current !== loadingScorecardId) {
+        return;
+      }
       
+      setScorecards(scorecardsData);
+      setScorecardId(loadingScorecardId);
       setPeople(peopleData);
       setMetrics(metricsData);
+      setAllMetrics(allMetricsData);
       setWeeks(weeksData);
       setWeeklyValues(valuesData);
+      setSettings(settingsData);
+      setComments(commentsData);
+      setUsers(usersData);
       setError(null);
     } catch (err) {
       console.error('Error fetching data:', err);
@@ -185,10 +338,18 @@ const App: React.FC = () => {
     }
   }, [checkDatabaseStatus, showStatusMessage]);
 
-  // Check database status once on initial load
+  // Check who is signed in, then the database status, once on initial load
   useEffect(() => {
     const checkInitialStatus = async () => {
       try {
+        const authStatus = await getAuthStatusApi();
+        setNeedsSetup(authStatus.needsSetup);
+        setCurrentUser(authStatus.user);
+        if (!authStatus.user) {
+          setLoading(false);
+          return;
+        }
+
         const status = await getDatabaseStatusApi();
         setDatabaseInitialized(status.initialized);
         if (status.initialized) {
@@ -200,32 +361,173 @@ const App: React.FC = () => {
         console.error('Error checking database status:', err);
         setError(err instanceof Error ? err.message : 'Failed to check database status');
         showStatusMessage('Failed to connect to server. Check that the server is running.', true);
+        setCurrentUser(null);
         setLoading(false);
       }
     };
     
     checkInitialStatus();
   }, []); // Empty dependencies - only run once
+
+  // Go back to the login page when the server says the session has ended
+  useEffect(() => {
+    setUnauthorizedHandler(() => setCurrentUser(null));
+    return () => setUnauthorizedHandler(null);
+  }, []);
   
-  // Set up socket connection for real-time updates
+  // Set up socket connection for real-time updates. The server only accepts signed-in connections.
   useEffect(() => {
-    if (databaseInitialized) {
+    if (databaseInitialized && currentUser) {
       const cleanup = connectSocket(() => {
         fetchAllData(false); // Skip checking status on socket updates
       });
       
       return cleanup;
     }
-  }, [databaseInitialized, fetchAllData]);
+  }, [databaseInitialized, currentUser, fetchAllData]);
+
+  // Load the scorecard in the address when it changes. Before sign-in it's only remembered for the first load.
+  useEffect(() => {
+    if (routeScorecardId && routeScorecardId !== scorecardIdRef.current) {
+      scorecardIdRef.current = routeScorecardId;
+      if (databaseInitialized && currentUser) {
+        fetchAllData(false); // Skip status check
+      }
+    }
+  }, [routeScorecardId, databaseInitialized, currentUser, fetchAllData]);
+
+  // Hear about changes to the metrics and values of the scorecard being viewed
+  useEffect(() => {
+    if (scorecardId) {
+      joinScorecardRoom(scorecardId);
+    }
+  }, [scorecardId]);
+
+  // After signing in or creating the admin account, load the scorecard (or show data setup)
+  // and return to the page that sent the user to the login page
+  const handleSignedIn = (user: User) => {
+    setCurrentUser(user);
+    setNeedsSetup(false);
+    fetchAllData();
+
+    const from = (location.state as { from?: string } | null)?.from;
+    navigate(from || '/scorecard', { replace: true });
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await logoutApi();
+    } catch (err) {
+      console.error('Error signing out:', err);
+    }
+
+    // Don't leave one user's data or undo history behind for the next
+    setCurrentUser(null);
+    setDatabaseInitialized(null);
+    setScorecards([]);
+    setPeople([]);
+    setMetrics([]);
+    setAllMetrics([]);
+    setWeeklyValues([]);
+    setComments([]);
+    setUsers([]);
+    setUndoStack([]);
+    setRedoStack([]);
+    navigate('/login');
+  };
+
+  // Remember a change for undo; a new change can't be followed by a redo of an older one
+  const recordChange = (change: UndoableChange) => {
+    setUndoStack(stack => [...stack.slice(-(MAX_UNDO_HISTORY - 1)), change]);
+    setRedoStack([]);
+  };
+
+  const applyChange = async (change: UndoableChange, direction: 'undo' | 'redo') => {
+    if (isApplyingUndo.current) {
+      return;
+    }
+    isApplyingUndo.current = true;
+
+    const verb = direction === 'undo' ? 'Undid' : 'Redid';
+    const [from, to] = direction === 'undo' ? [setUndoStack, setRedoStack] : [setRedoStack, setUndoStack];
+    from(stack => stack.slice(0, -1));
+
+    try {
+      await change[direction]();
+      to(stack => [...stack, change]);
+      showStatusMessage(`${verb} ${change.label}`);
+    } catch (err) {
+      // The change no longer applies (e.g. someone else deleted the metric), so it's dropped
+      console.error(`Error applying ${direction}:`, err);
+      showStatusMessage(`Couldn't ${direction} ${change.label}${err instanceof Error ? `: ${err.message}` : ''}`, true);
+    } finally {
+      isApplyingUndo.current = false;
+      await fetchAllData(false); // Skip status check
+    }
+  };
+
+  const handleUndo = () => {
+    const change = undoStack[undoStack.length - 1];
+    if (change) {
+      applyChange(change, 'undo');
+    }
+  };
+
+  const handleRedo = () => {
+    const change = redoStack[redoStack.length - 1];
+    if (change) {
+      applyChange(change, 'redo');
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields to their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') {
+        return;
+      }
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const metricName = (metricId: string) => metrics.find(m => m.id === metricId)?.name || 'metric';
 
   const handleSaveMetric = async (metric: Metric) => {
+    const previous = metric.id ? metrics.find(m => m.id === metric.id) : undefined;
+
     try {
-      await saveMetricApi(metric);
+      // New metrics go on the scorecard being viewed
+      const saved = await saveMetricApi(metric.id ? metric : { ...metric, scorecardId: scorecardId || undefined });
       await fetchAllData(false); // Skip status check
       showStatusMessage('Metric saved successfully');
+
+      if (previous) {
+        recordChange({
+          label: `changes to ${previous.name}`,
+          undo: async () => { await saveMetricApi(previous); },
+          redo: async () => { await saveMetricApi(metric); }
+        });
+      } else if (saved.id) {
+        recordChange({
+          label: `adding ${saved.name}`,
+          undo: async () => { await deleteMetricApi(saved.id as string); },
+          redo: async () => { await restoreMetricApi(saved); }
+        });
+      }
     } catch (err) {
       console.error('Error saving metric:', err);
-      showStatusMessage('Failed to save metric', true);
+      showStatusMessage(failureMessage(err, 'Failed to save metric'), true);
     }
   };
 
@@ -236,16 +538,61 @@ const App: React.FC = () => {
       return;
     }
     
+    // Everything needed to restore the metric if the deletion is undone
+    const metricId = metric.id;
+    const values = weeklyValues.filter(value => value.metricId === metricId);
+    const order = metrics.map(m => m.id);
+
     try {
-      await deleteMetricApi(metric.id);
+      await deleteMetricApi(metricId);
       await fetchAllData(false); // Skip status check
       showStatusMessage('Metric deleted successfully');
+
+      recordChange({
+        label: `deleting ${metric.name}`,
+        undo: () => restoreMetric(metric, values, order),
+        redo: async () => { await deleteMetricApi(metricId); }
+      });
     } catch (err) {
       console.error('Error deleting metric:', err);
-      showStatusMessage('Failed to delete metric', true);
+      // Surface the server's reason, e.g. when a calculated metric still depends on this one
+      showStatusMessage(err instanceof Error ? err.message : 'Failed to delete metric', true);
     }
   };
 
+  const handleArchiveMetric = async (metric: Metric) => {
+    const metricId = metric.id as string;
+
+    try {
+      await archiveMetricApi(metricId);
+      await fetchAllData(false); // Skip status check
+      showStatusMessage(`${metric.name} archived`);
+
+      recordChange({
+        label: `archiving ${metric.name}`,
+        undo: async () => { await unarchiveMetricApi(metricId); },
+        redo: async () => { await archiveMetricApi(metricId); }
+      });
+    } catch (err) {
+      console.error('Error archiving metric:', err);
+      showStatusMessage(failureMessage(err, 'Failed to archive metric'), true);
+    }
+  };
+
+  // Errors are shown on the archived metrics page, so they're left to propagate
+  const handleUnarchiveMetric = async (metric: Metric) => {
+    const metricId = metric.id as string;
+    await unarchiveMetricApi(metricId);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage(`${metric.name} is back on the scorecard`);
+
+    recordChange({
+      label: `unarchiving ${metric.name}`,
+      undo: async () => { await archiveMetricApi(metricId); },
+      redo: async () => { await unarchiveMetricApi(metricId); }
+    });
+  };
+
   const handleSavePerson = async (person: Person) => {
     try {
       await savePersonApi(person);
@@ -253,7 +600,7 @@ const App: React.FC = () => {
       showStatusMessage('Person saved successfully');
     } catch (err) {
       console.error('Error saving person:', err);
-      showStatusMessage('Failed to save person', true);
+      showStatusMessage(failureMessage(err, 'Failed to save person'), true);
     }
   };
 
@@ -271,18 +618,180 @@ const App: React.FC = () => {
       }
     } catch (err) {
       console.error('Error deleting person:', err);
-      showStatusMessage('Failed to delete person', true);
+      showStatusMessage(failureMessage(err, 'Failed to delete person'), true);
       return false;
     }
   };
 
+  // Errors are shown in the export dialog, so they're left to propagate
+  const handleExportCsv = async (options: CsvExportOptions) => {
+    const { filename, csv } = await exportCsvApi(scorecardId as string, options);
+    downloadCsv(filename, csv);
+  };
+
+  const handlePreviewImport = async (values: ImportValue[]) => {
+    return importWeeklyValuesApi(values, true);
+  };
+
+  // Errors are shown on the import page, so they're left to propagate
+  const handleImportValues = async (values: ImportValue[]) => {
+    await importWeeklyValuesApi(values, false);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage(`${values.length} ${values.length === 1 ? 'value' : 'values'} imported`);
+  };
+
+  // Errors are shown in the backup section, so they're left to propagate
+  const handleDownloadBackup = async () => {
+    const { filename, json } = await exportBackupApi();
+    downloadFile(filename, json, 'application/json');
+  };
+
+  const handleRestoreBackup = async (snapshot: unknown, mode: RestoreMode) => {
+    const result = await restoreBackupApi(snapshot, mode);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage(result.message);
+  };
+
+  const handlePreviewEosImport = async (format: EosImportFormat, data: unknown, targetScorecardId: string) => {
+    return importEosDataApi(format.id, data, true, targetScorecardId);
+  };
+
+  // Errors are shown in the EOS tools import section, so they're left to propagate
+  const handleEosImport = async (format: EosImportFormat, data: unknown, targetScorecardId: string) => {
+    const report = await importEosDataApi(format.id, data, false, targetScorecardId);
+    await fetchAllData(false); // Skip status check
+    const imported = report.counts.new + report.counts.updated;
+    showStatusMessage(`Imported ${imported} ${imported === 1 ? 'metric' : 'metrics'} from ${format.name}`);
+  };
+
+  // Errors are shown in the deactivation dialog, so they're left to propagate
+  const handleDeactivatePerson = async (person: Person, reassignments: OwnerReassignment[]) => {
+    await deactivatePersonApi(person.id, reassignments);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage(
+      reassignments.length > 0
+        ? `${person.name} deactivated and ${reassignments.length} ${reassignments.length === 1 ? 'metric' : 'metrics'} reassigned`
+        : `${person.name} deactivated`
+    );
+  };
+
+  const handleReactivatePerson = async (person: Person) => {
+    try {
+      await reactivatePersonApi(person.id);
+      await fetchAllData(false); // Skip status check
+      showStatusMessage(`${person.name} reactivated`);
+    } catch (err) {
+      console.error('Error reactivating person:', err);
+      showStatusMessage(failureMessage(err, 'Failed to reactivate person'), true);
+    }
+  };
+
+  // Reorders come from the scorecard, which reverts its own order if saving fails
+  const handleReorderMetrics = async (reordered: Metric[]) => {
+    const previous = [...metrics];
+    const reorderedScorecardId = scorecardId as string;
+    await reorderMetricsApi(reordered, reorderedScorecardId);
+    await fetchAllData(false); // Skip status check
+
+    recordChange({
+      label: 'reordering metrics',
+      undo: async () => { await reorderMetricsApi(previous, reorderedScorecardId); },
+      redo: async () => { await reorderMetricsApi(reordered, reorderedScorecardId); }
+    });
+  };
+
   const handleUpdateWeeklyValue = async (value: WeeklyValue) => {
+    const previous = weeklyValues.find(v => v.metricId === value.metricId && v.weekId === value.weekId);
+
     try {
       await saveWeeklyValueApi(value);
       await fetchAllData(false); // Skip status check
+
+      recordChange({
+        label: `the ${metricName(value.metricId)} value change`,
+        undo: () => restoreWeeklyValue(value.metricId, value.weekId, previous),
+        redo: async () => { await saveWeeklyValueApi(value); }
+      });
     } catch (err) {
       console.error('Error updating weekly value:', err);
-      showStatusMessage('Failed to update value', true);
+      showStatusMessage(failureMessage(err, 'Failed to update value'), true);
+    }
+  };
+
+  const handleDeleteWeeklyValue = async (metricId: string, weekId: string) => {
+    const previous = weeklyValues.find(v => v.metricId === metricId && v.weekId === weekId);
+
+    try {
+      await deleteWeeklyValueApi(metricId, weekId);
+      await fetchAllData(false); // Skip status check
+
+      recordChange({
+        label: `clearing the ${metricName(metricId)} value`,
+        undo: () => restoreWeeklyValue(metricId, weekId, previous),
+        redo: async () => { await deleteWeeklyValueApi(metricId, weekId); }
+      });
+    } catch (err) {
+      console.error('Error deleting weekly value:', err);
+      showStatusMessage(failureMessage(err, 'Failed to clear value'), true);
+    }
+  };
+
+  // Comment errors are shown in the comment popover, so they're left to propagate
+  const handleAddComment = async (metricId: string, weekId: string, body: string) => {
+    await createCommentApi(metricId, weekId, body);
+    await fetchAllData(false); // Skip status check
+  };
+
+  const handleDeleteComment = async (comment: ValueComment) => {
+    await deleteCommentApi(comment.id);
+    await fetchAllData(false); // Skip status check
+  };
+
+  // Login errors are shown in the logins list, so they're left to propagate
+  const handleCreateUser = async (personId: string, username: string, password: string, role: Role) => {
+    await createUserApi(personId, username, password, role);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage('Login added successfully');
+  };
+
+  const handleChangePassword = async (user: User, password: string, currentPassword?: string) => {
+    await changePasswordApi(user.id, password, currentPassword);
+    showStatusMessage(`Password changed for ${user.username}`);
+  };
+
+  const handleChangeRole = async (user: User, role: Role) => {
+    await updateUserRoleApi(user.id, role);
+    await fetchAllData(false); // Skip status check
+  };
+
+  const handleDeleteUser = async (user: User) => {
+    await deleteUserApi(user.id);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage('Login removed successfully');
+  };
+
+  // Scorecard errors are shown in the scorecards list, so they're left to propagate
+  const handleSaveScorecard = async (scorecard: Omit<ScorecardInfo, 'id'> & { id?: string }) => {
+    await saveScorecardApi(scorecard);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage('Scorecard saved successfully');
+  };
+
+  const handleDeleteScorecard = async (scorecard: ScorecardInfo) => {
+    await deleteScorecardApi(scorecard.id);
+    await fetchAllData(false); // Skip status check
+    showStatusMessage('Scorecard deleted successfully');
+  };
+
+  const handleSaveSettings = async (newSettings: OrgSettings) => {
+    try {
+      await saveSettingsApi(newSettings);
+      await fetchAllData(false); // Skip status check
+      showStatusMessage('Settings saved successfully');
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      // Surface the server's reason, e.g. an unknown time zone
+      showStatusMessage(err instanceof Error ? err.message : 'Failed to save settings', true);
     }
   };
 
@@ -295,6 +804,43 @@ const App: React.FC = () => {
   // App name from environment variable
   const APP_NAME = process.env.REACT_APP_APP_NAME || 'LevelTen';
 
+  // Still checking whether anyone is signed in
+  if (currentUser === undefined) {
+    return (
+      <AppContainer>
+        <Header>
+          <Title>{APP_NAME}</Title>
+        </Header>
+        <div>Checking database status...</div>
+      </AppContainer>
+    );
+  }
+
+  // First run: create the admin account before anything else
+  if (needsSetup) {
+    return (
+      <AppContainer>
+        <DatabaseSetup
+          needsAdmin
+          onAdminCreated={handleSignedIn}
+          onInitializationComplete={handleInitializationComplete}
+        />
+      </AppContainer>
+    );
+  }
+
+  // Every other page needs a signed-in user
+  if (!currentUser) {
+    return (
+      <AppContainer>
+        <Routes>
+          <Route path="/login" element={<Login onLogin={handleSignedIn} />} />
+          <Route path="*" element={<Navigate to="/login" replace state={{ from: location.pathname }} />} />
+        </Routes>
+      </AppContainer>
+    );
+  }
+
   // If we're still checking database status or loading initial data
   if (loading && databaseInitialized === null) {
     return (
@@ -328,10 +874,31 @@ const App: React.FC = () => {
     );
   }
 
+  // People who have left are only listed in Manage People and in history
+  const activePeople = people.filter(person => !person.deactivatedAt);
+
+  // The team on the scorecard being viewed, plus anyone who owns one of its metrics without being on it
+  const currentScorecard = scorecards.find(scorecard => scorecard.id === scorecardId);
+  const scorecardPeople = currentScorecard
+    ? activePeople.filter(person =>
+      currentScorecard.memberIds.includes(person.id) || metrics.some(metric => metric.owner.id === person.id))
+    : activePeople;
+  const scorecardPath = scorecardId ? `/scorecards/${scorecardId}` : '/scorecard';
+
+  // Send links to a scorecard that doesn't exist (e.g. it was deleted) to the one being viewed
+  const scorecardRoute = (element: React.ReactElement) =>
+    routeScorecardId && scorecardId && !scorecards.some(scorecard => scorecard.id === routeScorecardId)
+      ? <Navigate to={scorecardPath} replace />
+      : element;
+
   return (
     <AppContainer>
       <Header>
         <Title>{APP_NAME}</Title>
+        <UserMenu>
+          <span>Signed in as {currentUser.person.name}</span>
+          <SignOutLink onClick={handleSignOut}>Sign out</SignOutLink>
+        </UserMenu>
       </Header>
 
       <TabBar>
@@ -342,8 +909,8 @@ const App: React.FC = () => {
           Segue
         </Tab>
         <Tab
-          $active={location.pathname === '/' || location.pathname === '/scorecard'}
-          onClick={() => navigate('/scorecard')}
+          $active={location.pathname === '/' || location.pathname === '/scorecard' || Boolean(routeScorecardId)}
+          onClick={() => navigate(scorecardPath)}
         >
           Scorecard
         </Tab>
@@ -353,31 +920,139 @@ const App: React.FC = () => {
         >
           Manage People
         </Tab>
+        <Tab
+          $active={location.pathname === '/settings'}
+          onClick={() => navigate('/settings')}
+        >
+          Settings
+        </Tab>
+        {scorecards.length > 1 && (
+          <ScorecardSwitcher
+            value={scorecardId || ''}
+            onChange={(e) => navigate(`/scorecards/${e.target.value}`)}
+            title="Switch to another team's scorecard"
+          >
+            {scorecards.map(scorecard => (
+              <option key={scorecard.id} value={scorecard.id}>{scorecard.name}</option>
+            ))}
+          </ScorecardSwitcher>
+        )}
       </TabBar>
 
       <Routes>
         <Route path="/" element={<Navigate to="/scorecard" replace />} />
-        <Route path="/scorecard" element={
+        <Route path="/login" element={<Navigate to="/scorecard" replace />} />
+        <Route path="/scorecard" element={<Navigate to={scorecardPath} replace />} />
+        <Route path="/scorecards/:scorecardId" element={scorecardRoute(
           <Scorecard
             metrics={metrics}
             weeks={weeks}
             weeklyValues={weeklyValues}
-            people={people}
+            people={scorecardPeople}
+            settings={settings}
+            comments={comments}
+            onAddComment={handleAddComment}
+            onDeleteComment={handleDeleteComment}
             onUpdateWeeklyValue={handleUpdateWeeklyValue}
+            onDeleteWeeklyValue={handleDeleteWeeklyValue}
             onSaveMetric={handleSaveMetric}
             onDeleteMetric={handleDeleteMetric}
+            onArchiveMetric={handleArchiveMetric}
+            onReorderMetrics={handleReorderMetrics}
+            undoLabel={undoStack[undoStack.length - 1]?.label}
+            redoLabel={redoStack[redoStack.length - 1]?.label}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onExportCsv={handleExportCsv}
+            currentUser={currentUser}
           />
-        } />
-        <Route path="/people" element={
-          <PeopleManager
-            people={people}
+        )} />
+        <Route path="/scorecards/:scorecardId/archived" element={scorecardRoute(
+          <ArchivedMetrics
             metrics={metrics}
-            onSavePerson={handleSavePerson}
-            onDeletePerson={handleDeletePerson}
+            weeks={weeks}
+            weeklyValues={weeklyValues}
+            settings={settings}
+            currentUser={currentUser}
+            onUnarchiveMetric={handleUnarchiveMetric}
+            onDeleteMetric={handleDeleteMetric}
+          />
+        )} />
+        <Route path="/scorecards/:scorecardId/import" element={scorecardRoute(
+          <ImportValues
+            metrics={metrics}
+            weeks={weeks}
+            settings={settings}
+            onPreview={handlePreviewImport}
+            onImport={handleImportValues}
+          />
+        )} />
+        <Route path="/scorecards/:scorecardId/metrics/:id" element={scorecardRoute(
+          <MetricDetail
+            metrics={metrics}
+            weeks={weeks}
+            weeklyValues={weeklyValues}
+            people={scorecardPeople}
+            settings={settings}
+            onSaveMetric={handleSaveMetric}
+            currentUser={currentUser}
           />
+        )} />
+        <Route path="/people" element={
+          <>
+            <PeopleManager
+              people={people}
+              metrics={allMetrics}
+              users={users}
+              onSavePerson={handleSavePerson}
+              onDeletePerson={handleDeletePerson}
+              onDeactivatePerson={isAdmin(currentUser) ? handleDeactivatePerson : undefined}
+              onReactivatePerson={isAdmin(currentUser) ? handleReactivatePerson : undefined}
+            />
+            <LoginManager
+              users={users}
+              people={activePeople}
+              currentUser={currentUser}
+              onCreateUser={handleCreateUser}
+              onChangePassword={handleChangePassword}
+              onChangeRole={handleChangeRole}
+              onDeleteUser={handleDeleteUser}
+            />
+          </>
+        } />
+        <Route path="/settings" element={
+          <>
+            <SettingsManager
+              settings={settings}
+              onSaveSettings={handleSaveSettings}
+            />
+            {isAdmin(currentUser) && (
+              <ScorecardManager
+                scorecards={scorecards}
+                people={activePeople}
+                metrics={allMetrics}
+                onSaveScorecard={handleSaveScorecard}
+                onDeleteScorecard={handleDeleteScorecard}
+              />
+            )}
+            {isAdmin(currentUser) && (
+              <BackupManager
+                onDownloadBackup={handleDownloadBackup}
+                onRestoreBackup={handleRestoreBackup}
+              />
+            )}
+            {isAdmin(currentUser) && scorecards.length > 0 && (
+              <EosImporter
+                scorecards={scorecards}
+                scorecardId={scorecardId}
+                onPreview={handlePreviewEosImport}
+                onImport={handleEosImport}
+              />
+            )}
+          </>
         } />
         <Route path="/segue" element={
-          <Segue people={people} />
+          <Segue people={scorecardPeople} />
         } />
       </Routes>
 
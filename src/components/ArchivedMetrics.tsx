@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Metric, OrgSettings, User, Week, WeeklyValue } from '../models/types';
+import { formatGoal } from '../models/utils';
+import { computeCalculatedValues } from '../models/formula';
+import { DEFAULT_ORG_SETTINGS } from '../models/calendar';
+import { downloadCsv, metricHistoryRows, toCsv } from '../models/csv';
+import { canFacilitate, isAdmin } from '../models/permissions';
+
+interface ArchivedMetricsProps {
+  metrics: Metric[]; // The scorecard's metrics; only the archived ones are listed
+  weeks: Week[];
+  weeklyValues: WeeklyValue[];
+  settings?: OrgSettings;
+  currentUser?: User; // Restoring needs a facilitator or admin, deleting an admin
+  onUnarchiveMetric?: (metric: Metric) => Promise<void>;
+  onDeleteMetric?: (metric: Metric) => Promise<void>;
+}
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const BackLink = styled.span`
+  color: #0066cc;
+  cursor: pointer;
+  font-size: 0.9rem;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  font-size: 1.2rem;
+  color: #333;
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 10px 16px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.9rem;
+`;
+
+const MetricName = styled.div`
+  flex: 1;
+`;
+
+const Muted = styled.span`
+  color: #666;
+  font-size: 0.85em;
+  margin-left: 6px;
+`;
+
+const LinkButton = styled.button<{ $danger?: boolean }>`
+  background: none;
+  border: none;
+  padding: 0;
+  color: ${props => props.$danger ? '#dc3545' : '#0066cc'};
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const NoDataMessage = styled.div`
+  padding: 24px;
+  text-align: center;
+  color: #666;
+  font-style: italic;
+`;
+
+const ErrorText = styled.div`
+  padding: 8px 16px;
+  color: #c5221f;
+  font-size: 0.85rem;
+`;
+
+// Metrics retired from a scorecard. Their history stays viewable and can be exported,
+// and they can be put back on the scorecard or, by admins, deleted for good.
+const ArchivedMetrics: React.FC<ArchivedMetricsProps> = ({
+  metrics,
+  weeks,
+  weeklyValues,
+  settings = DEFAULT_ORG_SETTINGS,
+  currentUser,
+  onUnarchiveMetric = async () => {},
+  onDeleteMetric = async () => {}
+}) => {
+  const { scorecardId } = useParams<{ scorecardId: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+
+  const archivedMetrics = metrics
+    .filter(metric => metric.archivedAt)
+    .sort((a, b) => (b.archivedAt as string).localeCompare(a.archivedAt as string));
+
+  // Entered values plus the values of calculated metrics
+  const allWeeklyValues = useMemo(
+    () => [...weeklyValues, ...computeCalculatedValues(metrics, weeks, weeklyValues)],
+    [metrics, weeks, weeklyValues]
+  );
+
+  const canRestore = !currentUser || canFacilitate(currentUser);
+  const canDelete = !currentUser || isAdmin(currentUser);
+
+  const handleExport = (metric: Metric) => {
+    const rows = metricHistoryRows(metric, weeks, allWeeklyValues, settings.timeZone);
+    downloadCsv(`${metric.name.replace(/[^\w-]+/g, '_')}.csv`, toCsv(rows));
+  };
+
+  const handleUnarchive = async (metric: Metric) => {
+    try {
+      await onUnarchiveMetric(metric);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore metric');
+    }
+  };
+
+  // Deleting throws the history away, so the name has to be typed like on the scorecard
+  const handleDelete = async (metric: Metric) => {
+    const typed = window.prompt(
+      `Delete ${metric.name} permanently, with all of its values and history? This action cannot be undone.\n\nTo confirm, type the exact metric name:`
+    );
+    if (typed !== metric.name) {
+      return;
+    }
+    try {
+      await onDeleteMetric(metric);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete metric');
+    }
+  };
+
+  return (
+    <Container>
+      <Header>
+        <BackLink onClick={() => navigate(`/scorecards/${scorecardId}`)}>← Scorecard</BackLink>
+        <Title>Archived metrics</Title>
+      </Header>
+
+      {error && <ErrorText>{error}</ErrorText>}
+
+      {archivedMetrics.length === 0 ? (
+        <NoDataMessage>No archived metrics. Metrics archived from the scorecard are kept here with their history.</NoDataMessage>
+      ) : (
+        archivedMetrics.map(metric => (
+          <Row key={metric.id}>
+            <MetricName>
+              {metric.name}
+              <Muted>
+                {metric.owner.name} · {formatGoal(metric.target, metric.valueType)} · archived {new Date(metric.archivedAt as string).toLocaleDateString()}
+              </Muted>
+            </MetricName>
+            <LinkButton onClick={() => navigate(`/scorecards/${scorecardId}/metrics/${metric.id}`)}>history</LinkButton>
+            <LinkButton onClick={() => handleExport(metric)}>export CSV</LinkButton>
+            {canRestore && <LinkButton onClick={() => handleUnarchive(metric)}>unarchive</LinkButton>}
+            {canDelete && <LinkButton $danger onClick={() => handleDelete(metric)}>delete</LinkButton>}
+          </Row>
+        ))
+      )}
+    </Container>
+  );
+};
+
+export default ArchivedMetrics;
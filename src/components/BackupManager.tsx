@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { RestoreMode } from '../models/types';
+
+interface BackupManagerProps {
+  onDownloadBackup: () => Promise<void>;
+  onRestoreBackup: (snapshot: unknown, mode: RestoreMode) => Promise<void>;
+}
+
+const modeLabels: Record<RestoreMode, string> = {
+  replace: 'Replace: make everything match the backup. Logins and the audit log are kept.',
+  merge: 'Merge: add and update what the backup has, keeping everything else. People are matched by email and weeks by start date.'
+};
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+`;
+
+const Section = styled.div`
+  padding: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  max-width: 560px;
+  font-size: 0.9rem;
+
+  & + & {
+    border-top: 1px solid #eee;
+  }
+`;
+
+const Hint = styled.div`
+  font-size: 0.8rem;
+  color: #666;
+`;
+
+const ModeOption = styled.label`
+  display: flex;
+  align-items: flex-start;
+  gap: 8px;
+  font-size: 0.85rem;
+  cursor: pointer;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+`;
+
+const Button = styled.button<{ $danger?: boolean }>`
+  align-self: flex-start;
+  padding: 8px 16px;
+  background-color: ${props => props.$danger ? '#dc3545' : '#0066cc'};
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.$danger ? '#c82333' : '#0052a3'};
+  }
+
+  &:disabled {
+    background-color: ${props => props.$danger ? '#f5a5a5' : '#99c2eb'};
+    cursor: default;
+  }
+`;
+
+// Download the whole database as a JSON file, or restore one, e.g. to move to another
+// server or to roll back a bad bulk edit
+const BackupManager: React.FC<BackupManagerProps> = ({ onDownloadBackup, onRestoreBackup }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleDownload = async () => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await onDownloadBackup();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!file) {
+      return;
+    }
+
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(await file.text());
+    } catch (e) {
+      setError(`${file.name} isn't a JSON file`);
+      return;
+    }
+
+    const warning = mode === 'replace'
+      ? 'Replace all scorecards, people, metrics and values with the backup? Anything not in the backup will be lost.'
+      : 'Merge the backup into the database? Rows it shares with the database are overwritten.';
+    if (!window.confirm(warning)) {
+      return;
+    }
+
+    setError('');
+    setIsWorking(true);
+    try {
+      await onRestoreBackup(snapshot, mode);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Container>
+      <Header>Backup &amp; Restore</Header>
+
+      <Section>
+        <Hint>
+          A backup holds the scorecards, people, metrics with their goals, weeks, values, comments and settings.
+          Logins and the audit log stay on this server.
+        </Hint>
+        <Button onClick={handleDownload} disabled={isWorking}>Download Backup</Button>
+      </Section>
+
+      <Section>
+        <input type="file" accept=".json,application/json" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+        {(Object.keys(modeLabels) as RestoreMode[]).map(option => (
+          <ModeOption key={option}>
+            <input type="radio" name="restore-mode" checked={mode === option} onChange={() => setMode(option)} />
+            {modeLabels[option]}
+          </ModeOption>
+        ))}
+        {error && <ErrorText>{error}</ErrorText>}
+        <Button $danger={mode === 'replace'} onClick={handleRestore} disabled={isWorking || !file}>
+          {isWorking ? 'Restoring...' : 'Restore Backup'}
+        </Button>
+      </Section>
+    </Container>
+  );
+};
+
+export default BackupManager;
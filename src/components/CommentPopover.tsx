@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { ValueComment } from '../models/types';
+
+interface CommentPopoverProps {
+  title: string; // e.g. the metric name and week
+  comments: ValueComment[]; // The cell's thread, oldest first
+  position: { x: number; y: number }; // Viewport coordinates to anchor the popover at
+  onAdd: (body: string) => Promise<void>; // Posted as the signed-in user
+  onDelete: (comment: ValueComment) => Promise<void>;
+  onClose: () => void;
+  history?: React.ReactNode; // Shown on a History tab beside the notes when provided
+}
+
+const POPOVER_WIDTH = 300;
+
+const Backdrop = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  z-index: 1000;
+`;
+
+const Popover = styled.div`
+  position: fixed;
+  width: ${POPOVER_WIDTH}px;
+  background-color: white;
+  border: 1px solid #ddd;
+  border-radius: 6px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+  z-index: 1001;
+  display: flex;
+  flex-direction: column;
+  font-size: 0.85rem;
+`;
+
+const PopoverHeader = styled.div`
+  padding: 8px 12px;
+  border-bottom: 1px solid #eee;
+  font-weight: 600;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const CloseButton = styled.span`
+  cursor: pointer;
+  color: #999;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
+const Tabs = styled.div`
+  display: flex;
+  border-bottom: 1px solid #eee;
+`;
+
+const Tab = styled.span<{ $active: boolean }>`
+  padding: 6px 12px;
+  cursor: pointer;
+  color: ${props => props.$active ? '#0066cc' : '#666'};
+  border-bottom: 2px solid ${props => props.$active ? '#0066cc' : 'transparent'};
+
+  &:hover {
+    color: #0066cc;
+  }
+`;
+
+const HistoryContainer = styled.div`
+  max-height: 320px;
+  overflow-y: auto;
+  padding: 4px 12px;
+`;
+
+const Thread = styled.div`
+  max-height: 220px;
+  overflow-y: auto;
+`;
+
+const CommentItem = styled.div`
+  padding: 8px 12px;
+  border-bottom: 1px solid #f0f0f0;
+  position: relative;
+`;
+
+const CommentMeta = styled.div`
+  color: #888;
+  font-size: 0.75rem;
+  margin-bottom: 2px;
+`;
+
+const CommentBody = styled.div`
+  white-space: pre-wrap;
+  word-break: break-word;
+  color: #333;
+`;
+
+const DeleteLink = styled.span`
+  position: absolute;
+  top: 6px;
+  right: 10px;
+  color: #dc3545;
+  font-size: 0.75rem;
+  cursor: pointer;
+  opacity: 0;
+  transition: opacity 0.2s;
+
+  ${CommentItem}:hover & {
+    opacity: 1;
+  }
+`;
+
+const EmptyThread = styled.div`
+  padding: 12px;
+  color: #888;
+  font-style: italic;
+`;
+
+const AddForm = styled.form`
+  padding: 8px 12px;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+`;
+
+const TextArea = styled.textarea`
+  width: 100%;
+  box-sizing: border-box;
+  min-height: 54px;
+  padding: 6px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-family: inherit;
+  font-size: 0.85rem;
+  resize: vertical;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  gap: 6px;
+  align-items: center;
+  justify-content: flex-end;
+`;
+
+const AddButton = styled.button`
+  padding: 4px 10px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2eb;
+    cursor: default;
+  }
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.75rem;
+`;
+
+const CommentPopover: React.FC<CommentPopoverProps> = ({
+  title,
+  comments,
+  position,
+  onAdd,
+  onDelete,
+  onClose,
+  history
+}) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onAdd(body.trim());
+      setBody('');
+      setError('');
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (comment: ValueComment) => {
+    if (!window.confirm('Delete this comment?')) {
+      return;
+    }
+    try {
+      await onDelete(comment);
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  // Keep the popover on screen
+  const left = Math.max(8, Math.min(position.x, window.innerWidth - POPOVER_WIDTH - 8));
+  const top = Math.max(8, Math.min(position.y, window.innerHeight - 360));
+
+  return (
+    <>
+      <Backdrop onClick={onClose} />
+      <Popover style={{ left: `${left}px`, top: `${top}px` }} onClick={e => e.stopPropagation()}>
+        <PopoverHeader>
+          {title}
+          <CloseButton onClick={onClose} title="Close">×</CloseButton>
+        </PopoverHeader>
+
+        {history && (
+          <Tabs>
+            <Tab $active={!showHistory} onClick={() => setShowHistory(false)}>
+              Notes{comments.length > 0 ? ` (${comments.length})` : ''}
+            </Tab>
+            <Tab $active={showHistory} onClick={() => setShowHistory(true)}>History</Tab>
+          </Tabs>
+        )}
+
+        {showHistory ? (
+          <HistoryContainer>{history}</HistoryContainer>
+        ) : (
+          <>
+            <Thread>
+              {comments.length === 0 ? (
+                <EmptyThread>No notes yet</EmptyThread>
+              ) : (
+                comments.map(comment => (
+                  <CommentItem key={comment.id}>
+                    <CommentMeta>
+                      {comment.author ? comment.author.name : 'Former member'} · {new Date(comment.createdAt).toLocaleString()}
+                    </CommentMeta>
+                    <CommentBody>{comment.body}</CommentBody>
+                    <DeleteLink onClick={() => handleDelete(comment)} title="Delete comment">×</DeleteLink>
+                  </CommentItem>
+                ))
+              )}
+            </Thread>
+
+            <AddForm onSubmit={handleSubmit}>
+              <TextArea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="Add a note about this value..."
+                autoFocus
+              />
+              <FormRow>
+                <AddButton type="submit" disabled={isSaving || !body.trim()}>
+                  Add note
+                </AddButton>
+              </FormRow>
+              {error && <ErrorText>{error}</ErrorText>}
+            </AddForm>
+          </>
+        )}
+      </Popover>
+    </>
+  );
+};
+
+export default CommentPopover;
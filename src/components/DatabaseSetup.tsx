@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
-import { initializeSampleDataApi, initializeEosDataApi } from '../services/apiClient';
+import { AdminSetup, EosImportFormat, EosImportReport, User } from '../models/types';
+import { getEosImportFormatsApi, initializeSampleDataApi, importEosDataApi, restoreBackupApi, setupAdminApi } from '../services/apiClient';
+import EosImportPreview from './EosImportPreview';
 
 const SetupContainer = styled.div`
   max-width: 800px;
@@ -59,6 +61,10 @@ const ImportContainer = styled.div`
   margin-top: 32px;
 `;
 
+const PreviewContainer = styled.div`
+  margin-bottom: 24px;
+`;
+
 const TextArea = styled.textarea`
   width: 100%;
   min-height: 200px;
@@ -91,17 +97,88 @@ const SuccessMessage = styled.div`
   margin-bottom: 16px;
 `;
 
+const AdminForm = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  max-width: 400px;
+  margin: 0 auto;
+`;
+
+const Label = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.9rem;
+  color: #666;
+`;
+
+const FormatSelect = styled.select`
+  padding: 8px 10px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 1rem;
+  margin-bottom: 16px;
+`;
+
+const Input = styled.input`
+  padding: 8px 10px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 1rem;
+`;
+
 interface DatabaseSetupProps {
   onInitializationComplete: () => void;
+  needsAdmin?: boolean; // No accounts exist yet, so the admin account is created before choosing data
+  onAdminCreated?: (user: User) => void;
 }
 
-const DatabaseSetup: React.FC<DatabaseSetupProps> = ({ onInitializationComplete }) => {
+const emptyAdmin: AdminSetup = { name: '', email: '', username: '', password: '' };
+
+const DatabaseSetup: React.FC<DatabaseSetupProps> = ({
+  onInitializationComplete,
+  needsAdmin = false,
+  onAdminCreated = () => {}
+}) => {
+  const [admin, setAdmin] = useState<AdminSetup>(emptyAdmin);
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showImport, setShowImport] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
   const [importData, setImportData] = useState('');
+  const [formats, setFormats] = useState<EosImportFormat[]>([]);
+  const [format, setFormat] = useState<EosImportFormat | null>(null);
+  const [eosPreview, setEosPreview] = useState<EosImportReport | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const handleAdminChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setAdmin(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAdminSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (admin.password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const user = await setupAdminApi({ ...admin, username: admin.username.trim() });
+      setIsLoading(false);
+      onAdminCreated(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setIsLoading(false);
+    }
+  };
+
   const handleSampleDataClick = async () => {
     setError(null);
     setSuccess(null);
@@ -120,33 +197,88 @@ const DatabaseSetup: React.FC<DatabaseSetupProps> = ({ onInitializationComplete
     }
   };
 
-  const handleEosImportClick = () => {
+  const handleEosImportClick = async () => {
     setShowImport(true);
     setError(null);
     setSuccess(null);
+
+    try {
+      const available = await getEosImportFormatsApi();
+      setFormats(available);
+      setFormat(available[0] || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
   };
 
+  const resetImport = (text: string) => {
+    setImportData(text);
+    setEosPreview(null);
+  };
+
+  // Preview first, so skipped measurables can be fixed in the EOS tool before anything is saved
   const handleImportSubmit = async () => {
+    if (!format) {
+      return;
+    }
+
     setError(null);
     setSuccess(null);
     setIsLoading(true);
     
     try {
-      // Validate JSON format
-      let data;
+      // CSV exports are sent as text; the server reads them
+      let data: unknown = importData;
+      if (format.fileType === 'json') {
+        try {
+          data = JSON.parse(importData);
+        } catch (e) {
+          throw new Error('Invalid JSON format');
+        }
+      }
+
+      if (!eosPreview) {
+        setEosPreview(await importEosDataApi(format.id, data, true));
+        return;
+      }
+
+      const report = await importEosDataApi(format.id, data, false);
+      setSuccess(`Imported ${report.counts.new + report.counts.updated} metrics from ${format.name}`);
+      setTimeout(() => {
+        onInitializationComplete();
+      }, 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestoreClick = () => {
+    setShowRestore(true);
+    setError(null);
+    setSuccess(null);
+  };
+
+  // A backup made on this or another server, with everything the database held
+  const handleRestoreSubmit = async () => {
+    if (!backupFile) {
+      return;
+    }
+
+    setError(null);
+    setSuccess(null);
+    setIsLoading(true);
+
+    try {
+      let snapshot;
       try {
-        data = JSON.parse(importData);
+        snapshot = JSON.parse(await backupFile.text());
       } catch (e) {
         throw new Error('Invalid JSON format');
       }
-      
-      // Validate EOS structure
-      if (!data.measurables || !Array.isArray(data.measurables) || 
-          !data.dates || !Array.isArray(data.dates)) {
-        throw new Error('Invalid EOS format: missing measurables or dates arrays');
-      }
-      
-      const response = await initializeEosDataApi(data);
+
+      const response = await restoreBackupApi(snapshot, 'replace');
       setSuccess(response.message);
       setTimeout(() => {
         onInitializationComplete();
@@ -160,10 +292,61 @@ const DatabaseSetup: React.FC<DatabaseSetupProps> = ({ onInitializationComplete
 
   const handleCancel = () => {
     setShowImport(false);
+    setShowRestore(false);
     setImportData('');
+    setFormat(null);
+    setEosPreview(null);
+    setBackupFile(null);
     setError(null);
   };
 
+  if (needsAdmin) {
+    return (
+      <SetupContainer>
+        <Title>Welcome to {process.env.REACT_APP_APP_NAME || 'LevelTen'}</Title>
+        <InfoText>
+          First, create the admin account you'll sign in with. You'll also be added to the people on the scorecard.
+        </InfoText>
+
+        {error && <ErrorMessage>{error}</ErrorMessage>}
+
+        <AdminForm onSubmit={handleAdminSubmit}>
+          <Label>
+            Your name
+            <Input name="name" type="text" value={admin.name} onChange={handleAdminChange} autoFocus />
+          </Label>
+          <Label>
+            Email
+            <Input name="email" type="email" value={admin.email} onChange={handleAdminChange} />
+          </Label>
+          <Label>
+            Username
+            <Input name="username" type="text" value={admin.username} onChange={handleAdminChange} autoComplete="username" />
+          </Label>
+          <Label>
+            Password
+            <Input name="password" type="password" value={admin.password} onChange={handleAdminChange} autoComplete="new-password" />
+          </Label>
+          <Label>
+            Confirm password
+            <Input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+            />
+          </Label>
+          <Button
+            type="submit"
+            disabled={isLoading || !admin.name || !admin.email || !admin.username.trim() || !admin.password}
+          >
+            {isLoading ? 'Creating...' : 'Create Admin Account'}
+          </Button>
+        </AdminForm>
+      </SetupContainer>
+    );
+  }
+
   return (
     <SetupContainer>
       <Title>Welcome to {process.env.REACT_APP_APP_NAME || 'LevelTen'}</Title>
@@ -174,7 +357,30 @@ const DatabaseSetup: React.FC<DatabaseSetupProps> = ({ onInitializationComplete
       {error && <ErrorMessage>{error}</ErrorMessage>}
       {success && <SuccessMessage>{success}</SuccessMessage>}
       
-      {!showImport ? (
+      {showRestore ? (
+        <ImportContainer>
+          <InfoText>
+            Choose a backup downloaded from the Settings page of this or another server.
+          </InfoText>
+          <InfoText>
+            <input type="file" accept=".json,application/json" onChange={(e) => setBackupFile(e.target.files?.[0] || null)} />
+          </InfoText>
+          <ButtonContainer>
+            <Button
+              onClick={handleRestoreSubmit}
+              disabled={isLoading || !backupFile}
+            >
+              {isLoading ? 'Restoring...' : 'Restore Backup'}
+            </Button>
+            <SecondaryButton
+              onClick={handleCancel}
+              disabled={isLoading}
+            >
+              Cancel
+            </SecondaryButton>
+          </ButtonContainer>
+        </ImportContainer>
+      ) : !showImport ? (
         <ButtonContainer>
           <Button 
             onClick={handleSampleDataClick} 
@@ -186,25 +392,60 @@ const DatabaseSetup: React.FC<DatabaseSetupProps> = ({ onInitializationComplete
             onClick={handleEosImportClick}
             disabled={isLoading}
           >
-            Import from EOS One
+            Import from EOS Tool
+          </SecondaryButton>
+          <SecondaryButton
+            onClick={handleRestoreClick}
+            disabled={isLoading}
+          >
+            Restore from Backup
           </SecondaryButton>
         </ButtonContainer>
       ) : (
         <ImportContainer>
+          <FormatSelect
+            value={format?.id || ''}
+            onChange={(e) => {
+              setFormat(formats.find(option => option.id === e.target.value) || null);
+              resetImport('');
+            }}
+          >
+            {formats.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </FormatSelect>
+          {format && (
+            <InfoText>
+              {format.instructions}
+            </InfoText>
+          )}
           <InfoText>
-            Paste your EOS JSON data below. You can find this data in the "eos.json" file.
+            <input
+              key={format?.id}
+              type="file"
+              accept={format?.fileType === 'csv' ? '.csv,text/csv' : '.json,application/json'}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                resetImport(file ? await file.text() : '');
+              }}
+            />
           </InfoText>
           <TextArea 
             value={importData}
-            onChange={(e) => setImportData(e.target.value)}
-            placeholder="Paste EOS JSON data here..."
+            onChange={(e) => resetImport(e.target.value)}
+            placeholder={`Paste ${format ? format.name : 'EOS'} ${format?.fileType === 'csv' ? 'CSV' : 'JSON'} data here...`}
           />
+          {eosPreview && (
+            <PreviewContainer>
+              <EosImportPreview report={eosPreview} />
+            </PreviewContainer>
+          )}
           <ButtonContainer>
             <Button 
               onClick={handleImportSubmit}
-              disabled={isLoading || !importData.trim()}
+              disabled={isLoading || !format || !importData.trim()}
             >
-              {isLoading ? 'Importing...' : 'Import Data'}
+              {isLoading ? 'Importing...' : eosPreview ? 'Import Data' : 'Preview Import'}
             </Button>
             <SecondaryButton 
               onClick={handleCancel}
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Metric, OwnerReassignment, Person } from '../models/types';
+
+interface DeactivatePersonModalProps {
+  person: Person;
+  metrics: Metric[]; // The metrics they own, on any scorecard
+  people: Person[]; // Active people who can take their metrics over
+  onDeactivate: (person: Person, reassignments: OwnerReassignment[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const ModalOverlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.5);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+`;
+
+const ModalContent = styled.div`
+  background-color: white;
+  padding: 24px;
+  border-radius: 8px;
+  width: 480px;
+  max-width: 90%;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`;
+
+const ModalTitle = styled.h3`
+  margin-top: 0;
+  margin-bottom: 16px;
+  color: #333;
+`;
+
+const ModalText = styled.p`
+  margin: 0 0 16px;
+  color: #666;
+  font-size: 0.9rem;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 12px;
+  font-size: 0.85rem;
+`;
+
+const MetricList = styled.div`
+  border: 1px solid #eee;
+  border-radius: 4px;
+  margin-bottom: 16px;
+  max-height: 260px;
+  overflow-y: auto;
+`;
+
+const MetricOwnerRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 12px;
+  padding: 8px 12px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.85rem;
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const Select = styled.select`
+  padding: 5px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 13px;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+  margin-bottom: 12px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`;
+
+const Button = styled.button`
+  padding: 6px 12px;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 13px;
+  transition: all 0.2s;
+`;
+
+const DeactivateButton = styled(Button)`
+  background-color: #dc3545;
+  color: white;
+
+  &:hover {
+    background-color: #c82333;
+  }
+
+  &:disabled {
+    background-color: #f5a5a5;
+    cursor: not-allowed;
+  }
+`;
+
+const CancelButton = styled(Button)`
+  background-color: #f5f5f5;
+  color: #333;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+// Offboarding: hand each of someone's metrics to a new owner, then deactivate them.
+// Everything is applied together, so nobody is left owning a departed person's metric.
+const DeactivatePersonModal: React.FC<DeactivatePersonModalProps> = ({
+  person,
+  metrics,
+  people,
+  onDeactivate,
+  onClose
+}) => {
+  const candidates = people.filter(p => p.id !== person.id);
+  const [owners, setOwners] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allAssigned = metrics.every(metric => owners[metric.id as string]);
+
+  const assignAll = (ownerId: string) => {
+    setOwners(Object.fromEntries(metrics.map(metric => [metric.id as string, ownerId])));
+  };
+
+  const handleDeactivate = async () => {
+    setError('');
+    setIsSaving(true);
+    try {
+      await onDeactivate(person, metrics.map(metric => ({
+        metricId: metric.id as string,
+        ownerId: owners[metric.id as string]
+      })));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deactivate person');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ModalOverlay onClick={onClose}>
+      <ModalContent onClick={e => e.stopPropagation()}>
+        <ModalTitle>Deactivate {person.name}</ModalTitle>
+        <ModalText>
+          {person.name} will be hidden from owner lists and Segue and won't be able to sign in.
+          Their name stays on the history of what they did. You can reactivate them later.
+        </ModalText>
+
+        {metrics.length > 0 && (
+          <>
+            <FormRow>
+              <span>Move all {metrics.length} of their metrics to</span>
+              <Select value="" onChange={(e) => e.target.value && assignAll(e.target.value)}>
+                <option value="">Choose…</option>
+                {candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                ))}
+              </Select>
+            </FormRow>
+
+            <MetricList>
+              {metrics.map(metric => (
+                <MetricOwnerRow key={metric.id}>
+                  <span>{metric.name}</span>
+                  <Select
+                    value={owners[metric.id as string] || ''}
+                    onChange={(e) => setOwners({ ...owners, [metric.id as string]: e.target.value })}
+                  >
+                    <option value="">New owner…</option>
+                    {candidates.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                    ))}
+                  </Select>
+                </MetricOwnerRow>
+              ))}
+            </MetricList>
+          </>
+        )}
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        <ButtonGroup>
+          <CancelButton onClick={onClose}>Cancel</CancelButton>
+          <DeactivateButton
+            onClick={handleDeactivate}
+            disabled={isSaving || !allAssigned}
+            title={allAssigned ? undefined : 'Choose a new owner for every metric'}
+          >
+            {isSaving ? 'Deactivating...' : 'Deactivate'}
+          </DeactivateButton>
+        </ButtonGroup>
+      </ModalContent>
+    </ModalOverlay>
+  );
+};
+
+export default DeactivatePersonModal;
@@ -9,6 +9,9 @@ interface EditablePersonRowProps {
   isNew?: boolean;
   metricCount?: number; // Number of metrics assigned to this person
   canDelete?: boolean; // Whether this person can be deleted
+  hasLogin?: boolean; // Whether this person has a login (see LoginManager)
+  onDeactivate?: () => void; // Starts reassigning their metrics and deactivating them
+  onReactivate?: () => void;
 }
 
 const Row = styled.div<{ $isNew?: boolean }>`
@@ -56,6 +59,18 @@ const MetricInfo = styled.span`
   display: inline-block;
 `;
 
+const ActionLink = styled.span`
+  color: #0066cc;
+  font-size: 0.75rem;
+  cursor: pointer;
+  display: inline-block;
+  margin-left: 10px;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
 const EditForm = styled.div`
   display: flex;
   flex-direction: column;
@@ -173,7 +188,10 @@ const EditablePersonRow: React.FC<EditablePersonRowProps> = ({
   onDelete,
   isNew = false,
   metricCount = 0,
-  canDelete = true
+  canDelete = true,
+  hasLogin = false,
+  onDeactivate,
+  onReactivate
 }) => {
   const emptyPerson: Person = {
     id: '',
@@ -199,8 +217,8 @@ const EditablePersonRow: React.FC<EditablePersonRowProps> = ({
   
   const handleSave = async () => {
     // Simple validation
-    if (!editedPerson.name || !editedPerson.email) {
-      alert('Please fill in the required fields: Name and Email');
+    if (!editedPerson.name) {
+      alert('Please fill in the required field: Name');
       return;
     }
     
@@ -306,10 +324,9 @@ const EditablePersonRow: React.FC<EditablePersonRowProps> = ({
             <Input
               type="email"
               name="email"
-              value={editedPerson.email}
+              value={editedPerson.email ?? ''}
               onChange={handleInputChange}
               placeholder="Email"
-              required
             />
           </FormRow>
           <ButtonsContainer>
@@ -343,8 +360,20 @@ const EditablePersonRow: React.FC<EditablePersonRowProps> = ({
               ) : (
                 <MetricInfo>
                   {metricCount} associated metric{metricCount !== 1 ? 's' : ''}
+                  {hasLogin && ' · has a login'}
                 </MetricInfo>
               )}
+              {person?.deactivatedAt && (
+                <MetricInfo style={{ marginLeft: '10px' }}>
+                  deactivated {new Date(person.deactivatedAt).toLocaleDateString()}
+                </MetricInfo>
+              )}
+              {onDeactivate && (
+                <ActionLink onClick={(e) => { e.stopPropagation(); onDeactivate(); }}>deactivate</ActionLink>
+              )}
+              {onReactivate && (
+                <ActionLink onClick={(e) => { e.stopPropagation(); onReactivate(); }}>reactivate</ActionLink>
+              )}
             </div>
           )}
         </PersonContainer>
@@ -1,35 +1,75 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
-import { ValueUnit, Target, ValueType } from '../models/types';
-import { formatValue } from '../models/utils';
+import { ValueUnit, Target, ValueType, TargetStatus } from '../models/types';
+import { formatValue, parseValueInput } from '../models/utils';
 
 interface EditableValueCellProps {
   value: number;
   unit: ValueUnit;
-  isOnTarget: boolean;
+  status: TargetStatus;
   onSave: (value: number, unit: ValueUnit) => Promise<void>;
   goalTarget?: Target;
   valueType?: ValueType;
+  readOnly?: boolean; // Calculated values, and values the user isn't allowed to edit
+  title?: string;
+  span?: number; // Number of week columns the cell covers
+  commentCount?: number;
+  onOpenComments?: (position: { x: number; y: number }) => void; // Shows the comment marker when provided
+  notApplicable?: boolean; // Marked N/A: shown neutral rather than judged against the goal
+  onClear?: () => Promise<void>;
+  onMarkNotApplicable?: () => Promise<void>;
 }
 
-const CellContainer = styled.div<{ $isOnTarget: boolean }>`
+// Background, text and row-hover colors for each target status
+const statusColors: Record<TargetStatus, { background: string; text: string; hover: string }> = {
+  'on-track': { background: '#e6f4ea', text: '#137333', hover: '#d4ebdc' },
+  'at-risk': { background: '#fef7e0', text: '#b06000', hover: '#fcefc7' },
+  'off-track': { background: '#fce8e6', text: '#c5221f', hover: '#f7dbd8' }
+};
+
+const notApplicableColors = { background: '#f1f3f4', text: '#5f6368', hover: '#e8eaed' };
+
+const cellColors = (props: { $status: TargetStatus; $notApplicable?: boolean }) =>
+  props.$notApplicable ? notApplicableColors : statusColors[props.$status];
+
+const CellContainer = styled.div<{ $status: TargetStatus; $notApplicable?: boolean; $readOnly?: boolean; $span: number }>`
   padding: 4px 5px;
-  width: 80px;
+  width: ${props => props.$span * 90 - 10}px; /* 80px per week column plus the padding between them */
   flex-shrink: 0;
   display: flex;
   align-items: center;
   justify-content: center;
-  background-color: ${props => props.$isOnTarget ? '#e6f4ea' : '#fce8e6'};
-  color: ${props => props.$isOnTarget ? '#137333' : '#c5221f'};
+  background-color: ${props => cellColors(props).background};
+  color: ${props => cellColors(props).text};
   font-weight: 500;
-  cursor: pointer;
+  cursor: ${props => props.$readOnly ? 'default' : 'pointer'};
+  font-style: ${props => props.$readOnly ? 'italic' : 'normal'};
   position: relative;
   font-size: 0.85rem;
   transition: background-color 0.2s;
   
   /* Deeper hue on row hover */
   div:hover & {
-    background-color: ${props => props.$isOnTarget ? '#d4ebdc' : '#f7dbd8'};
+    background-color: ${props => cellColors(props).hover};
+  }
+`;
+
+// Corner flag on annotated cells; on other cells it appears on hover to add the first note
+const CommentMarker = styled.span<{ $hasComments: boolean }>`
+  position: absolute;
+  top: 0;
+  right: 0;
+  width: 0;
+  height: 0;
+  border-style: solid;
+  border-width: 0 10px 10px 0;
+  border-color: transparent ${props => props.$hasComments ? '#0066cc' : '#bbb'} transparent transparent;
+  cursor: pointer;
+  opacity: ${props => props.$hasComments ? 1 : 0};
+  transition: opacity 0.2s;
+
+  ${CellContainer}:hover & {
+    opacity: 1;
   }
 `;
 
@@ -56,6 +96,22 @@ const ValueInput = styled.input`
   font-size: 0.75rem;
 `;
 
+const CellActions = styled.div`
+  display: flex;
+  gap: 8px;
+  font-size: 0.7rem;
+`;
+
+const CellAction = styled.span`
+  color: #666;
+  cursor: pointer;
+  text-decoration: underline;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
 const InputError = styled.div`
   color: #c5221f;
   font-size: 0.75rem;
@@ -66,13 +122,21 @@ const InputError = styled.div`
 const EditableValueCell: React.FC<EditableValueCellProps> = ({ 
   value, 
   unit, 
-  isOnTarget, 
+  status, 
   onSave,
   goalTarget,
-  valueType
+  valueType,
+  readOnly = false,
+  title,
+  span = 1,
+  commentCount = 0,
+  onOpenComments,
+  notApplicable = false,
+  onClear,
+  onMarkNotApplicable
 }) => {
   const [isEditing, setIsEditing] = useState(false);
-  const [editValue, setEditValue] = useState(value.toString());
+  const [editValue, setEditValue] = useState(notApplicable ? '' : value.toString());
   const [inputError, setInputError] = useState("");
   
   // Use the goal's unit if provided, otherwise use the current value's unit
@@ -80,16 +144,22 @@ const EditableValueCell: React.FC<EditableValueCellProps> = ({
 
   const handleClick = () => {
     setIsEditing(true);
-    setEditValue(value.toString());
+    setEditValue(notApplicable ? '' : value.toString());
     setInputError("");
     console.log(`Editing value: ${value} with goal unit: ${effectiveUnit}`);
   };
 
   const validateAndSave = async () => {
-    // Validate input is a number
-    const parsedValue = parseFloat(editValue);
+    // Leaving an N/A cell's input empty keeps it N/A
+    if (notApplicable && editValue.trim() === '') {
+      setIsEditing(false);
+      return true;
+    }
+
+    // Parse input like "1.2m", "$4,500" or "2h 30m"; bare numbers are in the goal's unit
+    const parsed = parseValueInput(editValue, valueType, effectiveUnit);
     
-    if (isNaN(parsedValue)) {
+    if (!parsed) {
       setInputError("Please enter a valid number");
       return false;
     }
@@ -97,7 +167,7 @@ const EditableValueCell: React.FC<EditableValueCellProps> = ({
     // Clear error and save
     setInputError("");
     try {
-      await onSave(parsedValue, effectiveUnit);
+      await onSave(parsed.value, parsed.unit);
       setIsEditing(false);
       return true;
     } catch (error) {
@@ -116,6 +186,18 @@ const EditableValueCell: React.FC<EditableValueCellProps> = ({
     await validateAndSave();
   };
 
+  // Clear the value or mark the week N/A instead of entering a value
+  const handleAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setIsEditing(false);
+      setInputError("");
+    } catch (error) {
+      console.error('Error updating value:', error);
+      setInputError("Failed to save. Try again.");
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setEditValue(e.target.value);
     
@@ -126,7 +208,14 @@ const EditableValueCell: React.FC<EditableValueCellProps> = ({
   };
 
   return (
-    <CellContainer $isOnTarget={isOnTarget} onClick={!isEditing ? handleClick : undefined}>
+    <CellContainer
+      $status={status}
+      $notApplicable={notApplicable}
+      $readOnly={readOnly}
+      $span={span}
+      title={title}
+      onClick={!isEditing && !readOnly ? handleClick : undefined}
+    >
       {isEditing ? (
         <EditForm onSubmit={handleSubmit}>
           <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
@@ -140,13 +229,44 @@ const EditableValueCell: React.FC<EditableValueCellProps> = ({
             />
             <span>{effectiveUnit}</span>
           </div>
+          {(onClear || onMarkNotApplicable) && (
+            // Mouse down is handled before the input's blur would save the typed value
+            <CellActions>
+              {onMarkNotApplicable && !notApplicable && (
+                <CellAction
+                  title="Mark this period as not applicable"
+                  onMouseDown={(e) => { e.preventDefault(); handleAction(onMarkNotApplicable); }}
+                >
+                  N/A
+                </CellAction>
+              )}
+              {onClear && (
+                <CellAction
+                  title="Remove this value"
+                  onMouseDown={(e) => { e.preventDefault(); handleAction(onClear); }}
+                >
+                  Clear
+                </CellAction>
+              )}
+            </CellActions>
+          )}
           {inputError && <InputError>{inputError}</InputError>}
         </EditForm>
       ) : (
         <ValueDisplay>
-          {formatValue(value, unit, valueType)}
+          {notApplicable ? 'N/A' : formatValue(value, unit, valueType)}
         </ValueDisplay>
       )}
+      {onOpenComments && !isEditing && (
+        <CommentMarker
+          $hasComments={commentCount > 0}
+          title={commentCount > 0 ? `${commentCount} note${commentCount === 1 ? '' : 's'}` : 'Notes and history'}
+          onClick={(e) => {
+            e.stopPropagation();
+            onOpenComments({ x: e.clientX, y: e.clientY });
+          }}
+        />
+      )}
     </CellContainer>
   );
 };
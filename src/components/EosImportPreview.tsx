@@ -0,0 +1,124 @@
+import React from 'react';
+import styled from 'styled-components';
+import { EosImportReport, EosImportStatus } from '../models/types';
+
+interface EosImportPreviewProps {
+  report: EosImportReport;
+}
+
+const statusLabels: Record<EosImportStatus, string> = {
+  new: 'New',
+  updated: 'Updated',
+  unchanged: 'Unchanged',
+  skipped: 'Skipped'
+};
+
+const statusColors: Record<EosImportStatus, string> = {
+  new: '#1e7e34',
+  updated: '#b36b00',
+  unchanged: '#666',
+  skipped: '#c5221f'
+};
+
+const Summary = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px 16px;
+  margin-bottom: 12px;
+  font-size: 0.85rem;
+  color: #333;
+`;
+
+const Status = styled.span<{ $status: EosImportStatus }>`
+  color: ${props => statusColors[props.$status]};
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.85rem;
+  text-align: left;
+
+  th, td {
+    padding: 6px 8px;
+    border-bottom: 1px solid #eee;
+    vertical-align: top;
+  }
+
+  th {
+    color: #666;
+    font-weight: normal;
+  }
+`;
+
+const Note = styled.div`
+  color: #666;
+  font-size: 0.8rem;
+`;
+
+const SummaryNote = styled(Note)`
+  margin-bottom: 12px;
+`;
+
+// What importing an EOS tool's export will do (or did): each measurable's metric and values, and why anything is skipped
+const EosImportPreview: React.FC<EosImportPreviewProps> = ({ report }) => {
+  const newPeople = report.people.filter(person => person.status === 'new');
+  const withoutEmail = newPeople.filter(person => !person.email);
+  const valueCount = (status: EosImportStatus) =>
+    report.metrics.reduce((total, metric) => total + metric.values[status], 0);
+
+  return (
+    <div>
+      <Summary>
+        {(Object.keys(statusLabels) as EosImportStatus[]).map(status => (
+          <Status key={status} $status={status}>{statusLabels[status]} metrics: {report.counts[status]}</Status>
+        ))}
+      </Summary>
+      <Summary>
+        <span>Values: {valueCount('new')} new, {valueCount('updated')} updated, {valueCount('unchanged')} unchanged, {valueCount('skipped')} skipped</span>
+        <span>Weeks: {report.weeks.new} new, {report.weeks.matched} existing</span>
+        <span>
+          People: {newPeople.length} new{newPeople.length > 0 && ` (${newPeople.map(person => person.name).join(', ')})`},
+          {' '}{report.people.length - newPeople.length} matched by email or name
+        </span>
+      </Summary>
+      {withoutEmail.length > 0 && (
+        <SummaryNote>
+          The export has no email for {withoutEmail.map(person => person.name).join(', ')} and nobody here has
+          {withoutEmail.length === 1 ? ' that name' : ' those names'}, so they're added without one. You can
+          add it under People.
+        </SummaryNote>
+      )}
+
+      <Table>
+        <thead>
+          <tr>
+            <th>Measurable</th>
+            <th>Metric</th>
+            <th>Values</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.metrics.map((metric, index) => (
+            <tr key={metric.eosId || index}>
+              <td>{metric.name}</td>
+              <td>
+                <Status $status={metric.status}>{statusLabels[metric.status]}</Status>
+                {metric.reason && <Note>{metric.reason}</Note>}
+              </td>
+              <td>
+                {metric.status !== 'skipped' && (
+                  `${metric.values.new} new, ${metric.values.updated} updated, ${metric.values.unchanged} unchanged` +
+                  (metric.values.skipped > 0 ? `, ${metric.values.skipped} skipped` : '')
+                )}
+                {metric.notes.map(note => <Note key={note}>{note}</Note>)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </div>
+  );
+};
+
+export default EosImportPreview;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { EosImportFormat, EosImportReport, ScorecardInfo } from '../models/types';
+import { getEosImportFormatsApi } from '../services/apiClient';
+import EosImportPreview from './EosImportPreview';
+
+interface EosImporterProps {
+  scorecards: ScorecardInfo[];
+  scorecardId?: string | null; // Chosen to start with: the one being viewed
+  onPreview: (format: EosImportFormat, data: unknown, scorecardId: string) => Promise<EosImportReport>;
+  onImport: (format: EosImportFormat, data: unknown, scorecardId: string) => Promise<void>;
+}
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+`;
+
+const Section = styled.div`
+  padding: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  font-size: 0.9rem;
+`;
+
+const Hint = styled.div`
+  max-width: 560px;
+  font-size: 0.8rem;
+  color: #666;
+`;
+
+const Field = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.85rem;
+`;
+
+const Select = styled.select`
+  padding: 6px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  gap: 8px;
+`;
+
+const Button = styled.button`
+  padding: 8px 16px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2eb;
+    cursor: default;
+  }
+`;
+
+// Import, and later re-import, the scorecard export of an EOS tool onto one of the scorecards.
+// A preview of what would change comes first; re-imports update the metrics imported before.
+const EosImporter: React.FC<EosImporterProps> = ({ scorecards, scorecardId, onPreview, onImport }) => {
+  const [formats, setFormats] = useState<EosImportFormat[]>([]);
+  const [format, setFormat] = useState<EosImportFormat | null>(null);
+  const [targetId, setTargetId] = useState(scorecardId || scorecards[0]?.id || '');
+  const [data, setData] = useState<unknown>(null);
+  const [preview, setPreview] = useState<EosImportReport | null>(null);
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getEosImportFormatsApi()
+      .then(available => {
+        if (!cancelled) {
+          setFormats(available);
+          setFormat(available[0] || null);
+        }
+      })
+      .catch(err => {
+        console.error('Error loading import formats:', err);
+        if (!cancelled) {
+          setError('Failed to load import formats');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // CSV exports are sent as text; the server reads them
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setError('');
+    setData(null);
+    if (!file || !format) {
+      return;
+    }
+    if (format.fileType === 'csv') {
+      setData(await file.text());
+      return;
+    }
+    try {
+      setData(JSON.parse(await file.text()));
+    } catch (e) {
+      setError(`${file.name} isn't a JSON file`);
+    }
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePreview = () => run(async () => {
+    setPreview(await onPreview(format as EosImportFormat, data, targetId));
+  }, 'Failed to preview import');
+
+  const handleImport = () => run(async () => {
+    await onImport(format as EosImportFormat, data, targetId);
+    setPreview(null);
+  }, 'Failed to import');
+
+  const changes = preview ? preview.counts.new + preview.counts.updated +
+    preview.metrics.reduce((total, metric) => total + metric.values.new + metric.values.updated, 0) : 0;
+
+  return (
+    <Container>
+      <Header>Import from EOS Tools</Header>
+
+      <Section>
+        <Field>
+          From
+          <Select
+            value={format?.id || ''}
+            onChange={(e) => {
+              setFormat(formats.find(option => option.id === e.target.value) || null);
+              setData(null);
+              setPreview(null);
+              setError('');
+            }}
+          >
+            {formats.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </Select>
+        </Field>
+        <Hint>
+          {format && `${format.instructions} `}
+          People are matched by email (or their name when the export has no email, and added without one if
+          nobody matches), weeks by their start date
+          and measurables by the tool's id for them (or their name), so importing a newer export updates what
+          was imported before.
+        </Hint>
+        <input
+          key={format?.id}
+          type="file"
+          accept={format?.fileType === 'csv' ? '.csv,text/csv' : '.json,application/json'}
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        {scorecards.length > 1 && (
+          <Field>
+            Onto
+            <Select
+              value={targetId}
+              onChange={(e) => {
+                setTargetId(e.target.value);
+                setPreview(null);
+              }}
+            >
+              {scorecards.map(scorecard => (
+                <option key={scorecard.id} value={scorecard.id}>{scorecard.name}</option>
+              ))}
+            </Select>
+          </Field>
+        )}
+
+        {preview && <EosImportPreview report={preview} />}
+        {error && <ErrorText>{error}</ErrorText>}
+
+        <ButtonGroup>
+          <Button onClick={handlePreview} disabled={isWorking || !format || !data}>Preview Import</Button>
+          {preview && (
+            <Button onClick={handleImport} disabled={isWorking || changes === 0}>
+              {changes === 0 ? 'Nothing to Import' : 'Import'}
+            </Button>
+          )}
+        </ButtonGroup>
+      </Section>
+    </Container>
+  );
+};
+
+export default EosImporter;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { CsvExportFormat, CsvExportOptions, Week } from '../models/types';
+import { calendarDate } from '../models/calendar';
+
+interface ExportCsvModalProps {
+  weeks: Week[]; // Completed weeks, oldest first
+  timeZone: string;
+  onExport: (options: CsvExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+// Weeks exported unless another range is chosen, as in the metric detail chart
+const DEFAULT_WEEK_COUNT = 13;
+
+const formatLabels: Record<CsvExportFormat, string> = {
+  grid: 'Scorecard grid: a row per metric with its owner and goal, each week\'s value and whether it was on target',
+  long: 'Raw values: a row per value with its week\'s dates, unit and normalized value'
+};
+
+const ModalOverlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.5);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+`;
+
+const ModalContent = styled.div`
+  background-color: white;
+  padding: 24px;
+  border-radius: 8px;
+  width: 460px;
+  max-width: 90%;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`;
+
+const ModalTitle = styled.h3`
+  margin-top: 0;
+  margin-bottom: 16px;
+  color: #333;
+`;
+
+const FormatOption = styled.label`
+  display: flex;
+  align-items: flex-start;
+  gap: 8px;
+  margin-bottom: 8px;
+  font-size: 0.85rem;
+  color: #333;
+  cursor: pointer;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin: 16px 0;
+  font-size: 0.85rem;
+`;
+
+const Select = styled.select`
+  padding: 5px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 13px;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+  margin-bottom: 12px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`;
+
+const Button = styled.button`
+  padding: 6px 12px;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 13px;
+  transition: all 0.2s;
+`;
+
+const SaveButton = styled(Button)`
+  background-color: #0066cc;
+  color: white;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2ff;
+    cursor: not-allowed;
+  }
+`;
+
+const CancelButton = styled(Button)`
+  background-color: #f5f5f5;
+  color: #333;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+// Choose what to export and which weeks; the file is built by the server
+const ExportCsvModal: React.FC<ExportCsvModalProps> = ({ weeks, timeZone, onExport, onClose }) => {
+  const [format, setFormat] = useState<CsvExportFormat>('grid');
+  const [fromId, setFromId] = useState(weeks[Math.max(0, weeks.length - DEFAULT_WEEK_COUNT)]?.id || '');
+  const [toId, setToId] = useState(weeks[weeks.length - 1]?.id || '');
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fromIndex = weeks.findIndex(week => week.id === fromId);
+  const toIndex = weeks.findIndex(week => week.id === toId);
+  const weekStart = (index: number) => calendarDate(new Date(weeks[index].startDate), timeZone);
+
+  const handleExport = async () => {
+    if (fromIndex > toIndex) {
+      setError('The first week must come before the last');
+      return;
+    }
+
+    setError('');
+    setIsExporting(true);
+    try {
+      await onExport({
+        format,
+        ...(fromIndex >= 0 && { from: weekStart(fromIndex) }),
+        ...(toIndex >= 0 && { to: weekStart(toIndex) })
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Weeks are listed by start date, with the year, since a range can span several
+  const weekOptions = weeks.map(week => (
+    <option key={week.id} value={week.id}>{calendarDate(new Date(week.startDate), timeZone)}</option>
+  ));
+
+  return (
+    <ModalOverlay onClick={onClose}>
+      <ModalContent onClick={e => e.stopPropagation()}>
+        <ModalTitle>Export CSV</ModalTitle>
+
+        {(Object.keys(formatLabels) as CsvExportFormat[]).map(option => (
+          <FormatOption key={option}>
+            <input type="radio" name="csv-format" checked={format === option} onChange={() => setFormat(option)} />
+            {formatLabels[option]}
+          </FormatOption>
+        ))}
+
+        {weeks.length > 0 && (
+          <FormRow>
+            <span>Weeks starting</span>
+            <Select value={fromId} onChange={(e) => setFromId(e.target.value)}>{weekOptions}</Select>
+            <span>to</span>
+            <Select value={toId} onChange={(e) => setToId(e.target.value)}>{weekOptions}</Select>
+          </FormRow>
+        )}
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        <ButtonGroup>
+          <CancelButton onClick={onClose}>Cancel</CancelButton>
+          <SaveButton onClick={handleExport} disabled={isExporting}>
+            {isExporting ? 'Exporting...' : 'Download'}
+          </SaveButton>
+        </ButtonGroup>
+      </ModalContent>
+    </ModalOverlay>
+  );
+};
+
+export default ExportCsvModal;
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { ComparisonOperator, Metric, Target, Tolerance, ToleranceType, ValueType, ValueUnit } from '../models/types';
+import { convertValue, formatOperator, isUnitCompatible, parseValueInput } from '../models/utils';
+
+export interface GoalUpdate {
+  target: Target;
+  valueType: ValueType;
+  tolerance?: Tolerance;
+}
+
+interface GoalEditorProps {
+  metric: Metric;
+  onSave: (update: GoalUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+const unitOptions: Record<ValueType, { value: ValueUnit; label: string }[]> = {
+  number: [
+    { value: '', label: '-' },
+    { value: 'k', label: 'k' },
+    { value: 'm', label: 'm' },
+    { value: 'b', label: 'b' }
+  ],
+  percent: [{ value: '%', label: '%' }],
+  dollars: [
+    { value: '$', label: '$' },
+    { value: 'k', label: '$k' },
+    { value: 'm', label: '$m' },
+    { value: 'b', label: '$b' }
+  ],
+  time: [
+    { value: 'sec', label: 'sec' },
+    { value: 'min', label: 'min' },
+    { value: 'hour', label: 'hour' },
+    { value: 'day', label: 'day' }
+  ]
+};
+
+const valueTypeLabels: Record<ValueType, string> = {
+  number: 'Number',
+  percent: 'Percent',
+  dollars: 'Dollars',
+  time: 'Time'
+};
+
+const operators: ComparisonOperator[] = ['gt', 'gte', 'lt', 'lte', 'eq', 'between'];
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+`;
+
+const FieldRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  flex-wrap: wrap;
+`;
+
+const Label = styled.span`
+  font-size: 0.85rem;
+  color: #666;
+  min-width: 70px;
+`;
+
+const Input = styled.input`
+  padding: 6px 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+  width: 90px;
+`;
+
+const Select = styled.select`
+  padding: 6px 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  gap: 8px;
+`;
+
+const SaveButton = styled.button`
+  padding: 6px 12px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+`;
+
+const CancelButton = styled.button`
+  padding: 6px 12px;
+  background-color: #f5f5f5;
+  color: #333;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+// Full-size form for a metric's goal, value type and at-risk tolerance.
+// Typed values accept the same suffixes as value entry ("1.2m", "45%", "2h 30m").
+const GoalEditor: React.FC<GoalEditorProps> = ({ metric, onSave, onCancel }) => {
+  const [valueType, setValueType] = useState<ValueType>(metric.valueType || 'number');
+  const [operator, setOperator] = useState<ComparisonOperator>(metric.target.operator);
+  const [unit, setUnit] = useState<ValueUnit>(metric.target.unit);
+  const [valueInput, setValueInput] = useState(String(metric.target.value));
+  const [upperInput, setUpperInput] = useState(
+    String(metric.target.upperValue ?? metric.target.value)
+  );
+  const [toleranceValue, setToleranceValue] = useState(metric.tolerance ? String(metric.tolerance.value) : '');
+  const [toleranceType, setToleranceType] = useState<ToleranceType>(metric.tolerance?.type || 'percent');
+  const [error, setError] = useState('');
+
+  const handleValueTypeChange = (newType: ValueType) => {
+    setValueType(newType);
+    // Only change the unit if it's not appropriate for the new value type
+    if (!isUnitCompatible(unit, newType)) {
+      setUnit(unitOptions[newType][0].value);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lower = parseValueInput(valueInput, valueType, unit);
+    if (!lower) {
+      setError(`"${valueInput}" is not a valid ${valueTypeLabels[valueType].toLowerCase()} value`);
+      return;
+    }
+
+    const target: Target = { value: lower.value, unit: lower.unit, operator };
+
+    if (operator === 'between') {
+      const upper = parseValueInput(upperInput, valueType, lower.unit);
+      if (!upper) {
+        setError(`"${upperInput}" is not a valid ${valueTypeLabels[valueType].toLowerCase()} value`);
+        return;
+      }
+      // Keep the upper bound in the same unit as the lower bound
+      target.upperValue = convertValue(upper.value, upper.unit, lower.unit);
+      if (target.upperValue < target.value) {
+        setError('The upper bound must be greater than or equal to the lower bound.');
+        return;
+      }
+    }
+
+    const tolerance = parseFloat(toleranceValue);
+    setError('');
+    await onSave({
+      target,
+      valueType,
+      tolerance: isNaN(tolerance) || tolerance <= 0 ? undefined : { value: tolerance, type: toleranceType }
+    });
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <FieldRow>
+        <Label>Type</Label>
+        <Select value={valueType} onChange={(e) => handleValueTypeChange(e.target.value as ValueType)}>
+          {(Object.keys(valueTypeLabels) as ValueType[]).map(type => (
+            <option key={type} value={type}>{valueTypeLabels[type]}</option>
+          ))}
+        </Select>
+      </FieldRow>
+
+      <FieldRow>
+        <Label>Goal</Label>
+        <Select value={operator} onChange={(e) => setOperator(e.target.value as ComparisonOperator)}>
+          {operators.map(op => (
+            <option key={op} value={op}>{formatOperator(op)}</option>
+          ))}
+        </Select>
+        <Input type="text" value={valueInput} onChange={(e) => setValueInput(e.target.value)} />
+        {operator === 'between' && (
+          <>
+            and
+            <Input type="text" value={upperInput} onChange={(e) => setUpperInput(e.target.value)} />
+          </>
+        )}
+        <Select value={unit} onChange={(e) => setUnit(e.target.value as ValueUnit)}>
+          {unitOptions[valueType].map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </Select>
+      </FieldRow>
+
+      <FieldRow>
+        <Label>At risk</Label>
+        <Input
+          type="number"
+          min="0"
+          value={toleranceValue}
+          onChange={(e) => setToleranceValue(e.target.value)}
+          placeholder="± tolerance"
+          title="Misses within this band show yellow instead of red"
+        />
+        <Select value={toleranceType} onChange={(e) => setToleranceType(e.target.value as ToleranceType)}>
+          <option value="percent">% of goal</option>
+          <option value="absolute">{unit || '#'}</option>
+        </Select>
+      </FieldRow>
+
+      {error && <ErrorText>{error}</ErrorText>}
+
+      <ButtonGroup>
+        <SaveButton type="submit">Save</SaveButton>
+        <CancelButton type="button" onClick={onCancel}>Cancel</CancelButton>
+      </ButtonGroup>
+    </Form>
+  );
+};
+
+export default GoalEditor;
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { AuditEntry, AuditRow, ComparisonOperator, Metric, Target, ValueUnit, Week } from '../models/types';
+import { formatDateRange, formatGoal, formatValue } from '../models/utils';
+import { getAuditApi } from '../services/apiClient';
+
+interface HistoryPanelProps {
+  metric: Metric;
+  weekId?: string; // Limit the history to one value cell
+  weeks?: Week[]; // Used to name the week of each value change
+  timeZone?: string;
+  refreshKey?: unknown; // Reload the history whenever this changes
+  pageSize?: number;
+}
+
+// Labels for the metric columns an update can change
+const metricFieldLabels: Record<string, string> = {
+  name: 'name',
+  target_value: 'goal',
+  target_unit: 'goal',
+  target_operator: 'goal',
+  target_upper_value: 'goal',
+  owner_id: 'owner',
+  value_type: 'value type',
+  tolerance_value: 'at-risk tolerance',
+  tolerance_type: 'at-risk tolerance',
+  formula: 'formula',
+  aggregation: 'rollup method',
+  cadence: 'cadence',
+  display_order: 'position'
+};
+
+const EntryList = styled.div`
+  font-size: 0.85rem;
+`;
+
+const Entry = styled.div`
+  padding: 6px 0;
+  border-bottom: 1px solid #f0f0f0;
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const EntryMeta = styled.div`
+  color: #888;
+  font-size: 0.75rem;
+  margin-bottom: 2px;
+`;
+
+const EntryText = styled.div`
+  color: #333;
+  word-break: break-word;
+`;
+
+const Muted = styled.div`
+  padding: 6px 0;
+  color: #888;
+  font-style: italic;
+`;
+
+const ErrorText = styled.div`
+  padding: 6px 0;
+  color: #c5221f;
+`;
+
+const MoreButton = styled.button`
+  margin-top: 6px;
+  background: none;
+  border: none;
+  padding: 0;
+  color: #0066cc;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+// The row an entry's before or after holds; empty for reorders' lists of IDs and missing rows
+const rowOf = (data: AuditEntry['before']): AuditRow =>
+  data && !Array.isArray(data) ? data : {};
+
+const textOf = (value: unknown): string => (value === null || value === undefined ? '' : String(value));
+
+// Target stored on a metric_targets row, or null if the row doesn't have one
+const targetFromRow = (row: AuditRow): Target | null => {
+  const { target_value: value, target_unit: unit, target_operator: operator, target_upper_value: upperValue } = row;
+  if (typeof value !== 'number' || typeof operator !== 'string') {
+    return null;
+  }
+  return {
+    value,
+    unit: (typeof unit === 'string' ? unit : '') as ValueUnit,
+    operator: operator as ComparisonOperator,
+    ...(typeof upperValue === 'number' && { upperValue })
+  };
+};
+
+// Describe an audit entry for one of the metric's rows in plain words
+const describeEntry = (entry: AuditEntry, metric: Metric): string => {
+  const before = rowOf(entry.before);
+  const after = rowOf(entry.after);
+  const valueText = (row: AuditRow) => {
+    if (row.not_applicable) {
+      return 'N/A';
+    }
+    return typeof row.value === 'number'
+      ? formatValue(row.value, (typeof row.unit === 'string' ? row.unit : '') as ValueUnit, metric.valueType)
+      : 'nothing';
+  };
+
+  switch (entry.entityType) {
+    case 'weekly_value':
+      if (entry.action === 'create') {
+        return `Entered ${valueText(after)}`;
+      }
+      if (entry.action === 'delete') {
+        return `Cleared ${valueText(before)}`;
+      }
+      return `Changed ${valueText(before)} to ${valueText(after)}`;
+
+    case 'comment':
+      return entry.action === 'delete'
+        ? `Deleted a note: "${textOf(before.body)}"`
+        : `Added a note: "${textOf(after.body)}"`;
+
+    case 'metric_target': {
+      if (entry.action === 'delete') {
+        return `Removed the goal change from ${new Date(textOf(before.effective_from)).toLocaleDateString()}`;
+      }
+      const target = targetFromRow(after);
+      const from = new Date(textOf(after.effective_from)).toLocaleDateString();
+      return target ? `Set the goal to ${formatGoal(target, metric.valueType)} from ${from}` : `Changed the goal from ${from}`;
+    }
+
+    case 'metric': {
+      if (entry.action === 'archive' || entry.action === 'unarchive') {
+        return entry.action === 'archive' ? 'Archived the metric' : 'Restored the metric from the archive';
+      }
+      if (entry.action !== 'update') {
+        return entry.action === 'create' ? 'Created the metric' : 'Deleted the metric';
+      }
+      if (before.name !== after.name) {
+        return `Renamed from "${before.name}" to "${after.name}"`;
+      }
+      const changed = Object.keys(metricFieldLabels)
+        .filter(column => before[column] !== after[column])
+        .map(column => metricFieldLabels[column]);
+      return changed.length > 0
+        ? `Changed the ${Array.from(new Set(changed)).join(', ')}`
+        : 'Saved without changes';
+    }
+
+    default:
+      return `${entry.action} ${entry.entityType.replace('_', ' ')}`;
+  }
+};
+
+// Audit trail of a metric, or of one of its value cells, newest first and loaded a page at a time
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  metric,
+  weekId,
+  weeks = [],
+  timeZone,
+  refreshKey,
+  pageSize = 20
+}) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getAuditApi({ metricId: metric.id, weekId, limit: pageSize })
+      .then(page => {
+        if (!cancelled) {
+          setEntries(page.entries);
+          setTotal(page.total);
+          setError('');
+        }
+      })
+      .catch(err => {
+        console.error('Error loading history:', err);
+        if (!cancelled) {
+          setError('Failed to load history');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metric.id, weekId, pageSize, refreshKey]);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    try {
+      const page = await getAuditApi({ metricId: metric.id, weekId, limit: pageSize, offset: entries.length });
+      setEntries([...entries, ...page.entries]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Error loading history:', err);
+      setError('Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Name the week of value changes when showing a whole metric's history
+  const weekLabel = (entry: AuditEntry) => {
+    const week = !weekId && entry.weekId ? weeks.find(w => w.id === entry.weekId) : undefined;
+    return week ? `${formatDateRange(week, timeZone)}: ` : '';
+  };
+
+  if (error) {
+    return <ErrorText>{error}</ErrorText>;
+  }
+
+  if (!isLoading && entries.length === 0) {
+    return <Muted>No changes recorded yet</Muted>;
+  }
+
+  return (
+    <EntryList>
+      {entries.map(entry => (
+        <Entry key={entry.id}>
+          <EntryMeta>
+            {new Date(entry.createdAt).toLocaleString()} · {entry.actor || 'Unknown'}
+          </EntryMeta>
+          <EntryText>{weekLabel(entry)}{describeEntry(entry, metric)}</EntryText>
+        </Entry>
+      ))}
+      {isLoading && <Muted>Loading...</Muted>}
+      {!isLoading && entries.length < total && (
+        <MoreButton onClick={loadMore}>Show older changes</MoreButton>
+      )}
+    </EntryList>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ImportReport, ImportStatus, ImportValue, Metric, OrgSettings, Week, WeeklyValue } from '../models/types';
+import { formatValue } from '../models/utils';
+import { DEFAULT_ORG_SETTINGS } from '../models/calendar';
+import { parseCsv } from '../models/csv';
+import { guessMapping, ImportColumnMapping, mapImportRows, MappedRow } from '../models/csvImport';
+
+interface ImportValuesProps {
+  metrics: Metric[]; // The scorecard's metrics; rows are matched to them by name
+  weeks: Week[];
+  settings?: OrgSettings;
+  onPreview: (values: ImportValue[]) => Promise<ImportReport>;
+  onImport: (values: ImportValue[]) => Promise<void>;
+}
+
+// A row of the preview: where it came from in the file and what importing it would do
+interface PreviewRow {
+  row: MappedRow;
+  status: ImportStatus;
+  weekId?: string;
+  previous?: WeeklyValue;
+  error?: string;
+}
+
+const statusLabels: Record<ImportStatus, string> = {
+  create: 'New',
+  overwrite: 'Overwrites',
+  unchanged: 'Unchanged',
+  conflict: 'Conflict'
+};
+
+const statusColors: Record<ImportStatus, string> = {
+  create: '#1e7e34',
+  overwrite: '#b36b00',
+  unchanged: '#666',
+  conflict: '#c5221f'
+};
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const BackLink = styled.span`
+  color: #0066cc;
+  cursor: pointer;
+  font-size: 0.9rem;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  font-size: 1.2rem;
+  color: #333;
+`;
+
+const Section = styled.div`
+  padding: 16px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.9rem;
+`;
+
+const HelpText = styled.p`
+  margin: 0 0 12px;
+  color: #666;
+  font-size: 0.85rem;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 8px 16px;
+  font-size: 0.85rem;
+`;
+
+const Field = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const Select = styled.select`
+  padding: 5px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 13px;
+`;
+
+const Counts = styled.div`
+  display: flex;
+  gap: 16px;
+  margin-bottom: 12px;
+  font-size: 0.85rem;
+`;
+
+const Count = styled.span<{ $status: ImportStatus }>`
+  color: ${props => statusColors[props.$status]};
+`;
+
+const NewWeeks = styled.div`
+  margin-bottom: 12px;
+  color: #1e7e34;
+  font-size: 0.85rem;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.85rem;
+
+  th, td {
+    text-align: left;
+    padding: 6px 8px;
+    border-bottom: 1px solid #eee;
+  }
+
+  th {
+    color: #666;
+    font-weight: normal;
+  }
+`;
+
+const StatusCell = styled.td<{ $status: ImportStatus }>`
+  color: ${props => statusColors[props.$status]};
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.85rem;
+  margin-top: 12px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+  margin-top: 16px;
+`;
+
+const Button = styled.button`
+  padding: 6px 12px;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 13px;
+  transition: all 0.2s;
+`;
+
+const SaveButton = styled(Button)`
+  background-color: #0066cc;
+  color: white;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2ff;
+    cursor: not-allowed;
+  }
+`;
+
+const CancelButton = styled(Button)`
+  background-color: #f5f5f5;
+  color: #333;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+// Add values from a spreadsheet: upload a CSV, say which columns hold the metric, week and
+// value, and preview what would be created or overwritten before anything is saved.
+// Rows that can't be imported are skipped; the rest are saved together.
+const ImportValues: React.FC<ImportValuesProps> = ({
+  metrics,
+  weeks,
+  settings = DEFAULT_ORG_SETTINGS,
+  onPreview,
+  onImport
+}) => {
+  const { scorecardId } = useParams<{ scorecardId: string }>();
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportColumnMapping>(guessMapping([]));
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [newWeeks, setNewWeeks] = useState<Week[]>([]);
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Archived metrics keep their values; the server refuses new ones
+  const activeMetrics = metrics.filter(metric => !metric.archivedAt);
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const columnName = (column: number) =>
+    hasHeader && rows[0]?.[column]?.trim() ? rows[0][column].trim() : `Column ${column + 1}`;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const updateMapping = (changes: Partial<ImportColumnMapping>) => {
+    setMapping({ ...mapping, ...changes });
+    setPreview(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setError('');
+    if (!file) {
+      setRows([]);
+      return;
+    }
+    const parsed = parseCsv(await file.text());
+    setRows(parsed);
+    setMapping(guessMapping(hasHeader ? parsed[0] || [] : []));
+    if (parsed.length === 0) {
+      setError('The file has no rows');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (mapping.metric < 0 || mapping.week < 0 || mapping.value < 0) {
+      setError('Choose the metric, week and value columns');
+      return;
+    }
+
+    const mapped = mapImportRows(dataRows, mapping, activeMetrics, weeks, settings.timeZone, hasHeader ? 2 : 1);
+    const valid = mapped.filter(row => row.value);
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const report = valid.length > 0
+        ? await onPreview(valid.map(row => row.value as ImportValue))
+        : { results: [], newWeeks: [], counts: { create: 0, overwrite: 0, unchanged: 0, conflict: 0 } };
+      const results = new Map(report.results.map(result => [valid[result.index], result]));
+      setNewWeeks(report.newWeeks);
+      setPreview(mapped.map(row => {
+        const result = results.get(row);
+        return result
+          ? { row, status: result.status, weekId: result.weekId, previous: result.previous, error: result.error }
+          : { row, status: 'conflict', error: row.error };
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toImport = (preview || []).filter(entry => entry.status === 'create' || entry.status === 'overwrite');
+  const skipped = (preview || []).filter(entry => entry.status === 'conflict').length;
+
+  const handleImport = async () => {
+    setError('');
+    setIsWorking(true);
+    try {
+      await onImport(toImport.map(entry => entry.row.value as ImportValue));
+      navigate(`/scorecards/${scorecardId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import values');
+      setIsWorking(false);
+    }
+  };
+
+  const describe = (value: ImportValue | undefined, metric: Metric | undefined) => {
+    if (!value) {
+      return '';
+    }
+    return value.notApplicable ? 'N/A' : formatValue(value.value, value.unit, metric?.valueType);
+  };
+
+  const columnSelect = (column: number, onChange: (column: number) => void, optional = false) => (
+    <Select value={column} onChange={(e) => onChange(Number(e.target.value))}>
+      <option value={-1}>{optional ? 'None' : 'Choose…'}</option>
+      {Array.from({ length: columnCount }, (_, index) => (
+        <option key={index} value={index}>{columnName(index)}</option>
+      ))}
+    </Select>
+  );
+
+  const counts = (Object.keys(statusLabels) as ImportStatus[])
+    .map(status => ({ status, count: (preview || []).filter(entry => entry.status === status).length }));
+
+  return (
+    <Container>
+      <Header>
+        <BackLink onClick={() => navigate(`/scorecards/${scorecardId}`)}>← Scorecard</BackLink>
+        <Title>Import values</Title>
+      </Header>
+
+      <Section>
+        <HelpText>
+          Upload a CSV with a row per value, such as the raw values export. Metrics are matched by name
+          and weeks by name or by any date in them; a date in no week yet adds its week. Values without a unit are
+          read in the unit of the metric's goal.
+        </HelpText>
+        <FormRow>
+          <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          <Field>
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => {
+                setHasHeader(e.target.checked);
+                setMapping(guessMapping(e.target.checked ? rows[0] || [] : []));
+                setPreview(null);
+              }}
+            />
+            First row is a header
+          </Field>
+        </FormRow>
+      </Section>
+
+      {columnCount > 0 && (
+        <Section>
+          <FormRow>
+            <Field>Metric {columnSelect(mapping.metric, metric => updateMapping({ metric }))}</Field>
+            <Field>Week {columnSelect(mapping.week, week => updateMapping({ week }))}</Field>
+            <Field>
+              matched by
+              <Select value={mapping.weekBy} onChange={(e) => updateMapping({ weekBy: e.target.value as ImportColumnMapping['weekBy'] })}>
+                <option value="name">name</option>
+                <option value="date">date</option>
+              </Select>
+            </Field>
+            <Field>Value {columnSelect(mapping.value, value => updateMapping({ value }))}</Field>
+            <Field>Unit {columnSelect(mapping.unit, unit => updateMapping({ unit }), true)}</Field>
+          </FormRow>
+          <ButtonGroup>
+            <SaveButton onClick={handlePreview} disabled={isWorking || dataRows.length === 0}>
+              Preview {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}
+            </SaveButton>
+          </ButtonGroup>
+        </Section>
+      )}
+
+      {preview && (
+        <Section>
+          <Counts>
+            {counts.map(({ status, count }) => (
+              <Count key={status} $status={status}>{statusLabels[status]}: {count}</Count>
+            ))}
+          </Counts>
+          {newWeeks.length > 0 && (
+            <NewWeeks>
+              New {newWeeks.length === 1 ? 'week' : 'weeks'}: {newWeeks.map(week => week.name).join(', ')}
+            </NewWeeks>
+          )}
+          <Table>
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Metric</th>
+                <th>Week</th>
+                <th>Value</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map(entry => {
+                const metric = metrics.find(m => m.id === entry.row.value?.metricId);
+                const weekId = entry.weekId || entry.row.value?.weekId;
+                const week = weeks.find(w => w.id === weekId) || newWeeks.find(w => w.id === weekId);
+                return (
+                  <tr key={entry.row.line}>
+                    <td>{entry.row.line}</td>
+                    <td>{metric?.name || entry.row.cells[mapping.metric]}</td>
+                    <td>
+                      {week?.name || entry.row.cells[mapping.week]}
+                      {week && newWeeks.includes(week) && ' (new)'}
+                    </td>
+                    <td>{describe(entry.row.value, metric) || entry.row.cells[mapping.value]}</td>
+                    <StatusCell $status={entry.status}>
+                      {statusLabels[entry.status]}
+                      {entry.status === 'overwrite' && ` ${describe(entry.previous, metric)}`}
+                      {entry.error && `: ${entry.error}`}
+                    </StatusCell>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </Table>
+        </Section>
+      )}
+
+      <Section>
+        {error && <ErrorText>{error}</ErrorText>}
+        <ButtonGroup>
+          <CancelButton onClick={() => navigate(`/scorecards/${scorecardId}`)}>Cancel</CancelButton>
+          <SaveButton onClick={handleImport} disabled={isWorking || toImport.length === 0}>
+            Import {toImport.length} {toImport.length === 1 ? 'value' : 'values'}
+            {skipped > 0 && `, skipping ${skipped}`}
+          </SaveButton>
+        </ButtonGroup>
+      </Section>
+    </Container>
+  );
+};
+
+export default ImportValues;
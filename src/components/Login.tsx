@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { User } from '../models/types';
+import { loginApi } from '../services/apiClient';
+
+interface LoginProps {
+  onLogin: (user: User) => void;
+}
+
+const LoginContainer = styled.div`
+  max-width: 360px;
+  margin: 60px auto;
+  padding: 32px;
+  background-color: #fff;
+  border-radius: 8px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.1);
+`;
+
+const Title = styled.h1`
+  font-size: 24px;
+  margin: 0 0 24px;
+  color: #333;
+  text-align: center;
+`;
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+`;
+
+const Label = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.9rem;
+  color: #666;
+`;
+
+const Input = styled.input`
+  padding: 8px 10px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 1rem;
+`;
+
+const Button = styled.button`
+  padding: 10px 16px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  font-size: 16px;
+  cursor: pointer;
+  transition: background-color 0.2s;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #cccccc;
+    cursor: not-allowed;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  color: #e53935;
+  padding: 12px;
+  background-color: #ffebee;
+  border-radius: 4px;
+`;
+
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const user = await loginApi(username, password);
+      onLogin(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setPassword('');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <LoginContainer>
+      <Title>Sign in to {process.env.REACT_APP_APP_NAME || 'LevelTen'}</Title>
+      <Form onSubmit={handleSubmit}>
+        {error && <ErrorMessage>{error}</ErrorMessage>}
+        <Label>
+          Username
+          <Input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+          />
+        </Label>
+        <Label>
+          Password
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+          />
+        </Label>
+        <Button type="submit" disabled={isLoading || !username.trim() || !password}>
+          {isLoading ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </Form>
+    </LoginContainer>
+  );
+};
+
+export default Login;
@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Person, Role, User } from '../models/types';
+import { isAdmin, roleLabels } from '../models/permissions';
+
+interface LoginManagerProps {
+  users: User[];
+  people: Person[];
+  currentUser: User;
+  onCreateUser: (personId: string, username: string, password: string, role: Role) => Promise<void>;
+  onChangePassword: (user: User, password: string, currentPassword?: string) => Promise<void>;
+  onChangeRole: (user: User, role: Role) => Promise<void>;
+  onDeleteUser: (user: User) => Promise<void>;
+}
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 10px 12px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.9rem;
+`;
+
+const UserName = styled.div`
+  flex: 1;
+`;
+
+const RoleLabel = styled.span`
+  color: #666;
+  font-size: 0.8rem;
+`;
+
+const RoleSelect = styled.select`
+  padding: 2px 4px;
+  border: 1px solid #ddd;
+  border-radius: 3px;
+  font-size: 0.8rem;
+`;
+
+const Username = styled.span`
+  color: #666;
+  font-size: 0.9em;
+  margin-left: 6px;
+`;
+
+const LinkButton = styled.button<{ $danger?: boolean }>`
+  background: none;
+  border: none;
+  padding: 0;
+  color: ${props => props.$danger ? '#dc3545' : '#0066cc'};
+  font-size: 0.75rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const Form = styled.form`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  padding: 10px 12px;
+  background-color: #f9f9f9;
+  border-bottom: 1px solid #eee;
+`;
+
+const Input = styled.input`
+  padding: 6px;
+  border: 1px solid #ddd;
+  border-radius: 3px;
+  font-size: 13px;
+  flex: 1;
+  min-width: 120px;
+`;
+
+const Select = styled.select`
+  padding: 6px;
+  border: 1px solid #ddd;
+  border-radius: 3px;
+  font-size: 13px;
+  flex: 1;
+  min-width: 120px;
+`;
+
+const SaveButton = styled.button`
+  padding: 5px 10px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 3px;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2eb;
+    cursor: default;
+  }
+`;
+
+const CancelButton = styled.button`
+  padding: 5px 10px;
+  background-color: #f5f5f5;
+  color: #333;
+  border: none;
+  border-radius: 3px;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+const ErrorText = styled.div`
+  width: 100%;
+  color: #c5221f;
+  font-size: 0.8rem;
+`;
+
+const NoDataMessage = styled.div`
+  padding: 12px;
+  color: #666;
+  font-style: italic;
+  font-size: 0.9rem;
+`;
+
+// Form to set a new password for an account. Your own needs your current password.
+const PasswordForm: React.FC<{
+  user: User;
+  isSelf: boolean;
+  onSave: LoginManagerProps['onChangePassword'];
+  onDone: () => void;
+}> = ({ user, isSelf, onSave, onDone }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave(user, password, isSelf ? currentPassword : undefined);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      {isSelf && (
+        <Input
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          placeholder="Current password"
+          autoComplete="current-password"
+          autoFocus
+        />
+      )}
+      <Input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder={`New password for ${user.username}`}
+        autoComplete="new-password"
+        autoFocus={!isSelf}
+      />
+      <SaveButton type="submit" disabled={isSaving || !password}>Save</SaveButton>
+      <CancelButton type="button" onClick={onDone}>Cancel</CancelButton>
+      {error && <ErrorText>{error}</ErrorText>}
+    </Form>
+  );
+};
+
+// Logins for the people on the scorecard: who can sign in, as whom, and with which role.
+// Only admins manage other people's logins; everyone else sees just their own.
+const LoginManager: React.FC<LoginManagerProps> = ({
+  users,
+  people,
+  currentUser,
+  onCreateUser,
+  onChangePassword,
+  onChangeRole,
+  onDeleteUser
+}) => {
+  const [editingPasswordId, setEditingPasswordId] = useState<string | null>(null);
+  const [personId, setPersonId] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('member');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canManage = isAdmin(currentUser);
+  const visibleUsers = canManage ? users : users.filter(user => user.id === currentUser.id);
+  const peopleWithoutLogin = people.filter(person => !users.some(user => user.person.id === person.id));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onCreateUser(personId, username.trim(), password, role);
+      setPersonId('');
+      setUsername('');
+      setPassword('');
+      setRole('member');
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add login');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (user: User, newRole: Role) => {
+    try {
+      await onChangeRole(user, newRole);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change role');
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    if (!window.confirm(`Remove the login "${user.username}"? ${user.person.name} will stay on the scorecard.`)) {
+      return;
+    }
+    try {
+      await onDeleteUser(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove login');
+    }
+  };
+
+  return (
+    <Container>
+      <Header>Logins</Header>
+
+      {visibleUsers.map(user => {
+        const isSelf = user.id === currentUser.id;
+        return (
+          <React.Fragment key={user.id}>
+            <Row>
+              <UserName>
+                {user.person.name}
+                <Username>{user.username}{isSelf ? ' (you)' : ''}</Username>
+              </UserName>
+              {canManage && !isSelf ? (
+                <RoleSelect
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                  title="What this person can change"
+                >
+                  {(Object.keys(roleLabels) as Role[]).map(option => (
+                    <option key={option} value={option}>{roleLabels[option]}</option>
+                  ))}
+                </RoleSelect>
+              ) : (
+                <RoleLabel>{roleLabels[user.role]}</RoleLabel>
+              )}
+              <LinkButton onClick={() => setEditingPasswordId(user.id)}>
+                {isSelf ? 'change password' : 'reset password'}
+              </LinkButton>
+              {!isSelf && (
+                <LinkButton $danger onClick={() => handleDelete(user)}>remove</LinkButton>
+              )}
+            </Row>
+            {editingPasswordId === user.id && (
+              <PasswordForm
+                user={user}
+                isSelf={isSelf}
+                onSave={onChangePassword}
+                onDone={() => setEditingPasswordId(null)}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {!canManage ? (
+        error && <NoDataMessage><ErrorText>{error}</ErrorText></NoDataMessage>
+      ) : peopleWithoutLogin.length === 0 ? (
+        <NoDataMessage>
+          Everyone has a login. Add a person above to give someone else access.
+          {error && <ErrorText>{error}</ErrorText>}
+        </NoDataMessage>
+      ) : (
+        <Form onSubmit={handleCreate}>
+          <Select value={personId} onChange={(e) => setPersonId(e.target.value)}>
+            <option value="">Person...</option>
+            {peopleWithoutLogin.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+          </Select>
+          <Input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="off"
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="new-password"
+          />
+          <Select value={role} onChange={(e) => setRole(e.target.value as Role)} title="What this person can change">
+            {(Object.keys(roleLabels) as Role[]).map(option => (
+              <option key={option} value={option}>{roleLabels[option]}</option>
+            ))}
+          </Select>
+          <SaveButton type="submit" disabled={isSaving || !personId || !username.trim() || !password}>
+            Add login
+          </SaveButton>
+          {error && <ErrorText>{error}</ErrorText>}
+        </Form>
+      )}
+    </Container>
+  );
+};
+
+export default LoginManager;
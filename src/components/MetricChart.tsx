@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Metric, Period, Target, TargetStatus, Week, WeeklyValue } from '../models/types';
+import { convertValue, formatDateRange, formatGoal, formatValue, getTargetForWeek, getTargetStatus } from '../models/utils';
+import { groupWeeksIntoPeriods } from '../models/periods';
+
+export type ChartType = 'line' | 'bar';
+
+interface MetricChartProps {
+  metric: Metric;
+  weeks: Week[]; // Completed weeks to plot, oldest first
+  weeklyValues: WeeklyValue[];
+  chartType?: ChartType;
+  timeZone?: string;
+}
+
+// Drawing size; the SVG scales to the width of its container
+const WIDTH = 800;
+const HEIGHT = 280;
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 72 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const MAX_X_LABELS = 10;
+
+const statusColors: Record<TargetStatus, string> = {
+  'on-track': '#137333',
+  'at-risk': '#b06000',
+  'off-track': '#c5221f'
+};
+
+const statusLabels: Record<TargetStatus, string> = {
+  'on-track': 'On track',
+  'at-risk': 'At risk',
+  'off-track': 'Off track'
+};
+
+const ChartContainer = styled.div`
+  position: relative;
+  width: 100%;
+`;
+
+const Svg = styled.svg`
+  display: block;
+  width: 100%;
+  height: auto;
+  font-family: inherit;
+`;
+
+const ChartTooltip = styled.div`
+  position: absolute;
+  transform: translate(-50%, calc(-100% - 10px));
+  background-color: rgba(0, 0, 0, 0.8);
+  color: white;
+  padding: 6px 10px;
+  border-radius: 4px;
+  font-size: 12px;
+  line-height: 1.4;
+  white-space: nowrap;
+  pointer-events: none;
+  z-index: 10;
+`;
+
+const NoDataMessage = styled.div`
+  padding: 24px;
+  text-align: center;
+  color: #666;
+  font-style: italic;
+`;
+
+interface ChartPoint {
+  period: Period;
+  value?: WeeklyValue;
+  amount: number | null; // Value in the unit of the metric's goal
+  target: Target;
+  lower: number; // Target bounds in the unit of the metric's goal
+  upper?: number;
+  status?: TargetStatus;
+}
+
+// Plot a metric's values over time against its goal, one point or bar per period of its cadence.
+// The goal follows the metric's target history and shades the side of the line that meets it.
+const MetricChart: React.FC<MetricChartProps> = ({
+  metric,
+  weeks,
+  weeklyValues,
+  chartType = 'line',
+  timeZone
+}) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const goalUnit = metric.target.unit;
+
+  const points: ChartPoint[] = groupWeeksIntoPeriods(weeks, metric.cadence, timeZone).map(period => {
+    // A period holds a single value; if several weeks have one, use the latest. N/A periods are left as gaps.
+    const value = [...period.weekIds]
+      .reverse()
+      .map(weekId => weeklyValues.find(v => v.metricId === metric.id && v.weekId === weekId && !v.notApplicable))
+      .find(Boolean);
+    const target = getTargetForWeek(metric, period);
+
+    return {
+      period,
+      value,
+      amount: value ? convertValue(value.value, value.unit, goalUnit) : null,
+      target,
+      lower: convertValue(target.value, target.unit, goalUnit),
+      upper: target.operator === 'between'
+        ? convertValue(target.upperValue ?? target.value, target.unit, goalUnit)
+        : undefined,
+      status: value ? getTargetStatus(value, target, metric.tolerance) : undefined
+    };
+  });
+
+  if (points.length === 0) {
+    return <NoDataMessage>No completed weeks in this range</NoDataMessage>;
+  }
+
+  // Value range covering every value and goal, padded so nothing sits on the edge
+  const extents = points.flatMap(point => [
+    point.lower,
+    ...(point.upper !== undefined ? [point.upper] : []),
+    ...(point.amount !== null ? [point.amount] : [])
+  ]);
+  if (chartType === 'bar') {
+    extents.push(0);
+  }
+  let min = Math.min(...extents);
+  let max = Math.max(...extents);
+  const padding = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+  max += padding;
+  if (!(chartType === 'bar' && min === 0)) {
+    min -= padding;
+  }
+
+  const band = PLOT_WIDTH / points.length;
+  const xStart = (index: number) => MARGIN.left + band * index;
+  const xCenter = (index: number) => xStart(index) + band / 2;
+  const y = (amount: number) => MARGIN.top + PLOT_HEIGHT * (1 - (amount - min) / (max - min));
+  const clampY = (amount: number) => Math.min(Math.max(y(amount), MARGIN.top), MARGIN.top + PLOT_HEIGHT);
+
+  // Stepped goal line, following target changes from period to period
+  const goalPath = (bound: (point: ChartPoint) => number) => points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${xStart(index)} ${y(bound(point))} L ${xStart(index) + band} ${y(bound(point))}`)
+    .join(' ');
+
+  // The region of the plot that meets the goal for a period
+  const goalRegion = (point: ChartPoint): [number, number] | null => {
+    switch (point.target.operator) {
+      case 'gt':
+      case 'gte':
+        return [MARGIN.top, clampY(point.lower)];
+      case 'lt':
+      case 'lte':
+        return [clampY(point.lower), MARGIN.top + PLOT_HEIGHT];
+      case 'between':
+        return [clampY(point.upper ?? point.lower), clampY(point.lower)];
+      default:
+        return null;
+    }
+  };
+
+  // Value line, broken across periods without a value
+  const valuePath = points
+    .map((point, index) => {
+      if (point.amount === null) {
+        return '';
+      }
+      const previous = points[index - 1];
+      return `${previous && previous.amount !== null ? 'L' : 'M'} ${xCenter(index)} ${y(point.amount)}`;
+    })
+    .join(' ');
+
+  const baseline = y(Math.min(Math.max(0, min), max));
+  const yTicks = [0, 1, 2, 3, 4].map(i => min + ((max - min) * i) / 4);
+  const labelStep = Math.ceil(points.length / MAX_X_LABELS);
+  const isWeekly = (metric.cadence || 'weekly') === 'weekly';
+
+  const formatPeriod = (period: Period) => isWeekly ? formatDateRange(period, timeZone) : period.name;
+  const shortLabel = (period: Period) => isWeekly
+    ? new Date(period.startDate).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', timeZone })
+    : period.name;
+
+  const hovered = hoveredIndex !== null ? points[hoveredIndex] : null;
+
+  return (
+    <ChartContainer>
+      <Svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={`${metric.name} history`}>
+        {/* Y axis grid and labels */}
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(tick)} y2={y(tick)} stroke="#eee" />
+            <text x={MARGIN.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#666">
+              {formatValue(parseFloat(tick.toFixed(2)), goalUnit, metric.valueType)}
+            </text>
+          </g>
+        ))}
+
+        {/* Goal: shaded region that meets it, and the goal line itself */}
+        {points.map((point, index) => {
+          const region = goalRegion(point);
+          return region && (
+            <rect
+              key={point.period.id}
+              x={xStart(index)}
+              y={region[0]}
+              width={band}
+              height={Math.max(region[1] - region[0], 0)}
+              fill="#e6f4ea"
+              opacity={0.6}
+            />
+          );
+        })}
+        <path d={goalPath(point => point.lower)} fill="none" stroke="#0066cc" strokeWidth={1.5} strokeDasharray="5 4" />
+        {points.some(point => point.upper !== undefined) && (
+          <path d={goalPath(point => point.upper ?? point.lower)} fill="none" stroke="#0066cc" strokeWidth={1.5} strokeDasharray="5 4" />
+        )}
+
+        {/* Values */}
+        {chartType === 'bar' ? (
+          points.map((point, index) => point.amount !== null && point.status && (
+            <rect
+              key={point.period.id}
+              x={xStart(index) + band * 0.2}
+              y={Math.min(y(point.amount), baseline)}
+              width={band * 0.6}
+              height={Math.abs(baseline - y(point.amount))}
+              fill={statusColors[point.status]}
+              opacity={hoveredIndex === index ? 1 : 0.8}
+            />
+          ))
+        ) : (
+          <>
+            <path d={valuePath} fill="none" stroke="#555" strokeWidth={1.5} />
+            {points.map((point, index) => point.amount !== null && point.status && (
+              <circle
+                key={point.period.id}
+                cx={xCenter(index)}
+                cy={y(point.amount)}
+                r={hoveredIndex === index ? 5 : 3.5}
+                fill={statusColors[point.status]}
+              />
+            ))}
+          </>
+        )}
+
+        {/* X axis labels */}
+        {points.map((point, index) => index % labelStep === 0 && (
+          <text
+            key={point.period.id}
+            x={xCenter(index)}
+            y={HEIGHT - MARGIN.bottom + 18}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#666"
+          >
+            {shortLabel(point.period)}
+          </text>
+        ))}
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={MARGIN.top + PLOT_HEIGHT}
+          y2={MARGIN.top + PLOT_HEIGHT}
+          stroke="#ccc"
+        />
+
+        {/* Hover guide and invisible hit areas, one per period */}
+        {hovered && hoveredIndex !== null && (
+          <line
+            x1={xCenter(hoveredIndex)}
+            x2={xCenter(hoveredIndex)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + PLOT_HEIGHT}
+            stroke="#999"
+            strokeDasharray="2 3"
+          />
+        )}
+        {points.map((point, index) => (
+          <rect
+            key={point.period.id}
+            x={xStart(index)}
+            y={MARGIN.top}
+            width={band}
+            height={PLOT_HEIGHT}
+            fill="transparent"
+            onMouseEnter={() => setHoveredIndex(index)}
+            onMouseLeave={() => setHoveredIndex(null)}
+          />
+        ))}
+      </Svg>
+
+      {hovered && hoveredIndex !== null && (
+        <ChartTooltip
+          style={{
+            left: `${(xCenter(hoveredIndex) / WIDTH) * 100}%`,
+            top: `${((hovered.amount !== null ? y(hovered.amount) : MARGIN.top + PLOT_HEIGHT / 2) / HEIGHT) * 100}%`
+          }}
+        >
+          <div><strong>{formatPeriod(hovered.period)}</strong></div>
+          <div>
+            {hovered.value
+              ? formatValue(hovered.value.value, hovered.value.unit, metric.valueType)
+              : 'No value'}
+            {hovered.status && ` · ${statusLabels[hovered.status]}`}
+          </div>
+          <div>Goal {formatGoal(hovered.target, metric.valueType)}</div>
+        </ChartTooltip>
+      )}
+    </ChartContainer>
+  );
+};
+
+export default MetricChart;
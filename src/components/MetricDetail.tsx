@@ -0,0 +1,300 @@
+import React, { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Metric, OrgSettings, Person, User, Week, WeeklyValue } from '../models/types';
+import { formatGoal, formatTolerance, getUpcomingTargetChanges } from '../models/utils';
+import { computeCalculatedValues } from '../models/formula';
+import { DEFAULT_ORG_SETTINGS, isWeekCompleted } from '../models/calendar';
+import { cadenceLabels } from '../models/periods';
+import { canFacilitate } from '../models/permissions';
+import MetricChart, { ChartType } from './MetricChart';
+import GoalEditor, { GoalUpdate } from './GoalEditor';
+import TargetScheduleModal from './TargetScheduleModal';
+import HistoryPanel from './HistoryPanel';
+
+interface MetricDetailProps {
+  metrics: Metric[];
+  weeks: Week[];
+  weeklyValues: WeeklyValue[];
+  people: Person[];
+  settings?: OrgSettings;
+  onSaveMetric?: (metric: Metric) => Promise<void>;
+  currentUser?: User; // Owner and goal editing are hidden from users who can't edit the metric
+}
+
+type DateRange = '13' | '26' | '52' | 'all';
+
+const rangeLabels: Record<DateRange, string> = {
+  '13': 'Last 13 weeks',
+  '26': 'Last 26 weeks',
+  '52': 'Last 52 weeks',
+  all: 'All time'
+};
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const BackLink = styled.span`
+  color: #0066cc;
+  cursor: pointer;
+  font-size: 0.9rem;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const MetricName = styled.h2`
+  margin: 0;
+  font-size: 1.2rem;
+  color: #333;
+`;
+
+const Tag = styled.span`
+  color: #888;
+  font-size: 0.85rem;
+`;
+
+const Section = styled.div`
+  padding: 16px;
+  border-bottom: 1px solid #eee;
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const DetailGrid = styled.div`
+  display: grid;
+  grid-template-columns: 90px 1fr;
+  gap: 12px 16px;
+  align-items: center;
+  font-size: 0.9rem;
+`;
+
+const DetailLabel = styled.div`
+  color: #666;
+`;
+
+const GoalSummary = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const Muted = styled.span`
+  color: #888;
+  font-size: 0.85rem;
+`;
+
+const LinkButton = styled.button`
+  background: none;
+  border: none;
+  padding: 0;
+  color: #0066cc;
+  font-size: 0.85rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const Select = styled.select`
+  padding: 6px 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+  max-width: 240px;
+`;
+
+const ChartControls = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+  margin-bottom: 12px;
+`;
+
+const ToggleButton = styled.button<{ $active: boolean }>`
+  padding: 4px 10px;
+  border: 1px solid ${props => props.$active ? '#0066cc' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.$active ? '#0066cc' : 'white'};
+  color: ${props => props.$active ? 'white' : '#333'};
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    border-color: #0066cc;
+  }
+`;
+
+const SectionTitle = styled.h3`
+  margin: 0 0 8px;
+  font-size: 1rem;
+  color: #333;
+`;
+
+const NotFound = styled.div`
+  padding: 24px;
+  text-align: center;
+  color: #666;
+`;
+
+const MetricDetail: React.FC<MetricDetailProps> = ({
+  metrics,
+  weeks,
+  weeklyValues,
+  people,
+  settings = DEFAULT_ORG_SETTINGS,
+  onSaveMetric = async () => {},
+  currentUser
+}) => {
+  const { scorecardId, id } = useParams<{ scorecardId: string, id: string }>();
+  const navigate = useNavigate();
+  const [range, setRange] = useState<DateRange>('13');
+  const [chartType, setChartType] = useState<ChartType>('line');
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+  const [showTargetSchedule, setShowTargetSchedule] = useState(false);
+
+  const metric = metrics.find(m => m.id === id);
+
+  // Completed weeks, oldest first
+  const completedWeeks = useMemo(() => weeks
+    .filter(week => isWeekCompleted(week, settings))
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()),
+  [weeks, settings]);
+
+  // Entered values plus the values of calculated metrics
+  const allWeeklyValues = useMemo(
+    () => [...weeklyValues, ...computeCalculatedValues(metrics, completedWeeks, weeklyValues)],
+    [metrics, completedWeeks, weeklyValues]
+  );
+
+  if (!metric) {
+    return (
+      <Container>
+        <Header>
+          <BackLink onClick={() => navigate(`/scorecards/${scorecardId}`)}>← Scorecard</BackLink>
+        </Header>
+        <NotFound>This metric doesn't exist or has been deleted.</NotFound>
+      </Container>
+    );
+  }
+
+  // Archived metrics are read-only until they're put back on the scorecard. Only facilitators and
+  // admins change a metric's owner and goal.
+  const canEdit = !metric.archivedAt && (!currentUser || canFacilitate(currentUser));
+  const backPath = metric.archivedAt ? `/scorecards/${scorecardId}/archived` : `/scorecards/${scorecardId}`;
+  const rangeWeeks = range === 'all' ? completedWeeks : completedWeeks.slice(-Number(range));
+  const nextTargetChange = getUpcomingTargetChanges(metric)[0];
+
+  const handleOwnerChange = async (ownerId: string) => {
+    const owner = people.find(p => p.id === ownerId);
+    if (owner && owner.id !== metric.owner.id) {
+      await onSaveMetric({ ...metric, owner });
+    }
+  };
+
+  const handleGoalSave = async (update: GoalUpdate) => {
+    await onSaveMetric({ ...metric, ...update });
+    setIsEditingGoal(false);
+  };
+
+  return (
+    <Container>
+      <Header>
+        <BackLink onClick={() => navigate(backPath)}>{metric.archivedAt ? '← Archived metrics' : '← Scorecard'}</BackLink>
+        <MetricName>{metric.name}</MetricName>
+        {metric.archivedAt && <Tag>Archived {new Date(metric.archivedAt).toLocaleDateString()}</Tag>}
+        <Tag>{cadenceLabels[metric.cadence || 'weekly']}</Tag>
+        {metric.formula && <Tag title="Calculated from other metrics">ƒx = {metric.formula}</Tag>}
+      </Header>
+
+      <Section>
+        <DetailGrid>
+          <DetailLabel>Owner</DetailLabel>
+          <div>
+            <Select value={metric.owner.id} onChange={(e) => handleOwnerChange(e.target.value)} disabled={!canEdit}>
+              {people.map(person => (
+                <option key={person.id} value={person.id}>{person.name}</option>
+              ))}
+            </Select>
+          </div>
+
+          <DetailLabel>Goal</DetailLabel>
+          {isEditingGoal ? (
+            <GoalEditor
+              metric={metric}
+              onSave={handleGoalSave}
+              onCancel={() => setIsEditingGoal(false)}
+            />
+          ) : (
+            <GoalSummary>
+              <strong>{formatGoal(metric.target, metric.valueType)}</strong>
+              {metric.tolerance && (
+                <Muted>at risk within {formatTolerance(metric.tolerance, metric.target.unit, metric.valueType)}</Muted>
+              )}
+              {nextTargetChange && (
+                <Muted>
+                  changes to {formatGoal(nextTargetChange.target, metric.valueType)} from {new Date(nextTargetChange.effectiveFrom).toLocaleDateString()}
+                </Muted>
+              )}
+              {canEdit && <LinkButton onClick={() => setIsEditingGoal(true)}>Edit</LinkButton>}
+              <LinkButton onClick={() => setShowTargetSchedule(true)}>History</LinkButton>
+            </GoalSummary>
+          )}
+        </DetailGrid>
+      </Section>
+
+      <Section>
+        <ChartControls>
+          <Select value={range} onChange={(e) => setRange(e.target.value as DateRange)}>
+            {(Object.keys(rangeLabels) as DateRange[]).map(option => (
+              <option key={option} value={option}>{rangeLabels[option]}</option>
+            ))}
+          </Select>
+          <ToggleButton $active={chartType === 'line'} onClick={() => setChartType('line')}>Line</ToggleButton>
+          <ToggleButton $active={chartType === 'bar'} onClick={() => setChartType('bar')}>Bar</ToggleButton>
+        </ChartControls>
+
+        <MetricChart
+          metric={metric}
+          weeks={rangeWeeks}
+          weeklyValues={allWeeklyValues}
+          chartType={chartType}
+          timeZone={settings.timeZone}
+        />
+      </Section>
+
+      <Section>
+        <SectionTitle>History</SectionTitle>
+        {/* Metrics are refetched after every change, so a new object means there may be new entries */}
+        <HistoryPanel metric={metric} weeks={weeks} timeZone={settings.timeZone} refreshKey={metric} />
+      </Section>
+
+      {showTargetSchedule && (
+        <TargetScheduleModal
+          metric={metric}
+          onClose={() => setShowTargetSchedule(false)}
+        />
+      )}
+    </Container>
+  );
+};
+
+export default MetricDetail;
@@ -1,17 +1,36 @@
 import React, { useState, useRef, useEffect } from 'react';
 import styled from 'styled-components';
-import { Metric, Week, WeeklyValue, ValueUnit, ComparisonOperator, ValueType } from '../models/types';
-import { formatValue, formatGoal, isOnTarget } from '../models/utils';
+import { useNavigate } from 'react-router-dom';
+import { Metric, Week, WeeklyValue, ValueUnit, ComparisonOperator, ValueType, ToleranceType, Target, Cadence, MetricStats, Period, ValueComment } from '../models/types';
+import { formatValue, formatGoal, formatTolerance, formatDateRange, getTargetStatus, getTargetForWeek, getUpcomingTargetChanges, parseValueInput, convertValue, isUnitCompatible } from '../models/utils';
+import { validateFormula } from '../models/formula';
+import { cadenceLabels, groupWeeksIntoPeriods } from '../models/periods';
+import { SHORT_WINDOW, LONG_WINDOW } from '../models/stats';
 import EditableValueCell from './EditableValueCell';
+import TargetScheduleModal from './TargetScheduleModal';
+import Sparkline from './Sparkline';
+import CommentPopover from './CommentPopover';
+import HistoryPanel from './HistoryPanel';
 
 interface MetricRowProps {
   metric: Metric;
   weeks: Week[];
   weeklyValues: WeeklyValue[];
+  metrics?: Metric[]; // All metrics, used to validate formulas
+  stats?: MetricStats; // Trend columns are shown when provided
+  comments?: ValueComment[]; // Comments on this metric's cells
+  timeZone?: string;
+  onAddComment?: (metricId: string, weekId: string, body: string) => Promise<void>; // Posted as the signed-in user
+  onDeleteComment?: (comment: ValueComment) => Promise<void>;
   onUpdateWeeklyValue?: (value: WeeklyValue) => Promise<void>;
+  onDeleteWeeklyValue?: (metricId: string, weekId: string) => Promise<void>;
   people?: any[];
   onSaveMetric?: (metric: Metric) => Promise<void>;
   onDeleteMetric?: (metric: Metric) => Promise<void>;
+  onArchiveMetric?: (metric: Metric) => Promise<void>; // Offered alongside deletion when given
+  canEdit?: boolean; // Whether the signed-in user may enter values (see models/permissions)
+  canEditDetails?: boolean; // Whether they may change the name, owner, goal, formula and cadence
+  canDelete?: boolean;
   isDragging?: boolean;
   index?: number;
   onMoveUp?: () => void;
@@ -114,6 +133,21 @@ const GoalCell = styled(Cell)`
   }
 `;
 
+const SparklineCell = styled(Cell)`
+  position: sticky;
+  left: 260px;
+  background-color: white;
+  z-index: 1;
+  width: 80px;
+  box-sizing: border-box;
+  justify-content: center;
+  border-right: 1px solid #eee;
+
+  ${Row}:hover & {
+    background-color: #f9f9f9;
+  }
+`;
+
 const MetricInfo = styled.div`
   flex: 1;
   cursor: pointer;
@@ -154,7 +188,73 @@ const DeleteLink = styled.span`
   }
 `;
 
-const EmptyCell = styled(Cell)`
+const CadenceTag = styled.span<{ $visible: boolean }>`
+  color: #888;
+  margin-left: 3px;
+  opacity: ${props => props.$visible ? 1 : 0};
+  transition: opacity 0.2s;
+
+  ${Row}:hover & {
+    opacity: 1;
+  }
+
+  &:hover {
+    color: #0066cc;
+    text-decoration: underline;
+  }
+`;
+
+const FormulaLink = styled.span<{ $active: boolean }>`
+  color: #0066cc;
+  font-size: 0.7rem;
+  font-style: italic;
+  cursor: pointer;
+  position: absolute;
+  right: 16px;
+  bottom: 3px;
+  opacity: ${props => props.$active ? 1 : 0};
+  transition: opacity 0.2s;
+
+  ${Row}:hover & {
+    opacity: 1;
+  }
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const DetailsLink = styled.span`
+  color: #0066cc;
+  font-size: 0.7rem;
+  cursor: pointer;
+  position: absolute;
+  right: 30px;
+  bottom: 3px;
+  opacity: 0;
+  transition: opacity 0.2s;
+
+  ${Row}:hover & {
+    opacity: 1;
+  }
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+// Cells span every week of the metric's period; each week column is 80px plus 10px padding
+const spanWidth = (span = 1) => `${span * 90 - 10}px`;
+
+const ReadOnlyEmptyCell = styled(Cell)<{ $span?: number }>`
+  width: ${props => spanWidth(props.$span)};
+  justify-content: center;
+  background-color: #f9f9f9;
+  color: #bbb;
+`;
+
+const EmptyCell = styled(Cell)<{ $span?: number }>`
+  width: ${props => spanWidth(props.$span)};
   justify-content: center;
   background-color: #f9f9f9;
   color: #999;
@@ -183,6 +283,17 @@ const InputError = styled.div`
   text-align: center;
 `;
 
+const NotApplicableLink = styled.span`
+  color: #666;
+  font-size: 0.7rem;
+  cursor: pointer;
+  text-decoration: underline;
+
+  &:hover {
+    color: #333;
+  }
+`;
+
 const ValueInput = styled.input`
   padding: 4px;
   border: 1px solid #ddd;
@@ -252,6 +363,19 @@ const OwnerEditContent = styled(EditContent)`
   align-items: flex-start;
 `;
 
+const FormulaEditContent = styled(EditContent)`
+  align-items: flex-start;
+`;
+
+const FormulaError = styled.span`
+  color: #c5221f;
+  font-size: 0.65rem;
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
 const TargetInput = styled.div`
   display: flex;
   align-items: center;
@@ -360,6 +484,13 @@ const ButtonGroup = styled.div`
   width: 100%;
 `;
 
+// Archiving comes first in the delete dialog, above permanent deletion
+const ArchiveActions = styled(ButtonGroup)`
+  padding-bottom: 20px;
+  margin-bottom: 20px;
+  border-bottom: 1px solid #eee;
+`;
+
 const DeleteButton = styled(Button)`
   background-color: #dc3545;
   color: white;
@@ -431,6 +562,19 @@ const EditableInput = styled.input`
   }
 `;
 
+const TrendCell = styled(Cell)<{ $tone?: 'good' | 'bad' }>`
+  justify-content: center;
+  font-size: 0.8rem;
+  background-color: #fafbfc;
+  color: ${props => props.$tone === 'good' ? '#137333' : props.$tone === 'bad' ? '#c5221f' : '#333'};
+`;
+
+const UpcomingMarker = styled.span`
+  color: #0066cc;
+  font-weight: 600;
+  margin-left: 3px;
+`;
+
 const OwnerSelect = styled.select`
   width: 100%;
   padding: 3px;
@@ -451,29 +595,53 @@ const MetricRow: React.FC<MetricRowProps> = ({
   metric,
   weeks,
   weeklyValues,
+  metrics = [],
+  stats,
+  comments = [],
+  timeZone,
+  onAddComment = async () => {},
+  onDeleteComment = async () => {},
   onUpdateWeeklyValue = async () => {},
+  onDeleteWeeklyValue = async () => {},
   people = [],
   onSaveMetric = async () => {},
   onDeleteMetric = async () => {},
+  onArchiveMetric,
+  canEdit = true,
+  canEditDetails = true,
+  canDelete = true,
   isDragging = false,
   index,
   onMoveUp,
   onMoveDown
 }) => {
+  const navigate = useNavigate();
+
   // Editing states for different fields
   const [isEditingName, setIsEditingName] = useState(false);
   const [isEditingOwner, setIsEditingOwner] = useState(false);
   const [isEditingGoal, setIsEditingGoal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showTargetSchedule, setShowTargetSchedule] = useState(false);
   const [showTooltip, setShowTooltip] = useState(false);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
-  const [activeEditOverlay, setActiveEditOverlay] = useState<'name' | 'owner' | 'goal' | null>(null);
+  const [activeEditOverlay, setActiveEditOverlay] = useState<'name' | 'owner' | 'goal' | 'formula' | 'cadence' | null>(null);
 
   // Edit values
   const [editName, setEditName] = useState(metric.name);
   const [editOwnerId, setEditOwnerId] = useState(metric.owner.id);
   const [editTarget, setEditTarget] = useState(metric.target);
   const [editValueType, setEditValueType] = useState(metric.valueType || 'number');
+  const [editTargetInput, setEditTargetInput] = useState(String(metric.target.value));
+  const [editUpperInput, setEditUpperInput] = useState(metric.target.upperValue !== undefined ? String(metric.target.upperValue) : '');
+  const [editToleranceValue, setEditToleranceValue] = useState(metric.tolerance ? String(metric.tolerance.value) : '');
+  const [editToleranceType, setEditToleranceType] = useState<ToleranceType>(metric.tolerance?.type || 'percent');
+  const [editFormula, setEditFormula] = useState(metric.formula || '');
+  const [editCadence, setEditCadence] = useState<Cadence>(metric.cadence || 'weekly');
+  const [formulaError, setFormulaError] = useState('');
+
+  // Value cell whose comment thread is open, and where to show it
+  const [commentCell, setCommentCell] = useState<{ period: Period; x: number; y: number } | null>(null);
 
   // Delete confirmation
   const [confirmInput, setConfirmInput] = useState('');
@@ -510,8 +678,30 @@ const MetricRow: React.FC<MetricRowProps> = ({
     }
   };
 
+  // Mark a week as not applicable (e.g. office closed) so it's left out of status and trends
+  const handleMarkNotApplicable = async (weekId: string) => {
+    if (!metric.id) {
+      return;
+    }
+    await onUpdateWeeklyValue({
+      metricId: metric.id,
+      weekId,
+      value: 0,
+      unit: metric.target.unit,
+      notApplicable: true
+    });
+  };
+
+  const handleClearValue = async (weekId: string) => {
+    if (!metric.id) {
+      return;
+    }
+    await onDeleteWeeklyValue(metric.id, weekId);
+  };
+
   // Handlers for individual field editing
   const handleNameEdit = () => {
+    if (!canEditDetails) return;
     setIsEditingName(true);
     setActiveEditOverlay('name');
     setTimeout(() => nameInputRef.current?.focus(), 50);
@@ -536,7 +726,69 @@ const MetricRow: React.FC<MetricRowProps> = ({
   };
 
 
+  const handleFormulaEdit = () => {
+    if (!canEditDetails) return;
+    setEditFormula(metric.formula || '');
+    setFormulaError('');
+    setActiveEditOverlay('formula');
+  };
+
+  const handleFormulaCancel = () => {
+    setEditFormula(metric.formula || '');
+    setFormulaError('');
+    setActiveEditOverlay(null);
+  };
+
+  // An empty formula turns a calculated metric back into a manually entered one
+  const handleFormulaSave = async () => {
+    const formula = editFormula.trim();
+    if (formula === (metric.formula || '')) {
+      setActiveEditOverlay(null);
+      return;
+    }
+
+    if (formula) {
+      const error = validateFormula(formula, metric.name, metrics);
+      if (error) {
+        setFormulaError(error);
+        return;
+      }
+    }
+
+    try {
+      await onSaveMetric({ ...metric, formula: formula || undefined });
+      setFormulaError('');
+      setActiveEditOverlay(null);
+    } catch (error) {
+      console.error('Error saving metric formula:', error);
+      setFormulaError('Failed to save formula');
+    }
+  };
+
+  const handleCadenceEdit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!canEditDetails) return;
+    setEditCadence(metric.cadence || 'weekly');
+    setActiveEditOverlay('cadence');
+  };
+
+  const handleCadenceSave = async () => {
+    if (editCadence === (metric.cadence || 'weekly')) {
+      setActiveEditOverlay(null);
+      return;
+    }
+
+    try {
+      await onSaveMetric({ ...metric, cadence: editCadence });
+      setActiveEditOverlay(null);
+    } catch (error) {
+      console.error('Error saving metric cadence:', error);
+      alert('Failed to save metric cadence. Please try again.');
+    }
+  };
+
   const handleOwnerEdit = () => {
+    if (!canEditDetails) return;
     setIsEditingOwner(true);
     setActiveEditOverlay('owner');
     setTimeout(() => ownerSelectRef.current?.focus(), 50);
@@ -584,17 +836,25 @@ const MetricRow: React.FC<MetricRowProps> = ({
     }
   };
 
+  const handleConfirmArchive = async () => {
+    if (onArchiveMetric) {
+      await onArchiveMetric(metric);
+      setShowDeleteConfirm(false);
+    }
+  };
+
   const handleCancelDelete = () => {
     setShowDeleteConfirm(false);
     setConfirmInput('');
   };
   
   // Helper function to check if target has changed
-  const hasTargetChanged = () => {
+  const hasTargetChanged = (target: Target) => {
     return (
-      editTarget.operator !== metric.target.operator ||
-      editTarget.value !== metric.target.value ||
-      editTarget.unit !== metric.target.unit
+      target.operator !== metric.target.operator ||
+      target.value !== metric.target.value ||
+      target.unit !== metric.target.unit ||
+      target.upperValue !== metric.target.upperValue
     );
   };
   
@@ -605,14 +865,7 @@ const MetricRow: React.FC<MetricRowProps> = ({
       let unitValue: ValueUnit = editTarget.unit;
       
       // Only change the unit if it's not appropriate for the new value type
-      const isUnitCompatible = (
-        (editValueType === 'number' && ['', 'k', 'm', 'b'].includes(unitValue)) ||
-        (editValueType === 'percent' && unitValue === '%') ||
-        (editValueType === 'dollars' && ['$', 'k', 'm', 'b'].includes(unitValue)) ||
-        (editValueType === 'time' && ['sec', 'min', 'hour', 'day'].includes(unitValue))
-      );
-      
-      if (!isUnitCompatible) {
+      if (!isUnitCompatible(unitValue, editValueType)) {
         switch (editValueType) {
           case 'percent':
             unitValue = '%';
@@ -635,19 +888,76 @@ const MetricRow: React.FC<MetricRowProps> = ({
     }
   }, [editValueType, isEditingGoal]);
 
+  // Tolerance being edited, or undefined when the field is blank (no at-risk band)
+  const parsedTolerance = () => {
+    const value = parseFloat(editToleranceValue);
+    return isNaN(value) || value <= 0 ? undefined : { value, type: editToleranceType };
+  };
+
+  const hasToleranceChanged = () => {
+    const tolerance = parsedTolerance();
+    return tolerance?.value !== metric.tolerance?.value ||
+      (tolerance !== undefined && tolerance.type !== metric.tolerance?.type);
+  };
+
+  // Apply typed goal text such as "1.2m" or "2h 30m", taking the unit from any suffix
+  const applyTargetInput = (text: string) => {
+    const parsed = parseValueInput(text, editValueType, editTarget.unit);
+    if (!parsed) {
+      setEditTargetInput(String(editTarget.value));
+      return editTarget;
+    }
+
+    const updated = { ...editTarget, value: parsed.value, unit: parsed.unit };
+    // Keep the upper bound in the same unit as the lower bound
+    if (updated.upperValue !== undefined && parsed.unit !== editTarget.unit) {
+      updated.upperValue = convertValue(updated.upperValue, editTarget.unit, parsed.unit);
+      setEditUpperInput(String(updated.upperValue));
+    }
+    setEditTarget(updated);
+    setEditTargetInput(String(parsed.value));
+    return updated;
+  };
+
+  const applyUpperInput = (text: string, target = editTarget) => {
+    const parsed = parseValueInput(text, editValueType, target.unit);
+    if (!parsed) {
+      setEditUpperInput(target.upperValue !== undefined ? String(target.upperValue) : '');
+      return target;
+    }
+
+    const updated = { ...target, upperValue: convertValue(parsed.value, parsed.unit, target.unit) };
+    setEditTarget(updated);
+    setEditUpperInput(String(updated.upperValue));
+    return updated;
+  };
+
   // Handle saving the goal target
   const handleTargetSave = async () => {
-    if (!hasTargetChanged() && editValueType === (metric.valueType || 'number')) {
+    // Apply any typed text that hasn't been blurred yet
+    let target = applyTargetInput(editTargetInput);
+    if (target.operator === 'between') {
+      target = applyUpperInput(editUpperInput, target);
+    }
+
+    if (!hasTargetChanged(target) && !hasToleranceChanged() && editValueType === (metric.valueType || 'number')) {
       setIsEditingGoal(false);
       setActiveEditOverlay(null);
       return;
     }
+
+    if (target.operator === 'between' &&
+        (target.upperValue === undefined || isNaN(target.upperValue) || target.upperValue < target.value)) {
+      alert('The upper bound must be greater than or equal to the lower bound.');
+      return;
+    }
     
     try {
       await onSaveMetric({
         ...metric, 
-        target: editTarget,
-        valueType: editValueType
+        target,
+        valueType: editValueType,
+        tolerance: parsedTolerance()
       });
       setIsEditingGoal(false);
       setActiveEditOverlay(null);
@@ -657,11 +967,70 @@ const MetricRow: React.FC<MetricRowProps> = ({
     }
   };
   
+  // Non-weekly metrics get one cell per month, quarter or pair of weeks
+  const periods = groupWeeksIntoPeriods(weeks, metric.cadence, timeZone);
+
+  // Describe the tolerance band and the next scheduled goal change, if any
+  const nextTargetChange = getUpcomingTargetChanges(metric)[0];
+  const goalTooltip = [
+    metric.tolerance && `At risk within ${formatTolerance(metric.tolerance, metric.target.unit, metric.valueType)}`,
+    nextTargetChange && `Changes to ${formatGoal(nextTargetChange.target, metric.valueType)} from ${new Date(nextTargetChange.effectiveFrom).toLocaleDateString()}`
+  ].filter(Boolean).join('\n');
+
   const handleGoalEdit = () => {
+    if (!canEditDetails) return;
+    // Start from the metric's current goal in case it changed since the last edit
+    setEditTarget(metric.target);
+    setEditTargetInput(String(metric.target.value));
+    setEditUpperInput(metric.target.upperValue !== undefined ? String(metric.target.upperValue) : '');
     setIsEditingGoal(true);
     setActiveEditOverlay('goal');
   };
 
+  // Comments on a period's value cell; new notes are recorded against the period's first week
+  const periodComments = (period: Period) => comments.filter(comment => period.weekIds.includes(comment.weekId));
+
+  const commentProps = (period: Period) => ({
+    commentCount: periodComments(period).length,
+    onOpenComments: (position: { x: number; y: number }) => setCommentCell({ period, ...position })
+  });
+
+  // Rolling averages, hit rate, streak and latest change, with the goal's direction deciding
+  // whether a change is good news
+  const renderTrendCells = (trend: MetricStats) => {
+    const format = (value: number | null) => value === null ? '-' : formatValue(value, trend.unit, metric.valueType);
+    const direction = ['gt', 'gte'].includes(metric.target.operator) ? 1
+      : ['lt', 'lte'].includes(metric.target.operator) ? -1
+      : 0;
+    const deltaTone = trend.delta && direction ? (trend.delta * direction > 0 ? 'good' : 'bad') : undefined;
+    const hits = trend.hitRate !== null ? Math.round(trend.hitRate * trend.valueCount) : 0;
+
+    return (
+      <>
+        <TrendCell title={`Average of the values in the last ${SHORT_WINDOW} weeks`}>
+          {format(trend.averageShort)}
+        </TrendCell>
+        <TrendCell title={`Average of the values in the last ${LONG_WINDOW} weeks`}>
+          {format(trend.averageLong)}
+        </TrendCell>
+        <TrendCell title={`On target for ${hits} of ${trend.valueCount} values in the last ${LONG_WINDOW} weeks`}>
+          {trend.hitRate === null ? '-' : `${Math.round(trend.hitRate * 100)}%`}
+        </TrendCell>
+        <TrendCell
+          $tone={trend.streak ? (trend.streak.onTarget ? 'good' : 'bad') : undefined}
+          title={trend.streak
+            ? `${trend.streak.length} value${trend.streak.length === 1 ? '' : 's'} in a row ${trend.streak.onTarget ? 'on' : 'off'} target`
+            : undefined}
+        >
+          {trend.streak ? `${trend.streak.length} ${trend.streak.onTarget ? 'on' : 'off'}` : '-'}
+        </TrendCell>
+        <TrendCell $tone={deltaTone} title="Change from the previous value">
+          {trend.delta === null ? '-' : `${trend.delta > 0 ? '+' : trend.delta < 0 ? '−' : ''}${format(Math.abs(trend.delta))}`}
+        </TrendCell>
+      </>
+    );
+  };
+
   return (
     <>
       {/* Tooltip rendered at top level to avoid z-index issues */}
@@ -746,6 +1115,78 @@ const MetricRow: React.FC<MetricRowProps> = ({
           </EditOverlay>
         )}
         
+        {activeEditOverlay === 'formula' && (
+          <EditOverlay>
+            <FormulaEditContent>
+              <EditableInput
+                type="text"
+                value={editFormula}
+                onChange={(e) => {
+                  setEditFormula(e.target.value);
+                  if (formulaError) setFormulaError('');
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleFormulaSave();
+                  if (e.key === 'Escape') handleFormulaCancel();
+                }}
+                placeholder="e.g. Won / (Won + Lost) * 100"
+                autoFocus
+                style={{ width: '240px', fontSize: '0.75rem', padding: '3px' }}
+              />
+              <div style={{ display: 'flex', alignItems: 'center', gap: '3px', marginTop: '5px', width: '240px' }}>
+                {formulaError
+                  ? <FormulaError title={formulaError}>{formulaError}</FormulaError>
+                  : <span style={{ flex: 1 }} />}
+                <SaveButton
+                  onClick={handleFormulaSave}
+                  style={{ padding: '2px 5px', fontSize: '10px', minWidth: '35px' }}
+                >
+                  Save
+                </SaveButton>
+                <CancelButton
+                  onClick={handleFormulaCancel}
+                  style={{ padding: '2px 5px', fontSize: '10px', minWidth: '35px' }}
+                >
+                  Cancel
+                </CancelButton>
+              </div>
+            </FormulaEditContent>
+          </EditOverlay>
+        )}
+
+        {activeEditOverlay === 'cadence' && (
+          <EditOverlay>
+            <OwnerEditContent>
+              <OwnerSelect
+                value={editCadence}
+                onChange={(e) => setEditCadence(e.target.value as Cadence)}
+                autoFocus
+                style={{ width: '180px', fontSize: '0.75rem', padding: '2px' }}
+              >
+                {(Object.keys(cadenceLabels) as Cadence[]).map(cadence => (
+                  <option key={cadence} value={cadence}>
+                    {cadenceLabels[cadence]}
+                  </option>
+                ))}
+              </OwnerSelect>
+              <div style={{ display: 'flex', gap: '3px', marginTop: '5px' }}>
+                <SaveButton
+                  onClick={handleCadenceSave}
+                  style={{ padding: '2px 5px', fontSize: '10px', minWidth: '35px' }}
+                >
+                  Save
+                </SaveButton>
+                <CancelButton
+                  onClick={() => setActiveEditOverlay(null)}
+                  style={{ padding: '2px 5px', fontSize: '10px', minWidth: '35px' }}
+                >
+                  Cancel
+                </CancelButton>
+              </div>
+            </OwnerEditContent>
+          </EditOverlay>
+        )}
+
         {activeEditOverlay === 'goal' && (
           <GoalEditOverlay>
             <GoalEditContent>
@@ -764,7 +1205,13 @@ const MetricRow: React.FC<MetricRowProps> = ({
                 <Select
                   id="operator"
                   value={editTarget.operator}
-                  onChange={(e) => setEditTarget({...editTarget, operator: e.target.value as ComparisonOperator})}
+                  onChange={(e) => {
+                    const operator = e.target.value as ComparisonOperator;
+                    // Seed the upper bound from the current value when switching to a range
+                    const upperValue = operator === 'between' ? (editTarget.upperValue ?? editTarget.value) : undefined;
+                    setEditTarget({ ...editTarget, operator, upperValue });
+                    setEditUpperInput(upperValue !== undefined ? String(upperValue) : '');
+                  }}
                   style={{ width: '30px', fontSize: '11px', padding: '2px' }}
                 >
                   <option value="gt">&gt;</option>
@@ -772,14 +1219,26 @@ const MetricRow: React.FC<MetricRowProps> = ({
                   <option value="gte">≥</option>
                   <option value="lte">≤</option>
                   <option value="eq">=</option>
+                  <option value="between">↔</option>
                 </Select>
                 <ValueInput
                   id="targetValue"
-                  type="number"
-                  value={editTarget.value}
-                  onChange={(e) => setEditTarget({...editTarget, value: parseFloat(e.target.value)})}
+                  type="text"
+                  value={editTargetInput}
+                  onChange={(e) => setEditTargetInput(e.target.value)}
+                  onBlur={(e) => applyTargetInput(e.target.value)}
                   style={{ width: '45px', fontSize: '11px', padding: '2px' }}
                 />
+                {editTarget.operator === 'between' && (
+                  <ValueInput
+                    id="targetUpperValue"
+                    type="text"
+                    value={editUpperInput}
+                    onChange={(e) => setEditUpperInput(e.target.value)}
+                    onBlur={(e) => applyUpperInput(e.target.value)}
+                    style={{ width: '45px', fontSize: '11px', padding: '2px' }}
+                  />
+                )}
                 <UnitSelect
                   id="targetUnit"
                   value={editTarget.unit}
@@ -817,10 +1276,44 @@ const MetricRow: React.FC<MetricRowProps> = ({
               </TargetInput>
 
               <ButtonGroup style={{ marginTop: '3px', justifyContent: 'flex-end', gap: '3px' }}>
+                <ValueInput
+                  id="toleranceValue"
+                  type="number"
+                  min="0"
+                  value={editToleranceValue}
+                  onChange={(e) => setEditToleranceValue(e.target.value)}
+                  placeholder="± risk"
+                  title="At-risk tolerance: misses within this band show yellow instead of red"
+                  style={{ width: '50px', fontSize: '10px', padding: '2px' }}
+                />
+                <UnitSelect
+                  id="toleranceType"
+                  value={editToleranceType}
+                  onChange={(e) => setEditToleranceType(e.target.value as ToleranceType)}
+                  style={{ width: '35px', fontSize: '10px', padding: '1px' }}
+                >
+                  <option value="percent">%</option>
+                  <option value="absolute">{editTarget.unit || '#'}</option>
+                </UnitSelect>
+                <CancelButton
+                  onClick={() => {
+                    setIsEditingGoal(false);
+                    setActiveEditOverlay(null);
+                    setShowTargetSchedule(true);
+                  }}
+                  title="View goal history and schedule future goal changes"
+                  style={{ padding: '2px 4px', fontSize: '10px', minWidth: '35px' }}
+                >
+                  History
+                </CancelButton>
                 <CancelButton
                   onClick={() => {
                     setEditTarget(metric.target);
+                    setEditTargetInput(String(metric.target.value));
+                    setEditUpperInput(metric.target.upperValue !== undefined ? String(metric.target.upperValue) : '');
                     setEditValueType(metric.valueType || 'number');
+                    setEditToleranceValue(metric.tolerance ? String(metric.tolerance.value) : '');
+                    setEditToleranceType(metric.tolerance?.type || 'percent');
                     setIsEditingGoal(false);
                     setActiveEditOverlay(null);
                   }}
@@ -908,38 +1401,135 @@ const MetricRow: React.FC<MetricRowProps> = ({
             {/* Owner - Editable */}
             <OwnerInfo onClick={handleOwnerEdit} style={{ cursor: 'pointer' }}>
               {metric.owner.name}
+              {metric.id && (
+                <CadenceTag
+                  $visible={(metric.cadence || 'weekly') !== 'weekly'}
+                  onClick={handleCadenceEdit}
+                  title="How often this metric is recorded"
+                >
+                  · {cadenceLabels[metric.cadence || 'weekly']}
+                </CadenceTag>
+              )}
             </OwnerInfo>
 
-            <DeleteLink onClick={handleDelete}>×</DeleteLink>
+            {metric.id && (
+              <DetailsLink onClick={() => navigate(`/scorecards/${metric.scorecardId}/metrics/${metric.id}`)} title="Open metric details and history chart">
+                ↗
+              </DetailsLink>
+            )}
+            {metric.id && (
+              <FormulaLink
+                $active={!!metric.formula}
+                onClick={handleFormulaEdit}
+                title={metric.formula ? `= ${metric.formula}` : 'Calculate from other metrics'}
+              >
+                ƒx
+              </FormulaLink>
+            )}
+            {(canDelete || onArchiveMetric) && (
+              <DeleteLink onClick={handleDelete} title={onArchiveMetric ? 'Archive or delete this metric' : 'Delete this metric'}>×</DeleteLink>
+            )}
           </div>
         </MetricCell>
         <GoalCell>
-          <EditableField onClick={handleGoalEdit}>
+          <EditableField
+            onClick={handleGoalEdit}
+            title={goalTooltip || undefined}
+          >
             {formatGoal(metric.target, metric.valueType)}
+            {nextTargetChange && <UpcomingMarker>›</UpcomingMarker>}
           </EditableField>
         </GoalCell>
-        {weeks.map(week => {
+        <SparklineCell>
+          <Sparkline metric={metric} weeks={weeks} weeklyValues={weeklyValues} />
+        </SparklineCell>
+        {periods.map(period => {
+          const span = period.weekIds.length;
+
           // Skip showing clickable cells for metrics without IDs
           if (!metric.id) {
-            return <EmptyCell key={week.id}>-</EmptyCell>;
+            return <EmptyCell key={period.id} $span={span}>-</EmptyCell>;
+          }
+
+          // A period holds a single value; if several weeks have one (e.g. after a cadence change), show the latest
+          const weeklyValue = weeklyValues
+            .filter(v => v.metricId === metric.id && period.weekIds.includes(v.weekId))
+            .sort((a, b) => period.weekIds.indexOf(b.weekId) - period.weekIds.indexOf(a.weekId))[0];
+
+          // Values are recorded against the first week of their period
+          const periodWeekId = period.weekIds[0];
+
+          // Calculated metrics are read-only; a gap means an input is missing for that period
+          if (metric.formula) {
+            if (!weeklyValue) {
+              return (
+                <ReadOnlyEmptyCell key={period.id} $span={span} title="Missing input values">
+                  -
+                </ReadOnlyEmptyCell>
+              );
+            }
+
+            const periodTarget = getTargetForWeek(metric, period);
+            return (
+              <EditableValueCell
+                key={period.id}
+                value={weeklyValue.value}
+                unit={weeklyValue.unit}
+                status={getTargetStatus(weeklyValue, periodTarget, metric.tolerance)}
+                goalTarget={periodTarget}
+                valueType={metric.valueType}
+                onSave={async () => {}}
+                readOnly
+                span={span}
+                title={`= ${metric.formula}`}
+                {...commentProps(period)}
+              />
+            );
+          }
+
+          // Values the signed-in user may not edit are shown read-only
+          if (!canEdit) {
+            const readOnlyTitle = `Only ${metric.owner.name}, facilitators and admins can edit this value`;
+            if (!weeklyValue) {
+              return (
+                <ReadOnlyEmptyCell key={period.id} $span={span} title={readOnlyTitle}>
+                  -
+                </ReadOnlyEmptyCell>
+              );
+            }
+
+            const periodTarget = getTargetForWeek(metric, period);
+            return (
+              <EditableValueCell
+                key={period.id}
+                value={weeklyValue.value}
+                unit={weeklyValue.unit}
+                status={getTargetStatus(weeklyValue, periodTarget, metric.tolerance)}
+                goalTarget={periodTarget}
+                valueType={metric.valueType}
+                onSave={async () => {}}
+                readOnly
+                span={span}
+                title={readOnlyTitle}
+                notApplicable={weeklyValue.notApplicable}
+                {...commentProps(period)}
+              />
+            );
           }
-            
-          const weeklyValue = weeklyValues.find(
-            v => v.metricId === metric.id && v.weekId === week.id
-          );
 
           if (!weeklyValue) {
-            const isEditing = editingWeekId === week.id;
+            const isEditing = editingWeekId === periodWeekId;
             
             const handleCreateValue = async () => {
-              // Skip if empty or not a valid number
-              if (newCellValue.trim() === '' || isNaN(parseFloat(newCellValue))) {
+              // Bare numbers are in the goal's unit; suffixes like "k" or "30m" override it
+              const parsed = parseValueInput(newCellValue, metric.valueType, getTargetForWeek(metric, period).unit);
+              if (!parsed) {
                 setCellInputError('Please enter a valid number');
                 return;
               }
               
               try {
-                await handleUpdateValue(week.id, parseFloat(newCellValue), metric.target.unit);
+                await handleUpdateValue(periodWeekId, parsed.value, parsed.unit);
                 setEditingWeekId(null);
                 setNewCellValue('');
                 setCellInputError('');
@@ -949,7 +1539,7 @@ const MetricRow: React.FC<MetricRowProps> = ({
             };
             
             return (
-              <EmptyCell key={week.id}>
+              <EmptyCell key={period.id} $span={span} title={span > 1 ? period.name : undefined}>
                 {isEditing ? (
                   <EditForm onSubmit={(e) => { e.preventDefault(); handleCreateValue(); }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
@@ -972,11 +1562,24 @@ const MetricRow: React.FC<MetricRowProps> = ({
                       />
                       <span>{metric.target.unit}</span>
                     </div>
+                    {/* Mouse down is handled before the input's blur would save the typed value */}
+                    <NotApplicableLink
+                      title="Mark this period as not applicable"
+                      onMouseDown={async (e) => {
+                        e.preventDefault();
+                        await handleMarkNotApplicable(periodWeekId);
+                        setEditingWeekId(null);
+                        setNewCellValue('');
+                        setCellInputError('');
+                      }}
+                    >
+                      N/A
+                    </NotApplicableLink>
                     {cellInputError && <InputError>{cellInputError}</InputError>}
                   </EditForm>
                 ) : (
                   <div onClick={() => {
-                    setEditingWeekId(week.id);
+                    setEditingWeekId(periodWeekId);
                     setNewCellValue('');
                     setCellInputError('');
                   }} style={{ fontSize: '0.75rem' }}>
@@ -987,49 +1590,98 @@ const MetricRow: React.FC<MetricRowProps> = ({
             );
           }
 
-          const onTarget = isOnTarget(weeklyValue, metric.target);
+          // Judge each period against the goal that was in force at the time; N/A periods aren't judged
+          const periodTarget = getTargetForWeek(metric, period);
+          const status = getTargetStatus(weeklyValue, periodTarget, metric.tolerance);
 
           return (
             <EditableValueCell
-              key={week.id}
+              key={period.id}
               value={weeklyValue.value}
               unit={weeklyValue.unit}
-              isOnTarget={onTarget}
-              goalTarget={metric.target}
+              status={status}
+              goalTarget={periodTarget}
               valueType={metric.valueType}
-              onSave={(value, unit) => handleUpdateValue(week.id, value, unit)}
+              span={span}
+              title={span > 1 ? period.name : undefined}
+              onSave={(value, unit) => handleUpdateValue(periodWeekId, value, unit)}
+              notApplicable={weeklyValue.notApplicable}
+              onClear={() => handleClearValue(periodWeekId)}
+              onMarkNotApplicable={() => handleMarkNotApplicable(periodWeekId)}
+              {...commentProps(period)}
             />
           );
         })}
+
+        {stats && renderTrendCells(stats)}
       </Row>
 
+      {showTargetSchedule && (
+        <TargetScheduleModal
+          metric={metric}
+          onClose={() => setShowTargetSchedule(false)}
+        />
+      )}
+
+      {commentCell && metric.id && (
+        <CommentPopover
+          title={`${metric.name} · ${(metric.cadence || 'weekly') === 'weekly' ? formatDateRange(commentCell.period, timeZone) : commentCell.period.name}`}
+          comments={periodComments(commentCell.period)}
+          position={commentCell}
+          onAdd={(body) => onAddComment(metric.id as string, commentCell.period.weekIds[0], body)}
+          onDelete={onDeleteComment}
+          onClose={() => setCommentCell(null)}
+          history={
+            <HistoryPanel metric={metric} weekId={commentCell.period.weekIds[0]} refreshKey={weeklyValues} />
+          }
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <ModalOverlay onClick={handleCancelDelete}>
           <ModalContent onClick={e => e.stopPropagation()}>
-            <ModalTitle>Delete Metric</ModalTitle>
-            <ModalText>
-              Are you sure you want to delete <strong>{metric.name}</strong>? This action cannot be undone.
-              <br /><br />
-              To confirm, please type the exact metric name:
-            </ModalText>
-            <ConfirmInput
-              ref={confirmInputRef}
-              type="text"
-              value={confirmInput}
-              onChange={e => setConfirmInput(e.target.value)}
-              placeholder={metric.name.length > 25 ? "Type exact metric name to confirm" : `Type "${metric.name}" to confirm`}
-            />
+            <ModalTitle>{onArchiveMetric ? 'Archive Metric' : 'Delete Metric'}</ModalTitle>
+            {onArchiveMetric && (
+              <>
+                <ModalText>
+                  Archive <strong>{metric.name}</strong> to take it off the scorecard. Its values and history are kept,
+                  and it can be viewed, exported or restored from the archived metrics.
+                </ModalText>
+                <ArchiveActions>
+                  <SaveButton onClick={handleConfirmArchive}>Archive</SaveButton>
+                </ArchiveActions>
+              </>
+            )}
+            {canDelete && (
+              <>
+                <ModalText>
+                  {onArchiveMetric ? 'Or delete ' : 'Are you sure you want to delete '}
+                  <strong>{metric.name}</strong>{onArchiveMetric ? ' permanently, with all of its values and history?' : '?'} This action cannot be undone.
+                  <br /><br />
+                  To confirm, please type the exact metric name:
+                </ModalText>
+                <ConfirmInput
+                  ref={confirmInputRef}
+                  type="text"
+                  value={confirmInput}
+                  onChange={e => setConfirmInput(e.target.value)}
+                  placeholder={metric.name.length > 25 ? "Type exact metric name to confirm" : `Type "${metric.name}" to confirm`}
+                />
+              </>
+            )}
             <ButtonGroup>
               <CancelButton onClick={handleCancelDelete}>
                 Cancel
               </CancelButton>
-              <DeleteButton
-                onClick={handleConfirmDelete}
-                disabled={confirmInput !== metric.name}
-              >
-                Delete
-              </DeleteButton>
+              {canDelete && (
+                <DeleteButton
+                  onClick={handleConfirmDelete}
+                  disabled={confirmInput !== metric.name}
+                >
+                  Delete
+                </DeleteButton>
+              )}
             </ButtonGroup>
           </ModalContent>
         </ModalOverlay>
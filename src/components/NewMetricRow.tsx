@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import styled from 'styled-components';
-import { Metric, Person, ComparisonOperator, ValueUnit, ValueType } from '../models/types';
+import { Metric, Person, ComparisonOperator, ValueUnit, ValueType, ToleranceType, Cadence } from '../models/types';
+import { parseValueInput, convertValue } from '../models/utils';
+import { validateFormula } from '../models/formula';
+import { cadenceLabels } from '../models/periods';
 
 interface NewMetricRowProps {
   people: Person[];
+  metrics?: Metric[]; // Existing metrics, used to validate formulas
   onSave: (metric: Metric) => Promise<void>;
   onCancel: () => void;
 }
@@ -162,22 +166,30 @@ const SuccessMessage = styled.div`
   gap: 4px;
 `;
 
-const NewMetricRow: React.FC<NewMetricRowProps> = ({ people, onSave, onCancel }) => {
+const NewMetricRow: React.FC<NewMetricRowProps> = ({ people, metrics = [], onSave, onCancel }) => {
   // References for focusing
   const nameInputRef = useRef<HTMLInputElement>(null);
   
   // Metric fields state
   const [name, setName] = useState('');
   const [ownerId, setOwnerId] = useState('');
-  const [targetValue, setTargetValue] = useState(100);
+  const [targetInput, setTargetInput] = useState('100');
+  const [targetUpperInput, setTargetUpperInput] = useState('100');
   const [targetUnit, setTargetUnit] = useState<ValueUnit>('');
   const [targetOperator, setTargetOperator] = useState<ComparisonOperator>('gt');
   const [valueType, setValueType] = useState<ValueType>('number');
+  const [toleranceValue, setToleranceValue] = useState('');
+  const [toleranceType, setToleranceType] = useState<ToleranceType>('percent');
+  const [formula, setFormula] = useState('');
+  const [cadence, setCadence] = useState<Cadence>('weekly');
   
   // UI state
   const [currentStep, setCurrentStep] = useState(1);
   const [showNameError, setShowNameError] = useState(false);
   const [showOwnerError, setShowOwnerError] = useState(false);
+  const [showRangeError, setShowRangeError] = useState(false);
+  const [showTargetError, setShowTargetError] = useState(false);
+  const [formulaError, setFormulaError] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   
   // Set focus on name input when component mounts
@@ -250,20 +262,56 @@ const NewMetricRow: React.FC<NewMetricRowProps> = ({ people, onSave, onCancel })
       return;
     }
     
+    // Parse typed goals like "1.2m" or "$4,500"; a suffix overrides the unit dropdown
+    const parsedTarget = parseValueInput(targetInput, valueType, targetUnit);
+    const parsedUpper = targetOperator === 'between' ? parseValueInput(targetUpperInput, valueType, targetUnit) : null;
+    if (!parsedTarget || (targetOperator === 'between' && !parsedUpper)) {
+      setShowTargetError(true);
+      setCurrentStep(3);
+      return;
+    }
+
+    const targetUpperValue = parsedUpper ? convertValue(parsedUpper.value, parsedUpper.unit, parsedTarget.unit) : undefined;
+    if (targetUpperValue !== undefined && targetUpperValue < parsedTarget.value) {
+      setShowRangeError(true);
+      setCurrentStep(3);
+      return;
+    }
+
+    const trimmedFormula = formula.trim();
+    if (trimmedFormula) {
+      const error = validateFormula(trimmedFormula, name.trim(), metrics);
+      if (error) {
+        setFormulaError(error);
+        setCurrentStep(3);
+        return;
+      }
+    }
+
     // Find the selected owner
     const owner = people.find(p => p.id === ownerId) || { id: '', name: '', email: '' };
     
+    // A blank or non-positive tolerance means the metric has no at-risk band
+    const parsedTolerance = parseFloat(toleranceValue);
+    const tolerance = isNaN(parsedTolerance) || parsedTolerance <= 0
+      ? undefined
+      : { value: parsedTolerance, type: toleranceType };
+
     // Create the new metric
     const newMetric: Metric = {
       // Don't include ID for new metrics, let the server generate it
       name: name.trim(),
       target: {
-        value: targetValue,
-        unit: targetUnit,
-        operator: targetOperator
+        value: parsedTarget.value,
+        unit: parsedTarget.unit,
+        operator: targetOperator,
+        ...(targetOperator === 'between' && { upperValue: targetUpperValue })
       },
       owner: owner,
-      valueType: valueType
+      valueType: valueType,
+      tolerance,
+      cadence,
+      ...(trimmedFormula && { formula: trimmedFormula })
     };
     
     // Show success message briefly before saving
@@ -345,15 +393,33 @@ const NewMetricRow: React.FC<NewMetricRowProps> = ({ people, onSave, onCancel })
               <option value="gte">≥</option>
               <option value="lte">≤</option>
               <option value="eq">=</option>
+              <option value="between">↔</option>
             </OperatorSelect>
             
             <ValueInput
-              type="number"
+              type="text"
               id="metric-value"
-              value={targetValue}
-              onChange={(e) => setTargetValue(Number(e.target.value))}
+              value={targetInput}
+              onChange={(e) => {
+                setTargetInput(e.target.value);
+                setShowRangeError(false);
+                setShowTargetError(false);
+              }}
             />
             
+            {targetOperator === 'between' && (
+              <ValueInput
+                type="text"
+                id="metric-upper-value"
+                value={targetUpperInput}
+                onChange={(e) => {
+                  setTargetUpperInput(e.target.value);
+                  setShowRangeError(false);
+                  setShowTargetError(false);
+                }}
+              />
+            )}
+            
             <UnitSelect
               id="metric-unit"
               value={targetUnit}
@@ -388,6 +454,58 @@ const NewMetricRow: React.FC<NewMetricRowProps> = ({ people, onSave, onCancel })
               )}
             </UnitSelect>
           </FlexRow>
+          {showTargetError && (
+            <ValidationError>Please enter a valid goal, e.g. 100, 1.2m or $4,500</ValidationError>
+          )}
+          {showRangeError && (
+            <ValidationError>The upper bound must be at least the lower bound</ValidationError>
+          )}
+
+          <FieldLabel htmlFor="metric-tolerance" style={{ marginTop: '8px' }}>At-risk tolerance (optional)</FieldLabel>
+          <FlexRow>
+            <ValueInput
+              type="number"
+              id="metric-tolerance"
+              min="0"
+              value={toleranceValue}
+              onChange={(e) => setToleranceValue(e.target.value)}
+              placeholder="±"
+            />
+            <UnitSelect
+              id="metric-tolerance-type"
+              value={toleranceType}
+              onChange={(e) => setToleranceType(e.target.value as ToleranceType)}
+            >
+              <option value="percent">%</option>
+              <option value="absolute">{targetUnit || '#'}</option>
+            </UnitSelect>
+          </FlexRow>
+
+          <FieldLabel htmlFor="metric-cadence" style={{ marginTop: '8px' }}>Recorded</FieldLabel>
+          <Select
+            id="metric-cadence"
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as Cadence)}
+          >
+            {(Object.keys(cadenceLabels) as Cadence[]).map(option => (
+              <option key={option} value={option}>{cadenceLabels[option]}</option>
+            ))}
+          </Select>
+
+          <FieldLabel htmlFor="metric-formula" style={{ marginTop: '8px' }}>Calculate from other metrics (optional)</FieldLabel>
+          <Input
+            id="metric-formula"
+            type="text"
+            value={formula}
+            onChange={(e) => {
+              setFormula(e.target.value);
+              if (formulaError) setFormulaError('');
+            }}
+            placeholder="e.g. Revenue / New Customers"
+          />
+          {formulaError && (
+            <ValidationError>{formulaError}</ValidationError>
+          )}
         </EditableField>
         
         {showSuccess ? (
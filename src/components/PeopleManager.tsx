@@ -1,13 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
 import styled from 'styled-components';
-import { Metric, Person } from '../models/types';
+import { Metric, OwnerReassignment, Person, User } from '../models/types';
 import EditablePersonRow from './EditablePersonRow';
+import DeactivatePersonModal from './DeactivatePersonModal';
 
 interface PeopleManagerProps {
   people: Person[];
   onSavePerson: (person: Person) => Promise<void>;
   onDeletePerson: (person: Person) => Promise<boolean>;
   metrics?: Metric[];
+  users?: User[]; // People with a login can't be deleted until it's removed
+  onDeactivatePerson?: (person: Person, reassignments: OwnerReassignment[]) => Promise<void>;
+  onReactivatePerson?: (person: Person) => Promise<void>;
 }
 
 const Container = styled.div`
@@ -35,6 +39,15 @@ const PeopleContainer = styled.div`
   flex-direction: column;
 `;
 
+const SubHeader = styled.div`
+  padding: 8px 12px;
+  background-color: #f5f5f5;
+  border-bottom: 1px solid #eee;
+  color: #666;
+  font-size: 0.8rem;
+  font-weight: 600;
+`;
+
 const NoDataMessage = styled.div`
   padding: 24px;
   text-align: center;
@@ -46,8 +59,36 @@ const PeopleManager: React.FC<PeopleManagerProps> = ({
   people, 
   onSavePerson, 
   onDeletePerson,
-  metrics = []
+  metrics = [],
+  users = [],
+  onDeactivatePerson,
+  onReactivatePerson
 }) => {
+  const [deactivating, setDeactivating] = useState<Person | null>(null);
+
+  const activePeople = people.filter(person => !person.deactivatedAt);
+  const deactivatedPeople = people.filter(person => person.deactivatedAt);
+  const ownedMetrics = (person: Person) => metrics.filter(metric => metric.owner && metric.owner.id === person.id);
+
+  const renderRow = (person: Person) => {
+    const metricCount = ownedMetrics(person).length;
+    const hasLogin = users.some(user => user.person.id === person.id);
+
+    return (
+      <EditablePersonRow
+        key={person.id}
+        person={person}
+        metricCount={metricCount}
+        hasLogin={hasLogin}
+        onSave={onSavePerson}
+        onDelete={onDeletePerson}
+        canDelete={metricCount === 0 && !hasLogin}
+        onDeactivate={onDeactivatePerson && !person.deactivatedAt ? () => setDeactivating(person) : undefined}
+        onReactivate={onReactivatePerson && person.deactivatedAt ? () => onReactivatePerson(person) : undefined}
+      />
+    );
+  };
+
   return (
     <Container>
       <Header>
@@ -55,26 +96,10 @@ const PeopleManager: React.FC<PeopleManagerProps> = ({
       </Header>
       
       <PeopleContainer>
-        {people.length === 0 ? (
+        {activePeople.length === 0 ? (
           <NoDataMessage>No people added yet. Use the form below to add someone.</NoDataMessage>
         ) : (
-          people.map(person => {
-            // Calculate number of metrics owned by this person
-            const metricCount = metrics.filter(metric => 
-              metric.owner && metric.owner.id === person.id
-            ).length;
-            
-            return (
-              <EditablePersonRow
-                key={person.id}
-                person={person}
-                metricCount={metricCount}
-                onSave={onSavePerson}
-                onDelete={onDeletePerson}
-                canDelete={metricCount === 0}
-              />
-            );
-          })
+          activePeople.map(renderRow)
         )}
         
         {/* Empty row to add a new person */}
@@ -82,7 +107,25 @@ const PeopleManager: React.FC<PeopleManagerProps> = ({
           onSave={onSavePerson}
           isNew={true}
         />
+
+        {/* People who have left stay listed so they can be reactivated */}
+        {deactivatedPeople.length > 0 && (
+          <>
+            <SubHeader>Deactivated</SubHeader>
+            {deactivatedPeople.map(renderRow)}
+          </>
+        )}
       </PeopleContainer>
+
+      {deactivating && onDeactivatePerson && (
+        <DeactivatePersonModal
+          person={deactivating}
+          metrics={ownedMetrics(deactivating)}
+          people={activePeople}
+          onDeactivate={onDeactivatePerson}
+          onClose={() => setDeactivating(null)}
+        />
+      )}
     </Container>
   );
 };
@@ -105,9 +105,8 @@ const PersonForm: React.FC<PersonFormProps> = ({ onSave, initialPerson }) => {
             type="email" 
             id="email" 
             name="email" 
-            value={person.email}
+            value={person.email ?? ''}
             onChange={handleChange}
-            required
           />
         </FormGroup>
         
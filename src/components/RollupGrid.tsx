@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import styled from 'styled-components';
+import { Metric, Week, WeeklyValue, AggregationMethod, Rollup, Period, RollupPeriodType, Target } from '../models/types';
+import { formatGoal, getTargetForWeek, getTargetStatus } from '../models/utils';
+import { computeCalculatedValues } from '../models/formula';
+import { groupWeeksIntoPeriods } from '../models/periods';
+import { getRollupsApi } from '../services/apiClient';
+import EditableValueCell from './EditableValueCell';
+
+interface RollupGridProps {
+  metrics: Metric[];
+  period: RollupPeriodType;
+  weeks: Week[]; // Completed weeks, oldest first
+  weeklyValues: WeeklyValue[]; // Only used to refresh the rollups when values change
+  timeZone?: string;
+  canEdit?: boolean; // Whether the signed-in user may change how metrics combine (see models/permissions)
+  onSaveMetric?: (metric: Metric) => Promise<void>;
+}
+
+const aggregationLabels: Record<AggregationMethod, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  last: 'Last value',
+  min: 'Min',
+  max: 'Max'
+};
+
+const GridContainer = styled.div`
+  overflow-x: auto;
+  display: flex;
+  flex-direction: column;
+`;
+
+const HeaderRow = styled.div`
+  display: flex;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+  min-width: max-content;
+  height: 38px;
+`;
+
+const HeaderCell = styled.div`
+  padding: 4px 5px;
+  width: 80px;
+  flex-shrink: 0;
+  text-align: center;
+  font-size: 0.8rem;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const MetricHeaderCell = styled(HeaderCell)`
+  position: sticky;
+  left: 0;
+  z-index: 2;
+  background-color: #f5f5f5;
+  width: 180px;
+  padding-left: 28px;
+  font-size: 0.85rem;
+  justify-content: flex-start;
+`;
+
+const GoalHeaderCell = styled(HeaderCell)`
+  position: sticky;
+  left: 180px;
+  z-index: 2;
+  background-color: #f5f5f5;
+`;
+
+const Row = styled.div`
+  display: flex;
+  border-bottom: 1px solid #eee;
+  background-color: white;
+  min-width: max-content;
+  height: 42px;
+`;
+
+const Cell = styled.div`
+  padding: 4px 5px;
+  width: 80px;
+  flex-shrink: 0;
+  display: flex;
+  align-items: center;
+  font-size: 0.85rem;
+`;
+
+const MetricCell = styled(Cell)`
+  position: sticky;
+  left: 0;
+  background-color: white;
+  z-index: 1;
+  width: 180px;
+  padding-left: 28px;
+  flex-direction: column;
+  justify-content: center;
+  align-items: flex-start;
+  overflow: hidden;
+`;
+
+const MetricName = styled.div`
+  font-weight: 500;
+  max-width: 100%;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const AggregationSelect = styled.select`
+  font-size: 0.7rem;
+  color: #666;
+  border: none;
+  background: transparent;
+  padding: 0;
+  margin-top: 2px;
+  cursor: pointer;
+`;
+
+const FormulaNote = styled.div`
+  font-size: 0.7rem;
+  color: #0066cc;
+  font-style: italic;
+  margin-top: 2px;
+`;
+
+const GoalCell = styled(Cell)`
+  position: sticky;
+  left: 180px;
+  background-color: white;
+  z-index: 1;
+  box-sizing: border-box;
+`;
+
+const EmptyCell = styled(Cell)`
+  justify-content: center;
+  background-color: #f9f9f9;
+  color: #bbb;
+`;
+
+const Message = styled.div`
+  padding: 24px;
+  text-align: center;
+  color: #666;
+  font-size: 0.9rem;
+`;
+
+// A summed rollup is judged against the per-period goal scaled to the metric's periods in the rollup
+const scaleTarget = (target: Target, factor: number): Target => ({
+  ...target,
+  value: target.value * factor,
+  ...(target.upperValue !== undefined && { upperValue: target.upperValue * factor })
+});
+
+const RollupGrid: React.FC<RollupGridProps> = ({
+  metrics,
+  period,
+  weeks,
+  weeklyValues,
+  timeZone,
+  canEdit = true,
+  onSaveMetric = async () => {}
+}) => {
+  const [rollup, setRollup] = useState<Rollup | null>(null);
+  const [error, setError] = useState('');
+
+  // Refetch whenever the period changes or the underlying metrics or values do
+  useEffect(() => {
+    let cancelled = false;
+
+    getRollupsApi(period)
+      .then(data => {
+        if (!cancelled) {
+          setRollup(data);
+          setError('');
+        }
+      })
+      .catch(err => {
+        console.error('Error loading rollups:', err);
+        if (!cancelled) {
+          setError('Failed to load rollups');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period, metrics, weeklyValues]);
+
+  // Stored rollups plus calculated metrics, whose formula is applied to the rolled-up inputs
+  const values: WeeklyValue[] = useMemo(() => {
+    if (!rollup) {
+      return [];
+    }
+    const stored = rollup.values.map(value => ({
+      metricId: value.metricId,
+      weekId: value.periodId,
+      value: value.value,
+      unit: value.unit
+    }));
+    return [...stored, ...computeCalculatedValues(metrics, rollup.periods, stored)];
+  }, [rollup, metrics]);
+
+  const weekCounts = useMemo(() => {
+    return new Map((rollup?.values || []).map(value => [`${value.metricId}:${value.periodId}`, value.weekCount]));
+  }, [rollup]);
+
+  if (error) {
+    return <Message>{error}</Message>;
+  }
+
+  if (!rollup) {
+    return <Message>Loading...</Message>;
+  }
+
+  const renderCell = (metric: Metric, rollupPeriod: Period) => {
+    const value = values.find(v => v.metricId === metric.id && v.weekId === rollupPeriod.id);
+    if (!value) {
+      return <EmptyCell key={rollupPeriod.id}>-</EmptyCell>;
+    }
+
+    const method = metric.aggregation || 'sum';
+    const cadence = metric.cadence || 'weekly';
+    const weekTarget = getTargetForWeek(metric, rollupPeriod);
+    const metricPeriods = groupWeeksIntoPeriods(weeks.filter(week => rollupPeriod.weekIds.includes(week.id)), cadence, timeZone);
+    const periodTarget = !metric.formula && method === 'sum'
+      ? scaleTarget(weekTarget, metricPeriods.length)
+      : weekTarget;
+
+    const count = weekCounts.get(`${metric.id}:${rollupPeriod.id}`);
+    const noun = cadence === 'weekly' ? 'week' : 'value';
+    const title = metric.formula
+      ? `= ${metric.formula}`
+      : `${aggregationLabels[method]} of ${count} ${noun}${count === 1 ? '' : 's'}; goal ${formatGoal(periodTarget, metric.valueType)}`;
+
+    return (
+      <EditableValueCell
+        key={rollupPeriod.id}
+        value={value.value}
+        unit={value.unit}
+        status={getTargetStatus(value, periodTarget, metric.tolerance)}
+        goalTarget={periodTarget}
+        valueType={metric.valueType}
+        onSave={async () => {}}
+        readOnly
+        title={title}
+      />
+    );
+  };
+
+  return (
+    <GridContainer>
+      <HeaderRow>
+        <MetricHeaderCell>Metric</MetricHeaderCell>
+        <GoalHeaderCell>Goal</GoalHeaderCell>
+        {rollup.periods.map(rollupPeriod => (
+          <HeaderCell key={rollupPeriod.id}>{rollupPeriod.name}</HeaderCell>
+        ))}
+      </HeaderRow>
+
+      {rollup.periods.length === 0 && <Message>No completed weeks to roll up yet</Message>}
+
+      {metrics.map(metric => (
+        <Row key={metric.id}>
+          <MetricCell>
+            <MetricName title={metric.name}>{metric.name}</MetricName>
+            {metric.formula ? (
+              <FormulaNote title={`= ${metric.formula}`}>ƒx calculated</FormulaNote>
+            ) : (
+              <AggregationSelect
+                value={metric.aggregation || 'sum'}
+                onChange={(e) => onSaveMetric({ ...metric, aggregation: e.target.value as AggregationMethod })}
+                disabled={!canEdit}
+                title="How weekly values combine in this view"
+              >
+                {(Object.keys(aggregationLabels) as AggregationMethod[]).map(method => (
+                  <option key={method} value={method}>{aggregationLabels[method]}</option>
+                ))}
+              </AggregationSelect>
+            )}
+          </MetricCell>
+          <GoalCell>{formatGoal(metric.target, metric.valueType)}</GoalCell>
+          {rollup.periods.map(rollupPeriod => renderCell(metric, rollupPeriod))}
+        </Row>
+      ))}
+    </GridContainer>
+  );
+};
+
+export default RollupGrid;
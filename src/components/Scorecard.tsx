@@ -1,9 +1,16 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import styled from 'styled-components';
-import { Metric, Week, WeeklyValue, Person, ComparisonOperator, ValueUnit, Target } from '../models/types';
+import { useNavigate } from 'react-router-dom';
+import { Metric, Week, WeeklyValue, Person, ComparisonOperator, ValueUnit, Target, RollupPeriodType, OrgSettings, User, ValueComment, CsvExportOptions } from '../models/types';
 import { formatDateRange } from '../models/utils';
+import { DEFAULT_ORG_SETTINGS, isWeekCompleted } from '../models/calendar';
+import { computeCalculatedValues } from '../models/formula';
+import { computeMetricStats, SHORT_WINDOW, LONG_WINDOW } from '../models/stats';
+import { canEditMetric, canFacilitate, isAdmin } from '../models/permissions';
 import MetricRow from './MetricRow';
 import NewMetricRow from './NewMetricRow';
+import RollupGrid from './RollupGrid';
+import ExportCsvModal from './ExportCsvModal';
 import { reorderMetricsApi } from '../services/apiClient';
 
 interface ScorecardProps {
@@ -11,9 +18,22 @@ interface ScorecardProps {
   weeks: Week[];
   weeklyValues: WeeklyValue[];
   people: Person[];
+  settings?: OrgSettings;
+  comments?: ValueComment[];
+  onAddComment?: (metricId: string, weekId: string, body: string) => Promise<void>; // Posted as the signed-in user
+  onDeleteComment?: (comment: ValueComment) => Promise<void>;
   onUpdateWeeklyValue?: (value: WeeklyValue) => Promise<void>;
+  onDeleteWeeklyValue?: (metricId: string, weekId: string) => Promise<void>;
   onSaveMetric?: (metric: Metric) => Promise<void>;
   onDeleteMetric?: (metric: Metric) => Promise<void>;
+  onArchiveMetric?: (metric: Metric) => Promise<void>;
+  onReorderMetrics?: (metrics: Metric[]) => Promise<void>;
+  undoLabel?: string; // The change Undo would revert, if any
+  redoLabel?: string;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onExportCsv?: (options: CsvExportOptions) => Promise<void>;
+  currentUser?: User; // Controls the signed-in user isn't allowed to use are hidden or read-only
 }
 
 const ScorecardContainer = styled.div`
@@ -29,13 +49,86 @@ const ScorecardContainer = styled.div`
 
 // ScorecardHeader was removed
 
+const ViewToggle = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 4px;
+  padding: 8px 12px;
+  border-bottom: 1px solid #eee;
+`;
+
+const ViewButton = styled.button<{ $active: boolean }>`
+  padding: 4px 10px;
+  border: 1px solid ${props => props.$active ? '#0066cc' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.$active ? '#0066cc' : 'white'};
+  color: ${props => props.$active ? 'white' : '#333'};
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    border-color: #0066cc;
+  }
+`;
+
+const TrendsButton = styled(ViewButton)`
+  margin-right: auto;
+`;
+
+const UndoGroup = styled.div`
+  display: flex;
+  gap: 4px;
+  margin-right: 8px;
+`;
+
+const UndoButton = styled.button`
+  padding: 4px 10px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  background-color: white;
+  color: #333;
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    border-color: #0066cc;
+  }
+
+  &:disabled {
+    color: #bbb;
+    cursor: default;
+  }
+`;
+
+const ExportButton = styled(UndoButton)`
+  margin-left: 8px;
+`;
+
+const viewLabels: Record<'week' | RollupPeriodType, string> = {
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly'
+};
+
 const ScorecardFooter = styled.div`
   display: flex;
   justify-content: flex-start;
+  align-items: center;
   padding: 16px;
   border-top: 1px solid #eee;
 `;
 
+const ArchivedLink = styled.span`
+  margin-left: auto;
+  color: #0066cc;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
 const GridContainer = styled.div`
   overflow-x: auto;
   display: flex;
@@ -84,6 +177,17 @@ const GoalHeaderCell = styled(HeaderCell)`
   padding-right: 0;
 `;
 
+const SparklineHeaderCell = styled(HeaderCell)`
+  position: sticky;
+  left: 260px;
+  z-index: 2;
+  background-color: #f5f5f5;
+  width: 80px; /* Match the width of SparklineCell in MetricRow */
+  padding-left: 0;
+  padding-right: 0;
+  border-right: 1px solid #ddd;
+`;
+
 const DateHeader = styled(HeaderCell)<{ $isLatestWeek?: boolean }>`
   font-weight: ${props => props.$isLatestWeek ? '700' : '600'};
   ${props => props.$isLatestWeek && `
@@ -91,6 +195,11 @@ const DateHeader = styled(HeaderCell)<{ $isLatestWeek?: boolean }>`
   `}
 `;
 
+const TrendHeader = styled(HeaderCell)`
+  background-color: #eef2f6;
+  font-size: 0.75rem;
+`;
+
 const AddButton = styled.button`
   padding: 4px 8px;
   background-color: #0066cc;
@@ -112,10 +221,25 @@ const Scorecard: React.FC<ScorecardProps> = ({
   weeks,
   weeklyValues,
   people,
+  settings = DEFAULT_ORG_SETTINGS,
+  comments = [],
+  onAddComment,
+  onDeleteComment,
   onUpdateWeeklyValue = async () => {},
+  onDeleteWeeklyValue,
   onSaveMetric = async () => {},
-  onDeleteMetric = async () => {}
+  onDeleteMetric = async () => {},
+  onArchiveMetric,
+  onReorderMetrics = async (reordered) => { await reorderMetricsApi(reordered, reordered[0]?.scorecardId || ''); },
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onExportCsv,
+  currentUser
 }) => {
+  const navigate = useNavigate();
+
   // Use a flag to detect if this component is still mounted
   const isMounted = useRef(true);
 
@@ -130,11 +254,28 @@ const Scorecard: React.FC<ScorecardProps> = ({
   // State for tracking metrics and their order
   const [orderedMetrics, setOrderedMetrics] = useState<Metric[]>([]);
 
+  // Weekly grid, or weeks rolled up into months or quarters
+  const [view, setView] = useState<'week' | RollupPeriodType>('week');
+
+  // Extra trend statistic columns in the weekly grid
+  const [showTrends, setShowTrends] = useState(false);
+
+  const [showExport, setShowExport] = useState(false);
+
+  // Archived metrics are listed on their own page; their values still feed formulas that use them
+  const archivedCount = metrics.filter(metric => metric.archivedAt).length;
+
   // Update ordered metrics when the metrics prop changes
   useEffect(() => {
-    setOrderedMetrics([...metrics]);
+    setOrderedMetrics(metrics.filter(metric => !metric.archivedAt));
   }, [metrics]);
 
+  // Entered values plus the values of calculated metrics, recomputed whenever the inputs change
+  const allWeeklyValues = useMemo(
+    () => [...weeklyValues, ...computeCalculatedValues(metrics, weeks, weeklyValues)],
+    [metrics, weeks, weeklyValues]
+  );
+
   // Find the index of the latest week
   let latestWeekIndex = -1;
   if (weeks.length > 0) {
@@ -146,24 +287,17 @@ const Scorecard: React.FC<ScorecardProps> = ({
   useEffect(() => {
     if (gridRef.current && latestWeekIndex >= 0) {
       // Calculate scroll position:
-      // - Fixed columns width (180px + 80px)
+      // - Fixed columns width (180px + 80px + 80px sparkline)
       // - Plus some previous weeks to provide context
       const previousWeeksToShow = Math.min(3, latestWeekIndex);
-      const scrollPosition = 260 + (latestWeekIndex - previousWeeksToShow) * 80;
+      const scrollPosition = 340 + (latestWeekIndex - previousWeeksToShow) * 80;
 
       gridRef.current.scrollLeft = scrollPosition;
     }
-  }, [latestWeekIndex]);
-
-  // Filter out incomplete weeks (current or future weeks)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  }, [latestWeekIndex, view]);
 
-  // Only include weeks that have fully completed (end date is in the past)
-  const completedWeeks = weeks.filter(week => {
-    const endDate = new Date(week.endDate);
-    return endDate < today;
-  });
+  // Filter out incomplete weeks (current or future weeks) in the organization's time zone
+  const completedWeeks = weeks.filter(week => isWeekCompleted(week, settings));
 
   // Sort weeks chronologically
   const sortedWeeks = [...completedWeeks].sort((a, b) =>
@@ -194,7 +328,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
 
     try {
       // Save the new order to the server
-      await reorderMetricsApi(updatedMetrics);
+      await onReorderMetrics(updatedMetrics);
     } catch (error) {
       console.error('Error saving metric order:', error);
       // Revert to original order if save fails
@@ -202,7 +336,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
         setOrderedMetrics([...orderedMetrics]);
       }
     }
-  }, [orderedMetrics, isMounted]);
+  }, [orderedMetrics, isMounted, onReorderMetrics]);
 
   // Move a metric down in the order
   const handleMoveDown = useCallback(async (index: number) => {
@@ -221,7 +355,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
 
     try {
       // Save the new order to the server
-      await reorderMetricsApi(updatedMetrics);
+      await onReorderMetrics(updatedMetrics);
     } catch (error) {
       console.error('Error saving metric order:', error);
       // Revert to original order if save fails
@@ -229,7 +363,18 @@ const Scorecard: React.FC<ScorecardProps> = ({
         setOrderedMetrics([...orderedMetrics]);
       }
     }
-  }, [orderedMetrics, isMounted]);
+  }, [orderedMetrics, isMounted, onReorderMetrics]);
+
+  // Trend statistics per metric, only computed while the trend columns are shown
+  const statsByMetric = showTrends
+    ? new Map(orderedMetrics.map(metric => [metric.id, computeMetricStats(metric, sortedWeeks, allWeeklyValues)]))
+    : null;
+
+  const canManageMetrics = !currentUser || isAdmin(currentUser);
+  const canReorder = !currentUser || canFacilitate(currentUser);
+  const canArchive = canReorder;
+  const canEditDetails = canReorder;
+  const canImport = canReorder;
 
   // Render a single metric row with move up/down handlers
   const renderMetricRow = (metric: Metric, index: number) => {
@@ -238,61 +383,154 @@ const Scorecard: React.FC<ScorecardProps> = ({
         key={metric.id || `temp-${index}`}
         metric={metric}
         weeks={sortedWeeks}
-        weeklyValues={weeklyValues}
+        weeklyValues={allWeeklyValues}
+        metrics={metrics}
+        stats={statsByMetric?.get(metric.id)}
+        comments={comments.filter(comment => comment.metricId === metric.id)}
+        timeZone={settings.timeZone}
+        onAddComment={onAddComment}
+        onDeleteComment={onDeleteComment}
         onUpdateWeeklyValue={onUpdateWeeklyValue}
+        onDeleteWeeklyValue={onDeleteWeeklyValue}
         people={people}
         onSaveMetric={onSaveMetric}
         onDeleteMetric={onDeleteMetric}
+        onArchiveMetric={canArchive ? onArchiveMetric : undefined}
+        canEdit={!currentUser || canEditMetric(currentUser, metric)}
+        canEditDetails={canEditDetails}
+        canDelete={canManageMetrics}
         index={index}
-        onMoveUp={() => handleMoveUp(index)}
-        onMoveDown={() => handleMoveDown(index)}
+        onMoveUp={canReorder ? () => handleMoveUp(index) : undefined}
+        onMoveDown={canReorder ? () => handleMoveDown(index) : undefined}
       />
     );
   };
 
   return (
     <ScorecardContainer>
-      <GridContainer ref={gridRef}>
-        <HeaderRow>
-          <MetricHeaderCell>Metric</MetricHeaderCell>
-          <GoalHeaderCell>Goal</GoalHeaderCell>
-          {sortedWeeks.map((week, index) => (
-            <DateHeader
-              key={week.id}
-              $isLatestWeek={index === latestWeekIndex}
+      <ViewToggle>
+        {(onUndo || onRedo) && (
+          <UndoGroup>
+            <UndoButton
+              onClick={onUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
             >
-              {formatDateRange(week)}
-            </DateHeader>
-          ))}
-        </HeaderRow>
-
-        <div>
-          {orderedMetrics.map((metric, index) =>
-            renderMetricRow(metric, index)
-          )}
-        </div>
-
-        {/* New metric row at the bottom */}
-        {showNewMetricRow && (
-          <NewMetricRow
-            people={people}
-            onSave={async (newMetric) => {
-              try {
-                await onSaveMetric(newMetric);
-                setShowNewMetricRow(false);
-              } catch (error) {
-                console.error('Error saving new metric:', error);
-                alert('Failed to save metric. Please try again.');
-              }
-            }}
-            onCancel={() => setShowNewMetricRow(false)}
-          />
+              ↶ Undo
+            </UndoButton>
+            <UndoButton
+              onClick={onRedo}
+              disabled={!redoLabel}
+              title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              ↷ Redo
+            </UndoButton>
+          </UndoGroup>
         )}
-      </GridContainer>
+        {view === 'week' && (
+          <TrendsButton
+            $active={showTrends}
+            onClick={() => setShowTrends(!showTrends)}
+            title="Show rolling averages, hit rate, streak and latest change for each metric"
+          >
+            Trends
+          </TrendsButton>
+        )}
+        {(Object.keys(viewLabels) as Array<'week' | RollupPeriodType>).map(option => (
+          <ViewButton key={option} $active={view === option} onClick={() => setView(option)}>
+            {viewLabels[option]}
+          </ViewButton>
+        ))}
+        {onExportCsv && (
+          <ExportButton onClick={() => setShowExport(true)} title="Download the scorecard or its values as a spreadsheet">
+            Export CSV
+          </ExportButton>
+        )}
+        {canImport && (
+          <ExportButton onClick={() => navigate('import')} title="Add values from a spreadsheet">
+            Import CSV
+          </ExportButton>
+        )}
+      </ViewToggle>
+
+      {showExport && onExportCsv && (
+        <ExportCsvModal
+          weeks={sortedWeeks}
+          timeZone={settings.timeZone}
+          onExport={onExportCsv}
+          onClose={() => setShowExport(false)}
+        />
+      )}
 
-      {!showNewMetricRow && (
+      {view !== 'week' ? (
+        <RollupGrid
+          metrics={orderedMetrics}
+          period={view}
+          weeks={sortedWeeks}
+          weeklyValues={weeklyValues}
+          timeZone={settings.timeZone}
+          canEdit={canEditDetails}
+          onSaveMetric={onSaveMetric}
+        />
+      ) : (
+        <GridContainer ref={gridRef}>
+          <HeaderRow>
+            <MetricHeaderCell>Metric</MetricHeaderCell>
+            <GoalHeaderCell>Goal</GoalHeaderCell>
+            <SparklineHeaderCell>Trend</SparklineHeaderCell>
+            {sortedWeeks.map((week, index) => (
+              <DateHeader
+                key={week.id}
+                $isLatestWeek={index === latestWeekIndex}
+              >
+                {formatDateRange(week, settings.timeZone)}
+              </DateHeader>
+            ))}
+            {showTrends && (
+              <>
+                <TrendHeader>{SHORT_WINDOW}w avg</TrendHeader>
+                <TrendHeader>{LONG_WINDOW}w avg</TrendHeader>
+                <TrendHeader>Hit rate</TrendHeader>
+                <TrendHeader>Streak</TrendHeader>
+                <TrendHeader>Change</TrendHeader>
+              </>
+            )}
+          </HeaderRow>
+
+          <div>
+            {orderedMetrics.map((metric, index) =>
+              renderMetricRow(metric, index)
+            )}
+          </div>
+
+          {/* New metric row at the bottom */}
+          {showNewMetricRow && (
+            <NewMetricRow
+              people={people}
+              metrics={metrics}
+              onSave={async (newMetric) => {
+                try {
+                  await onSaveMetric(newMetric);
+                  setShowNewMetricRow(false);
+                } catch (error) {
+                  console.error('Error saving new metric:', error);
+                  alert('Failed to save metric. Please try again.');
+                }
+              }}
+              onCancel={() => setShowNewMetricRow(false)}
+            />
+          )}
+        </GridContainer>
+      )}
+
+      {view === 'week' && !showNewMetricRow && (canManageMetrics || archivedCount > 0) && (
         <ScorecardFooter>
-          <AddButton onClick={handleAddNewMetric}>+ Add Metric</AddButton>
+          {canManageMetrics && <AddButton onClick={handleAddNewMetric}>+ Add Metric</AddButton>}
+          {archivedCount > 0 && (
+            <ArchivedLink onClick={() => navigate('archived')}>
+              Archived metrics ({archivedCount})
+            </ArchivedLink>
+          )}
         </ScorecardFooter>
       )}
     </ScorecardContainer>
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Metric, Person, ScorecardInfo } from '../models/types';
+
+interface ScorecardManagerProps {
+  scorecards: ScorecardInfo[];
+  people: Person[];
+  metrics: Metric[]; // Every scorecard's metrics, to count them and tell which scorecards can be deleted
+  onSaveScorecard: (scorecard: Omit<ScorecardInfo, 'id'> & { id?: string }) => Promise<void>;
+  onDeleteScorecard: (scorecard: ScorecardInfo) => Promise<void>;
+}
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+`;
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 10px 12px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.9rem;
+`;
+
+const ScorecardName = styled.div`
+  flex: 1;
+`;
+
+const Summary = styled.span`
+  color: #666;
+  font-size: 0.9em;
+  margin-left: 6px;
+`;
+
+const LinkButton = styled.button<{ $danger?: boolean }>`
+  background: none;
+  border: none;
+  padding: 0;
+  color: ${props => props.$danger ? '#dc3545' : '#0066cc'};
+  font-size: 0.75rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+
+  &:disabled {
+    color: #aaa;
+    cursor: default;
+    text-decoration: none;
+  }
+`;
+
+const Form = styled.form`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  padding: 10px 12px;
+  background-color: #f9f9f9;
+  border-bottom: 1px solid #eee;
+`;
+
+const Input = styled.input`
+  padding: 6px;
+  border: 1px solid #ddd;
+  border-radius: 3px;
+  font-size: 13px;
+  flex: 1;
+  min-width: 160px;
+`;
+
+const Members = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px 16px;
+  width: 100%;
+  font-size: 13px;
+`;
+
+const MemberOption = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  cursor: pointer;
+`;
+
+const SaveButton = styled.button`
+  padding: 5px 10px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 3px;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2eb;
+    cursor: default;
+  }
+`;
+
+const CancelButton = styled.button`
+  padding: 5px 10px;
+  background-color: #f5f5f5;
+  color: #333;
+  border: none;
+  border-radius: 3px;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+const ErrorText = styled.div`
+  width: 100%;
+  color: #c5221f;
+  font-size: 0.8rem;
+`;
+
+// Form for a scorecard's name and the people on its team. Without a scorecard it adds a new one.
+const ScorecardForm: React.FC<{
+  scorecard?: ScorecardInfo;
+  people: Person[];
+  onSave: ScorecardManagerProps['onSaveScorecard'];
+  onDone?: () => void;
+}> = ({ scorecard, people, onSave, onDone }) => {
+  const [name, setName] = useState(scorecard?.name || '');
+  const [memberIds, setMemberIds] = useState<string[]>(scorecard?.memberIds || []);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleMember = (personId: string) => {
+    setMemberIds(ids => ids.includes(personId) ? ids.filter(id => id !== personId) : [...ids, personId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ id: scorecard?.id, name: name.trim(), memberIds });
+      setError('');
+      if (onDone) {
+        onDone();
+      } else {
+        setName('');
+        setMemberIds([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save scorecard');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <Input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={scorecard ? 'Scorecard name' : 'New scorecard name, e.g. Sales Team'}
+        autoFocus={Boolean(scorecard)}
+      />
+      <SaveButton type="submit" disabled={isSaving || !name.trim()}>
+        {scorecard ? 'Save' : 'Add scorecard'}
+      </SaveButton>
+      {onDone && <CancelButton type="button" onClick={onDone}>Cancel</CancelButton>}
+      {(scorecard || name.trim()) && (
+        <Members>
+          {people.map(person => (
+            <MemberOption key={person.id}>
+              <input
+                type="checkbox"
+                checked={memberIds.includes(person.id)}
+                onChange={() => toggleMember(person.id)}
+              />
+              {person.name}
+            </MemberOption>
+          ))}
+        </Members>
+      )}
+      {error && <ErrorText>{error}</ErrorText>}
+    </Form>
+  );
+};
+
+// Scorecards and their teams. Each scorecard owns its metrics; people can be on several teams.
+const ScorecardManager: React.FC<ScorecardManagerProps> = ({
+  scorecards,
+  people,
+  metrics,
+  onSaveScorecard,
+  onDeleteScorecard
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleDelete = async (scorecard: ScorecardInfo) => {
+    if (!window.confirm(`Delete the scorecard "${scorecard.name}"?`)) {
+      return;
+    }
+    try {
+      await onDeleteScorecard(scorecard);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scorecard');
+    }
+  };
+
+  return (
+    <Container>
+      <Header>Scorecards</Header>
+
+      {scorecards.map(scorecard => {
+        const metricCount = metrics.filter(metric => metric.scorecardId === scorecard.id).length;
+        const canDelete = metricCount === 0 && scorecards.length > 1;
+        return (
+          <React.Fragment key={scorecard.id}>
+            <Row>
+              <ScorecardName>
+                {scorecard.name}
+                <Summary>
+                  {metricCount} {metricCount === 1 ? 'metric' : 'metrics'} · {scorecard.memberIds.length} {scorecard.memberIds.length === 1 ? 'person' : 'people'}
+                </Summary>
+              </ScorecardName>
+              <LinkButton onClick={() => setEditingId(scorecard.id)}>edit</LinkButton>
+              <LinkButton
+                $danger
+                onClick={() => handleDelete(scorecard)}
+                disabled={!canDelete}
+                title={canDelete ? undefined : metricCount > 0 ? 'Delete its metrics first' : 'There must be at least one scorecard'}
+              >
+                delete
+              </LinkButton>
+            </Row>
+            {editingId === scorecard.id && (
+              <ScorecardForm
+                scorecard={scorecard}
+                people={people}
+                onSave={onSaveScorecard}
+                onDone={() => setEditingId(null)}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      <ScorecardForm people={people} onSave={onSaveScorecard} />
+      {error && <Row><ErrorText>{error}</ErrorText></Row>}
+    </Container>
+  );
+};
+
+export default ScorecardManager;
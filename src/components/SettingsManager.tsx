@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { OrgSettings } from '../models/types';
+import { weekdayNames } from '../models/calendar';
+
+interface SettingsManagerProps {
+  settings: OrgSettings;
+  onSaveSettings: (settings: OrgSettings) => Promise<void>;
+}
+
+const Container = styled.div`
+  border: 1px solid #ddd;
+  border-radius: 8px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+  margin: 20px 0;
+  overflow: hidden;
+`;
+
+const Header = styled.div`
+  padding: 16px;
+  background-color: #f5f5f5;
+  border-bottom: 2px solid #ddd;
+  font-weight: 600;
+`;
+
+const Form = styled.form`
+  padding: 16px;
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+  max-width: 400px;
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.9rem;
+  font-weight: 500;
+`;
+
+const Input = styled.input`
+  padding: 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const Select = styled.select`
+  padding: 8px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const Hint = styled.div`
+  font-size: 0.8rem;
+  font-weight: 400;
+  color: #666;
+`;
+
+const SaveButton = styled.button`
+  align-self: flex-start;
+  padding: 8px 16px;
+  background-color: #0066cc;
+  color: white;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2eb;
+    cursor: default;
+  }
+`;
+
+const SettingsManager: React.FC<SettingsManagerProps> = ({ settings, onSaveSettings }) => {
+  const [weekStartDay, setWeekStartDay] = useState(settings.weekStartDay);
+  const [timeZone, setTimeZone] = useState(settings.timeZone);
+
+  // Pick up changes saved elsewhere
+  useEffect(() => {
+    setWeekStartDay(settings.weekStartDay);
+    setTimeZone(settings.timeZone);
+  }, [settings]);
+
+  const isChanged = weekStartDay !== settings.weekStartDay || timeZone.trim() !== settings.timeZone;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSaveSettings({ weekStartDay, timeZone: timeZone.trim() });
+  };
+
+  return (
+    <Container>
+      <Header>Organization Settings</Header>
+
+      <Form onSubmit={handleSubmit}>
+        <Field>
+          Week starts on
+          <Select value={weekStartDay} onChange={(e) => setWeekStartDay(Number(e.target.value))}>
+            {weekdayNames.map((name, day) => (
+              <option key={name} value={day}>{name}</option>
+            ))}
+          </Select>
+        </Field>
+
+        <Field>
+          Time zone
+          <Input
+            type="text"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            placeholder="e.g. America/New_York"
+          />
+          <Hint>Weeks begin and end at midnight in this IANA time zone.</Hint>
+        </Field>
+
+        <Hint>Changes apply to weeks created from now on. Existing weeks keep their dates.</Hint>
+
+        <SaveButton type="submit" disabled={!isChanged || timeZone.trim() === ''}>
+          Save Settings
+        </SaveButton>
+      </Form>
+    </Container>
+  );
+};
+
+export default SettingsManager;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Metric, TargetStatus, Week, WeeklyValue } from '../models/types';
+import { formatGoal, getTargetForWeek, getTargetStatus, normalizeValue } from '../models/utils';
+
+interface SparklineProps {
+  metric: Metric;
+  weeks: Week[]; // Completed weeks, oldest first
+  weeklyValues: WeeklyValue[];
+  count?: number; // Number of most recent values to plot
+}
+
+const WIDTH = 70;
+const HEIGHT = 26;
+const PADDING = 3;
+
+const markerColors: Partial<Record<TargetStatus, string>> = {
+  'at-risk': '#b06000',
+  'off-track': '#c5221f'
+};
+
+// Tiny trend line of a metric's most recent values with its current goal as a threshold.
+// Values are normalized so mixed units (e.g. k and m) plot on one scale.
+const Sparkline: React.FC<SparklineProps> = ({ metric, weeks, weeklyValues, count = 12 }) => {
+  const weekIndex = new Map(weeks.map((week, index) => [week.id, index]));
+
+  const points = weeklyValues
+    .filter(value => value.metricId === metric.id && weekIndex.has(value.weekId) && !value.notApplicable)
+    .sort((a, b) => weekIndex.get(a.weekId)! - weekIndex.get(b.weekId)!)
+    .slice(-count)
+    .map(value => ({
+      amount: normalizeValue(value.value, value.unit),
+      status: getTargetStatus(value, getTargetForWeek(metric, weeks[weekIndex.get(value.weekId)!]), metric.tolerance)
+    }));
+
+  if (points.length < 2) {
+    return null;
+  }
+
+  const thresholds = [normalizeValue(metric.target.value, metric.target.unit)];
+  if (metric.target.operator === 'between') {
+    thresholds.push(normalizeValue(metric.target.upperValue ?? metric.target.value, metric.target.unit));
+  }
+
+  const extents = [...points.map(point => point.amount), ...thresholds];
+  const min = Math.min(...extents);
+  const max = Math.max(...extents);
+  const x = (index: number) => PADDING + ((WIDTH - PADDING * 2) * index) / (points.length - 1);
+  const y = (amount: number) => max === min
+    ? HEIGHT / 2
+    : PADDING + (HEIGHT - PADDING * 2) * (1 - (amount - min) / (max - min));
+
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(point.amount)}`).join(' ');
+  const misses = points.filter(point => point.status !== 'on-track').length;
+
+  return (
+    <svg
+      width={WIDTH}
+      height={HEIGHT}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      role="img"
+      aria-label={`${metric.name} trend`}
+    >
+      <title>{`Last ${points.length} values against ${formatGoal(metric.target, metric.valueType)}: ${misses} missed`}</title>
+      {thresholds.map(threshold => (
+        <line
+          key={threshold}
+          x1={0}
+          x2={WIDTH}
+          y1={y(threshold)}
+          y2={y(threshold)}
+          stroke="#0066cc"
+          strokeWidth={1}
+          strokeDasharray="3 2"
+          opacity={0.6}
+        />
+      ))}
+      <path d={path} fill="none" stroke="#555" strokeWidth={1.2} />
+      {points.map((point, index) => markerColors[point.status] && (
+        <circle
+          key={index}
+          cx={x(index)}
+          cy={y(point.amount)}
+          r={2}
+          fill={markerColors[point.status]}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default Sparkline;
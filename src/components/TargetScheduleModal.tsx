@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import styled from 'styled-components';
+import { Metric, TargetChange, Target, ComparisonOperator, ValueUnit } from '../models/types';
+import { formatGoal } from '../models/utils';
+import { getMetricTargetsApi, scheduleMetricTargetApi, deleteMetricTargetApi } from '../services/apiClient';
+
+interface TargetScheduleModalProps {
+  metric: Metric;
+  onClose: () => void;
+}
+
+const ModalOverlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.5);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+`;
+
+const ModalContent = styled.div`
+  background-color: white;
+  padding: 24px;
+  border-radius: 8px;
+  width: 460px;
+  max-width: 90%;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`;
+
+const ModalTitle = styled.h3`
+  margin-top: 0;
+  margin-bottom: 16px;
+  color: #333;
+`;
+
+const HistoryList = styled.div`
+  border: 1px solid #eee;
+  border-radius: 4px;
+  margin-bottom: 20px;
+  max-height: 220px;
+  overflow-y: auto;
+`;
+
+const HistoryRow = styled.div<{ $current: boolean; $upcoming: boolean }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 8px 12px;
+  border-bottom: 1px solid #eee;
+  font-size: 0.85rem;
+  background-color: ${props => props.$current ? '#e6f4ea' : 'white'};
+  color: ${props => props.$upcoming ? '#0066cc' : '#333'};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const HistoryDate = styled.span`
+  color: #666;
+  width: 140px;
+`;
+
+const HistoryGoal = styled.span`
+  flex: 1;
+  font-weight: 500;
+`;
+
+const DeleteLink = styled.span`
+  color: #dc3545;
+  font-size: 0.75rem;
+  cursor: pointer;
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const FieldLabel = styled.label`
+  display: block;
+  font-size: 0.8rem;
+  font-weight: 500;
+  margin-bottom: 4px;
+  color: #555;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 12px;
+`;
+
+const Input = styled.input`
+  padding: 5px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 13px;
+  box-sizing: border-box;
+`;
+
+const Select = styled.select`
+  padding: 5px;
+  border: 1px solid #ddd;
+  border-radius: 4px;
+  font-size: 13px;
+`;
+
+const ErrorText = styled.div`
+  color: #c5221f;
+  font-size: 0.8rem;
+  margin-bottom: 12px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`;
+
+const Button = styled.button`
+  padding: 6px 12px;
+  border: none;
+  border-radius: 4px;
+  cursor: pointer;
+  font-size: 13px;
+  transition: all 0.2s;
+`;
+
+const SaveButton = styled(Button)`
+  background-color: #0066cc;
+  color: white;
+
+  &:hover {
+    background-color: #0052a3;
+  }
+
+  &:disabled {
+    background-color: #99c2ff;
+    cursor: not-allowed;
+  }
+`;
+
+const CancelButton = styled(Button)`
+  background-color: #f5f5f5;
+  color: #333;
+
+  &:hover {
+    background-color: #e5e5e5;
+  }
+`;
+
+// Format the effective date of a history entry; the original target has an epoch date
+const formatEffectiveFrom = (change: TargetChange): string => {
+  const date = new Date(change.effectiveFrom);
+  return date.getTime() <= 0 ? 'Original' : `From ${date.toLocaleDateString()}`;
+};
+
+const TargetScheduleModal: React.FC<TargetScheduleModalProps> = ({ metric, onClose }) => {
+  const valueType = metric.valueType || 'number';
+
+  const [history, setHistory] = useState<TargetChange[]>(metric.targetHistory || []);
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [newTarget, setNewTarget] = useState<Target>(metric.target);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    if (!metric.id) return;
+    try {
+      setHistory(await getMetricTargetsApi(metric.id));
+    } catch (err) {
+      console.error('Error loading target history:', err);
+    }
+  }, [metric.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // The entry in force today is the last one whose effective date has passed
+  const now = Date.now();
+  const pastChanges = history.filter(change => new Date(change.effectiveFrom).getTime() <= now);
+  const currentChangeId = pastChanges.length > 0 ? pastChanges[pastChanges.length - 1].id : history[0]?.id;
+
+  const handleSchedule = async () => {
+    if (!metric.id) return;
+
+    if (!effectiveDate) {
+      setError('Please choose the date the new goal takes effect');
+      return;
+    }
+
+    if (isNaN(newTarget.value) ||
+        (newTarget.operator === 'between' && !(newTarget.upperValue !== undefined && newTarget.upperValue >= newTarget.value))) {
+      setError('Please enter a valid goal');
+      return;
+    }
+
+    // Interpret the picked date as local midnight, matching how week start dates are stored
+    const [year, month, day] = effectiveDate.split('-').map(Number);
+    const effectiveFrom = new Date(year, month - 1, day).toISOString();
+
+    setError('');
+    setIsSaving(true);
+    try {
+      await scheduleMetricTargetApi(metric.id, newTarget, effectiveFrom);
+      setEffectiveDate('');
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule goal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (change: TargetChange) => {
+    if (!metric.id) return;
+    try {
+      await deleteMetricTargetApi(metric.id, change.id);
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete goal change');
+    }
+  };
+
+  return (
+    <ModalOverlay onClick={onClose}>
+      <ModalContent onClick={e => e.stopPropagation()}>
+        <ModalTitle>Goal history: {metric.name}</ModalTitle>
+
+        <HistoryList>
+          {history.length === 0 ? (
+            <HistoryRow $current={true} $upcoming={false}>
+              <HistoryDate>Original</HistoryDate>
+              <HistoryGoal>{formatGoal(metric.target, valueType)}</HistoryGoal>
+            </HistoryRow>
+          ) : (
+            history.map(change => {
+              const upcoming = new Date(change.effectiveFrom).getTime() > now;
+              return (
+                <HistoryRow key={change.id} $current={change.id === currentChangeId} $upcoming={upcoming}>
+                  <HistoryDate>{formatEffectiveFrom(change)}</HistoryDate>
+                  <HistoryGoal>
+                    {formatGoal(change.target, valueType)}
+                    {upcoming && ' (scheduled)'}
+                  </HistoryGoal>
+                  {history.length > 1 && (
+                    <DeleteLink onClick={() => handleDelete(change)}>Remove</DeleteLink>
+                  )}
+                </HistoryRow>
+              );
+            })
+          )}
+        </HistoryList>
+
+        <FieldLabel htmlFor="target-effective-date">
+          Change goal for weeks starting on or after
+        </FieldLabel>
+        <FormRow>
+          <Input
+            id="target-effective-date"
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+          <Select
+            value={newTarget.operator}
+            onChange={(e) => {
+              const operator = e.target.value as ComparisonOperator;
+              setNewTarget({
+                ...newTarget,
+                operator,
+                upperValue: operator === 'between' ? (newTarget.upperValue ?? newTarget.value) : undefined
+              });
+            }}
+          >
+            <option value="gt">&gt;</option>
+            <option value="lt">&lt;</option>
+            <option value="gte">≥</option>
+            <option value="lte">≤</option>
+            <option value="eq">=</option>
+            <option value="between">↔</option>
+          </Select>
+          <Input
+            type="number"
+            value={newTarget.value}
+            onChange={(e) => setNewTarget({ ...newTarget, value: parseFloat(e.target.value) })}
+            style={{ width: '70px' }}
+          />
+          {newTarget.operator === 'between' && (
+            <Input
+              type="number"
+              value={newTarget.upperValue ?? ''}
+              onChange={(e) => setNewTarget({ ...newTarget, upperValue: parseFloat(e.target.value) })}
+              style={{ width: '70px' }}
+            />
+          )}
+          <Select
+            value={newTarget.unit}
+            onChange={(e) => setNewTarget({ ...newTarget, unit: e.target.value as ValueUnit })}
+          >
+            {valueType === 'number' && (
+              <>
+                <option value="">-</option>
+                <option value="k">k</option>
+                <option value="m">m</option>
+                <option value="b">b</option>
+              </>
+            )}
+            {valueType === 'percent' && (
+              <option value="%">%</option>
+            )}
+            {valueType === 'dollars' && (
+              <>
+                <option value="$">$</option>
+                <option value="k">$k</option>
+                <option value="m">$m</option>
+                <option value="b">$b</option>
+              </>
+            )}
+            {valueType === 'time' && (
+              <>
+                <option value="sec">sec</option>
+                <option value="min">min</option>
+                <option value="hour">hour</option>
+                <option value="day">day</option>
+              </>
+            )}
+          </Select>
+        </FormRow>
+
+        {error && <ErrorText>{error}</ErrorText>}
+
+        <ButtonGroup>
+          <CancelButton onClick={onClose}>Close</CancelButton>
+          <SaveButton onClick={handleSchedule} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Schedule Goal'}
+          </SaveButton>
+        </ButtonGroup>
+      </ModalContent>
+    </ModalOverlay>
+  );
+};
+
+export default TargetScheduleModal;
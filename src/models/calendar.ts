@@ -0,0 +1,85 @@
+import { OrgSettings, Week } from './types';
+
+// Client-side counterpart of server/weeks.js. Weeks start on the organization's
+// configured day at midnight in its time zone.
+
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Used until the server's settings have loaded
+export const DEFAULT_ORG_SETTINGS: OrgSettings = {
+  weekStartDay: 1, // Monday
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock fields of a moment in the time zone
+const zonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  return parts as unknown as ZonedParts;
+};
+
+// Calendar date (YYYY-MM-DD) a moment falls on in the time zone
+export function calendarDate(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// A week is complete once its last day is over in the organization's time zone
+export function isWeekCompleted(week: Week, settings: OrgSettings, now: Date = new Date()): boolean {
+  return calendarDate(new Date(week.endDate), settings.timeZone) < calendarDate(now, settings.timeZone);
+}
+
+// Moment a calendar day (given as a UTC date) starts in the time zone
+export const startOfDay = (day: Date, timeZone: string): Date => {
+  const utcMidnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  const offsetAt = (time: number) => {
+    const parts = zonedParts(new Date(time), timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(time / 1000) * 1000;
+  };
+  // Re-check the offset at the first guess in case a DST change falls in between
+  return new Date(utcMidnight - offsetAt(utcMidnight - offsetAt(utcMidnight)));
+};
+
+// Bounds of the most recent completed weeks, newest first. The end date is the start
+// of the week's last day, matching the weeks the server creates.
+export function recentCompletedWeeks(
+  count: number,
+  settings: OrgSettings,
+  now: Date = new Date()
+): Pick<Week, 'startDate' | 'endDate'>[] {
+  const { year, month, day } = zonedParts(now, settings.timeZone);
+  const today = new Date(Date.UTC(year, month - 1, day));
+  const currentWeekStart = today.getUTCDate() - ((today.getUTCDay() - settings.weekStartDay + 7) % 7);
+
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Date(Date.UTC(year, month - 1, currentWeekStart - 7 * (i + 1)));
+    const end = new Date(Date.UTC(year, month - 1, currentWeekStart - 7 * (i + 1) + 6));
+    return {
+      startDate: startOfDay(start, settings.timeZone).toISOString(),
+      endDate: startOfDay(end, settings.timeZone).toISOString()
+    };
+  });
+}
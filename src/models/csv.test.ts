@@ -0,0 +1,18 @@
+import { csvField, parseCsv, toCsv, withoutFormulaGuard } from './csv';
+
+describe('csvField', () => {
+  it('keeps text that starts like a formula from running in a spreadsheet', () => {
+    expect(csvField('=1+1')).toBe("'=1+1");
+    expect(csvField('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)");
+    expect(csvField('-Churn')).toBe("'-Churn");
+    expect(csvField(-300)).toBe('-300');
+    expect(csvField('Revenue')).toBe('Revenue');
+  });
+
+  it('writes text that withoutFormulaGuard reads back as it was', () => {
+    const [[name]] = parseCsv(toCsv([['+New, returning']]));
+    expect(name).toBe("'+New, returning");
+    expect(withoutFormulaGuard(name)).toBe('+New, returning');
+    expect(withoutFormulaGuard("'Quoted")).toBe("'Quoted");
+  });
+});
@@ -0,0 +1,119 @@
+import { Metric, Week, WeeklyValue } from './types';
+import { calendarDate } from './calendar';
+import { normalizeValue } from './utils';
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Text that spreadsheets would run as a formula when it starts a cell
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// A field quoted when it holds a comma, quote or line break, with quotes doubled (RFC 4180).
+// Text that would start a formula is written after an apostrophe, as spreadsheets show it.
+export function csvField(value: CsvCell): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Text as it was before csvField guarded it against being read as a formula
+export function withoutFormulaGuard(text: string): string {
+  return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+// CSV text for rows of cells, with CRLF line endings as spreadsheets expect
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Rows of fields from CSV text, the reverse of toCsv. Quoted fields may hold commas, doubled
+// quotes and line breaks; a byte order mark and blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^﻿/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// One metric's values as rows of week, dates, raw value and unit, oldest first.
+// Weeks without a value are left out.
+export function metricHistoryRows(metric: Metric, weeks: Week[], weeklyValues: WeeklyValue[], timeZone: string): CsvCell[][] {
+  const sortedWeeks = [...weeks].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+  const rows: CsvCell[][] = [['Metric', 'Week', 'Start date', 'End date', 'Value', 'Unit', 'Normalized value', 'N/A']];
+
+  sortedWeeks.forEach(week => {
+    const value = weeklyValues.find(v => v.metricId === metric.id && v.weekId === week.id);
+    if (!value) {
+      return;
+    }
+    rows.push([
+      metric.name,
+      week.name,
+      calendarDate(new Date(week.startDate), timeZone),
+      calendarDate(new Date(week.endDate), timeZone),
+      value.notApplicable ? null : value.value,
+      value.notApplicable ? null : value.unit,
+      value.notApplicable ? null : normalizeValue(value.value, value.unit),
+      value.notApplicable ? 'yes' : null
+    ]);
+  });
+
+  return rows;
+}
+
+// Have the browser save CSV text as a file
+export function downloadCsv(filename: string, csv: string): void {
+  downloadFile(filename, csv, 'text/csv;charset=utf-8');
+}
+
+// Have the browser save text, e.g. a JSON backup, as a file of the given type
+export function downloadFile(filename: string, text: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,125 @@
+import { ImportValue, Metric, Week } from './types';
+import { calendarDate } from './calendar';
+import { withoutFormulaGuard } from './csv';
+import { parseValueInput } from './utils';
+
+// Which column of an imported CSV holds each part of a value (-1 for none)
+export interface ImportColumnMapping {
+  metric: number;
+  week: number;
+  value: number;
+  unit: number; // Optional; values are otherwise read in the unit of the metric's goal
+  weekBy: 'name' | 'date'; // Match weeks by name ("Week 12") or by a date within them
+}
+
+// A data row of the CSV and the value it maps to, or why it can't be imported
+export interface MappedRow {
+  line: number; // 1-based line in the file, for pointing people at it
+  cells: string[];
+  value?: ImportValue;
+  error?: string;
+}
+
+const findColumn = (header: string[], pattern: RegExp) =>
+  header.findIndex(cell => pattern.test(cell.trim()));
+
+// A first guess at the mapping from a header row, e.g. one written by the CSV export
+export function guessMapping(header: string[]): ImportColumnMapping {
+  const dateColumn = findColumn(header, /^(start )?date$/i);
+  const weekColumn = findColumn(header, /^week$/i);
+  const byDate = weekColumn < 0 && dateColumn >= 0;
+  return {
+    metric: findColumn(header, /^metric( name)?$/i),
+    week: byDate ? dateColumn : weekColumn,
+    value: findColumn(header, /^value$/i),
+    unit: findColumn(header, /^unit$/i),
+    weekBy: byDate ? 'date' : 'name'
+  };
+}
+
+// A date as YYYY-MM-DD, from YYYY-MM-DD or M/D/YYYY; null if it's neither
+export function parseImportDate(text: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text.trim());
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text.trim());
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : us ? [us[3], us[1], us[2]] : [];
+  if (!year) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Turn CSV data rows into values for the scorecard's metrics. Metrics are matched by name,
+// ignoring case and the apostrophe the export puts ahead of one that starts like a formula. "N/A" marks a week not applicable; calculated and archived metrics are
+// left for the server to refuse. Dates outside every week are sent as they are, for the
+// server to create their weeks.
+export function mapImportRows(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  metrics: Metric[],
+  weeks: Week[],
+  timeZone: string,
+  firstLine = 1
+): MappedRow[] {
+  const metricsByName = new Map(metrics.map(metric => [metric.name.trim().toLowerCase(), metric]));
+  const weeksByName = new Map(weeks.map(week => [week.name.trim().toLowerCase(), week]));
+  const weekRanges = weeks.map(week => ({
+    week,
+    start: calendarDate(new Date(week.startDate), timeZone),
+    end: calendarDate(new Date(week.endDate), timeZone)
+  }));
+
+  // Where a value goes: an existing week's id, or for a date in none of them the date itself
+  const findWeek = (text: string): Pick<ImportValue, 'weekId' | 'date'> | undefined => {
+    if (mapping.weekBy === 'name') {
+      const week = weeksByName.get(text.trim().toLowerCase());
+      return week && { weekId: week.id };
+    }
+    const date = parseImportDate(text);
+    if (!date) {
+      return undefined;
+    }
+    const week = weekRanges.find(range => range.start <= date && date <= range.end)?.week;
+    return week ? { weekId: week.id } : { date };
+  };
+
+  return rows.map((cells, index) => {
+    const line = firstLine + index;
+    const cell = (column: number) => (column >= 0 ? cells[column] || '' : '').trim();
+
+    const metricName = cell(mapping.metric).toLowerCase();
+    const metric = metricsByName.get(metricName) || metricsByName.get(withoutFormulaGuard(metricName));
+    if (!metric) {
+      return { line, cells, error: cell(mapping.metric) ? `No metric named "${cell(mapping.metric)}"` : 'No metric' };
+    }
+
+    const week = findWeek(cell(mapping.week));
+    if (!week) {
+      if (!cell(mapping.week)) {
+        return { line, cells, error: 'No week' };
+      }
+      return {
+        line,
+        cells,
+        error: mapping.weekBy === 'name' ? `No week matches "${cell(mapping.week)}"` : `"${cell(mapping.week)}" isn't a date`
+      };
+    }
+
+    const text = `${cell(mapping.value)} ${cell(mapping.unit)}`.trim();
+    if (/^n\/?a$/i.test(cell(mapping.value))) {
+      return { line, cells, value: { metricId: metric.id as string, ...week, value: 0, unit: '', notApplicable: true } };
+    }
+
+    const parsed = parseValueInput(text, metric.valueType, metric.target.unit);
+    if (!parsed) {
+      return { line, cells, error: text ? `"${text}" isn't a valid value for ${metric.name}` : 'No value' };
+    }
+    return { line, cells, value: { metricId: metric.id as string, ...week, value: parsed.value, unit: parsed.unit } };
+  });
+}
@@ -0,0 +1,321 @@
+import { Metric, Week, WeeklyValue, ValueType, ValueUnit } from './types';
+import { convertValue } from './utils';
+
+// Calculated metrics derive their weekly value from an expression over other
+// metrics, e.g. "Revenue / New Customers" or "Won / (Won + Lost) * 100".
+// Metric names are matched case-insensitively; names containing operators or
+// parentheses can be wrapped in square brackets, e.g. "[Won-Lost] / 2".
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'operator'; value: '+' | '-' | '*' | '/' }
+  | { type: 'paren'; value: '(' | ')' };
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'metric'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+export class FormulaError extends Error {}
+
+const OPERATOR_CHARS = '+-*/()';
+
+// Normalize a metric name for matching formula references
+const nameKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (OPERATOR_CHARS.includes(char)) {
+      const type = char === '(' || char === ')' ? 'paren' : 'operator';
+      tokens.push({ type, value: char } as Token);
+      i++;
+    } else if (char === '[') {
+      const close = formula.indexOf(']', i);
+      if (close === -1) {
+        throw new FormulaError('Missing closing ] for metric name');
+      }
+      tokens.push({ type: 'name', value: formula.slice(i + 1, close).trim() });
+      i = close + 1;
+    } else {
+      // Read up to the next operator, keeping spaces so multi-word names stay together
+      let end = i;
+      while (end < formula.length && !OPERATOR_CHARS.includes(formula[end]) && formula[end] !== '[') {
+        end++;
+      }
+      const text = formula.slice(i, end).trim();
+      if (/^\d*\.?\d+$/.test(text)) {
+        tokens.push({ type: 'number', value: parseFloat(text) });
+      } else {
+        tokens.push({ type: 'name', value: text });
+      }
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent parser: expression := term (('+'|'-') term)*, term := factor (('*'|'/') factor)*
+function parse(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseFactor = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new FormulaError('Formula ends unexpectedly');
+    }
+    if (token.type === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+    if (token.type === 'name') {
+      return { kind: 'metric', name: token.value };
+    }
+    if (token.type === 'operator' && token.value === '-') {
+      return { kind: 'negate', operand: parseFactor() };
+    }
+    if (token.type === 'paren' && token.value === '(') {
+      const inner = parseExpression();
+      const close = tokens[position++];
+      if (!close || close.type !== 'paren' || close.value !== ')') {
+        throw new FormulaError('Missing closing parenthesis');
+      }
+      return inner;
+    }
+    throw new FormulaError(`Unexpected "${token.value}"`);
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseFactor();
+    let next = peek();
+    while (next && next.type === 'operator' && (next.value === '*' || next.value === '/')) {
+      position++;
+      node = { kind: 'binary', operator: next.value, left: node, right: parseFactor() };
+      next = peek();
+    }
+    return node;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    let next = peek();
+    while (next && next.type === 'operator' && (next.value === '+' || next.value === '-')) {
+      position++;
+      node = { kind: 'binary', operator: next.value, left: node, right: parseTerm() };
+      next = peek();
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) {
+    throw new FormulaError('Formula is empty');
+  }
+
+  const root = parseExpression();
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[position].value}"`);
+  }
+  return root;
+}
+
+function collectReferences(node: FormulaNode, names: string[]): string[] {
+  switch (node.kind) {
+    case 'metric':
+      names.push(node.name);
+      break;
+    case 'negate':
+      collectReferences(node.operand, names);
+      break;
+    case 'binary':
+      collectReferences(node.left, names);
+      collectReferences(node.right, names);
+      break;
+    default:
+      break;
+  }
+  return names;
+}
+
+// Names of the metrics a formula refers to
+export function getFormulaReferences(formula: string): string[] {
+  return collectReferences(parse(formula), []);
+}
+
+// Evaluate a parsed formula; returns null when an input is missing or a division by zero occurs
+function evaluate(node: FormulaNode, lookup: (name: string) => number | null): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'metric':
+      return lookup(node.name);
+    case 'negate': {
+      const operand = evaluate(node.operand, lookup);
+      return operand === null ? null : -operand;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, lookup);
+      const right = evaluate(node.right, lookup);
+      if (left === null || right === null) {
+        return null;
+      }
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? null : left / right;
+      }
+    }
+  }
+  return null;
+}
+
+// Check a formula for syntax errors, unknown metrics and circular references.
+// Returns an error message, or null if the formula is valid.
+export function validateFormula(formula: string, metricName: string, metrics: Metric[]): string | null {
+  const byName = new Map(metrics.map(metric => [nameKey(metric.name), metric]));
+
+  let references: string[];
+  try {
+    references = getFormulaReferences(formula);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid formula';
+  }
+
+  const missing = references.filter(name => !byName.has(nameKey(name)));
+  if (missing.length > 0) {
+    return `Unknown metric${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+  }
+
+  // Walk the references, treating this metric as having the proposed formula
+  const formulaFor = (name: string): string | undefined =>
+    nameKey(name) === nameKey(metricName) ? formula : byName.get(nameKey(name))?.formula;
+
+  const visit = (name: string, path: string[]): string | null => {
+    if (path.includes(nameKey(name))) {
+      return `Circular reference: ${[...path, nameKey(name)].map(key => byName.get(key)?.name || metricName).join(' → ')}`;
+    }
+    const dependencyFormula = formulaFor(name);
+    if (!dependencyFormula) {
+      return null;
+    }
+    let dependencies: string[];
+    try {
+      dependencies = getFormulaReferences(dependencyFormula);
+    } catch {
+      return null;
+    }
+    for (const dependency of dependencies) {
+      const cycle = visit(dependency, [...path, nameKey(name)]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  return visit(metricName, []);
+}
+
+// Formulas work in base units: inputs are converted to the base unit of their
+// metric's value type (percentages as 0-100, money in dollars, time in seconds)
+// and the result is read in the calculated metric's base unit
+export function baseUnitForValueType(valueType: ValueType = 'number'): ValueUnit {
+  switch (valueType) {
+    case 'percent':
+      return '%';
+    case 'dollars':
+      return '$';
+    case 'time':
+      return 'sec';
+    default:
+      return '';
+  }
+}
+
+// Compute the weekly values of every calculated metric from the entered values.
+// Weeks where an input is missing or N/A (or a division by zero occurs) get no value.
+export function computeCalculatedValues(metrics: Metric[], weeks: Week[], weeklyValues: WeeklyValue[]): WeeklyValue[] {
+  const calculatedMetrics = metrics.filter(metric => metric.id && metric.formula);
+  if (calculatedMetrics.length === 0) {
+    return [];
+  }
+
+  const byName = new Map(metrics.map(metric => [nameKey(metric.name), metric]));
+  const parsed = new Map<string, FormulaNode | null>();
+  calculatedMetrics.forEach(metric => {
+    try {
+      parsed.set(metric.id as string, parse(metric.formula as string));
+    } catch {
+      parsed.set(metric.id as string, null);
+    }
+  });
+
+  const entered = new Map(weeklyValues
+    .filter(value => !value.notApplicable)
+    .map(value => [`${value.metricId}:${value.weekId}`, value]));
+  const results: WeeklyValue[] = [];
+
+  weeks.forEach(week => {
+    const cache = new Map<string, number | null>();
+    const inProgress = new Set<string>();
+
+    // Value of a metric for this week in its base unit, evaluating formulas recursively
+    const valueOf = (metric: Metric): number | null => {
+      const id = metric.id as string;
+      if (cache.has(id)) {
+        return cache.get(id) as number | null;
+      }
+
+      let result: number | null = null;
+      if (metric.formula) {
+        const node = parsed.get(id);
+        if (node && !inProgress.has(id)) {
+          inProgress.add(id);
+          result = evaluate(node, name => {
+            const dependency = byName.get(nameKey(name));
+            return dependency ? valueOf(dependency) : null;
+          });
+          inProgress.delete(id);
+        }
+      } else {
+        const value = entered.get(`${id}:${week.id}`);
+        result = value ? convertValue(value.value, value.unit, baseUnitForValueType(metric.valueType)) : null;
+      }
+
+      cache.set(id, result);
+      return result;
+    };
+
+    calculatedMetrics.forEach(metric => {
+      const value = valueOf(metric);
+      if (value === null || !isFinite(value)) {
+        return;
+      }
+
+      results.push({
+        metricId: metric.id as string,
+        weekId: week.id,
+        value: parseFloat(value.toFixed(4)),
+        unit: baseUnitForValueType(metric.valueType),
+        calculated: true
+      });
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,31 @@
+import { getPeriodForWeek, groupWeeksIntoPeriods } from './periods';
+import { Week } from './types';
+
+// Sydney weeks starting Monday 24 June and Monday 1 July 2024; the second is still 30 June in UTC
+const weeks: Week[] = [
+  { id: 'w1', name: 'Week 1', startDate: '2024-06-23T14:00:00.000Z', endDate: '2024-06-29T14:00:00.000Z' },
+  { id: 'w2', name: 'Week 2', startDate: '2024-06-30T14:00:00.000Z', endDate: '2024-07-06T14:00:00.000Z' }
+];
+
+describe('getPeriodForWeek', () => {
+  it('uses the day the week starts in the time zone', () => {
+    const month = getPeriodForWeek(weeks[1], 'monthly', 'Australia/Sydney');
+    expect(month.id).toBe('2024-07');
+    expect(month.name).toBe('Jul 2024');
+    expect(month.startDate).toBe('2024-06-30T14:00:00.000Z');
+    expect(month.endDate).toBe('2024-07-31T13:59:59.999Z');
+    expect(getPeriodForWeek(weeks[1], 'quarterly', 'Australia/Sydney').id).toBe('2024-Q3');
+    expect(getPeriodForWeek(weeks[1], 'biweekly', 'Australia/Sydney').id).toBe('2024-06-24');
+  });
+
+  it('puts the same moment in June for an organization on UTC', () => {
+    expect(getPeriodForWeek(weeks[1], 'monthly', 'UTC').id).toBe('2024-06');
+  });
+});
+
+describe('groupWeeksIntoPeriods', () => {
+  it('splits weeks at the month boundary of the time zone', () => {
+    const periods = groupWeeksIntoPeriods(weeks, 'monthly', 'Australia/Sydney');
+    expect(periods.map(period => [period.id, period.weekIds])).toEqual([['2024-06', ['w1']], ['2024-07', ['w2']]]);
+  });
+});
@@ -0,0 +1,85 @@
+import { Cadence, Period, Week } from './types';
+import { calendarDate, DEFAULT_ORG_SETTINGS, startOfDay } from './calendar';
+
+export const cadenceLabels: Record<Cadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bi-weekly periods are counted in pairs of weeks from this Monday
+const BIWEEKLY_EPOCH = Date.UTC(1970, 0, 5);
+
+// Calendar days are handled as UTC dates
+const utcDay = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const formatMonthDay = (day: Date) => `${day.getUTCMonth() + 1}/${day.getUTCDate()}`;
+
+// Bounds of a period from the start of its first day to the end of its last
+const periodBounds = (first: Date, last: Date, timeZone: string) => ({
+  startDate: startOfDay(first, timeZone).toISOString(),
+  endDate: new Date(startOfDay(utcDay(last.getUTCFullYear(), last.getUTCMonth(), last.getUTCDate() + 1), timeZone).getTime() - 1).toISOString()
+});
+
+// The period of the given cadence that contains a week, identified by the calendar day the week
+// starts on in the organization's time zone (mirrors periodFor in server/weeks.js).
+// Weeks are assigned wholly to the month or quarter they start in.
+export function getPeriodForWeek(week: Week, cadence: Cadence, timeZone: string = DEFAULT_ORG_SETTINGS.timeZone): Week {
+  const [year, month, day] = calendarDate(new Date(week.startDate), timeZone).split('-').map(Number);
+
+  switch (cadence) {
+    case 'biweekly': {
+      const weeksSinceEpoch = Math.round((Date.UTC(year, month - 1, day) - BIWEEKLY_EPOCH) / (7 * DAY_MS));
+      const start = new Date(BIWEEKLY_EPOCH + Math.floor(weeksSinceEpoch / 2) * 14 * DAY_MS);
+      const end = new Date(start.getTime() + 13 * DAY_MS);
+      return {
+        id: start.toISOString().slice(0, 10),
+        name: `${formatMonthDay(start)}-${formatMonthDay(end)}`,
+        ...periodBounds(start, end, timeZone)
+      };
+    }
+    case 'monthly': {
+      const first = utcDay(year, month - 1, 1);
+      return {
+        id: `${year}-${String(month).padStart(2, '0')}`,
+        name: first.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+        ...periodBounds(first, utcDay(year, month, 0), timeZone)
+      };
+    }
+    case 'quarterly': {
+      const quarter = Math.floor((month - 1) / 3);
+      return {
+        id: `${year}-Q${quarter + 1}`,
+        name: `Q${quarter + 1} ${year}`,
+        ...periodBounds(utcDay(year, quarter * 3, 1), utcDay(year, quarter * 3 + 3, 0), timeZone)
+      };
+    }
+    default:
+      return week;
+  }
+}
+
+// Group chronologically sorted weeks into consecutive periods of a cadence.
+// Weekly cadence yields one period per week.
+export function groupWeeksIntoPeriods(
+  weeks: Week[],
+  cadence: Cadence = 'weekly',
+  timeZone: string = DEFAULT_ORG_SETTINGS.timeZone
+): Period[] {
+  const periods: Period[] = [];
+
+  weeks.forEach(week => {
+    const info = getPeriodForWeek(week, cadence, timeZone);
+    const last = periods[periods.length - 1];
+    if (last && last.id === info.id) {
+      last.weekIds.push(week.id);
+    } else {
+      periods.push({ ...info, weekIds: [week.id] });
+    }
+  });
+
+  return periods;
+}
@@ -0,0 +1,26 @@
+import { Metric, Role, User } from './types';
+
+// Mirrors server/permissions.js. Admins run the organization: metrics, people, logins and settings.
+// Facilitators run the meeting and may edit any metric's values, details, goals and order.
+// Members may only enter the values of the metrics they own. The server enforces these rules;
+// the UI uses them to show read-only controls rather than ones that would be refused.
+
+export const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  facilitator: 'Facilitator',
+  member: 'Member'
+};
+
+export function isAdmin(user: User): boolean {
+  return user.role === 'admin';
+}
+
+// Admins and facilitators
+export function canFacilitate(user: User): boolean {
+  return user.role === 'admin' || user.role === 'facilitator';
+}
+
+// Whether the user may enter a metric's values. Its details and goals are for facilitators (canFacilitate).
+export function canEditMetric(user: User, metric: Metric): boolean {
+  return canFacilitate(user) || metric.owner.id === user.person.id;
+}
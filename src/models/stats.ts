@@ -0,0 +1,62 @@
+import { Metric, MetricStats, Week, WeeklyValue } from './types';
+import { convertValue, getTargetForWeek, isOnTarget } from './utils';
+
+// Window sizes, in weeks, for the rolling averages and hit rate
+export const SHORT_WINDOW = 4;
+export const LONG_WINDOW = 13;
+
+interface TrendEntry {
+  weekId: string;
+  value: number; // In the unit of the metric's goal
+  onTarget: boolean;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+
+// Compute a metric's trend statistics from its values in the given completed weeks (sorted
+// chronologically). Rolling windows cover the most recent weeks whether or not they have a
+// value; the streak and delta follow the recorded values, so less frequent cadences compare
+// one period with the previous one. Weeks marked N/A are skipped.
+export function computeMetricStats(metric: Metric, weeks: Week[], weeklyValues: WeeklyValue[]): MetricStats {
+  const weekIndex = new Map(weeks.map((week, index) => [week.id, index]));
+  const goalUnit = metric.target.unit;
+
+  const entries: TrendEntry[] = weeklyValues
+    .filter(value => value.metricId === metric.id && weekIndex.has(value.weekId) && !value.notApplicable)
+    .sort((a, b) => weekIndex.get(a.weekId)! - weekIndex.get(b.weekId)!)
+    .map(value => ({
+      weekId: value.weekId,
+      value: convertValue(value.value, value.unit, goalUnit),
+      onTarget: isOnTarget(value, getTargetForWeek(metric, weeks[weekIndex.get(value.weekId)!]))
+    }));
+
+  const inWindow = (size: number) => {
+    const recent = new Set(weeks.slice(-size).map(week => week.id));
+    return entries.filter(entry => recent.has(entry.weekId));
+  };
+
+  const shortWindow = inWindow(SHORT_WINDOW);
+  const longWindow = inWindow(LONG_WINDOW);
+
+  let streak: MetricStats['streak'] = null;
+  if (entries.length > 0) {
+    const latest = entries[entries.length - 1].onTarget;
+    let length = 0;
+    for (let i = entries.length - 1; i >= 0 && entries[i].onTarget === latest; i--) {
+      length++;
+    }
+    streak = { onTarget: latest, length };
+  }
+
+  return {
+    metricId: metric.id as string,
+    unit: goalUnit,
+    averageShort: average(shortWindow.map(entry => entry.value)),
+    averageLong: average(longWindow.map(entry => entry.value)),
+    hitRate: longWindow.length > 0 ? longWindow.filter(entry => entry.onTarget).length / longWindow.length : null,
+    valueCount: longWindow.length,
+    streak,
+    delta: entries.length > 1 ? entries[entries.length - 1].value - entries[entries.length - 2].value : null
+  };
+}
@@ -1,19 +1,131 @@
-export type ComparisonOperator = 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
+export type ComparisonOperator = 'gt' | 'lt' | 'gte' | 'lte' | 'eq' | 'between';
 
 export type ValueUnit = '' | 'k' | 'm' | 'b' | '%' | '$' | 'sec' | 'min' | 'hour' | 'day';
 
 export type ValueType = 'number' | 'percent' | 'dollars' | 'time';
 
+export type TargetStatus = 'on-track' | 'at-risk' | 'off-track';
+
+export type ToleranceType = 'absolute' | 'percent';
+
+export type AggregationMethod = 'sum' | 'avg' | 'last' | 'min' | 'max';
+
+export type RollupPeriodType = 'month' | 'quarter';
+
+export type Cadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
 export interface Person {
   id: string;
   name: string;
-  email: string;
+  email: string | null; // Null for people imported from exports that only have names
+  deactivatedAt?: string; // Set once they've left: kept for history, but hidden from owner pickers and Segue
+}
+
+// A scorecard exported as CSV: the grid as shown, or one row per value
+export type CsvExportFormat = 'grid' | 'long';
+
+export interface CsvExportOptions {
+  format: CsvExportFormat;
+  from?: string; // YYYY-MM-DD; weeks starting on or after it
+  to?: string; // YYYY-MM-DD; weeks starting on or before it
+}
+
+// What importing a value does: add one, replace a different one, nothing, or fail
+export type ImportStatus = 'create' | 'overwrite' | 'unchanged' | 'conflict';
+
+export interface ImportResult {
+  index: number; // Position of the value in the imported list
+  status: ImportStatus;
+  metricId: string;
+  weekId: string; // The first week of the period for metrics that aren't weekly
+  previous?: WeeklyValue; // The value it replaces or matches
+  error?: string; // Why it conflicts
+}
+
+export interface ImportReport {
+  results: ImportResult[];
+  newWeeks: Week[]; // Weeks the values' dates need, created with them
+  counts: Record<ImportStatus, number>;
+}
+
+// A value to import: into a week, or on a date whose week is created if there isn't one yet
+export interface ImportValue extends Omit<WeeklyValue, 'weekId'> {
+  weekId?: string;
+  date?: string; // YYYY-MM-DD, in place of weekId
+}
+
+// How a backup is restored: make the database match it, or add and update its rows
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  counts: Record<string, { created: number, updated: number }>; // Rows of each table
+}
+
+// An EOS tool whose scorecard export can be imported (see server/importers)
+export interface EosImportFormat {
+  id: string; // e.g. 'eos-one' or 'ninety'
+  name: string;
+  fileType: 'json' | 'csv'; // CSV exports are sent as text
+  instructions: string; // Where to find the export
+}
+
+// What importing an EOS tool's measurable does to the metric it matches
+export type EosImportStatus = 'new' | 'updated' | 'unchanged' | 'skipped';
+
+export interface EosImportReport {
+  scorecardId: string;
+  people: {
+    name: string,
+    email: string | null, // Null for new people the export has no email for
+    status: 'new' | 'matched'
+  }[]; // Owners of the imported metrics
+  weeks: { new: number, matched: number };
+  metrics: {
+    eosId: string | null; // The tool's id for the measurable, if its export has one
+    name: string;
+    status: EosImportStatus;
+    reason?: string; // Why it's skipped
+    values: Record<EosImportStatus, number>;
+    notes: string[]; // Why values are skipped
+  }[];
+  counts: Record<EosImportStatus, number>;
+}
+
+// A new owner for one of a departing person's metrics
+export interface OwnerReassignment {
+  metricId: string;
+  ownerId: string;
+}
+
+// A team's scorecard. It owns its metrics; people can be members of several.
+export interface ScorecardInfo {
+  id: string;
+  name: string;
+  displayOrder?: number;
+  memberIds: string[]; // IDs of the people on the team
 }
 
 export interface Target {
-  value: number;
+  value: number; // Lower bound when operator is 'between'
   unit: ValueUnit;
   operator: ComparisonOperator;
+  upperValue?: number; // Upper bound, only used when operator is 'between'
+}
+
+// A target that applies to weeks starting on or after effectiveFrom
+export interface TargetChange {
+  id: string;
+  metricId: string;
+  target: Target;
+  effectiveFrom: string; // ISO date string
+}
+
+// How far a value may miss its target and still count as "at risk" rather than off track
+export interface Tolerance {
+  value: number; // In the target's unit for 'absolute', or a percentage of the target for 'percent'
+  type: ToleranceType;
 }
 
 export interface Metric {
@@ -21,8 +133,15 @@ export interface Metric {
   name: string;
   target: Target;
   owner: Person;
-  displayOrder?: number;
+  scorecardId?: string; // The scorecard the metric is on; new metrics go on the one being viewed
+  displayOrder?: number; // Position on its scorecard
   valueType?: ValueType; // Added to support different types of metrics
+  tolerance?: Tolerance;
+  targetHistory?: TargetChange[]; // Oldest first, may include scheduled future changes
+  formula?: string; // Set for calculated metrics, e.g. "Revenue / New Customers"
+  aggregation?: AggregationMethod; // How weekly values combine into monthly/quarterly rollups
+  cadence?: Cadence; // How often a value is recorded; defaults to weekly
+  archivedAt?: string; // Set once the metric is retired: hidden from the scorecard, with its history kept read-only
 }
 
 export interface WeeklyValue {
@@ -30,6 +149,18 @@ export interface WeeklyValue {
   weekId: string;   // This must be a valid ID
   value: number;
   unit: ValueUnit;
+  calculated?: boolean; // Derived from a formula rather than entered
+  notApplicable?: boolean; // Marked N/A (e.g. office closed); has no value and isn't judged against the goal
+}
+
+// A note on a metric's value cell for a week; the comments on a cell form its thread
+export interface ValueComment {
+  id: string;
+  metricId: string;
+  weekId: string;
+  author: Person | null; // Null once the author has been deleted
+  body: string;
+  createdAt: string; // ISO date string
 }
 
 export interface Week {
@@ -39,8 +170,111 @@ export interface Week {
   name: string; // e.g., "Week 12"
 }
 
+// A run of weeks (e.g. a month or quarter) that a value or rollup covers.
+// Shaped like a Week so it can stand in for one.
+export interface Period extends Week {
+  weekIds: string[]; // Chronological
+}
+
+export interface RollupValue {
+  metricId: string;
+  periodId: string;
+  value: number; // In the unit of the metric's goal
+  unit: ValueUnit;
+  weekCount: number; // Number of weeks with a value in the period
+}
+
+export interface Rollup {
+  period: RollupPeriodType;
+  periods: Period[];
+  values: RollupValue[];
+}
+
+// Trend figures for a metric over the most recent completed weeks, in the unit of its goal
+export interface MetricStats {
+  metricId: string;
+  unit: ValueUnit;
+  averageShort: number | null; // Average of the values in the last 4 weeks
+  averageLong: number | null; // Average of the values in the last 13 weeks
+  hitRate: number | null; // Share of the values in the last 13 weeks that met their goal (0-1)
+  valueCount: number; // Number of values in the last 13 weeks
+  streak: { onTarget: boolean; length: number } | null; // Latest run of values on the same side of the goal
+  delta: number | null; // Latest value minus the one before it
+}
+
+// Organization-wide calendar settings that define week boundaries
+export interface OrgSettings {
+  weekStartDay: number; // 0 = Sunday ... 6 = Saturday
+  timeZone: string; // IANA time zone, e.g. "America/New_York"
+}
+
+// What a user may change; see models/permissions.ts
+export type Role = 'admin' | 'facilitator' | 'member';
+
+// A login account. Each signs in as one person.
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  person: Person;
+  createdAt: string;
+}
+
+export interface AuthStatus {
+  needsSetup: boolean; // No accounts exist yet, so the first-run admin has to be created
+  user: User | null; // Who is signed in with this browser's session
+}
+
+// Details of the first-run admin account and the person it signs in as
+export interface AdminSetup {
+  name: string;
+  email: string;
+  username: string;
+  password: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'archive' | 'unarchive' | 'deactivate' | 'reactivate' | 'reorder' | 'import';
+
+// A row as the server stores it (snake_case columns), as recorded in the audit log
+export type AuditRow = Record<string, unknown>;
+
+// An entry in the audit log. before and after hold the affected row; metric reorders hold the
+// metric IDs in order.
+export interface AuditEntry {
+  id: string;
+  entityType: string; // e.g. 'metric', 'metric_target', 'weekly_value', 'comment', 'person', 'scorecard', 'settings'
+  entityId: string | null;
+  metricId: string | null;
+  weekId: string | null;
+  action: AuditAction;
+  before: AuditRow | string[] | null;
+  after: AuditRow | string[] | null;
+  actor: string | null;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  metricId?: string;
+  weekId?: string;
+  actor?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// One page of audit entries, newest first
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number; // Entries matching the filters across all pages
+  limit: number;
+  offset: number;
+}
+
 export interface MetricStatus {
   metric: Metric;
   weeklyValue: WeeklyValue;
-  isOnTarget: boolean;
+  status: TargetStatus;
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { Target, WeeklyValue, ComparisonOperator, ValueUnit, Week, ValueType, Metric } from './types';
+import { Target, WeeklyValue, ComparisonOperator, ValueUnit, Week, ValueType, Metric, Tolerance, TargetStatus, TargetChange } from './types';
 
 // Helper function to format numbers with thousand separators and appropriate decimal places
 export function formatNumber(num: number, forceDecimals = false): string {
@@ -84,6 +84,147 @@ export function normalizeValue(value: number, unit: ValueUnit): number {
   }
 }
 
+// Convert a value from one unit to another via their normalized form
+export function convertValue(value: number, fromUnit: ValueUnit, toUnit: ValueUnit): number {
+  return normalizeValue(value, fromUnit) / normalizeValue(1, toUnit);
+}
+
+// Check whether a unit makes sense for a metric's value type
+export function isUnitCompatible(unit: ValueUnit, valueType: ValueType = 'number'): boolean {
+  switch (valueType) {
+    case 'percent':
+      return unit === '%';
+    case 'dollars':
+      return ['$', 'k', 'm', 'b'].includes(unit);
+    case 'time':
+      return ['sec', 'min', 'hour', 'day'].includes(unit);
+    default:
+      return ['', 'k', 'm', 'b'].includes(unit);
+  }
+}
+
+export interface ParsedValue {
+  value: number;
+  unit: ValueUnit;
+}
+
+type TimeUnit = 'sec' | 'min' | 'hour' | 'day';
+
+// Scale suffixes accepted for number and dollar values
+const SCALE_SUFFIXES: Record<string, ValueUnit> = {
+  k: 'k', thousand: 'k',
+  m: 'm', mm: 'm', million: 'm',
+  b: 'b', bn: 'b', billion: 'b'
+};
+
+// Duration suffixes accepted for time values ("m" means minutes here, not millions)
+const TIME_SUFFIXES: Record<string, TimeUnit> = {
+  s: 'sec', sec: 'sec', secs: 'sec', second: 'sec', seconds: 'sec',
+  m: 'min', min: 'min', mins: 'min', minute: 'min', minutes: 'min',
+  h: 'hour', hr: 'hour', hrs: 'hour', hour: 'hour', hours: 'hour',
+  d: 'day', day: 'day', days: 'day'
+};
+
+const TIME_UNIT_ORDER: TimeUnit[] = ['sec', 'min', 'hour', 'day'];
+
+// Round away floating point noise from unit conversions
+function roundParsed(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
+
+// Parse durations such as "2h 30m", "1d 4h", "90 min" or "2:30" (hours:minutes[:seconds])
+function parseDuration(text: string, defaultUnit: ValueUnit): ParsedValue | null {
+  const clockMatch = text.match(/^(-?)(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clockMatch) {
+    const [, sign, hours, minutes, seconds] = clockMatch;
+    const totalSeconds = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0);
+    return { value: roundParsed((sign ? -1 : 1) * totalSeconds / 3600), unit: 'hour' };
+  }
+
+  // A bare number is in the metric's own unit
+  if (/^-?\d*\.?\d+$/.test(text)) {
+    return { value: parseFloat(text), unit: defaultUnit };
+  }
+
+  const componentPattern = /(\d*\.?\d+)\s*([a-z]+)\s*/g;
+  const negative = text.startsWith('-');
+  const body = negative ? text.slice(1).trim() : text;
+
+  let totalSeconds = 0;
+  let largestUnit: TimeUnit | null = null;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = componentPattern.exec(body)) !== null) {
+    if (match.index !== consumed) {
+      return null;
+    }
+    consumed = match.index + match[0].length;
+
+    const unit = TIME_SUFFIXES[match[2]];
+    if (!unit) {
+      return null;
+    }
+
+    totalSeconds += normalizeValue(parseFloat(match[1]), unit);
+    if (!largestUnit || TIME_UNIT_ORDER.indexOf(unit) > TIME_UNIT_ORDER.indexOf(largestUnit)) {
+      largestUnit = unit;
+    }
+  }
+
+  if (!largestUnit || consumed !== body.length) {
+    return null;
+  }
+
+  // Express the total in the largest unit typed, so "2h 30m" becomes 2.5 hours
+  const value = totalSeconds / normalizeValue(1, largestUnit);
+  return { value: roundParsed(negative ? -value : value), unit: largestUnit };
+}
+
+// Parse free-form value entry such as "1.2m", "$4,500", "45%" or "2h 30m" into a value
+// and unit for a metric's value type. Bare numbers are taken to be in defaultUnit.
+// Returns null when the input isn't a number or uses a unit the value type can't hold.
+export function parseValueInput(input: string, valueType: ValueType = 'number', defaultUnit: ValueUnit = ''): ParsedValue | null {
+  let text = input.trim().toLowerCase();
+  if (text === '') {
+    return null;
+  }
+
+  // Drop thousands separators and currency symbols, remembering whether one was typed
+  text = text.replace(/(\d),(?=\d{3}(\D|$))/g, '$1');
+  const hasCurrency = /[$€£]/.test(text);
+  text = text.replace(/[$€£]/g, '').replace(/^(-?)\s+/, '$1').trim();
+
+  if (valueType === 'time') {
+    return hasCurrency ? null : parseDuration(text, defaultUnit);
+  }
+
+  const match = text.match(/^(-?\d*\.?\d+)\s*([a-z%]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+  const suffix = match[2];
+
+  let unit: ValueUnit;
+  if (suffix === '') {
+    // A bare currency amount is in whole dollars; otherwise use the metric's unit
+    unit = hasCurrency ? '$' : defaultUnit;
+    if (!hasCurrency) {
+      return { value, unit };
+    }
+  } else if (suffix === '%') {
+    unit = '%';
+  } else if (SCALE_SUFFIXES[suffix]) {
+    unit = SCALE_SUFFIXES[suffix];
+  } else {
+    return null;
+  }
+
+  return isUnitCompatible(unit, valueType) ? { value, unit } : null;
+}
+
 // Compare a weekly value against its target
 export function isOnTarget(weeklyValue: WeeklyValue, target: Target): boolean {
   const normalizedActual = normalizeValue(weeklyValue.value, weeklyValue.unit);
@@ -100,11 +241,81 @@ export function isOnTarget(weeklyValue: WeeklyValue, target: Target): boolean {
       return normalizedActual <= normalizedTarget;
     case 'eq':
       return normalizedActual === normalizedTarget;
+    case 'between': {
+      // Both bounds are inclusive and share the target's unit
+      const normalizedUpper = normalizeValue(target.upperValue ?? target.value, target.unit);
+      return normalizedActual >= normalizedTarget && normalizedActual <= normalizedUpper;
+    }
     default:
       return false;
   }
 }
 
+// Resolve the target that was in force for a week from the metric's target history.
+// Weeks before the first recorded change use the earliest known target.
+export function getTargetForWeek(metric: Metric, week: Week): Target {
+  const history = metric.targetHistory || [];
+  if (history.length === 0) {
+    return metric.target;
+  }
+
+  const weekStart = new Date(week.startDate).getTime();
+  const inForce = history.filter(change => new Date(change.effectiveFrom).getTime() <= weekStart);
+
+  return inForce.length > 0 ? inForce[inForce.length - 1].target : history[0].target;
+}
+
+// Target changes scheduled to take effect after today
+export function getUpcomingTargetChanges(metric: Metric): TargetChange[] {
+  const now = Date.now();
+  return (metric.targetHistory || []).filter(change => new Date(change.effectiveFrom).getTime() > now);
+}
+
+// Distance (in normalized units) by which a value misses its target, or 0 when on target
+function targetShortfall(weeklyValue: WeeklyValue, target: Target): { shortfall: number; bound: number } {
+  const normalizedActual = normalizeValue(weeklyValue.value, weeklyValue.unit);
+  const normalizedTarget = normalizeValue(target.value, target.unit);
+
+  if (isOnTarget(weeklyValue, target)) {
+    return { shortfall: 0, bound: normalizedTarget };
+  }
+
+  if (target.operator === 'between') {
+    const normalizedUpper = normalizeValue(target.upperValue ?? target.value, target.unit);
+    return normalizedActual < normalizedTarget
+      ? { shortfall: normalizedTarget - normalizedActual, bound: normalizedTarget }
+      : { shortfall: normalizedActual - normalizedUpper, bound: normalizedUpper };
+  }
+
+  return { shortfall: Math.abs(normalizedActual - normalizedTarget), bound: normalizedTarget };
+}
+
+// Classify a weekly value as on track, at risk (missed but within tolerance) or off track
+export function getTargetStatus(weeklyValue: WeeklyValue, target: Target, tolerance?: Tolerance): TargetStatus {
+  if (isOnTarget(weeklyValue, target)) {
+    return 'on-track';
+  }
+
+  if (!tolerance || tolerance.value <= 0) {
+    return 'off-track';
+  }
+
+  const { shortfall, bound } = targetShortfall(weeklyValue, target);
+  const allowance = tolerance.type === 'percent'
+    ? Math.abs(bound) * (tolerance.value / 100)
+    : normalizeValue(tolerance.value, target.unit);
+
+  return shortfall <= allowance ? 'at-risk' : 'off-track';
+}
+
+// Format a tolerance for display, e.g. "±5%" or "±2k"
+export function formatTolerance(tolerance: Tolerance, unit: ValueUnit, valueType?: ValueType): string {
+  if (tolerance.type === 'percent') {
+    return `±${formatNumber(tolerance.value)}%`;
+  }
+  return `±${formatValue(tolerance.value, unit, valueType)}`;
+}
+
 // Format the comparison operator to human-readable text
 export function formatOperator(operator: ComparisonOperator): string {
   switch (operator) {
@@ -118,23 +329,20 @@ export function formatOperator(operator: ComparisonOperator): string {
       return 'less than or equal to';
     case 'eq':
       return 'equal to';
+    case 'between':
+      return 'between';
     default:
       return '';
   }
 }
 
 // Format date range for week headers
-export function formatDateRange(week: Week): string {
-  const startDate = new Date(week.startDate);
-  const endDate = new Date(week.endDate);
-  
-  const formatDate = (date: Date) => {
-    const month = date.getMonth() + 1; // 1-12
-    const day = date.getDate();
-    return `${month}/${day}`;
-  };
+// Dates are shown as calendar days in the given time zone (the browser's if omitted)
+export function formatDateRange(week: Week, timeZone?: string): string {
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', timeZone });
   
-  return `${formatDate(startDate)}-${formatDate(endDate)}`;
+  return `${formatDate(week.startDate)}-${formatDate(week.endDate)}`;
 }
 
 // Format target value with operator
@@ -152,6 +360,8 @@ export function formatGoal(target: Target, valueType?: ValueType): string {
       return `≤${value}`;
     case 'eq':
       return `=${value}`;
+    case 'between':
+      return `${value}–${formatValue(target.upperValue ?? target.value, target.unit, valueType)}`;
     default:
       return value;
   }
@@ -1,4 +1,4 @@
-import { Metric, Person, Week, WeeklyValue } from '../models/types';
+import { AdminSetup, AuditFilters, AuthStatus, Role, AuditPage, CsvExportOptions, EosImportFormat, EosImportReport, ImportReport, ImportValue, Metric, OrgSettings, OwnerReassignment, Person, RestoreMode, RestoreResult, Rollup, RollupPeriodType, ScorecardInfo, Target, TargetChange, User, ValueComment, Week, WeeklyValue } from '../models/types';
 import io from 'socket.io-client';
 
 // API base URL
@@ -11,20 +11,53 @@ export interface DatabaseStatus {
   initialized: boolean;
 }
 
+// An error response from the API, with the server's reason as the message
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
 // Socket.io instance for real-time updates
 let socket: any = null;
 
+// The scorecard being viewed. Changes to its metrics and values are only sent to clients that join its room.
+let scorecardRoom: string | null = null;
+
+export const joinScorecardRoom = (scorecardId: string) => {
+  scorecardRoom = scorecardId;
+  if (socket) {
+    socket.emit('join_scorecard', scorecardId);
+  }
+};
+
+// Called when the server rejects a request because the session has ended
+let onUnauthorized: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
 // Connect to socket.io server
 export const connectSocket = (onUpdate: () => void) => {
   if (socket) return;
 
+  // Send the session cookie with the handshake; the server refuses connections that aren't signed in
   socket = process.env.NODE_ENV === 'production'
-  ? io()
-  : io(process.env.REACT_APP_API_URL || 'http://localhost:3001');
+  ? io({ withCredentials: true })
+  : io(process.env.REACT_APP_API_URL || 'http://localhost:3001', { withCredentials: true });
 
   // Event listeners for real-time updates
   socket.on('connect', () => {
     console.log('Connected to server socket:', socket.id);
+    // Rooms don't survive a reconnection, so rejoin every time
+    if (scorecardRoom) {
+      socket.emit('join_scorecard', scorecardRoom);
+    }
   });
 
   socket.on('disconnect', () => {
@@ -63,6 +96,27 @@ export const connectSocket = (onUpdate: () => void) => {
     onUpdate();
   });
 
+  socket.on('metrics_reordered', () => {
+    console.log('Metrics reordered event received');
+    onUpdate();
+  });
+
+  // Scorecard events
+  socket.on('scorecard_created', () => {
+    console.log('Scorecard created event received');
+    onUpdate();
+  });
+
+  socket.on('scorecard_updated', () => {
+    console.log('Scorecard updated event received');
+    onUpdate();
+  });
+
+  socket.on('scorecard_deleted', () => {
+    console.log('Scorecard deleted event received');
+    onUpdate();
+  });
+
   // Weekly value events
   socket.on('weekly_value_created', () => {
     console.log('Weekly value created event received');
@@ -74,12 +128,66 @@ export const connectSocket = (onUpdate: () => void) => {
     onUpdate();
   });
 
+  socket.on('weekly_value_deleted', () => {
+    console.log('Weekly value deleted event received');
+    onUpdate();
+  });
+
+  socket.on('weekly_values_imported', () => {
+    console.log('Weekly values imported event received');
+    onUpdate();
+  });
+
+  // User events
+  socket.on('user_created', () => {
+    console.log('User created event received');
+    onUpdate();
+  });
+
+  socket.on('user_updated', () => {
+    console.log('User updated event received');
+    onUpdate();
+  });
+
+  socket.on('user_deleted', () => {
+    console.log('User deleted event received');
+    onUpdate();
+  });
+
+  // Comment events
+  socket.on('comment_created', () => {
+    console.log('Comment created event received');
+    onUpdate();
+  });
+
+  socket.on('comment_deleted', () => {
+    console.log('Comment deleted event received');
+    onUpdate();
+  });
+
   // Week events
   socket.on('weeks_updated', () => {
     console.log('Weeks updated event received');
     onUpdate();
   });
 
+  // Settings events
+  socket.on('settings_updated', () => {
+    console.log('Settings updated event received');
+    onUpdate();
+  });
+
+  // Database events
+  socket.on('database_restored', () => {
+    console.log('Database restored event received');
+    onUpdate();
+  });
+
+  socket.on('eos_imported', () => {
+    console.log('EOS import event received');
+    onUpdate();
+  });
+
   return () => {
     // Clean up socket connection
     if (socket) {
@@ -94,15 +202,20 @@ const fetchApi = async <T>(url: string, options: RequestInit = {}): Promise<T> =
   try {
     const response = await fetch(`${API_URL}${url}`, {
       ...options,
+      credentials: 'include',
       headers: {
         'Content-Type': 'application/json',
         ...options.headers
       }
     });
 
+    if (response.status === 401 && onUnauthorized) {
+      onUnauthorized();
+    }
+
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.error || `API Error: ${response.status}`);
+      throw new ApiError(errorData.error || `API Error: ${response.status}`, response.status);
     }
 
     return await response.json();
@@ -112,6 +225,59 @@ const fetchApi = async <T>(url: string, options: RequestInit = {}): Promise<T> =
   }
 };
 
+// Auth API
+export const getAuthStatusApi = async (): Promise<AuthStatus> => {
+  return fetchApi<AuthStatus>('/auth/status');
+};
+
+export const setupAdminApi = async (admin: AdminSetup): Promise<User> => {
+  return fetchApi<User>('/auth/setup', {
+    method: 'POST',
+    body: JSON.stringify(admin)
+  });
+};
+
+export const loginApi = async (username: string, password: string): Promise<User> => {
+  return fetchApi<User>('/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+};
+
+export const logoutApi = async (): Promise<void> => {
+  await fetchApi<{success: boolean}>('/auth/logout', { method: 'POST' });
+};
+
+// Users API
+export const getUsersApi = async (): Promise<User[]> => {
+  return fetchApi<User[]>('/users');
+};
+
+export const createUserApi = async (personId: string, username: string, password: string, role: Role): Promise<User> => {
+  return fetchApi<User>('/users', {
+    method: 'POST',
+    body: JSON.stringify({ personId, username, password, role })
+  });
+};
+
+export const updateUserRoleApi = async (userId: string, role: Role): Promise<User> => {
+  return fetchApi<User>(`/users/${userId}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role })
+  });
+};
+
+export const changePasswordApi = async (userId: string, password: string, currentPassword?: string): Promise<void> => {
+  await fetchApi<{id: string, updated: boolean}>(`/users/${userId}/password`, {
+    method: 'PUT',
+    body: JSON.stringify({ password, currentPassword })
+  });
+};
+
+export const deleteUserApi = async (id: string): Promise<void> => {
+  await fetchApi<{id: string, deleted: boolean}>(`/users/${id}`, { method: 'DELETE' });
+};
+
 // People API
 export const getPeopleApi = async (): Promise<Person[]> => {
   return fetchApi<Person[]>('/people');
@@ -155,9 +321,92 @@ export const deletePersonApi = async (id: string): Promise<boolean> => {
   }
 };
 
+// Deactivate someone who has left, moving each of their metrics to a new owner
+export const deactivatePersonApi = async (id: string, reassignments: OwnerReassignment[]): Promise<Person> => {
+  const result = await fetchApi<{person: Person, reassigned: number}>(`/people/${id}/deactivate`, {
+    method: 'POST',
+    body: JSON.stringify({ reassignments })
+  });
+  return result.person;
+};
+
+export const reactivatePersonApi = async (id: string): Promise<Person> => {
+  return fetchApi<Person>(`/people/${id}/reactivate`, { method: 'POST' });
+};
+
+// A scorecard's values as a CSV file, named as the server suggests
+export const exportCsvApi = async (scorecardId: string, options: CsvExportOptions): Promise<{ filename: string, csv: string }> => {
+  const params = new URLSearchParams({ scorecardId, format: options.format });
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+
+  const response = await fetch(`${API_URL}/export/csv?${params}`, { credentials: 'include' });
+  if (response.status === 401 && onUnauthorized) {
+    onUnauthorized();
+  }
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new ApiError(errorData.error || `API Error: ${response.status}`, response.status);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'scorecard.csv';
+  return { filename, csv: await response.text() };
+};
+
+// The whole database as a JSON backup file, named as the server suggests
+export const exportBackupApi = async (): Promise<{ filename: string, json: string }> => {
+  const response = await fetch(`${API_URL}/export/json`, { credentials: 'include' });
+  if (response.status === 401 && onUnauthorized) {
+    onUnauthorized();
+  }
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new ApiError(errorData.error || `API Error: ${response.status}`, response.status);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || 'levelten-backup.json';
+  return { filename, json: await response.text() };
+};
+
+export const restoreBackupApi = async (snapshot: unknown, mode: RestoreMode): Promise<RestoreResult> => {
+  return fetchApi<RestoreResult>('/import/json', {
+    method: 'POST',
+    body: JSON.stringify({ snapshot, mode })
+  });
+};
+
+// Scorecards API
+export const getScorecardsApi = async (): Promise<ScorecardInfo[]> => {
+  return fetchApi<ScorecardInfo[]>('/scorecards');
+};
+
+export const saveScorecardApi = async (scorecard: Omit<ScorecardInfo, 'id'> & { id?: string }): Promise<ScorecardInfo> => {
+  if (scorecard.id) {
+    return fetchApi<ScorecardInfo>(`/scorecards/${scorecard.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(scorecard)
+    });
+  } else {
+    return fetchApi<ScorecardInfo>('/scorecards', {
+      method: 'POST',
+      body: JSON.stringify(scorecard)
+    });
+  }
+};
+
+export const deleteScorecardApi = async (id: string): Promise<void> => {
+  await fetchApi<{id: string, deleted: boolean}>(`/scorecards/${id}`, { method: 'DELETE' });
+};
+
+// Query string limiting a list to one scorecard's metrics, or all of them when no scorecard is given
+const scorecardQuery = (scorecardId?: string) =>
+  scorecardId ? `?scorecardId=${encodeURIComponent(scorecardId)}` : '';
+
 // Metrics API
-export const getMetricsApi = async (): Promise<Metric[]> => {
-  return fetchApi<Metric[]>('/metrics');
+export const getMetricsApi = async (scorecardId?: string): Promise<Metric[]> => {
+  return fetchApi<Metric[]>(`/metrics${scorecardQuery(scorecardId)}`);
 };
 
 export const saveMetricApi = async (metric: Metric): Promise<Metric> => {
@@ -177,13 +426,29 @@ export const saveMetricApi = async (metric: Metric): Promise<Metric> => {
   }
 };
 
-export const reorderMetricsApi = async (metrics: Metric[]): Promise<{message: string}> => {
+// Recreate a deleted metric under its original ID (used to undo a deletion)
+export const restoreMetricApi = async (metric: Metric): Promise<Metric> => {
+  return fetchApi<Metric>('/metrics', {
+    method: 'POST',
+    body: JSON.stringify(metric)
+  });
+};
+
+export const reorderMetricsApi = async (metrics: Metric[], scorecardId: string): Promise<{message: string}> => {
   return fetchApi<{message: string}>('/metrics/reorder', {
     method: 'POST',
-    body: JSON.stringify({ metrics })
+    body: JSON.stringify({ metrics, scorecardId })
   });
 };
 
+export const archiveMetricApi = async (id: string): Promise<void> => {
+  await fetchApi<{id: string, archivedAt: string}>(`/metrics/${id}/archive`, { method: 'POST' });
+};
+
+export const unarchiveMetricApi = async (id: string): Promise<void> => {
+  await fetchApi<{id: string, archivedAt: null}>(`/metrics/${id}/unarchive`, { method: 'POST' });
+};
+
 export const deleteMetricApi = async (id: string): Promise<boolean> => {
   if (!id) {
     throw new Error('Cannot delete metric without an ID');
@@ -195,6 +460,29 @@ export const deleteMetricApi = async (id: string): Promise<boolean> => {
   return true;
 };
 
+// Metric target history API
+export const getMetricTargetsApi = async (metricId: string): Promise<TargetChange[]> => {
+  return fetchApi<TargetChange[]>(`/metrics/${metricId}/targets`);
+};
+
+export const scheduleMetricTargetApi = async (
+  metricId: string,
+  target: Target,
+  effectiveFrom: string
+): Promise<TargetChange> => {
+  return fetchApi<TargetChange>(`/metrics/${metricId}/targets`, {
+    method: 'POST',
+    body: JSON.stringify({ target, effectiveFrom })
+  });
+};
+
+export const deleteMetricTargetApi = async (metricId: string, targetId: string): Promise<boolean> => {
+  await fetchApi<{id: string, deleted: boolean}>(`/metrics/${metricId}/targets/${targetId}`, {
+    method: 'DELETE'
+  });
+  return true;
+};
+
 // Weeks API
 export const getWeeksApi = async (): Promise<Week[]> => {
   return fetchApi<Week[]>('/weeks');
@@ -207,8 +495,8 @@ export const updateWeeksApi = async (): Promise<{message: string, newWeeks: Week
 };
 
 // Weekly Values API
-export const getWeeklyValuesApi = async (): Promise<WeeklyValue[]> => {
-  return fetchApi<WeeklyValue[]>('/weekly-values');
+export const getWeeklyValuesApi = async (scorecardId?: string): Promise<WeeklyValue[]> => {
+  return fetchApi<WeeklyValue[]>(`/weekly-values${scorecardQuery(scorecardId)}`);
 };
 
 export const saveWeeklyValueApi = async (value: WeeklyValue): Promise<WeeklyValue> => {
@@ -218,6 +506,70 @@ export const saveWeeklyValueApi = async (value: WeeklyValue): Promise<WeeklyValu
   });
 };
 
+export const deleteWeeklyValueApi = async (metricId: string, weekId: string): Promise<boolean> => {
+  await fetchApi<{metricId: string, weekId: string, deleted: boolean}>(`/weekly-values/${metricId}/${weekId}`, {
+    method: 'DELETE'
+  });
+  return true;
+};
+
+// Saves many values at once, or with dryRun only reports what saving them would do
+export const importWeeklyValuesApi = async (values: ImportValue[], dryRun: boolean): Promise<ImportReport> => {
+  return fetchApi<ImportReport>('/weekly-values/import', {
+    method: 'POST',
+    body: JSON.stringify({ values, dryRun })
+  });
+};
+
+// Value comments API
+export const getCommentsApi = async (): Promise<ValueComment[]> => {
+  return fetchApi<ValueComment[]>('/comments');
+};
+
+// The comment's author is the signed-in user
+export const createCommentApi = async (metricId: string, weekId: string, body: string): Promise<ValueComment> => {
+  return fetchApi<ValueComment>('/comments', {
+    method: 'POST',
+    body: JSON.stringify({ metricId, weekId, body })
+  });
+};
+
+export const deleteCommentApi = async (id: string): Promise<boolean> => {
+  await fetchApi<{id: string, deleted: boolean}>(`/comments/${id}`, {
+    method: 'DELETE'
+  });
+  return true;
+};
+
+// Rollups API
+export const getRollupsApi = async (period: RollupPeriodType): Promise<Rollup> => {
+  return fetchApi<Rollup>(`/rollups?period=${period}`);
+};
+
+// Audit log API
+export const getAuditApi = async (filters: AuditFilters = {}): Promise<AuditPage> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return fetchApi<AuditPage>(`/audit${query ? `?${query}` : ''}`);
+};
+
+// Organization settings API
+export const getSettingsApi = async (): Promise<OrgSettings> => {
+  return fetchApi<OrgSettings>('/settings');
+};
+
+export const saveSettingsApi = async (settings: OrgSettings): Promise<OrgSettings> => {
+  return fetchApi<OrgSettings>('/settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings)
+  });
+};
+
 // Database status and initialization APIs
 export const getDatabaseStatusApi = async (): Promise<DatabaseStatus> => {
   return fetchApi<DatabaseStatus>('/status');
@@ -229,9 +581,15 @@ export const initializeSampleDataApi = async (): Promise<{success: boolean, mess
   });
 };
 
-export const initializeEosDataApi = async (data: any): Promise<{success: boolean, message: string}> => {
-  return fetchApi<{success: boolean, message: string}>('/initialize/eos', {
+export const getEosImportFormatsApi = async (): Promise<EosImportFormat[]> => {
+  return fetchApi<EosImportFormat[]>('/import/eos/formats');
+};
+
+// Import an EOS tool's export (parsed JSON, or the text of a CSV) onto a scorecard (the first
+// if none is given), or with dryRun only report what importing it would do
+export const importEosDataApi = async (format: string, data: unknown, dryRun: boolean, scorecardId?: string): Promise<EosImportReport> => {
+  return fetchApi<EosImportReport>('/import/eos', {
     method: 'POST',
-    body: JSON.stringify({ data })
+    body: JSON.stringify({ format, data, dryRun, scorecardId })
   });
 };
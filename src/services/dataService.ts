@@ -1,4 +1,5 @@
-import { Metric, Person, Week, WeeklyValue } from '../models/types';
+import { Metric, OrgSettings, OwnerReassignment, Person, Week, WeeklyValue } from '../models/types';
+import { DEFAULT_ORG_SETTINGS, recentCompletedWeeks } from '../models/calendar';
 
 // Local storage keys
 const METRICS_KEY = 'scorecard_metrics';
@@ -88,6 +89,23 @@ export const saveWeeklyValues = (values: WeeklyValue[]): void => {
   localStorage.setItem(VALUES_KEY, JSON.stringify(allValues));
 };
 
+// Archive a metric, hiding it from the scorecard while keeping its values
+export const archiveMetric = (id: string): void => {
+  const metrics = getMetrics().map(m => m.id === id ? { ...m, archivedAt: m.archivedAt || new Date().toISOString() } : m);
+  localStorage.setItem(METRICS_KEY, JSON.stringify(metrics));
+};
+
+export const unarchiveMetric = (id: string): void => {
+  const metrics = getMetrics().map(m => {
+    if (m.id !== id) {
+      return m;
+    }
+    const { archivedAt, ...active } = m;
+    return active;
+  });
+  localStorage.setItem(METRICS_KEY, JSON.stringify(metrics));
+};
+
 // Delete operations
 export const deleteMetric = (id: string): void => {
   const metrics = getMetrics().filter(m => m.id !== id);
@@ -138,6 +156,31 @@ export const deletePerson = (id: string): boolean => {
   return true;
 };
 
+// Deactivate someone who has left, moving each of their metrics to a new owner
+export const deactivatePerson = (id: string, reassignments: OwnerReassignment[]): void => {
+  const people = getPeople();
+  const metrics = getMetrics().map(metric => {
+    const reassignment = reassignments.find(r => r.metricId === metric.id);
+    const owner = reassignment && people.find(p => p.id === reassignment.ownerId);
+    return owner ? { ...metric, owner } : metric;
+  });
+  localStorage.setItem(METRICS_KEY, JSON.stringify(metrics));
+
+  const updated = people.map(p => p.id === id ? { ...p, deactivatedAt: new Date().toISOString() } : p);
+  localStorage.setItem(PEOPLE_KEY, JSON.stringify(updated));
+};
+
+export const reactivatePerson = (id: string): void => {
+  const people = getPeople().map(p => {
+    if (p.id !== id) {
+      return p;
+    }
+    const { deactivatedAt, ...active } = p;
+    return active;
+  });
+  localStorage.setItem(PEOPLE_KEY, JSON.stringify(people));
+};
+
 export const deleteWeek = (id: string): void => {
   const weeks = getWeeks().filter(w => w.id !== id);
   localStorage.setItem(WEEKS_KEY, JSON.stringify(weeks));
@@ -164,7 +207,7 @@ export const createWeek = (name: string, startDate: Date): Week => {
 };
 
 // Initialize with sample data if empty
-export const initializeWithSampleData = (): void => {
+export const initializeWithSampleData = (settings: OrgSettings = DEFAULT_ORG_SETTINGS): void => {
   if (getPeople().length > 0) return; // Don't initialize if data exists
   
   // Sample people
@@ -196,34 +239,12 @@ export const initializeWithSampleData = (): void => {
     }
   ];
   
-  // Sample weeks - start on Mondays
-  const now = new Date();
-  const weeks: Week[] = [];
-  
-  // Find the most recent completed Monday (previous week's Monday)
-  const mostRecentCompletedMonday = new Date(now);
-  // Go back to previous week's Monday
-  mostRecentCompletedMonday.setDate(now.getDate() - 7 - (now.getDay() === 0 ? 6 : now.getDay() - 1));
-  mostRecentCompletedMonday.setHours(0, 0, 0, 0);
-  
-  // Generate 12 weeks of data (all previous completed weeks)
-  for (let i = 0; i < 12; i++) {
-    const startDate = new Date(mostRecentCompletedMonday);
-    startDate.setDate(startDate.getDate() - (i * 7)); // Previous weeks
-    
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + 6); // Sunday
-    
-    // Only add completed weeks
-    if (endDate < now) {
-      weeks.push({
-        id: `week-${i + 1}`,
-        name: `Week ${i + 1}`, // We'll display formatted date ranges instead
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString()
-      });
-    }
-  }
+  // Sample weeks - 12 previous completed weeks, starting on the organization's week start day
+  const weeks: Week[] = recentCompletedWeeks(12, settings).map((bounds, i) => ({
+    id: `week-${i + 1}`,
+    name: `Week ${i + 1}`, // We'll display formatted date ranges instead
+    ...bounds
+  }));
   
   // Sample weekly values
   const weeklyValues: WeeklyValue[] = [];